@@ -0,0 +1,53 @@
+/**
+ * Minimal WebSocket relay for collaborative editing.
+ * Forwards every message to the other clients in the same room
+ * (ws://host:port/?room=<documentId>). It keeps no document state; peers
+ * sync with each other through it.
+ *
+ * Usage: bun run collab-server [port]   (default 1234)
+ */
+import { type ServerWebSocket, serve } from "bun";
+
+interface ClientData {
+  room: string;
+}
+
+const port = Number(process.argv[2] ?? process.env.PORT ?? 1234);
+const rooms = new Map<string, Set<ServerWebSocket<ClientData>>>();
+
+const server = serve<ClientData>({
+  port,
+  fetch(request, server) {
+    const room = new URL(request.url).searchParams.get("room");
+    if (!room) {
+      return new Response("Missing ?room=", { status: 400 });
+    }
+    if (server.upgrade(request, { data: { room } })) {
+      return;
+    }
+    return new Response("Expected a WebSocket upgrade", { status: 426 });
+  },
+  websocket: {
+    open(ws) {
+      const clients = rooms.get(ws.data.room) ?? new Set();
+      clients.add(ws);
+      rooms.set(ws.data.room, clients);
+    },
+    message(ws, message) {
+      for (const client of rooms.get(ws.data.room) ?? []) {
+        if (client !== ws) {
+          client.send(message);
+        }
+      }
+    },
+    close(ws) {
+      const clients = rooms.get(ws.data.room);
+      clients?.delete(ws);
+      if (clients?.size === 0) {
+        rooms.delete(ws.data.room);
+      }
+    },
+  },
+});
+
+console.log(`Collaboration relay listening on ws://localhost:${server.port}`);
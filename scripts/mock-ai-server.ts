@@ -0,0 +1,151 @@
+/**
+ * Local stand-in for an OpenAI-compatible chat completions API, answering
+ * with the editor's canned mock responses. Point the app (or anything else
+ * that speaks the API) at it to test the HTTP provider end to end:
+ *
+ *   bun run mock-ai-server [port]   (default 8787)
+ *   VITE_AI_URL=http://localhost:8787/v1 bun run dev
+ *
+ * Supports POST /v1/chat/completions (with and without "stream") and
+ * GET /v1/models.
+ */
+import { serve } from "bun";
+import {
+  SUGGESTIONS_SYSTEM_PROMPT,
+  TRANSFORM_SYSTEM_PROMPT,
+} from "../src/lib/ai-provider";
+import { createMockAIProvider } from "../src/lib/mock-ai-provider";
+
+interface ChatMessage {
+  role: string;
+  content: string;
+}
+
+interface ChatCompletionRequest {
+  model?: string;
+  messages?: ChatMessage[];
+  stream?: boolean;
+}
+
+const MODEL = "mock-block-editor";
+const port = Number(process.argv[2] ?? process.env.PORT ?? 8787);
+const provider = createMockAIProvider({ delay: 300 });
+const encoder = new TextEncoder();
+// The text section of buildTransformPrompt's message
+const TRANSFORM_TEXT_REGEX = /<text>\n([\s\S]*)\n<\/text>$/;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status, headers: CORS_HEADERS });
+}
+
+function sseEvent(data: unknown): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+function completion(id: string, content: string): Response {
+  return json({
+    id,
+    object: "chat.completion",
+    model: MODEL,
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content },
+        finish_reason: "stop",
+      },
+    ],
+  });
+}
+
+/** Stream the mock output as chat completion chunks */
+function streamCompletion(id: string, chunks: AsyncIterable<string>) {
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for await (const content of chunks) {
+        controller.enqueue(
+          sseEvent({
+            id,
+            object: "chat.completion.chunk",
+            model: MODEL,
+            choices: [{ index: 0, delta: { content }, finish_reason: null }],
+          })
+        );
+      }
+      controller.enqueue(
+        sseEvent({
+          id,
+          object: "chat.completion.chunk",
+          model: MODEL,
+          choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+        })
+      );
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: { ...CORS_HEADERS, "Content-Type": "text/event-stream" },
+  });
+}
+
+async function handleChatCompletion(request: Request): Promise<Response> {
+  const { messages = [], stream } =
+    (await request.json()) as ChatCompletionRequest;
+  const systemPrompt =
+    messages.find((message) => message.role === "system")?.content ?? "";
+  const prompt =
+    messages.findLast((message) => message.role === "user")?.content ?? "";
+  const id = `chatcmpl-${crypto.randomUUID()}`;
+
+  if (systemPrompt === SUGGESTIONS_SYSTEM_PROMPT) {
+    const suggestions = await provider.suggest(prompt);
+    return completion(id, JSON.stringify(suggestions));
+  }
+
+  if (systemPrompt === TRANSFORM_SYSTEM_PROMPT) {
+    // The instruction is the message's first paragraph
+    const [instruction] = prompt.split("\n\n");
+    const text = prompt.match(TRANSFORM_TEXT_REGEX)?.[1] ?? "";
+    const content = await provider.transformText({
+      instruction,
+      text,
+      context: "",
+    });
+    return completion(id, content);
+  }
+
+  if (stream) {
+    return streamCompletion(
+      id,
+      provider.streamBlocks({ systemPrompt, prompt })
+    );
+  }
+
+  const content = await provider.generateBlocks({ systemPrompt, prompt });
+  return completion(id, content);
+}
+
+const server = serve({
+  port,
+  fetch(request) {
+    const { pathname } = new URL(request.url);
+    if (request.method === "OPTIONS") {
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+    if (request.method === "GET" && pathname === "/v1/models") {
+      return json({ object: "list", data: [{ id: MODEL, object: "model" }] });
+    }
+    if (request.method === "POST" && pathname === "/v1/chat/completions") {
+      return handleChatCompletion(request);
+    }
+    return json({ error: { message: `Not found: ${pathname}` } }, 404);
+  },
+});
+
+console.log(`Mock AI server listening on http://localhost:${server.port}/v1`);
@@ -1,7 +1,95 @@
+import { FileText, Plus } from "lucide-react";
+import { useCallback } from "react";
 import { BlockEditor } from "./components/block-editor";
+import { DocumentLibrary } from "./components/document-library";
+import { useDocumentLibrary } from "./hooks/use-document-library";
+import { cancelPendingSave } from "./hooks/use-document-store";
+import { useRoute } from "./hooks/use-route";
 
 function App() {
-  return <BlockEditor />;
+  const { route, navigate } = useRoute();
+  const {
+    documents,
+    quarantinedDocuments,
+    isLoading,
+    createDocument,
+    duplicateDocument,
+    renameDocument,
+    deleteDocument,
+  } = useDocumentLibrary();
+
+  const activeDocumentId =
+    route.name === "document" ? route.documentId : undefined;
+
+  const openDocument = useCallback(
+    (documentId: string) => navigate({ name: "document", documentId }),
+    [navigate]
+  );
+
+  const handleCreateDocument = useCallback(async () => {
+    const document = await createDocument();
+    openDocument(document.id);
+  }, [createDocument, openDocument]);
+
+  const handleDuplicateDocument = useCallback(
+    async (documentId: string) => {
+      const copy = await duplicateDocument(documentId);
+      if (copy) {
+        openDocument(copy.id);
+      }
+    },
+    [duplicateDocument, openDocument]
+  );
+
+  const handleDeleteDocument = useCallback(
+    async (documentId: string) => {
+      // Drop the document's pending auto-save so the editor doesn't flush it
+      // when it unmounts and re-create the document after the delete
+      cancelPendingSave(documentId);
+      if (documentId === activeDocumentId) {
+        navigate({ name: "library" }, { replace: true });
+      }
+      await deleteDocument(documentId);
+    },
+    [activeDocumentId, deleteDocument, navigate]
+  );
+
+  return (
+    <div className="flex min-h-screen bg-surface-50 dark:bg-surface-900">
+      <DocumentLibrary
+        activeDocumentId={activeDocumentId}
+        className="sticky top-0"
+        documents={documents}
+        isLoading={isLoading}
+        onCreateDocument={handleCreateDocument}
+        onDeleteDocument={handleDeleteDocument}
+        onDuplicateDocument={handleDuplicateDocument}
+        onRenameDocument={renameDocument}
+        onSelectDocument={openDocument}
+        quarantinedDocuments={quarantinedDocuments}
+      />
+
+      <div className="min-w-0 flex-1">
+        {activeDocumentId ? (
+          // Remount per document so each gets a fresh store and undo history
+          <BlockEditor documentId={activeDocumentId} key={activeDocumentId} />
+        ) : (
+          <div className="flex min-h-screen flex-col items-center justify-center gap-4 text-surface-400">
+            <FileText className="h-10 w-10" />
+            <p className="text-sm">Select a document or create a new one</p>
+            <button
+              className="flex items-center gap-2 rounded-lg bg-accent px-4 py-2 font-medium text-sm text-white transition-colors hover:bg-accent/90"
+              onClick={handleCreateDocument}
+              type="button"
+            >
+              <Plus className="h-4 w-4" />
+              New document
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
 }
 
 export default App;
@@ -0,0 +1,144 @@
+import { ChevronRight, Sparkles } from "lucide-react";
+import { createContext, useContext, useState } from "react";
+import {
+  AI_BASIC_ACTIONS,
+  AI_LANGUAGES,
+  AI_TONES,
+  type AIBlockAction,
+  getAIActionLabel,
+} from "@/lib/ai-actions";
+import { cn } from "@/lib/utils";
+
+type AIActionHandler = (action: AIBlockAction) => void;
+
+const AIActionContext = createContext<AIActionHandler | null>(null);
+
+interface AIActionProviderProps {
+  /** Runs an action on the surrounding block; null disables AI actions */
+  onAction: AIActionHandler | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Lets rich text editors inside a block offer AI actions for that block
+ * (e.g. in the bubble menu) without passing handlers through every renderer.
+ */
+export function AIActionProvider({
+  onAction,
+  children,
+}: AIActionProviderProps) {
+  return (
+    <AIActionContext.Provider value={onAction}>
+      {children}
+    </AIActionContext.Provider>
+  );
+}
+
+/**
+ * The AI action handler of the surrounding block, or null if it has none
+ */
+export function useAIAction(): AIActionHandler | null {
+  return useContext(AIActionContext);
+}
+
+const ITEM_CLASS =
+  "flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-surface-700 hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700";
+
+type Submenu = "tone" | "translate";
+
+interface AIActionMenuProps {
+  onSelect: AIActionHandler;
+  className?: string;
+}
+
+/**
+ * Dropdown listing the AI actions; tones and languages fold out in place.
+ */
+export function AIActionMenu({ onSelect, className }: AIActionMenuProps) {
+  const [submenu, setSubmenu] = useState<Submenu | null>(null);
+
+  const toggle = (name: Submenu) =>
+    setSubmenu((open) => (open === name ? null : name));
+
+  return (
+    <div
+      className={cn(
+        "z-20 rounded-lg border border-surface-200 bg-white py-1 shadow-lg dark:border-surface-700 dark:bg-surface-800",
+        "max-h-80 min-w-[180px] overflow-y-auto",
+        "animate-scale-in",
+        className
+      )}
+    >
+      <p className="flex items-center gap-1.5 px-3 py-1 font-medium text-accent text-xs">
+        <Sparkles className="h-3.5 w-3.5" />
+        Ask AI
+      </p>
+      {AI_BASIC_ACTIONS.map((action) => (
+        <button
+          className={ITEM_CLASS}
+          key={action.type}
+          onClick={() => onSelect(action)}
+          type="button"
+        >
+          {getAIActionLabel(action)}
+        </button>
+      ))}
+
+      <SubmenuToggle
+        isOpen={submenu === "tone"}
+        label="Change tone"
+        onClick={() => toggle("tone")}
+      />
+      {submenu === "tone" &&
+        AI_TONES.map((tone) => (
+          <button
+            className={cn(ITEM_CLASS, "pl-6 capitalize")}
+            key={tone}
+            onClick={() => onSelect({ type: "tone", tone })}
+            type="button"
+          >
+            {tone}
+          </button>
+        ))}
+
+      <SubmenuToggle
+        isOpen={submenu === "translate"}
+        label="Translate"
+        onClick={() => toggle("translate")}
+      />
+      {submenu === "translate" &&
+        AI_LANGUAGES.map((language) => (
+          <button
+            className={cn(ITEM_CLASS, "pl-6")}
+            key={language}
+            onClick={() => onSelect({ type: "translate", language })}
+            type="button"
+          >
+            {language}
+          </button>
+        ))}
+    </div>
+  );
+}
+
+interface SubmenuToggleProps {
+  label: string;
+  isOpen: boolean;
+  onClick: () => void;
+}
+
+function SubmenuToggle({ label, isOpen, onClick }: SubmenuToggleProps) {
+  return (
+    <button
+      aria-expanded={isOpen}
+      className={cn(ITEM_CLASS, "justify-between")}
+      onClick={onClick}
+      type="button"
+    >
+      {label}
+      <ChevronRight
+        className={cn("h-4 w-4 transition-transform", isOpen && "rotate-90")}
+      />
+    </button>
+  );
+}
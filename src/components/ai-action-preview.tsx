@@ -0,0 +1,117 @@
+import { Check, Loader2, RotateCcw, Sparkles, X } from "lucide-react";
+import type { AIBlockActionState } from "@/hooks/use-ai-block-action";
+import { getAIActionLabel } from "@/lib/ai-actions";
+import { sanitizeHtml } from "@/lib/clipboard-parser";
+
+const BUTTON_CLASS =
+  "flex items-center gap-1 rounded-md px-2 py-1 text-surface-600 text-xs transition-colors hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700";
+
+interface AIActionPreviewProps {
+  state: AIBlockActionState;
+  /** The block changed since the action was run */
+  isStale: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+  onRetry: () => void;
+}
+
+/**
+ * Shown under a block while an AI action runs, then the original and the
+ * suggestion side by side so the change can be accepted or rejected.
+ */
+export function AIActionPreview({
+  state,
+  isStale,
+  onAccept,
+  onReject,
+  onRetry,
+}: AIActionPreviewProps) {
+  const { status, action, original, suggestion, failure } = state;
+
+  return (
+    <div className="mt-2 rounded-lg border border-accent/30 bg-accent/5 px-4 py-3">
+      <div className="mb-2 flex items-center gap-1.5 font-medium text-accent text-xs">
+        <Sparkles className="h-3.5 w-3.5 shrink-0" />
+        <span className="flex-1">{getAIActionLabel(action)}</span>
+        {status === "loading" && (
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+        )}
+      </div>
+
+      {status === "failed" && (
+        <p className="mb-2 text-amber-600 text-xs dark:text-amber-400">
+          AI action failed: {failure}
+        </p>
+      )}
+
+      {status === "ready" && isStale && (
+        <p className="mb-2 text-amber-600 text-xs dark:text-amber-400">
+          The block changed since this was suggested. Try again to use its
+          current text.
+        </p>
+      )}
+
+      {status !== "failed" && (
+        <div className="mb-3 grid grid-cols-2 gap-3">
+          <PreviewPane html={original} label="Original" />
+          <PreviewPane
+            html={suggestion}
+            isLoading={status === "loading"}
+            label="Suggestion"
+          />
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {status === "ready" && !isStale && (
+          <button
+            className="flex items-center gap-1 rounded-md bg-accent px-2 py-1 text-white text-xs hover:bg-accent/90"
+            onClick={onAccept}
+            type="button"
+          >
+            <Check className="h-3 w-3" />
+            Accept
+          </button>
+        )}
+        {status !== "loading" && (
+          <button className={BUTTON_CLASS} onClick={onRetry} type="button">
+            <RotateCcw className="h-3 w-3" />
+            Try again
+          </button>
+        )}
+        <button className={BUTTON_CLASS} onClick={onReject} type="button">
+          <X className="h-3 w-3" />
+          {status === "loading" ? "Stop" : "Reject"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface PreviewPaneProps {
+  label: string;
+  html: string | null;
+  isLoading?: boolean;
+}
+
+function PreviewPane({ label, html, isLoading }: PreviewPaneProps) {
+  return (
+    <div className="min-w-0 rounded-md border border-surface-200 bg-white p-3 dark:border-surface-700 dark:bg-surface-800">
+      <p className="mb-1 font-medium text-[10px] text-surface-400 uppercase tracking-wide">
+        {label}
+      </p>
+      {isLoading ? (
+        <div className="space-y-2 pt-1">
+          <div className="h-3 animate-pulse rounded-sm bg-surface-200 dark:bg-surface-700" />
+          <div className="h-3 w-2/3 animate-pulse rounded-sm bg-surface-200 dark:bg-surface-700" />
+        </div>
+      ) : (
+        <div
+          className="prose prose-sm prose-stone dark:prose-invert max-w-none break-words"
+          // biome-ignore lint/security/noDangerouslySetInnerHtml: Sanitized with sanitizeHtml
+          dangerouslySetInnerHTML={{ __html: sanitizeHtml(html ?? "") }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { Loader2, Sparkles, Square, TriangleAlert } from "lucide-react";
+import type { AIGeneration } from "@/hooks/use-ai-generation";
+import { MAX_AI_ATTEMPTS } from "@/lib/ai";
+import { formatAIBlockError } from "@/lib/ai-validation";
+import { cn } from "@/lib/utils";
+
+// Validation errors listed before "and N more"
+const MAX_LISTED_AI_ERRORS = 4;
+
+const BUTTON_CLASS =
+  "rounded-md px-2 py-1 text-surface-600 text-xs transition-colors hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700";
+
+function pluralizeBlocks(count: number): string {
+  return `${count} ${count === 1 ? "block" : "blocks"}`;
+}
+
+interface AIGenerationPanelProps {
+  generation: AIGeneration;
+  onCancel: () => void;
+  onKeep: () => void;
+  onDiscard: () => void;
+  onRetry: () => void;
+}
+
+/**
+ * Shown in the document where AI blocks are being inserted: a placeholder
+ * with a stop button while streaming, then what to do with a stopped or
+ * partly invalid result.
+ */
+export function AIGenerationPanel({
+  generation,
+  onCancel,
+  onKeep,
+  onDiscard,
+  onRetry,
+}: AIGenerationPanelProps) {
+  const { status, blockCount, errors, attempt, failure } = generation;
+
+  if (status === "streaming") {
+    return (
+      <div
+        aria-live="polite"
+        className="flex animate-pulse items-center gap-3 rounded-lg border border-accent/30 border-dashed bg-accent/5 px-4 py-3"
+      >
+        <Sparkles className="h-4 w-4 shrink-0 text-accent" />
+        <span className="flex-1 truncate text-sm text-surface-500">
+          Generating “{generation.prompt}”
+          {blockCount > 0 && ` · ${pluralizeBlocks(blockCount)} so far`}
+        </span>
+        <Loader2 className="h-4 w-4 animate-spin text-accent" />
+        <button
+          className={cn(BUTTON_CLASS, "flex items-center gap-1")}
+          onClick={onCancel}
+          type="button"
+        >
+          <Square className="h-3 w-3" />
+          Stop
+        </button>
+      </div>
+    );
+  }
+
+  const hidden = errors.length - MAX_LISTED_AI_ERRORS;
+  let summary = `Stopped after ${pluralizeBlocks(blockCount)}`;
+  if (failure) {
+    summary = `Generation failed: ${failure}`;
+  } else if (status === "done") {
+    summary = "Some of the output was invalid and was skipped";
+  }
+
+  return (
+    <div className="rounded-lg border border-surface-200 bg-surface-50 px-4 py-3 dark:border-surface-700 dark:bg-surface-800">
+      <p className="mb-2 flex items-center gap-1.5 font-medium text-amber-600 text-xs dark:text-amber-400">
+        <TriangleAlert className="h-3.5 w-3.5 shrink-0" />
+        {summary}
+      </p>
+      {errors.length > 0 && (
+        <ul className="mb-3 space-y-1 text-surface-500 text-xs">
+          {errors.slice(0, MAX_LISTED_AI_ERRORS).map((error) => (
+            <li className="break-words" key={`${error.path}:${error.message}`}>
+              {formatAIBlockError(error)}
+            </li>
+          ))}
+          {hidden > 0 && <li>…and {hidden} more</li>}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        {blockCount > 0 && (
+          <button
+            className="rounded-md bg-accent px-2 py-1 text-white text-xs hover:bg-accent/90"
+            onClick={onKeep}
+            type="button"
+          >
+            Keep {pluralizeBlocks(blockCount)}
+          </button>
+        )}
+        {blockCount > 0 && (
+          <button className={BUTTON_CLASS} onClick={onDiscard} type="button">
+            Discard
+          </button>
+        )}
+        {status === "done" && attempt < MAX_AI_ATTEMPTS && (
+          <button className={BUTTON_CLASS} onClick={onRetry} type="button">
+            Try again
+          </button>
+        )}
+        {blockCount === 0 && (
+          <button className={BUTTON_CLASS} onClick={onKeep} type="button">
+            Dismiss
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { createContext, type ReactNode, useContext } from "react";
+import type { AIProvider } from "@/lib/ai-provider";
+import { createMockAIProvider } from "@/lib/mock-ai-provider";
+
+// Used when no AIModelProvider is mounted
+const defaultProvider = createMockAIProvider();
+
+const AIProviderContext = createContext<AIProvider | undefined>(undefined);
+
+interface AIModelProviderProps {
+  provider: AIProvider;
+  children: ReactNode;
+}
+
+/**
+ * Supplies the AI provider used for block generation and suggestions below
+ * it.
+ */
+export function AIModelProvider({ provider, children }: AIModelProviderProps) {
+  return <AIProviderContext value={provider}>{children}</AIProviderContext>;
+}
+
+/**
+ * The AI provider from the nearest AIModelProvider (canned mock responses
+ * if none).
+ */
+export function useAIProvider(): AIProvider {
+  return useContext(AIProviderContext) ?? defaultProvider;
+}
+
+/**
+ * The AI provider from the nearest AIModelProvider, or undefined if none is
+ * mounted (for features with their own fallback, like suggestions).
+ */
+export function useConfiguredAIProvider(): AIProvider | undefined {
+  return useContext(AIProviderContext);
+}
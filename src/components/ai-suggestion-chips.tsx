@@ -0,0 +1,42 @@
+import { Sparkles } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface AISuggestionChipsProps {
+  suggestions: string[];
+  onSelect: (suggestion: string) => void;
+  className?: string;
+}
+
+/**
+ * Suggested AI prompts as faint chips that light up on hover.
+ */
+export function AISuggestionChips({
+  suggestions,
+  onSelect,
+  className,
+}: AISuggestionChipsProps) {
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1.5", className)}>
+      <Sparkles className="h-3.5 w-3.5 shrink-0 text-surface-300 dark:text-surface-600" />
+      {suggestions.map((suggestion) => (
+        <button
+          className={cn(
+            "rounded-full border border-surface-200 border-dashed px-2.5 py-1 text-xs",
+            "text-surface-400 dark:border-surface-700",
+            "hover:border-accent/40 hover:bg-accent/10 hover:text-accent",
+            "transition-colors"
+          )}
+          key={suggestion}
+          onClick={() => onSelect(suggestion)}
+          type="button"
+        >
+          {suggestion}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import {
+  type CollisionDetection,
+  closestCenter,
+  pointerWithin,
+  useDroppable,
+} from "@dnd-kit/core";
+import {
+  SortableContext,
+  verticalListSortingStrategy,
+} from "@dnd-kit/sortable";
+import { createContext, Fragment, useContext } from "react";
+import {
+  type BlockContainer,
+  type BlockLocation,
+  getContainerBlockIds,
+  getContainerKey,
+} from "@/lib/block-tree";
+import { sanitizeHtml } from "@/lib/clipboard-parser";
+import { blockToHtml } from "@/lib/html-renderer";
+import { cn } from "@/lib/utils";
+import type { Block, BlockDocument } from "@/types/blocks";
+
+// ============================================================================
+// BLOCK DROP ZONES
+// Every block list (the root list and each column) is a droppable container
+// with its own SortableContext, all inside the editor's one DndContext, so a
+// block (or a multi-block selection) can be dragged within a list, between
+// columns, and into or out of columns. While dragging, a line shows where
+// the blocks will land.
+// ============================================================================
+
+/** Where the drop line is drawn: a container and an index in its list */
+export interface DropIndicator {
+  containerKey: string;
+  index: number;
+}
+
+const DropIndicatorContext = createContext<DropIndicator | null>(null);
+
+interface BlockDropIndicatorProviderProps {
+  indicator: DropIndicator | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Shares the current drop position with every BlockDropList
+ */
+export function BlockDropIndicatorProvider({
+  indicator,
+  children,
+}: BlockDropIndicatorProviderProps) {
+  return (
+    <DropIndicatorContext.Provider value={indicator}>
+      {children}
+    </DropIndicatorContext.Provider>
+  );
+}
+
+/**
+ * Drop line position for a resolved drop location. Locations count indexes
+ * with the dragged blocks already taken out; the line is drawn in the list
+ * as rendered, with the blocks still in it (before the block the dragged
+ * ones will land in front of).
+ */
+export function getDropIndicator(
+  doc: BlockDocument,
+  blockIds: string[],
+  location: BlockLocation
+): DropIndicator {
+  const ids = getContainerBlockIds(doc, location.container);
+  const remaining = ids.filter((blockId) => !blockIds.includes(blockId));
+  const next = remaining[location.index];
+  return {
+    containerKey: getContainerKey(location.container),
+    index: next === undefined ? ids.length : ids.indexOf(next),
+  };
+}
+
+/**
+ * Collision detection for nested block lists. The innermost droppable under
+ * the pointer wins, so a block in a column beats the columns block around
+ * it. Over empty space in a list, the closest block in that list is used.
+ * A dragged columns block never collides with its own contents. Without a
+ * pointer (keyboard dragging), falls back to the closest center.
+ */
+export const blockCollisionDetection: CollisionDetection = (args) => {
+  const activeNode = args.droppableContainers.find(
+    (container) => container.id === args.active.id
+  )?.node.current;
+  const droppableContainers = args.droppableContainers.filter((container) => {
+    const node = container.node.current;
+    return (
+      container.id === args.active.id ||
+      !(activeNode && node && activeNode.contains(node))
+    );
+  });
+
+  const area = (id: string | number) => {
+    const rect = args.droppableRects.get(id);
+    return rect ? rect.width * rect.height : Number.POSITIVE_INFINITY;
+  };
+  const [innermost] = pointerWithin({ ...args, droppableContainers }).sort(
+    (a, b) => area(a.id) - area(b.id)
+  );
+  if (!innermost) {
+    return closestCenter({ ...args, droppableContainers });
+  }
+
+  const isList = !droppableContainers.find(
+    (container) => container.id === innermost.id
+  )?.data.current?.sortable;
+  if (!isList) {
+    return [innermost];
+  }
+  const items = droppableContainers.filter(
+    (container) =>
+      container.data.current?.sortable?.containerId === innermost.id
+  );
+  return items.length > 0
+    ? closestCenter({ ...args, droppableContainers: items })
+    : [innermost];
+};
+
+interface BlockDropListProps {
+  container: BlockContainer;
+  /** Accessible name of the list, like "Column 2" */
+  label: string;
+  blockIds: string[];
+  renderBlock: (blockId: string) => React.ReactNode;
+  className?: string;
+  /** Added while a block would be dropped into this list */
+  activeClassName?: string;
+  /** Shown when the list has no blocks */
+  emptyState?: React.ReactNode;
+  /** Rendered after the blocks */
+  children?: React.ReactNode;
+}
+
+/**
+ * A droppable, sortable list of blocks with a drop line
+ */
+export function BlockDropList({
+  container,
+  label,
+  blockIds,
+  renderBlock,
+  className,
+  activeClassName,
+  emptyState,
+  children,
+}: BlockDropListProps) {
+  const containerKey = getContainerKey(container);
+  const { setNodeRef } = useDroppable({ id: containerKey });
+  const indicator = useContext(DropIndicatorContext);
+  const indicatorIndex =
+    indicator?.containerKey === containerKey ? indicator.index : -1;
+
+  return (
+    <SortableContext
+      id={containerKey}
+      items={blockIds}
+      strategy={verticalListSortingStrategy}
+    >
+      {/* biome-ignore lint/a11y/useSemanticElements: Holds drop lines, an empty state and panels besides the blocks, so it can't be <ul> */}
+      <div
+        aria-label={label}
+        className={cn(className, indicatorIndex !== -1 && activeClassName)}
+        ref={setNodeRef}
+        role="list"
+      >
+        {blockIds.map((blockId, index) => (
+          <Fragment key={blockId}>
+            {index === indicatorIndex && <DropLine />}
+            {renderBlock(blockId)}
+          </Fragment>
+        ))}
+        {indicatorIndex === blockIds.length && <DropLine />}
+        {blockIds.length === 0 && indicatorIndex === -1 && emptyState}
+        {children}
+      </div>
+    </SortableContext>
+  );
+}
+
+function DropLine() {
+  return <div aria-hidden className="h-0.5 rounded-full bg-accent" />;
+}
+
+// Blocks drawn in the drag preview; more are summed up in a badge
+const MAX_PREVIEW_BLOCKS = 3;
+
+interface BlockDragPreviewProps {
+  /** Dragged blocks, in reading order */
+  blocks: Block[];
+  getBlock: (blockId: string) => Block | undefined;
+}
+
+/**
+ * What follows the pointer while dragging: the dragged blocks rendered as
+ * static HTML (the editors stay in place, faded)
+ */
+export function BlockDragPreview({ blocks, getBlock }: BlockDragPreviewProps) {
+  const html = blocks
+    .slice(0, MAX_PREVIEW_BLOCKS)
+    .map((block) => blockToHtml(block, getBlock))
+    .join("");
+  const more = blocks.length - MAX_PREVIEW_BLOCKS;
+
+  return (
+    <div
+      aria-hidden
+      className="pointer-events-none relative max-h-64 overflow-hidden rounded-lg bg-white p-4 opacity-90 shadow-xl ring-1 ring-surface-200 dark:bg-surface-800 dark:ring-surface-700"
+    >
+      <div
+        className="prose prose-sm prose-stone dark:prose-invert max-w-none break-words"
+        // biome-ignore lint/security/noDangerouslySetInnerHtml: Sanitized with sanitizeHtml
+        dangerouslySetInnerHTML={{ __html: sanitizeHtml(html) }}
+      />
+      {more > 0 && (
+        <span className="absolute right-2 bottom-2 rounded-full bg-accent px-2 py-0.5 font-medium text-white text-xs">
+          +{more} more
+        </span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Visually hidden live region reading out drag and keyboard moves
+ */
+export function BlockMoveAnnouncer({ message }: { message: string }) {
+  return (
+    <div aria-atomic aria-live="assertive" className="sr-only">
+      {message}
+    </div>
+  );
+}
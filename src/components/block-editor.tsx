@@ -1,7 +1,8 @@
 import {
-  closestCenter,
+  type Announcements,
   DndContext,
   type DragEndEvent,
+  type DragMoveEvent,
   DragOverlay,
   type DragStartEvent,
   KeyboardSensor,
@@ -9,67 +10,294 @@ import {
   useSensor,
   useSensors,
 } from "@dnd-kit/core";
+import { sortableKeyboardCoordinates, useSortable } from "@dnd-kit/sortable";
 import {
-  SortableContext,
-  sortableKeyboardCoordinates,
-  useSortable,
-  verticalListSortingStrategy,
-} from "@dnd-kit/sortable";
-import { CSS } from "@dnd-kit/utilities";
-import {
+  AlertTriangle,
   Code2,
   Eye,
   FileCode,
   FileText,
+  Hash,
+  History,
   Loader2,
   PenLine,
   Plus,
+  Redo2,
   Save,
+  Undo2,
 } from "lucide-react";
-import type { ClipboardEvent } from "react";
-import { useCallback, useEffect, useRef, useState } from "react";
+import type { ClipboardEvent, FocusEvent, MouseEvent } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAIBlockAction } from "@/hooks/use-ai-block-action";
+import { useAIGeneration } from "@/hooks/use-ai-generation";
+import { useAISuggestions } from "@/hooks/use-ai-suggestions";
+import { useBlockSelection } from "@/hooks/use-block-selection";
+import { useCollaboration } from "@/hooks/use-collaboration";
 import { useDocumentStore } from "@/hooks/use-document-store";
+import { useVersionHistory } from "@/hooks/use-version-history";
+import { type AIBlockAction, supportsAIActions } from "@/lib/ai-actions";
+import {
+  announceBlockMove,
+  announceDragCancel,
+  announceDragOver,
+  announceDragStart,
+  getBlockLabel,
+} from "@/lib/block-announcements";
+import {
+  BLOCK_FRAGMENT_MIME_TYPE,
+  type BlockClipboardData,
+  createBlockFragment,
+  parseBlockFragment,
+  serializeBlockFragment,
+} from "@/lib/block-clipboard";
+import {
+  type BlockConversion,
+  isConvertibleBlock,
+} from "@/lib/block-conversion";
+import type { BlockKeyAction } from "@/lib/block-keyboard";
+import { getNudgeLocation } from "@/lib/block-selection";
+import {
+  type BlockLocation,
+  getAdjacentBlockId,
+  getContainerKey,
+  ROOT_CONTAINER,
+  resolveDropLocation,
+} from "@/lib/block-tree";
 import {
   parseHtmlToBlocks,
   parsePlainTextToBlocks,
 } from "@/lib/clipboard-parser";
-import { cn } from "@/lib/utils";
+import type { RemotePeer } from "@/lib/collaboration";
+import {
+  type CommandContext,
+  type EditorTab,
+  findShortcutCommand,
+} from "@/lib/command-registry";
+import {
+  computeListNumbers,
+  createNextListItem,
+  isListItemBlock,
+} from "@/lib/lists";
+import {
+  looksLikeMarkdown,
+  parseMarkdownToBlocks,
+} from "@/lib/markdown-parser";
+import type { QuarantinedDocument } from "@/lib/persistence";
+import type { SlashMenu } from "@/lib/slash-menu";
+import { cn, createBlock, generateId } from "@/lib/utils";
 import type { Block } from "@/types/blocks";
+import { AIActionPreview } from "./ai-action-preview";
+import { AIGenerationPanel } from "./ai-generation-panel";
+import { useAIProvider, useConfiguredAIProvider } from "./ai-model-provider";
+import { AISuggestionChips } from "./ai-suggestion-chips";
+import {
+  BlockDragPreview,
+  BlockDropIndicatorProvider,
+  BlockDropList,
+  BlockMoveAnnouncer,
+  blockCollisionDetection,
+  type DropIndicator,
+  getDropIndicator,
+} from "./block-drop-zone";
 import { BlockRenderer } from "./block-renderer";
+import { BlockSelectionBox } from "./block-selection-box";
+import { BlockSelectionToolbar } from "./block-selection-toolbar";
+import { CollaborationControls } from "./collaboration-controls";
 import { CommandPalette } from "./command-palette";
+import { useCommands } from "./command-provider";
+import { downloadDocument } from "./editor-commands";
 import { HtmlImportModal } from "./html-import-modal";
 import { HtmlPreview } from "./html-preview";
 import { JsonPreview } from "./json-preview";
+import { MarkdownPreview } from "./markdown-preview";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { VersionHistoryPanel } from "./version-history-panel";
+
+// Clipboard HTML with real document structure (vs. styled editor spans)
+const STRUCTURED_HTML_REGEX = /<(h[1-6]|ul|ol|table|blockquote|pre)[\s>]/i;
+
+// The editor announces drags itself (see BlockMoveAnnouncer), naming blocks
+// by type and position rather than by ID, so dnd-kit's own are turned off
+const DRAG_ANNOUNCEMENTS: Announcements = {
+  onDragStart: () => undefined,
+  onDragOver: () => undefined,
+  onDragEnd: () => undefined,
+  onDragCancel: () => undefined,
+};
+
+const DRAG_INSTRUCTIONS = {
+  draggable:
+    "To pick up the block, press Space or Enter. Use the arrow keys to move it, then Space or Enter to drop it, or Escape to cancel. Alt+Shift+Up or Down moves it one place without dragging.",
+};
+
+// Frames to wait for a block's text editor to mount before giving up
+const FOCUS_ATTEMPTS = 10;
+
+/**
+ * Put the caret at the start or end of a focused text editor
+ */
+function placeCaret(editable: HTMLElement, position: "start" | "end") {
+  if (editable instanceof HTMLTextAreaElement) {
+    const offset = position === "start" ? 0 : editable.value.length;
+    editable.setSelectionRange(offset, offset);
+    return;
+  }
+  // ProseMirror picks the DOM selection up as its own
+  const range = window.document.createRange();
+  range.selectNodeContents(editable);
+  range.collapse(position === "start");
+  const selection = window.getSelection();
+  selection?.removeAllRanges();
+  selection?.addRange(range);
+}
+
+/**
+ * Focus a block's text editor once it is rendered. Starts on the next frame,
+ * since a new or converted block only gets its editor on the next render.
+ */
+function focusBlockEditor(
+  blockId: string,
+  position: "start" | "end" = "start",
+  attempts = FOCUS_ATTEMPTS
+) {
+  requestAnimationFrame(() => {
+    const editable = window.document
+      .querySelector(`[data-block-id="${CSS.escape(blockId)}"]`)
+      ?.querySelector<HTMLElement>("[contenteditable='true'], textarea");
+    if (editable) {
+      editable.focus();
+      placeCaret(editable, position);
+    } else if (attempts > 1) {
+      focusBlockEditor(blockId, position, attempts - 1);
+    }
+  });
+}
+
+/**
+ * Whether an event target takes text input (so keys and clipboard events
+ * belong to it, not to the block selection)
+ */
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+  return (
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName) ||
+    target.isContentEditable ||
+    target.contentEditable === "true" ||
+    !!target.closest(".ProseMirror")
+  );
+}
+
+/**
+ * Whether registered shortcuts may take a key pressed in `target`. Fields
+ * keep their own keys (and native undo); rich text blocks are the exception,
+ * as their editors leave undo and redo to the document history.
+ */
+function acceptsShortcuts(target: EventTarget | null): boolean {
+  return (
+    !isEditableTarget(target) ||
+    (target instanceof HTMLElement && !!target.closest(".ProseMirror"))
+  );
+}
+
+/**
+ * Put copied blocks on the system clipboard from outside a copy event (the
+ * fragment goes along inside the HTML; see block-clipboard)
+ */
+async function writeBlocksToClipboard(data: BlockClipboardData) {
+  try {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        "text/html": new Blob([data["text/html"]], { type: "text/html" }),
+        "text/plain": new Blob([data["text/plain"]], { type: "text/plain" }),
+      }),
+    ]);
+  } catch (error) {
+    console.warn("Copying blocks failed:", error);
+  }
+}
+
+/**
+ * Parse pasted clipboard data into blocks, or undefined if it's empty.
+ * Markdown source copied from an editor often comes with unstructured HTML
+ * (styled spans), so Markdown wins unless the HTML has real structure.
+ */
+function parseClipboardBlocks(
+  html: string,
+  plainText: string
+): Block[] | undefined {
+  if (
+    plainText &&
+    looksLikeMarkdown(plainText) &&
+    !STRUCTURED_HTML_REGEX.test(html)
+  ) {
+    return parseMarkdownToBlocks(plainText);
+  }
+  if (html) {
+    return parseHtmlToBlocks(html);
+  }
+  // Fallback to plain text if no HTML available
+  if (plainText) {
+    return parsePlainTextToBlocks(plainText);
+  }
+  return;
+}
+
+/**
+ * The block taking the text after a slash command that split a block: a
+ * copy of it holding that text (list items continue their list)
+ */
+function createSplitBlock(block: Block, content: string): Block {
+  const next = isListItemBlock(block)
+    ? createNextListItem(block)
+    : { ...block, props: { ...block.props, id: generateId() } };
+  return { ...next, props: { ...next.props, content } } as Block;
+}
 
 // ============================================================================
 // SORTABLE BLOCK WRAPPER
+// Blocks stay in place while dragging; the drop line in BlockDropList shows
+// where the block will land, in its own list or another one. Dragging a
+// selected block drags the whole selection.
 // ============================================================================
 
 interface SortableBlockProps {
   id: string;
+  /** The block's type, read out on its drag handle (see getBlockLabel) */
+  label: string;
+  /** Dragged along with the active block (part of a dragged selection) */
+  isDragged?: boolean;
   children: (dragHandleProps: Record<string, unknown>) => React.ReactNode;
 }
 
-function SortableBlock({ id, children }: SortableBlockProps) {
-  const {
-    attributes,
-    listeners,
-    setNodeRef,
-    transform,
-    transition,
-    isDragging,
-  } = useSortable({ id });
-
-  const style = {
-    transform: CSS.Transform.toString(transform),
-    transition,
-    opacity: isDragging ? 0.5 : 1,
-  };
+function SortableBlock({
+  id,
+  label,
+  isDragged = false,
+  children,
+}: SortableBlockProps) {
+  const { attributes, listeners, setNodeRef, setActivatorNodeRef, isDragging } =
+    useSortable({
+      id,
+      attributes: { roleDescription: "draggable block" },
+    });
 
+  // The handle is the focusable part: dnd-kit's keyboard sensor listens on
+  // it and returns the focus to it after a drop
   return (
-    <div ref={setNodeRef} style={style} {...attributes}>
-      {children({ ...listeners })}
+    // biome-ignore lint/a11y/useSemanticElements: Block lists also hold drop lines and panels, so they can't be <ul>
+    <div
+      ref={setNodeRef}
+      role="listitem"
+      style={{ opacity: isDragging || isDragged ? 0.5 : 1 }}
+    >
+      {children({
+        ...attributes,
+        ...listeners,
+        "aria-label": `Move ${label} block`,
+        ref: setActivatorNodeRef,
+      })}
     </div>
   );
 }
@@ -102,6 +330,57 @@ function AddBlockButton({ onClick }: AddBlockButtonProps) {
   );
 }
 
+interface UnavailableDocumentProps {
+  loadError: string | null;
+  quarantinedDocument: QuarantinedDocument | null;
+}
+
+/** Shown instead of the editor when the document can't be opened */
+function UnavailableDocument({
+  loadError,
+  quarantinedDocument,
+}: UnavailableDocumentProps) {
+  if (loadError) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-2 text-surface-400">
+        <AlertTriangle className="h-8 w-8 text-amber-500" />
+        <p className="font-medium text-surface-600 dark:text-surface-300">
+          This document couldn't be loaded
+        </p>
+        <p className="max-w-md text-center text-sm">{loadError}</p>
+      </div>
+    );
+  }
+
+  if (quarantinedDocument) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-2 text-surface-400">
+        <AlertTriangle className="h-8 w-8 text-amber-500" />
+        <p className="font-medium text-surface-600 dark:text-surface-300">
+          This document couldn't be opened
+        </p>
+        <p className="max-w-md text-center text-sm">
+          It failed validation and was quarantined. Its stored data has been
+          kept unchanged.
+        </p>
+        <pre className="mt-2 max-h-48 max-w-xl overflow-auto whitespace-pre-wrap rounded-md bg-surface-100 p-3 font-mono text-surface-600 text-xs dark:bg-surface-800 dark:text-surface-300">
+          {quarantinedDocument.reason}
+        </pre>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center gap-2 text-surface-400">
+      <FileText className="h-8 w-8" />
+      <p className="font-medium text-surface-600 dark:text-surface-300">
+        Document not found
+      </p>
+      <p className="text-sm">It may have been deleted or the link is wrong.</p>
+    </div>
+  );
+}
+
 // ============================================================================
 // MAIN EDITOR
 // ============================================================================
@@ -114,23 +393,169 @@ export function BlockEditor({ documentId }: BlockEditorProps) {
   const {
     document,
     isLoading,
+    isNotFound,
+    quarantinedDocument,
+    loadError,
     isSaving,
     getBlock,
     updateBlock,
     addBlock,
     removeBlock,
     duplicateBlock,
+    removeBlocks,
+    duplicateBlocks,
+    moveBlocks,
+    wrapBlocksInColumns,
+    convertBlocks,
+    convertBlock,
     insertGeneratedBlocks,
+    finishGeneratedBlocks,
+    discardGeneratedBlocks,
     setTitle,
-    moveBlock,
+    transaction,
+    canUndo: canUndoDocument,
+    canRedo: canRedoDocument,
+    undo: undoDocument,
+    redo: redoDocument,
+    restoreDocument,
+    applyRemoteDocument,
+    integrityReport,
+    repairDocument,
   } = useDocumentStore({ documentId });
+  const isDocumentReady = !(
+    isLoading ||
+    isNotFound ||
+    quarantinedDocument ||
+    loadError
+  );
+
+  const versionHistory = useVersionHistory(document, {
+    enabled: isDocumentReady,
+  });
+
+  const aiProvider = useAIProvider();
+  const aiGeneration = useAIGeneration({
+    provider: aiProvider,
+    document,
+    insertGeneratedBlocks,
+    finishGeneratedBlocks,
+    discardGeneratedBlocks,
+  });
+  const { generation } = aiGeneration;
+  // Generated blocks are followed by the placeholder (at the end if the
+  // anchor isn't a root block)
+  const generationAnchorId = useMemo(() => {
+    const anchorId = generation?.anchorBlockId;
+    return anchorId && document.rootBlockIds.includes(anchorId)
+      ? anchorId
+      : undefined;
+  }, [generation?.anchorBlockId, document.rootBlockIds]);
+  const generationPanel = generation && (
+    <AIGenerationPanel
+      generation={generation}
+      onCancel={aiGeneration.cancel}
+      onDiscard={aiGeneration.discard}
+      onKeep={aiGeneration.keep}
+      onRetry={aiGeneration.retry}
+    />
+  );
 
+  // AI edits to one block, previewed under it until accepted or rejected
+  const aiAction = useAIBlockAction({
+    provider: aiProvider,
+    document,
+    updateBlock,
+  });
+  const { pending: pendingAIAction } = aiAction;
+  const aiActionPreview = pendingAIAction && (
+    <AIActionPreview
+      isStale={aiAction.isStale}
+      onAccept={aiAction.accept}
+      onReject={aiAction.reject}
+      onRetry={aiAction.retry}
+      state={pendingAIAction}
+    />
+  );
+
+  const [isCollaborating, setIsCollaborating] = useState(false);
+  // Block containing the focus, shared with collaborators as presence
+  const [focusedBlockId, setFocusedBlockId] = useState<string | null>(null);
+  const collaboration = useCollaboration({
+    enabled: isCollaborating && isDocumentReady,
+    document,
+    applyRemoteDocument,
+    activeBlockId: focusedBlockId,
+  });
+
+  // While collaborating, undo only reverts this user's own changes
+  const undo = collaboration.isActive ? collaboration.undo : undoDocument;
+  const redo = collaboration.isActive ? collaboration.redo : redoDocument;
+  const canUndo = collaboration.isActive
+    ? collaboration.canUndo
+    : canUndoDocument;
+  const canRedo = collaboration.isActive
+    ? collaboration.canRedo
+    : canRedoDocument;
+
+  // Collaborators grouped by the block they are in
+  const presenceByBlock = useMemo(() => {
+    const byBlock: Record<string, RemotePeer[]> = {};
+    for (const peer of collaboration.peers) {
+      if (peer.activeBlockId) {
+        byBlock[peer.activeBlockId] ??= [];
+        byBlock[peer.activeBlockId].push(peer);
+      }
+    }
+    return byBlock;
+  }, [collaboration.peers]);
+
+  const handleFocusCapture = useCallback((event: FocusEvent<HTMLElement>) => {
+    const blockElement = (event.target as HTMLElement).closest<HTMLElement>(
+      "[data-block-id]"
+    );
+    setFocusedBlockId(blockElement?.dataset.blockId ?? null);
+  }, []);
+
+  const handleBlurCapture = useCallback((event: FocusEvent<HTMLElement>) => {
+    const next = event.relatedTarget as Node | null;
+    if (!(next && event.currentTarget.contains(next))) {
+      setFocusedBlockId(null);
+    }
+  }, []);
+
+  const commands = useCommands();
   const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [activeTab, setActiveTab] = useState<EditorTab>("editor");
   const [importModalOpen, setImportModalOpen] = useState(false);
   const [activeBlockId, setActiveBlockId] = useState<string | null>(null);
+  // Blocks moving with the active one (the selection, if it was dragged)
+  const [draggedBlockIds, setDraggedBlockIds] = useState<string[]>([]);
+  const [dropIndicator, setDropIndicator] = useState<DropIndicator | null>(
+    null
+  );
+  // Read out by the live region as blocks are dragged or moved
+  const [announcement, setAnnouncement] = useState("");
+  // Last drop position announced during a drag (a getContainerKey and index)
+  const announcedDropRef = useRef("");
   const [insertAfterBlockId, setInsertAfterBlockId] = useState<
     string | undefined
   >();
+  // A "/" typed in a block's text, opening the palette at the caret
+  const [slashMenu, setSlashMenu] = useState<{
+    blockId: string;
+    menu: SlashMenu;
+  } | null>(null);
+
+  // Prompt suggestions for what to generate next, based on the block the
+  // palette was opened from or the one being edited
+  const suggestions = useAISuggestions({
+    provider: useConfiguredAIProvider(),
+    document,
+    activeBlockId: showCommandPalette
+      ? insertAfterBlockId
+      : (focusedBlockId ?? undefined),
+    enabled: isDocumentReady,
+  });
 
   // DnD sensors
   const sensors = useSensors(
@@ -144,68 +569,576 @@ export function BlockEditor({ documentId }: BlockEditorProps) {
     })
   );
 
+  // Multi-block selection. While blocks are selected, the editor area holds
+  // the focus so keys and clipboard events apply to the selection.
+  const selection = useBlockSelection(document);
+  const { selectedIds } = selection;
+  const mainRef = useRef<HTMLElement>(null);
+
+  const focusSelection = useCallback(() => {
+    const active = window.document.activeElement;
+    if (active instanceof HTMLElement) {
+      active.blur();
+    }
+    mainRef.current?.focus({ preventScroll: true });
+  }, []);
+
+  const deleteSelection = useCallback(() => {
+    removeBlocks(selectedIds);
+    selection.clear();
+  }, [removeBlocks, selectedIds, selection.clear]);
+
+  // Turns the selected blocks into another type (while there are any)
+  const convertSelection = useMemo(
+    () =>
+      selectedIds.length > 0
+        ? (conversion: BlockConversion) =>
+            convertBlocks(selectedIds, conversion)
+        : undefined,
+    [convertBlocks, selectedIds]
+  );
+
+  const copySelection = useCallback(
+    (cut = false) => {
+      writeBlocksToClipboard(
+        serializeBlockFragment(createBlockFragment(document, selectedIds))
+      );
+      if (cut) {
+        deleteSelection();
+      }
+    },
+    [document, selectedIds, deleteSelection]
+  );
+
+  // Escape while editing a block's text selects the block
+  const selectEditedBlock = useCallback(
+    (e: KeyboardEvent): boolean => {
+      const blockId = (e.target as HTMLElement).closest<HTMLElement>(
+        "[data-block-id]"
+      )?.dataset.blockId;
+      if (!blockId || e.defaultPrevented) {
+        return false;
+      }
+      selection.select([blockId]);
+      focusSelection();
+      return true;
+    },
+    [selection.select, focusSelection]
+  );
+
+  // Keys acting on the selection; returns whether the key was handled
+  const handleSelectionKeyDown = useCallback(
+    (e: KeyboardEvent): boolean => {
+      if (e.key === "Escape" && isEditableTarget(e.target)) {
+        return selectEditedBlock(e);
+      }
+      if (selectedIds.length === 0 || isEditableTarget(e.target)) {
+        return false;
+      }
+      switch (e.key) {
+        case "Escape":
+          selection.clear();
+          return true;
+        case "Backspace":
+        case "Delete":
+          deleteSelection();
+          return true;
+        case "ArrowUp":
+        case "ArrowDown": {
+          const offset = e.key === "ArrowUp" ? -1 : 1;
+          if (e.shiftKey) {
+            selection.extendBy(offset);
+          } else {
+            selection.moveBy(offset);
+          }
+          return true;
+        }
+        case "d":
+          if (e.metaKey || e.ctrlKey) {
+            selection.select(duplicateBlocks(selectedIds));
+            return true;
+          }
+          return false;
+        default:
+          return false;
+      }
+    },
+    [
+      selectedIds,
+      selection.select,
+      selection.clear,
+      selection.extendBy,
+      selection.moveBy,
+      selectEditedBlock,
+      deleteSelection,
+      duplicateBlocks,
+    ]
+  );
+
+  // Copy or cut the selected blocks as HTML, Markdown and a block fragment
+  useEffect(() => {
+    const handleClipboard = (event: globalThis.ClipboardEvent) => {
+      if (
+        selectedIds.length === 0 ||
+        !event.clipboardData ||
+        isEditableTarget(event.target)
+      ) {
+        return;
+      }
+      event.preventDefault();
+      const data = serializeBlockFragment(
+        createBlockFragment(document, selectedIds)
+      );
+      for (const [type, value] of Object.entries(data)) {
+        event.clipboardData.setData(type, value);
+      }
+      if (event.type === "cut") {
+        deleteSelection();
+      }
+    };
+
+    window.addEventListener("copy", handleClipboard);
+    window.addEventListener("cut", handleClipboard);
+    return () => {
+      window.removeEventListener("copy", handleClipboard);
+      window.removeEventListener("cut", handleClipboard);
+    };
+  }, [document, selectedIds, deleteSelection]);
+
+  // Shift-click extends a block selection (from the block being edited if
+  // nothing is selected yet); any other click in the editor clears it
+  const handleEditorMouseDown = useCallback(
+    (event: MouseEvent<HTMLElement>) => {
+      const target = event.target as HTMLElement;
+      if (target.closest("[data-drag-handle]")) {
+        return;
+      }
+      const blockId =
+        target.closest<HTMLElement>("[data-block-id]")?.dataset.blockId;
+      const fromId = focusedBlockId ?? undefined;
+      if (
+        blockId &&
+        event.shiftKey &&
+        (selectedIds.length > 0 || (fromId && fromId !== blockId))
+      ) {
+        event.preventDefault();
+        selection.extendTo(blockId, fromId);
+        focusSelection();
+        return;
+      }
+      selection.clear();
+    },
+    [
+      focusedBlockId,
+      selectedIds.length,
+      selection.extendTo,
+      selection.clear,
+      focusSelection,
+    ]
+  );
+
+  const moveBlocksTo = useCallback(
+    (blockIds: string[], { container, index }: BlockLocation) => {
+      if (container.type === "root") {
+        moveBlocks(blockIds, index);
+      } else {
+        moveBlocks(blockIds, index, container.columnId, container.columnIndex);
+      }
+    },
+    [moveBlocks]
+  );
+
+  // Alt+Shift+Up/Down moves the block being edited (or whose handle has the
+  // focus), or else the selected blocks, one place within their list
+  const handleMoveKeyDown = useCallback(
+    (e: KeyboardEvent): boolean => {
+      if (
+        !(e.altKey && e.shiftKey) ||
+        e.metaKey ||
+        e.ctrlKey ||
+        (e.key !== "ArrowUp" && e.key !== "ArrowDown")
+      ) {
+        return false;
+      }
+      const focusedId = (e.target as HTMLElement).closest?.<HTMLElement>(
+        "[data-block-id]"
+      )?.dataset.blockId;
+      const blockIds = focusedId ? [focusedId] : selectedIds;
+      if (blockIds.length === 0) {
+        return false;
+      }
+      const location = getNudgeLocation(
+        document,
+        blockIds,
+        e.key === "ArrowUp" ? -1 : 1
+      );
+      if (!location) {
+        return true;
+      }
+      setAnnouncement(announceBlockMove(document, blockIds, location));
+      moveBlocksTo(blockIds, location);
+
+      // Reordering can take the focus away from the moved block's editor;
+      // focusing it again restores its caret
+      const active = window.document.activeElement;
+      requestAnimationFrame(() => {
+        if (
+          active instanceof HTMLElement &&
+          active.isConnected &&
+          window.document.activeElement !== active
+        ) {
+          active.focus({ preventScroll: true });
+        }
+      });
+      return true;
+    },
+    [document, selectedIds, moveBlocksTo]
+  );
+
   // Handle keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === "/" && !e.ctrlKey && !e.metaKey) {
-        const target = e.target as HTMLElement;
-        const isEditing =
-          target.tagName === "INPUT" ||
-          target.tagName === "TEXTAREA" ||
-          target.contentEditable === "true" ||
-          target.closest(".ProseMirror");
-
-        if (!isEditing) {
-          e.preventDefault();
-          setShowCommandPalette(true);
-        }
+      if (handleMoveKeyDown(e) || handleSelectionKeyDown(e)) {
+        e.preventDefault();
+        return;
+      }
+
+      if (
+        e.key === "/" &&
+        !e.ctrlKey &&
+        !e.metaKey &&
+        !isEditableTarget(e.target)
+      ) {
+        e.preventDefault();
+        setShowCommandPalette(true);
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, []);
+  }, [handleMoveKeyDown, handleSelectionKeyDown]);
 
-  // Handle drag events
-  const handleDragStart = useCallback((event: DragStartEvent) => {
-    setActiveBlockId(event.active.id as string);
-  }, []);
+  // Handle drag events. Dragging a selected block drags the selection;
+  // dragging any other block drops the selection.
+  const handleDragStart = useCallback(
+    (event: DragStartEvent) => {
+      const blockId = event.active.id as string;
+      const blockIds = selectedIds.includes(blockId) ? selectedIds : [blockId];
+      setActiveBlockId(blockId);
+      setDraggedBlockIds(blockIds);
+      if (blockIds !== selectedIds) {
+        selection.clear();
+      }
+      announcedDropRef.current = "";
+      setAnnouncement(announceDragStart(document, blockIds));
+    },
+    [document, selectedIds, selection.clear]
+  );
+
+  // Where the dragged block would land: before or after the block under the
+  // pointer (by which half it's over), or at the end of an empty list
+  const getDropLocation = useCallback(
+    ({ active, over }: DragMoveEvent) => {
+      if (!over) {
+        return;
+      }
+      const dragged = active.rect.current.translated;
+      const placeAfter =
+        !!dragged &&
+        dragged.top + dragged.height / 2 > over.rect.top + over.rect.height / 2;
+      return resolveDropLocation(
+        document,
+        draggedBlockIds,
+        over.id as string,
+        placeAfter
+      );
+    },
+    [document, draggedBlockIds]
+  );
+
+  const handleDragMove = useCallback(
+    (event: DragMoveEvent) => {
+      const location = getDropLocation(event);
+      const next = location
+        ? getDropIndicator(document, draggedBlockIds, location)
+        : null;
+      setDropIndicator((current) =>
+        current?.containerKey === next?.containerKey &&
+        current?.index === next?.index
+          ? current
+          : next
+      );
+
+      const key = location
+        ? `${getContainerKey(location.container)}:${location.index}`
+        : "";
+      if (key !== announcedDropRef.current) {
+        announcedDropRef.current = key;
+        setAnnouncement(announceDragOver(document, draggedBlockIds, location));
+      }
+    },
+    [document, draggedBlockIds, getDropLocation]
+  );
 
   const handleDragEnd = useCallback(
     (event: DragEndEvent) => {
-      const { active, over } = event;
       setActiveBlockId(null);
+      setDraggedBlockIds([]);
+      setDropIndicator(null);
+
+      const location = getDropLocation(event);
+      setAnnouncement(announceBlockMove(document, draggedBlockIds, location));
+      if (location) {
+        moveBlocksTo(draggedBlockIds, location);
+      }
+    },
+    [document, getDropLocation, moveBlocksTo, draggedBlockIds]
+  );
+
+  const handleDragCancel = useCallback(() => {
+    setAnnouncement(announceDragCancel(document, draggedBlockIds));
+    setActiveBlockId(null);
+    setDraggedBlockIds([]);
+    setDropIndicator(null);
+  }, [document, draggedBlockIds]);
 
-      if (over && active.id !== over.id) {
-        const oldIndex = document.rootBlockIds.indexOf(active.id as string);
-        const newIndex = document.rootBlockIds.indexOf(over.id as string);
+  // Turn a block into another type, keeping the caret in it (its editor is
+  // replaced when the type changes)
+  const handleConvertBlock = useCallback(
+    (blockId: string, conversion: BlockConversion) => {
+      convertBlock(blockId, conversion);
+      focusBlockEditor(blockId);
+    },
+    [convertBlock]
+  );
+
+  // Enter at the end of a block: list items continue their list (an empty
+  // one ends it), anything else is followed by a paragraph
+  const handleEnterAtEnd = useCallback(
+    (block: Block, isEmpty: boolean) => {
+      const blockId = block.props.id;
+      if (isEmpty && isListItemBlock(block)) {
+        handleConvertBlock(blockId, { type: "paragraph" });
+        return;
+      }
+      const next = isListItemBlock(block)
+        ? createNextListItem(block)
+        : createBlock("paragraph");
+      addBlock(next, { afterBlockId: blockId });
+      focusBlockEditor(next.props.id);
+    },
+    [addBlock, handleConvertBlock]
+  );
 
-        if (oldIndex !== -1 && newIndex !== -1) {
-          moveBlock(active.id as string, newIndex);
+  // Keys leaving a block's text (see block-keyboard): Enter at the end adds
+  // a block after it, Backspace deletes it when empty, arrows move to the
+  // previous/next text block. Returns false to leave the key to the editor.
+  const handleBlockKeyAction = useCallback(
+    (blockId: string, action: BlockKeyAction): boolean => {
+      if (action.type === "slash-menu") {
+        // A closing menu only clears its own block's
+        const { menu } = action;
+        setSlashMenu((current) => {
+          if (menu) {
+            return { blockId, menu };
+          }
+          return current?.blockId === blockId ? null : current;
+        });
+        return true;
+      }
+      const block = getBlock(blockId);
+      if (!block) {
+        return false;
+      }
+      switch (action.type) {
+        case "enter-at-end":
+          handleEnterAtEnd(block, action.isEmpty);
+          return true;
+        case "backspace-empty": {
+          const previousId = getAdjacentBlockId(
+            document,
+            blockId,
+            -1,
+            isConvertibleBlock
+          );
+          if (previousId) {
+            removeBlock(blockId);
+            focusBlockEditor(previousId, "end");
+          }
+          return previousId !== undefined;
+        }
+        case "exit": {
+          const up = action.direction === "up";
+          const targetId = getAdjacentBlockId(
+            document,
+            blockId,
+            up ? -1 : 1,
+            isConvertibleBlock
+          );
+          if (targetId) {
+            focusBlockEditor(targetId, up ? "end" : "start");
+          }
+          return targetId !== undefined;
         }
+        case "insert-divider":
+          addBlock(createBlock("divider"), { beforeBlockId: blockId });
+          return true;
+        default:
+          action satisfies never;
+          return false;
       }
     },
-    [document.rootBlockIds, moveBlock]
+    [document, getBlock, addBlock, removeBlock, handleEnterAtEnd]
+  );
+
+  // A block picked from a slash menu takes the place of the slash and
+  // query: it replaces a block left empty, or splits the block around it
+  const insertAtSlash = useCallback(
+    ({ blockId, menu }: { blockId: string; menu: SlashMenu }, block: Block) => {
+      const current = getBlock(blockId);
+      if (!current) {
+        return;
+      }
+      transaction(() => {
+        const { isEmpty, tail } = menu.split();
+        if (!isEmpty) {
+          addBlock(block, { afterBlockId: blockId });
+          if (tail) {
+            addBlock(createSplitBlock(current, tail), {
+              afterBlockId: block.props.id,
+            });
+          }
+        } else if (tail) {
+          addBlock(block, { beforeBlockId: blockId });
+          updateBlock(blockId, { content: tail });
+        } else {
+          addBlock(block, { afterBlockId: blockId });
+          removeBlock(blockId);
+        }
+      });
+      focusBlockEditor(block.props.id);
+    },
+    [getBlock, transaction, addBlock, updateBlock, removeBlock]
   );
 
   // Insert block handler
   const handleInsertBlock = useCallback(
     (block: Block) => {
-      addBlock(block, { afterBlockId: insertAfterBlockId });
+      if (slashMenu) {
+        insertAtSlash(slashMenu, block);
+      } else {
+        addBlock(block, { afterBlockId: insertAfterBlockId });
+      }
+      setSlashMenu(null);
       setInsertAfterBlockId(undefined);
     },
-    [addBlock, insertAfterBlockId]
+    [addBlock, insertAfterBlockId, slashMenu, insertAtSlash]
   );
 
-  // Insert multiple blocks (from AI)
-  const handleInsertBlocks = useCallback(
-    (blocks: Block[]) => {
-      insertGeneratedBlocks(blocks, insertAfterBlockId);
+  // Stream AI blocks in after the block the palette was opened from. From a
+  // slash menu, the slash and prompt are removed and any text after them
+  // follows the generated blocks.
+  const handleGenerate = useCallback(
+    (prompt: string) => {
+      const current = slashMenu && getBlock(slashMenu.blockId);
+      if (slashMenu && current) {
+        transaction(() => {
+          const { tail } = slashMenu.menu.split();
+          if (tail) {
+            addBlock(createSplitBlock(current, tail), {
+              afterBlockId: current.props.id,
+            });
+          }
+        });
+      }
+      aiGeneration.start(prompt, current?.props.id ?? insertAfterBlockId);
+      setSlashMenu(null);
       setInsertAfterBlockId(undefined);
     },
-    [insertGeneratedBlocks, insertAfterBlockId]
+    [
+      aiGeneration.start,
+      insertAfterBlockId,
+      slashMenu,
+      getBlock,
+      transaction,
+      addBlock,
+    ]
+  );
+
+  const closeCommandPalette = useCallback(() => {
+    slashMenu?.menu.dismiss();
+    setSlashMenu(null);
+    setShowCommandPalette(false);
+    setInsertAfterBlockId(undefined);
+  }, [slashMenu]);
+
+  // AI actions from the palette apply to a single selected text block
+  const runSelectionAIAction = useMemo(() => {
+    const block =
+      selectedIds.length === 1 ? getBlock(selectedIds[0]) : undefined;
+    return block && supportsAIActions(block)
+      ? (action: AIBlockAction) => aiAction.run(block.props.id, action)
+      : undefined;
+  }, [selectedIds, getBlock, aiAction.run]);
+
+  // What palette commands and shortcuts act on
+  const commandContext = useMemo(
+    (): Omit<CommandContext, "askAI"> => ({
+      document,
+      insertBlock: handleInsertBlock,
+      convertBlocks: convertSelection,
+      runAIAction: runSelectionAIAction,
+      undo,
+      redo,
+      importDocument: () => setImportModalOpen(true),
+      exportDocument: (format) => downloadDocument(document, format),
+      saveVersion: () => {
+        versionHistory
+          .saveVersion(`Saved ${new Date().toLocaleString()}`)
+          .catch((error) => console.warn("Saving a version failed:", error));
+      },
+      showTab: setActiveTab,
+    }),
+    [
+      document,
+      handleInsertBlock,
+      convertSelection,
+      runSelectionAIAction,
+      undo,
+      redo,
+      versionHistory.saveVersion,
+    ]
   );
 
+  // Registered shortcuts work document-wide, undo and redo among them (rich
+  // text editors defer those to the store), but not in other fields or
+  // while the palette or a modal has the keyboard
+  const isShortcutBlocked =
+    showCommandPalette || slashMenu !== null || importModalOpen;
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.defaultPrevented ||
+        isShortcutBlocked ||
+        !acceptsShortcuts(e.target)
+      ) {
+        return;
+      }
+      const shortcutContext: CommandContext = {
+        ...commandContext,
+        askAI: () => setShowCommandPalette(true),
+      };
+      const command = findShortcutCommand(commands, e, shortcutContext);
+      if (command) {
+        e.preventDefault();
+        command.run?.(shortcutContext);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [commands, commandContext, isShortcutBlocked]);
+
   // Handle HTML import from modal
   const handleHtmlImport = useCallback(
     (blocks: Block[]) => {
@@ -227,77 +1160,122 @@ export function BlockEditor({ documentId }: BlockEditorProps) {
   // Handle paste events from clipboard
   const handlePaste = useCallback(
     (event: ClipboardEvent<HTMLDivElement>) => {
-      const target = event.target as HTMLElement;
-
       // If we're inside an input, textarea, or TipTap editor, let that element handle the paste
-      const isInFormElement =
-        target.tagName === "TEXTAREA" ||
-        target.tagName === "INPUT" ||
-        target.contentEditable === "true" ||
-        target.closest(".ProseMirror");
-
-      if (isInFormElement) {
+      if (isEditableTarget(event.target)) {
         return;
       }
 
-      // Get HTML content from clipboard
+      // Blocks copied from an editor come back exactly as they were
       const html = event.clipboardData.getData("text/html");
+      const blocks =
+        parseBlockFragment(
+          event.clipboardData.getData(BLOCK_FRAGMENT_MIME_TYPE),
+          html
+        ) ??
+        parseClipboardBlocks(html, event.clipboardData.getData("text/plain"));
 
-      if (html) {
-        event.preventDefault();
-
-        const blocks = parseHtmlToBlocks(html);
-
-        if (blocks.length > 0) {
-          // Determine insertion position: use last focused block or append to end
-          const insertAfter =
-            lastFocusedBlockIdRef.current ?? document.rootBlockIds.at(-1);
-          insertGeneratedBlocks(blocks, insertAfter);
-        }
+      if (!blocks) {
         return;
       }
+      event.preventDefault();
 
-      // Fallback to plain text if no HTML available
-      const plainText = event.clipboardData.getData("text/plain");
-
-      if (plainText) {
-        event.preventDefault();
-
-        const blocks = parsePlainTextToBlocks(plainText);
-
-        if (blocks.length > 0) {
-          const insertAfter =
-            lastFocusedBlockIdRef.current ?? document.rootBlockIds.at(-1);
-          insertGeneratedBlocks(blocks, insertAfter);
-        }
+      if (blocks.length > 0) {
+        // Insert after the selection, the last focused block or at the end
+        const insertAfter =
+          selectedIds.at(-1) ??
+          lastFocusedBlockIdRef.current ??
+          document.rootBlockIds.at(-1);
+        insertGeneratedBlocks(blocks, insertAfter);
+        selection.clear();
       }
     },
-    [insertGeneratedBlocks, document.rootBlockIds]
+    [insertGeneratedBlocks, document.rootBlockIds, selectedIds, selection.clear]
   );
 
-  // Render a block by ID (used for column children)
+  // Numbers for numbered list items at the root level
+  const rootListNumbers = useMemo(
+    () =>
+      computeListNumbers(
+        document.rootBlockIds
+          .map((id) => document.blocks[id])
+          .filter((block): block is Block => block !== undefined)
+      ),
+    [document.rootBlockIds, document.blocks]
+  );
+
+  // Render a block by ID (used for column children, at any depth)
   const renderBlockById = useCallback(
     (
       blockId: string,
-      _columnContext?: { columnId: string; columnIndex: number }
+      columnContext?: { columnId: string; columnIndex: number }
     ) => {
       const block = getBlock(blockId);
       if (!block) {
         return null;
       }
 
+      // Numbered items count within their own column
+      let listNumber: number | undefined;
+      const parent = columnContext && getBlock(columnContext.columnId);
+      if (block.type === "numbered-list" && parent?.type === "columns") {
+        const columnIds =
+          parent.props.columns[columnContext?.columnIndex ?? 0] ?? [];
+        const siblings = columnIds
+          .map((id) => getBlock(id))
+          .filter((sibling): sibling is Block => sibling !== undefined);
+        listNumber = computeListNumbers(siblings)[blockId];
+      }
+
       return (
-        <BlockRenderer
-          block={block}
+        <SortableBlock
+          id={blockId}
+          isDragged={draggedBlockIds.includes(blockId)}
           key={blockId}
-          onDelete={() => removeBlock(blockId)}
-          onDuplicate={() => duplicateBlock(blockId)}
-          onUpdate={(props) => updateBlock(blockId, props)}
-          renderBlock={renderBlockById}
-        />
+          label={getBlockLabel(block)}
+        >
+          {(dragHandleProps) => (
+            <div onFocusCapture={() => handleBlockFocus(blockId)}>
+              <BlockRenderer
+                block={block}
+                dragHandleProps={dragHandleProps}
+                footer={
+                  pendingAIAction?.blockId === blockId
+                    ? aiActionPreview
+                    : undefined
+                }
+                isSelected={selection.isSelected(blockId)}
+                listNumber={listNumber}
+                onAIAction={(action) => aiAction.run(blockId, action)}
+                onConvert={(conversion) =>
+                  handleConvertBlock(blockId, conversion)
+                }
+                onDelete={() => removeBlock(blockId)}
+                onDuplicate={() => duplicateBlock(blockId)}
+                onKeyAction={(action) => handleBlockKeyAction(blockId, action)}
+                onUpdate={(props) => updateBlock(blockId, props)}
+                presence={presenceByBlock[blockId]}
+                renderBlock={renderBlockById}
+              />
+            </div>
+          )}
+        </SortableBlock>
       );
     },
-    [getBlock, updateBlock, removeBlock, duplicateBlock]
+    [
+      getBlock,
+      handleBlockFocus,
+      updateBlock,
+      removeBlock,
+      duplicateBlock,
+      presenceByBlock,
+      pendingAIAction?.blockId,
+      aiActionPreview,
+      aiAction.run,
+      handleConvertBlock,
+      handleBlockKeyAction,
+      draggedBlockIds,
+      selection.isSelected,
+    ]
   );
 
   // Loading state
@@ -309,6 +1287,15 @@ export function BlockEditor({ documentId }: BlockEditorProps) {
     );
   }
 
+  if (!isDocumentReady) {
+    return (
+      <UnavailableDocument
+        loadError={loadError}
+        quarantinedDocument={quarantinedDocument}
+      />
+    );
+  }
+
   return (
     <div
       className="min-h-screen bg-surface-50 dark:bg-surface-900"
@@ -333,6 +1320,35 @@ export function BlockEditor({ documentId }: BlockEditorProps) {
           </div>
 
           <div className="flex items-center gap-2">
+            <CollaborationControls
+              isActive={isCollaborating}
+              onToggle={() => setIsCollaborating((active) => !active)}
+              peers={collaboration.peers}
+              status={collaboration.status}
+              user={collaboration.user}
+            />
+            <div className="mr-2 flex items-center gap-1">
+              <button
+                aria-label="Undo"
+                className="rounded-sm p-1.5 text-surface-400 transition-colors hover:bg-surface-100 hover:text-surface-600 disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:bg-transparent dark:hover:bg-surface-800"
+                disabled={!canUndo}
+                onClick={undo}
+                title="Undo (⌘Z)"
+                type="button"
+              >
+                <Undo2 className="h-4 w-4" />
+              </button>
+              <button
+                aria-label="Redo"
+                className="rounded-sm p-1.5 text-surface-400 transition-colors hover:bg-surface-100 hover:text-surface-600 disabled:cursor-not-allowed disabled:opacity-40 disabled:hover:bg-transparent dark:hover:bg-surface-800"
+                disabled={!canRedo}
+                onClick={redo}
+                title="Redo (⇧⌘Z)"
+                type="button"
+              >
+                <Redo2 className="h-4 w-4" />
+              </button>
+            </div>
             {isSaving ? (
               <span className="flex items-center gap-2 text-sm text-surface-400">
                 <Loader2 className="h-4 w-4 animate-spin" />
@@ -349,7 +1365,11 @@ export function BlockEditor({ documentId }: BlockEditorProps) {
       </header>
 
       {/* Tabs for Editor / Structure views */}
-      <Tabs className="mx-auto max-w-4xl px-6" defaultValue="editor">
+      <Tabs
+        className="mx-auto max-w-4xl px-6"
+        onValueChange={(value) => setActiveTab(value as EditorTab)}
+        value={activeTab}
+      >
         <TabsList className="my-4">
           <TabsTrigger value="editor">
             <PenLine className="mr-1.5 h-4 w-4" />
@@ -359,68 +1379,134 @@ export function BlockEditor({ documentId }: BlockEditorProps) {
             <Eye className="mr-1.5 h-4 w-4" />
             Preview
           </TabsTrigger>
+          <TabsTrigger value="markdown">
+            <Hash className="mr-1.5 h-4 w-4" />
+            Markdown
+          </TabsTrigger>
           <TabsTrigger value="structure">
             <Code2 className="mr-1.5 h-4 w-4" />
             Structure
           </TabsTrigger>
+          <TabsTrigger value="history">
+            <History className="mr-1.5 h-4 w-4" />
+            History
+          </TabsTrigger>
         </TabsList>
 
         {/* Editor Tab */}
         <TabsContent value="editor">
-          <main className="py-8">
+          {/* biome-ignore lint/a11y/noNoninteractiveElementInteractions: Shift-click selection; Escape and Shift+Arrow select blocks from the keyboard */}
+          <main
+            className="py-8 focus:outline-hidden"
+            onBlurCapture={handleBlurCapture}
+            onFocusCapture={handleFocusCapture}
+            onMouseDown={handleEditorMouseDown}
+            ref={mainRef}
+            tabIndex={-1}
+          >
+            <BlockSelectionBox
+              containerRef={mainRef}
+              onSelect={selection.select}
+            />
             <DndContext
-              collisionDetection={closestCenter}
+              accessibility={{
+                announcements: DRAG_ANNOUNCEMENTS,
+                screenReaderInstructions: DRAG_INSTRUCTIONS,
+              }}
+              collisionDetection={blockCollisionDetection}
+              onDragCancel={handleDragCancel}
               onDragEnd={handleDragEnd}
+              onDragMove={handleDragMove}
               onDragStart={handleDragStart}
               sensors={sensors}
             >
-              <SortableContext
-                items={document.rootBlockIds}
-                strategy={verticalListSortingStrategy}
-              >
-                <div className="space-y-1 pl-12">
-                  {document.rootBlockIds.map((blockId) => {
+              <BlockDropIndicatorProvider indicator={dropIndicator}>
+                <BlockDropList
+                  blockIds={document.rootBlockIds}
+                  className="space-y-1 pl-12"
+                  container={ROOT_CONTAINER}
+                  label="Document blocks"
+                  renderBlock={(blockId) => {
                     const block = getBlock(blockId);
                     if (!block) {
                       return null;
                     }
 
                     return (
-                      <SortableBlock id={blockId} key={blockId}>
-                        {(dragHandleProps) => (
-                          <div onFocusCapture={() => handleBlockFocus(blockId)}>
-                            <BlockRenderer
-                              block={block}
-                              dragHandleProps={dragHandleProps}
-                              onDelete={() => removeBlock(blockId)}
-                              onDuplicate={() => duplicateBlock(blockId)}
-                              onUpdate={(props) => updateBlock(blockId, props)}
-                              renderBlock={renderBlockById}
-                            />
-                          </div>
-                        )}
-                      </SortableBlock>
+                      <>
+                        <SortableBlock
+                          id={blockId}
+                          isDragged={draggedBlockIds.includes(blockId)}
+                          label={getBlockLabel(block)}
+                        >
+                          {(dragHandleProps) => (
+                            <div
+                              onFocusCapture={() => handleBlockFocus(blockId)}
+                            >
+                              <BlockRenderer
+                                block={block}
+                                dragHandleProps={dragHandleProps}
+                                footer={
+                                  pendingAIAction?.blockId === blockId
+                                    ? aiActionPreview
+                                    : undefined
+                                }
+                                isSelected={selection.isSelected(blockId)}
+                                listNumber={rootListNumbers[blockId]}
+                                onAIAction={(action) =>
+                                  aiAction.run(blockId, action)
+                                }
+                                onConvert={(conversion) =>
+                                  handleConvertBlock(blockId, conversion)
+                                }
+                                onDelete={() => removeBlock(blockId)}
+                                onDuplicate={() => duplicateBlock(blockId)}
+                                onKeyAction={(action) =>
+                                  handleBlockKeyAction(blockId, action)
+                                }
+                                onUpdate={(props) =>
+                                  updateBlock(blockId, props)
+                                }
+                                presence={presenceByBlock[blockId]}
+                                renderBlock={renderBlockById}
+                              />
+                            </div>
+                          )}
+                        </SortableBlock>
+                        {blockId === generationAnchorId && generationPanel}
+                      </>
                     );
-                  })}
-                </div>
-              </SortableContext>
+                  }}
+                >
+                  {!generationAnchorId && generationPanel}
+                  {!generation && (
+                    <AISuggestionChips
+                      className="pt-2"
+                      onSelect={(suggestion) =>
+                        aiGeneration.start(
+                          suggestion,
+                          document.rootBlockIds.at(-1)
+                        )
+                      }
+                      suggestions={suggestions}
+                    />
+                  )}
+                </BlockDropList>
+              </BlockDropIndicatorProvider>
 
               {/* Drag overlay */}
               <DragOverlay>
                 {activeBlockId ? (
-                  <div className="rounded-lg bg-white p-4 opacity-80 shadow-xl dark:bg-surface-800">
-                    {(() => {
-                      const block = getBlock(activeBlockId);
-                      return block ? (
-                        <div className="text-sm text-surface-600">
-                          Dragging: {block.type}
-                        </div>
-                      ) : null;
-                    })()}
-                  </div>
+                  <BlockDragPreview
+                    blocks={draggedBlockIds
+                      .map((blockId) => getBlock(blockId))
+                      .filter((block): block is Block => block !== undefined)}
+                    getBlock={getBlock}
+                  />
                 ) : null}
               </DragOverlay>
             </DndContext>
+            <BlockMoveAnnouncer message={announcement} />
 
             {/* Add block buttons */}
             <div className="mt-6 flex gap-3 pl-12">
@@ -443,7 +1529,7 @@ export function BlockEditor({ documentId }: BlockEditorProps) {
                 type="button"
               >
                 <FileCode className="h-4 w-4 transition-transform group-hover:scale-110" />
-                <span>Import HTML</span>
+                <span>Import HTML or Markdown</span>
               </button>
             </div>
           </main>
@@ -456,26 +1542,67 @@ export function BlockEditor({ documentId }: BlockEditorProps) {
           </div>
         </TabsContent>
 
+        {/* Markdown Tab */}
+        <TabsContent value="markdown">
+          <div className="py-8">
+            <MarkdownPreview document={document} />
+          </div>
+        </TabsContent>
+
         {/* Structure Tab */}
         <TabsContent value="structure">
           <div className="py-8">
-            <JsonPreview document={document} />
+            <JsonPreview
+              document={document}
+              integrityReport={integrityReport}
+              onRepair={repairDocument}
+            />
+          </div>
+        </TabsContent>
+
+        {/* History Tab */}
+        <TabsContent value="history">
+          <div className="py-8">
+            <VersionHistoryPanel
+              document={document}
+              isLoading={versionHistory.isLoading}
+              onDeleteSnapshot={versionHistory.deleteSnapshot}
+              onRestore={(snapshot) => restoreDocument(snapshot.document)}
+              onSaveVersion={versionHistory.saveVersion}
+              snapshots={versionHistory.snapshots}
+            />
           </div>
         </TabsContent>
       </Tabs>
 
       {/* Command palette */}
       <CommandPalette
-        isOpen={showCommandPalette}
-        onClose={() => {
-          setShowCommandPalette(false);
-          setInsertAfterBlockId(undefined);
-        }}
-        onInsertBlock={handleInsertBlock}
-        onInsertBlocks={handleInsertBlocks}
+        context={commandContext}
+        filter={slashMenu?.menu.query}
+        isOpen={showCommandPalette || slashMenu !== null}
+        onClose={closeCommandPalette}
+        onGenerate={handleGenerate}
+        position={slashMenu?.menu.position}
+        suggestions={suggestions}
       />
 
-      {/* HTML Import modal */}
+      {/* Bulk actions for selected blocks */}
+      {selectedIds.length > 0 && (
+        <BlockSelectionToolbar
+          count={selectedIds.length}
+          onClear={selection.clear}
+          onConvert={(conversion) => convertSelection?.(conversion)}
+          onCopy={() => copySelection()}
+          onCut={() => copySelection(true)}
+          onDelete={deleteSelection}
+          onDuplicate={() => selection.select(duplicateBlocks(selectedIds))}
+          onWrapInColumns={() =>
+            selection.select([wrapBlocksInColumns(selectedIds)])
+          }
+        />
+      )}
+
+      {/* HTML / Markdown import modal */}
       <HtmlImportModal
         onImport={handleHtmlImport}
         onOpenChange={setImportModalOpen}
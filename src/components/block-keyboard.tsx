@@ -0,0 +1,36 @@
+import { createContext, useContext } from "react";
+import type { BlockKeyAction } from "@/lib/block-keyboard";
+
+/** Returns false to leave the key to the editor */
+type BlockKeyActionHandler = (action: BlockKeyAction) => boolean;
+
+const BlockKeyboardContext = createContext<BlockKeyActionHandler | null>(null);
+
+interface BlockKeyboardProviderProps {
+  /** Acts on the surrounding block; null for blocks without text */
+  onKeyAction: BlockKeyActionHandler | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Lets the text editors inside a block hand keys that leave the text (see
+ * block-keyboard) to the document, without passing handlers through every
+ * renderer.
+ */
+export function BlockKeyboardProvider({
+  onKeyAction,
+  children,
+}: BlockKeyboardProviderProps) {
+  return (
+    <BlockKeyboardContext.Provider value={onKeyAction}>
+      {children}
+    </BlockKeyboardContext.Provider>
+  );
+}
+
+/**
+ * The key action handler of the surrounding block, or null if it has none
+ */
+export function useBlockKeyboard(): BlockKeyActionHandler | null {
+  return useContext(BlockKeyboardContext);
+}
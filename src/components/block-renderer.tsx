@@ -1,39 +1,96 @@
 import {
   AlertTriangle,
+  AlignCenter,
+  AlignLeft,
+  AlignRight,
   CheckCircle2,
+  ChevronRight,
   Copy,
   GripVertical,
   ImagePlus,
   Info,
+  Minus,
   MoreHorizontal,
+  Plus,
+  Repeat2,
+  Sparkles,
   Trash2,
+  X,
   XCircle,
 } from "lucide-react";
-import { useCallback, useRef, useState } from "react";
-import { cn, getColumnFlexBasis } from "@/lib/utils";
-import type {
-  Block,
-  CalloutBlock,
-  CodeBlock,
-  ColumnsBlock,
-  DividerBlock,
-  HeadingBlock,
-  ImageBlock,
-  ParagraphBlock,
-  QuoteBlock,
+import { Fragment, useCallback, useRef, useState } from "react";
+import { type AIBlockAction, supportsAIActions } from "@/lib/ai-actions";
+import {
+  type BlockConversion,
+  isConvertibleBlock,
+} from "@/lib/block-conversion";
+import { resolveCustomBlock } from "@/lib/block-definitions";
+import {
+  type BlockKeyAction,
+  getTextareaKeyAction,
+} from "@/lib/block-keyboard";
+import type { RemotePeer } from "@/lib/collaboration";
+import {
+  getColumnFlexBasis,
+  getColumnStackClasses,
+  resizeColumns,
+  setColumnCount,
+} from "@/lib/columns";
+import { cn } from "@/lib/utils";
+import {
+  type Block,
+  type BulletedListBlock,
+  type CalloutBlock,
+  type CodeBlock,
+  type ColumnStackBreakpoint,
+  type ColumnsBlock,
+  type CustomBlock,
+  type DividerBlock,
+  type HeadingBlock,
+  type ImageBlock,
+  type ListItemBlock,
+  MAX_COLUMNS,
+  MAX_LIST_INDENT,
+  MIN_COLUMNS,
+  type NumberedListBlock,
+  type ParagraphBlock,
+  type QuoteBlock,
+  type TableBlock,
+  type TodoBlock,
 } from "@/types/blocks";
+import { AIActionMenu, AIActionProvider } from "./ai-action-menu";
+import { BlockDropList } from "./block-drop-zone";
+import { BlockKeyboardProvider, useBlockKeyboard } from "./block-keyboard";
 import { RichTextEditor } from "./rich-text-editor";
+import { useStorage } from "./storage-provider";
+import { BlockConversionProvider, TurnIntoMenu } from "./turn-into-menu";
 
 // ============================================================================
 // BLOCK WRAPPER
-// Provides consistent UI for all blocks (drag handle, actions menu)
+// Provides consistent UI for all blocks (drag handle, actions menu,
+// collaborator presence, AI action preview)
 // ============================================================================
 
 interface BlockWrapperProps {
   children: React.ReactNode;
   onDelete: () => void;
   onDuplicate: () => void;
+  /** Adds "Ask AI" to the actions menu */
+  onAIAction?: (action: AIBlockAction) => void;
+  /** Adds "Turn into" to the actions menu, checking the block's own type */
+  turnInto?: {
+    block: Block;
+    onConvert: (conversion: BlockConversion) => void;
+  };
   dragHandleProps?: Record<string, unknown>;
+  /** Rendered as data-block-id so focus can be traced back to the block */
+  blockId?: string;
+  /** Collaborators currently editing this block */
+  presence?: RemotePeer[];
+  /** Rendered below the block content (e.g. an AI suggestion) */
+  footer?: React.ReactNode;
+  /** Part of a multi-block selection */
+  isSelected?: boolean;
   className?: string;
 }
 
@@ -41,23 +98,62 @@ export function BlockWrapper({
   children,
   onDelete,
   onDuplicate,
+  onAIAction,
+  turnInto,
   dragHandleProps,
+  blockId,
+  presence = [],
+  footer,
+  isSelected = false,
   className,
 }: BlockWrapperProps) {
   const [showMenu, setShowMenu] = useState(false);
+  const [submenu, setSubmenu] = useState<"ai" | "turn-into" | null>(null);
+
+  const closeMenu = () => {
+    setShowMenu(false);
+    setSubmenu(null);
+  };
+  const [firstPeer] = presence;
 
   return (
-    <div className={cn("group relative", className)}>
+    <div
+      className={cn(
+        "group relative",
+        firstPeer && "rounded-md outline-2 outline-offset-2",
+        isSelected && "rounded-md bg-accent/10 ring-2 ring-accent/40",
+        className
+      )}
+      data-block-id={blockId}
+      data-selected={isSelected || undefined}
+      style={firstPeer ? { outlineColor: firstPeer.user.color } : undefined}
+    >
+      {/* Collaborators in this block */}
+      {presence.length > 0 && (
+        <div className="pointer-events-none absolute -top-5 right-0 z-10 flex gap-1">
+          {presence.map((peer) => (
+            <span
+              className="rounded-sm px-1.5 py-0.5 font-medium text-[10px] text-white leading-none"
+              key={peer.clientId}
+              style={{ backgroundColor: peer.user.color }}
+            >
+              {peer.user.name}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Left side controls */}
       <div
         className={cn(
-          "absolute top-1 -left-12 flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100",
+          "absolute top-1 -left-12 flex items-center gap-1 opacity-0 transition-opacity focus-within:opacity-100 group-hover:opacity-100",
           "select-none"
         )}
       >
         {/* Drag handle */}
         <button
           className="cursor-grab rounded-sm p-1 text-surface-400 hover:bg-surface-100 hover:text-surface-600 active:cursor-grabbing"
+          data-drag-handle
           type="button"
           {...dragHandleProps}
         >
@@ -79,39 +175,81 @@ export function BlockWrapper({
               <div
                 aria-hidden="true"
                 className="fixed inset-0 z-10"
-                onClick={() => setShowMenu(false)}
+                onClick={closeMenu}
               />
-              <div
-                className={cn(
-                  "absolute top-full left-0 z-20 mt-1",
-                  "rounded-lg border border-surface-200 bg-white shadow-lg dark:border-surface-700 dark:bg-surface-800",
-                  "min-w-[140px] py-1",
-                  "animate-scale-in"
-                )}
-              >
-                <button
-                  className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-surface-700 hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700"
-                  onClick={() => {
-                    onDuplicate();
-                    setShowMenu(false);
+              {onAIAction && submenu === "ai" && (
+                <AIActionMenu
+                  className="absolute top-full left-0 mt-1"
+                  onSelect={(action) => {
+                    onAIAction(action);
+                    closeMenu();
                   }}
-                  type="button"
-                >
-                  <Copy className="h-4 w-4" />
-                  Duplicate
-                </button>
-                <button
-                  className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-red-600 text-sm hover:bg-red-50 dark:hover:bg-red-900/20"
-                  onClick={() => {
-                    onDelete();
-                    setShowMenu(false);
+                />
+              )}
+              {turnInto && submenu === "turn-into" && (
+                <TurnIntoMenu
+                  block={turnInto.block}
+                  className="absolute top-full left-0 mt-1"
+                  onSelect={(conversion) => {
+                    turnInto.onConvert(conversion);
+                    closeMenu();
                   }}
-                  type="button"
+                />
+              )}
+              {!submenu && (
+                <div
+                  className={cn(
+                    "absolute top-full left-0 z-20 mt-1",
+                    "rounded-lg border border-surface-200 bg-white shadow-lg dark:border-surface-700 dark:bg-surface-800",
+                    "min-w-[140px] py-1",
+                    "animate-scale-in"
+                  )}
                 >
-                  <Trash2 className="h-4 w-4" />
-                  Delete
-                </button>
-              </div>
+                  {onAIAction && (
+                    <button
+                      className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-surface-700 hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700"
+                      onClick={() => setSubmenu("ai")}
+                      type="button"
+                    >
+                      <Sparkles className="h-4 w-4 text-accent" />
+                      Ask AI
+                    </button>
+                  )}
+                  {turnInto && (
+                    <button
+                      className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-surface-700 hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700"
+                      onClick={() => setSubmenu("turn-into")}
+                      type="button"
+                    >
+                      <Repeat2 className="h-4 w-4" />
+                      <span className="flex-1">Turn into</span>
+                      <ChevronRight className="h-4 w-4 text-surface-400" />
+                    </button>
+                  )}
+                  <button
+                    className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-surface-700 hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700"
+                    onClick={() => {
+                      onDuplicate();
+                      closeMenu();
+                    }}
+                    type="button"
+                  >
+                    <Copy className="h-4 w-4" />
+                    Duplicate
+                  </button>
+                  <button
+                    className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-red-600 text-sm hover:bg-red-50 dark:hover:bg-red-900/20"
+                    onClick={() => {
+                      onDelete();
+                      closeMenu();
+                    }}
+                    type="button"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    Delete
+                  </button>
+                </div>
+              )}
             </>
           )}
         </div>
@@ -119,6 +257,7 @@ export function BlockWrapper({
 
       {/* Block content */}
       {children}
+      {footer}
     </div>
   );
 }
@@ -192,6 +331,7 @@ export function ImageBlockRenderer({
   onUpdate,
 }: ImageBlockRendererProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const storage = useStorage();
 
   const widthStyles = {
     small: "max-w-sm",
@@ -204,12 +344,15 @@ export function ImageBlockRenderer({
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file) {
-        // Create object URL for preview (in production, upload to storage)
-        const url = URL.createObjectURL(file);
-        onUpdate({ src: url, alt: file.name });
+        storage
+          .uploadImage(file)
+          .then((url) => onUpdate({ src: url, alt: file.name }))
+          .catch((error) => {
+            console.error("Failed to upload image:", error);
+          });
       }
     },
-    [onUpdate]
+    [onUpdate, storage]
   );
 
   if (!block.props.src) {
@@ -427,6 +570,8 @@ interface CodeBlockRendererProps {
 }
 
 export function CodeBlockRenderer({ block, onUpdate }: CodeBlockRendererProps) {
+  // Arrows on the first/last line and Backspace when empty leave the block
+  const onKeyAction = useBlockKeyboard();
   const languages = [
     "typescript",
     "javascript",
@@ -474,6 +619,12 @@ export function CodeBlockRenderer({ block, onUpdate }: CodeBlockRendererProps) {
             "placeholder:text-surface-600"
           )}
           onChange={(e) => onUpdate({ code: e.target.value })}
+          onKeyDown={(e) => {
+            const action = getTextareaKeyAction(e.currentTarget, e.nativeEvent);
+            if (action && onKeyAction?.(action)) {
+              e.preventDefault();
+            }
+          }}
           placeholder="// Enter your code here..."
           rows={Math.max(3, block.props.code.split("\n").length)}
           spellCheck={false}
@@ -522,6 +673,325 @@ export function QuoteBlockRenderer({
   );
 }
 
+// ============================================================================
+// LIST BLOCKS
+// Bulleted, numbered and to-do items share indent handling (Tab/Shift+Tab)
+// ============================================================================
+
+const bulletMarkers = ["•", "◦", "▪"];
+
+interface ListItemShellProps {
+  block: ListItemBlock;
+  onUpdate: (props: Partial<ListItemBlock["props"]>) => void;
+  marker: React.ReactNode;
+  contentClassName?: string;
+}
+
+function ListItemShell({
+  block,
+  onUpdate,
+  marker,
+  contentClassName,
+}: ListItemShellProps) {
+  const { indent } = block.props;
+
+  // Tab / Shift+Tab indent and outdent the item. At either end of the range
+  // the key is left alone, so focus can move on as usual.
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== "Tab") {
+      return false;
+    }
+    const nextIndent = event.shiftKey
+      ? Math.max(0, indent - 1)
+      : Math.min(MAX_LIST_INDENT, indent + 1);
+    if (nextIndent === indent) {
+      return false;
+    }
+    event.preventDefault();
+    onUpdate({ indent: nextIndent });
+    return true;
+  };
+
+  return (
+    <div
+      className="flex items-start gap-2 py-0.5"
+      style={{ paddingLeft: `${indent * 1.5}rem` }}
+    >
+      <div className="flex min-w-6 shrink-0 select-none justify-end pt-px text-surface-500">
+        {marker}
+      </div>
+      <div className={cn("min-w-0 flex-1", contentClassName)}>
+        <RichTextEditor
+          content={block.props.content}
+          onChange={(content) => onUpdate({ content })}
+          onKeyDown={handleKeyDown}
+          placeholder="List item"
+        />
+      </div>
+    </div>
+  );
+}
+
+interface BulletedListBlockRendererProps {
+  block: BulletedListBlock;
+  onUpdate: (props: Partial<BulletedListBlock["props"]>) => void;
+}
+
+export function BulletedListBlockRenderer({
+  block,
+  onUpdate,
+}: BulletedListBlockRendererProps) {
+  const marker = bulletMarkers[block.props.indent % bulletMarkers.length];
+  return <ListItemShell block={block} marker={marker} onUpdate={onUpdate} />;
+}
+
+interface NumberedListBlockRendererProps {
+  block: NumberedListBlock;
+  onUpdate: (props: Partial<NumberedListBlock["props"]>) => void;
+  listNumber?: number;
+}
+
+export function NumberedListBlockRenderer({
+  block,
+  onUpdate,
+  listNumber,
+}: NumberedListBlockRendererProps) {
+  const number = listNumber ?? block.props.start ?? 1;
+  return (
+    <ListItemShell
+      block={block}
+      marker={<span className="tabular-nums">{number}.</span>}
+      onUpdate={onUpdate}
+    />
+  );
+}
+
+interface TodoBlockRendererProps {
+  block: TodoBlock;
+  onUpdate: (props: Partial<TodoBlock["props"]>) => void;
+}
+
+export function TodoBlockRenderer({ block, onUpdate }: TodoBlockRendererProps) {
+  return (
+    <ListItemShell
+      block={block}
+      contentClassName={cn(
+        block.props.checked && "text-surface-400 line-through"
+      )}
+      marker={
+        <input
+          aria-label={block.props.checked ? "Mark as not done" : "Mark as done"}
+          checked={block.props.checked}
+          className="mt-1 h-4 w-4 cursor-pointer accent-accent"
+          onChange={(e) => onUpdate({ checked: e.target.checked })}
+          type="checkbox"
+        />
+      }
+      onUpdate={onUpdate}
+    />
+  );
+}
+
+// ============================================================================
+// TABLE BLOCK
+// ============================================================================
+
+interface TableBlockRendererProps {
+  block: TableBlock;
+  onUpdate: (props: Partial<TableBlock["props"]>) => void;
+}
+
+type ColumnAlign = TableBlock["props"]["columnAlign"][number];
+
+const nextColumnAlign: Record<ColumnAlign, ColumnAlign> = {
+  left: "center",
+  center: "right",
+  right: "left",
+};
+
+const columnAlignIcons = {
+  left: AlignLeft,
+  center: AlignCenter,
+  right: AlignRight,
+};
+
+export function TableBlockRenderer({
+  block,
+  onUpdate,
+}: TableBlockRendererProps) {
+  const { rows, hasHeaderRow } = block.props;
+  const columnCount = Math.max(1, ...rows.map((row) => row.length));
+  const columnAlign = Array.from(
+    { length: columnCount },
+    (_, index): ColumnAlign => block.props.columnAlign[index] ?? "left"
+  );
+
+  const updateCell = (rowIndex: number, colIndex: number, content: string) => {
+    onUpdate({
+      rows: rows.map((row, r) =>
+        r === rowIndex
+          ? row.map((cell, c) => (c === colIndex ? content : cell))
+          : row
+      ),
+    });
+  };
+
+  const addRow = () => {
+    onUpdate({ rows: [...rows, new Array<string>(columnCount).fill("")] });
+  };
+
+  const addColumn = () => {
+    onUpdate({
+      rows: rows.map((row) => [...row, ""]),
+      columnAlign: [...columnAlign, "left"],
+    });
+  };
+
+  const removeRow = (rowIndex: number) => {
+    if (rows.length <= 1) {
+      return;
+    }
+    onUpdate({ rows: rows.filter((_, r) => r !== rowIndex) });
+  };
+
+  const removeColumn = (colIndex: number) => {
+    if (columnCount <= 1) {
+      return;
+    }
+    onUpdate({
+      rows: rows.map((row) => row.filter((_, c) => c !== colIndex)),
+      columnAlign: columnAlign.filter((_, c) => c !== colIndex),
+    });
+  };
+
+  const cycleAlign = (colIndex: number) => {
+    onUpdate({
+      columnAlign: columnAlign.map((align, c) =>
+        c === colIndex ? nextColumnAlign[align] : align
+      ),
+    });
+  };
+
+  return (
+    <div className="group/table py-2">
+      {/* Table controls */}
+      <div className="mb-2 flex justify-center opacity-0 transition-opacity group-hover/table:opacity-100">
+        <div className="flex gap-1 rounded-lg bg-surface-100 p-1 dark:bg-surface-800">
+          <button
+            className={cn(
+              "rounded-sm px-2 py-1 text-xs",
+              hasHeaderRow
+                ? "bg-white shadow-xs dark:bg-surface-700"
+                : "hover:bg-white/50 dark:hover:bg-surface-700/50"
+            )}
+            onClick={() => onUpdate({ hasHeaderRow: !hasHeaderRow })}
+            type="button"
+          >
+            Header row
+          </button>
+          <button
+            className="flex items-center gap-1 rounded-sm px-2 py-1 text-xs hover:bg-white/50 dark:hover:bg-surface-700/50"
+            onClick={addRow}
+            type="button"
+          >
+            <Plus className="h-3 w-3" />
+            Row
+          </button>
+          <button
+            className="flex items-center gap-1 rounded-sm px-2 py-1 text-xs hover:bg-white/50 dark:hover:bg-surface-700/50"
+            onClick={addColumn}
+            type="button"
+          >
+            <Plus className="h-3 w-3" />
+            Column
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full border-collapse text-sm">
+          <thead className="opacity-0 transition-opacity group-hover/table:opacity-100">
+            <tr>
+              {columnAlign.map((align, colIndex) => {
+                const AlignIcon = columnAlignIcons[align];
+                return (
+                  <th
+                    className="px-1 pb-1 font-normal"
+                    key={`align-${block.props.id}-${colIndex}`}
+                  >
+                    <div className="flex justify-center gap-1">
+                      <button
+                        className="rounded-sm p-1 text-surface-400 hover:bg-surface-100 hover:text-surface-600 dark:hover:bg-surface-700"
+                        onClick={() => cycleAlign(colIndex)}
+                        title={`Align ${align}`}
+                        type="button"
+                      >
+                        <AlignIcon className="h-3 w-3" />
+                      </button>
+                      <button
+                        className="rounded-sm p-1 text-surface-400 hover:bg-red-50 hover:text-red-600 disabled:opacity-40 dark:hover:bg-red-900/20"
+                        disabled={columnCount <= 1}
+                        onClick={() => removeColumn(colIndex)}
+                        title="Delete column"
+                        type="button"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  </th>
+                );
+              })}
+              <th aria-label="Row actions" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, rowIndex) => {
+              const isHeader = hasHeaderRow && rowIndex === 0;
+              return (
+                <tr key={`row-${block.props.id}-${rowIndex}`}>
+                  {columnAlign.map((align, colIndex) => {
+                    const CellTag = isHeader ? "th" : "td";
+                    return (
+                      <CellTag
+                        className={cn(
+                          "border border-surface-200 px-3 py-1 align-top dark:border-surface-700",
+                          isHeader &&
+                            "bg-surface-50 font-semibold dark:bg-surface-800"
+                        )}
+                        key={`cell-${block.props.id}-${rowIndex}-${colIndex}`}
+                      >
+                        <RichTextEditor
+                          align={align}
+                          content={row[colIndex] ?? ""}
+                          onChange={(content) =>
+                            updateCell(rowIndex, colIndex, content)
+                          }
+                          placeholder=""
+                        />
+                      </CellTag>
+                    );
+                  })}
+                  <td className="w-6 pl-1 align-middle">
+                    <button
+                      className="rounded-sm p-1 text-surface-400 opacity-0 transition-opacity hover:bg-red-50 hover:text-red-600 disabled:hidden group-hover/table:opacity-100 dark:hover:bg-red-900/20"
+                      disabled={rows.length <= 1}
+                      onClick={() => removeRow(rowIndex)}
+                      title="Delete row"
+                      type="button"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // COLUMNS BLOCK
 // ============================================================================
@@ -535,89 +1005,249 @@ interface ColumnsBlockRendererProps {
   ) => React.ReactNode;
 }
 
+const STACK_OPTIONS: { value: ColumnStackBreakpoint; label: string }[] = [
+  { value: "never", label: "Never stack" },
+  { value: "sm", label: "Stack below 640px" },
+  { value: "md", label: "Stack below 768px" },
+  { value: "lg", label: "Stack below 1024px" },
+];
+
+// How far the arrow keys move a column boundary, as a fraction of the row
+const RESIZE_KEY_STEP = 0.05;
+
+const TOOLBAR_BUTTON_CLASS =
+  "rounded-sm px-2 py-1 hover:bg-white/50 disabled:cursor-not-allowed disabled:opacity-40 dark:hover:bg-surface-700/50";
+
 export function ColumnsBlockRenderer({
   block,
   onUpdate,
   renderBlock,
 }: ColumnsBlockRendererProps) {
-  const flexBasis = getColumnFlexBasis(block.props.layout);
-  const layouts = ["1-1", "1-2", "2-1", "1-1-1"] as const;
+  const { columns, widths, stackBelow } = block.props;
+  const flexBasis = getColumnFlexBasis(widths, columns.length);
+  const stackClasses = getColumnStackClasses(stackBelow);
+  const rowRef = useRef<HTMLDivElement>(null);
+
+  // Drag a boundary: widths are recomputed from where the drag started
+  const startResize = (
+    boundary: number,
+    event: React.PointerEvent<HTMLButtonElement>
+  ) => {
+    const rowWidth = rowRef.current?.getBoundingClientRect().width;
+    if (!rowWidth) {
+      return;
+    }
+    event.preventDefault();
+    const handle = event.currentTarget;
+    const startX = event.clientX;
+    const startWidths = widths;
+    handle.setPointerCapture(event.pointerId);
+
+    const onMove = (moveEvent: PointerEvent) => {
+      onUpdate({
+        widths: resizeColumns(
+          startWidths,
+          columns.length,
+          boundary,
+          (moveEvent.clientX - startX) / rowWidth
+        ),
+      });
+    };
+    const onEnd = () => {
+      handle.removeEventListener("pointermove", onMove);
+      handle.removeEventListener("pointerup", onEnd);
+      handle.removeEventListener("pointercancel", onEnd);
+    };
+    handle.addEventListener("pointermove", onMove);
+    handle.addEventListener("pointerup", onEnd);
+    handle.addEventListener("pointercancel", onEnd);
+  };
 
   return (
     <div className="group/columns py-2">
-      {/* Layout selector */}
-      <div className="mb-3 flex justify-center opacity-0 transition-opacity group-hover/columns:opacity-100">
-        <div className="flex gap-1 rounded-lg bg-surface-100 p-1 dark:bg-surface-800">
-          {layouts.map((layout) => (
-            <button
-              className={cn(
-                "rounded-sm px-2 py-1 text-xs",
-                block.props.layout === layout
-                  ? "bg-white shadow-xs dark:bg-surface-700"
-                  : "hover:bg-white/50 dark:hover:bg-surface-700/50"
-              )}
-              key={layout}
-              onClick={() => {
-                const numCols = layout === "1-1-1" ? 3 : 2;
-                const currentCols = block.props.columns;
-
-                // Adjust columns array if layout changes column count
-                let newColumns = currentCols;
-                if (numCols > currentCols.length) {
-                  newColumns = [
-                    ...currentCols,
-                    ...new Array(numCols - currentCols.length).fill([]),
-                  ];
-                } else if (numCols < currentCols.length) {
-                  // Merge extra columns into the last visible one
-                  const merged = currentCols.slice(numCols - 1).flat();
-                  newColumns = [...currentCols.slice(0, numCols - 1), merged];
-                }
-
-                onUpdate({ layout, columns: newColumns });
-              }}
-              type="button"
-            >
-              {layout}
-            </button>
-          ))}
+      {/* Column count, widths and stacking */}
+      <div className="mb-3 flex justify-center opacity-0 transition-opacity focus-within:opacity-100 group-hover/columns:opacity-100">
+        <div className="flex items-center gap-1 rounded-lg bg-surface-100 p-1 text-xs dark:bg-surface-800">
+          <button
+            aria-label="Remove column"
+            className={TOOLBAR_BUTTON_CLASS}
+            disabled={columns.length <= MIN_COLUMNS}
+            onClick={() =>
+              onUpdate(setColumnCount(block.props, columns.length - 1))
+            }
+            type="button"
+          >
+            <Minus className="h-3 w-3" />
+          </button>
+          <span className="px-1 tabular-nums">{columns.length} columns</span>
+          <button
+            aria-label="Add column"
+            className={TOOLBAR_BUTTON_CLASS}
+            disabled={columns.length >= MAX_COLUMNS}
+            onClick={() =>
+              onUpdate(setColumnCount(block.props, columns.length + 1))
+            }
+            type="button"
+          >
+            <Plus className="h-3 w-3" />
+          </button>
+          <button
+            className={TOOLBAR_BUTTON_CLASS}
+            onClick={() => onUpdate({ widths: columns.map(() => 1) })}
+            type="button"
+          >
+            Equal widths
+          </button>
+          <select
+            aria-label="Stacking"
+            className="cursor-pointer border-none bg-transparent text-xs focus:outline-hidden focus:ring-0"
+            onChange={(e) =>
+              onUpdate({ stackBelow: e.target.value as ColumnStackBreakpoint })
+            }
+            value={stackBelow}
+          >
+            {STACK_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         </div>
       </div>
 
       {/* Columns */}
-      <div className="flex gap-4">
-        {block.props.columns.map((columnBlockIds, colIndex) => (
-          <div
-            className={cn(
-              "min-h-[80px] rounded-lg",
-              "border-2 border-transparent border-dashed",
-              "hover:border-surface-200 dark:hover:border-surface-700",
-              "transition-colors"
+      <div className={cn("flex", stackClasses.row)} ref={rowRef}>
+        {columns.map((columnBlockIds, colIndex) => (
+          <Fragment key={`col-${block.props.id}-${colIndex}`}>
+            {colIndex > 0 && (
+              <ColumnResizeHandle
+                className={stackClasses.handle}
+                onKeyboardResize={(delta) =>
+                  onUpdate({
+                    widths: resizeColumns(
+                      widths,
+                      columns.length,
+                      colIndex - 1,
+                      delta
+                    ),
+                  })
+                }
+                onPointerDown={(event) => startResize(colIndex - 1, event)}
+              />
             )}
-            key={`col-${block.props.id}-${colIndex}`}
-            style={{ flexBasis: flexBasis[colIndex] }}
-          >
-            {columnBlockIds.length === 0 ? (
-              <div className="flex h-full items-center justify-center p-4 text-sm text-surface-400">
-                Drop blocks here
-              </div>
-            ) : (
-              <div className="space-y-2">
-                {columnBlockIds.map((blockId) =>
+            <div
+              className={cn(
+                "flex min-h-[80px] min-w-0 flex-col rounded-lg",
+                "border-2 border-transparent border-dashed",
+                "hover:border-surface-200 dark:hover:border-surface-700",
+                "transition-colors"
+              )}
+              style={{ flexBasis: flexBasis[colIndex] }}
+            >
+              <BlockDropList
+                activeClassName="rounded-md bg-accent/5"
+                blockIds={columnBlockIds}
+                className="flex-1 space-y-2"
+                container={{
+                  type: "column",
+                  columnId: block.props.id,
+                  columnIndex: colIndex,
+                }}
+                emptyState={
+                  <div className="flex h-full items-center justify-center p-4 text-sm text-surface-400">
+                    Drop blocks here
+                  </div>
+                }
+                label={`Column ${colIndex + 1}`}
+                renderBlock={(blockId) =>
                   renderBlock(blockId, {
                     columnId: block.props.id,
                     columnIndex: colIndex,
                   })
-                )}
-              </div>
-            )}
-          </div>
+                }
+              />
+            </div>
+          </Fragment>
         ))}
       </div>
     </div>
   );
 }
 
+interface ColumnResizeHandleProps {
+  className: string;
+  onPointerDown: (event: React.PointerEvent<HTMLButtonElement>) => void;
+  /** Moves the boundary by a fraction of the row */
+  onKeyboardResize: (delta: number) => void;
+}
+
+/**
+ * Draggable boundary between two columns (also the gap between them)
+ */
+function ColumnResizeHandle({
+  className,
+  onPointerDown,
+  onKeyboardResize,
+}: ColumnResizeHandleProps) {
+  return (
+    <button
+      aria-label="Resize columns"
+      className={cn(
+        "group/handle w-4 shrink-0 cursor-col-resize touch-none justify-center focus:outline-hidden",
+        className
+      )}
+      onKeyDown={(event) => {
+        if (event.key === "ArrowLeft" || event.key === "ArrowRight") {
+          event.preventDefault();
+          onKeyboardResize(
+            event.key === "ArrowLeft" ? -RESIZE_KEY_STEP : RESIZE_KEY_STEP
+          );
+        }
+      }}
+      onPointerDown={onPointerDown}
+      title="Drag or use ←/→ to resize"
+      type="button"
+    >
+      <div className="w-0.5 rounded-full bg-transparent transition-colors group-hover/columns:bg-surface-200 group-hover/handle:bg-accent group-focus-visible/handle:bg-accent dark:group-hover/columns:bg-surface-700" />
+    </button>
+  );
+}
+
+// ============================================================================
+// CUSTOM BLOCK RENDERER
+// Blocks of a type the app registered are edited by the definition's own
+// component (see block-definitions)
+// ============================================================================
+
+interface CustomBlockRendererProps {
+  block: CustomBlock;
+  onUpdate: (props: Partial<CustomBlock["props"]>) => void;
+}
+
+export function CustomBlockRenderer({
+  block,
+  onUpdate,
+}: CustomBlockRendererProps) {
+  const resolved = resolveCustomBlock(block);
+  if (!resolved) {
+    // Kept as stored until the type is registered again
+    return (
+      <div className="rounded-lg border border-surface-300 border-dashed px-4 py-3 text-sm text-surface-400 dark:border-surface-600">
+        “{block.props.blockType}” blocks aren't available in this editor
+      </div>
+    );
+  }
+  const { definition, data } = resolved;
+  const Component = definition.component;
+  return (
+    <Component
+      blockId={block.props.id}
+      data={data}
+      onChange={(changes) => onUpdate({ data: { ...data, ...changes } })}
+    />
+  );
+}
+
 // ============================================================================
 // BLOCK RENDERER (Dispatcher)
 // ============================================================================
@@ -632,6 +1262,20 @@ interface BlockRendererProps {
     columnContext?: { columnId: string; columnIndex: number }
   ) => React.ReactNode;
   dragHandleProps?: Record<string, unknown>;
+  /** Displayed number for numbered list items (see computeListNumbers) */
+  listNumber?: number;
+  /** Collaborators currently editing this block */
+  presence?: RemotePeer[];
+  /** Runs an AI action on the block (text blocks only) */
+  onAIAction?: (action: AIBlockAction) => void;
+  /** Turns the block into another text type (text blocks only) */
+  onConvert?: (conversion: BlockConversion) => void;
+  /** Keys leaving the block's text (text blocks only, see block-keyboard) */
+  onKeyAction?: (action: BlockKeyAction) => boolean;
+  /** Rendered below the block (e.g. an AI suggestion) */
+  footer?: React.ReactNode;
+  /** Part of a multi-block selection */
+  isSelected?: boolean;
 }
 
 export function BlockRenderer({
@@ -641,7 +1285,18 @@ export function BlockRenderer({
   onDuplicate,
   renderBlock,
   dragHandleProps,
+  listNumber,
+  presence,
+  onAIAction,
+  onConvert,
+  onKeyAction,
+  footer,
+  isSelected,
 }: BlockRendererProps) {
+  const aiAction = supportsAIActions(block) ? onAIAction : undefined;
+  const isTextBlock = isConvertibleBlock(block);
+  const convert = isTextBlock ? onConvert : undefined;
+  const keyAction = isTextBlock ? onKeyAction : undefined;
   const content = (() => {
     switch (block.type) {
       case "paragraph":
@@ -658,6 +1313,20 @@ export function BlockRenderer({
         return <CodeBlockRenderer block={block} onUpdate={onUpdate} />;
       case "quote":
         return <QuoteBlockRenderer block={block} onUpdate={onUpdate} />;
+      case "bulleted-list":
+        return <BulletedListBlockRenderer block={block} onUpdate={onUpdate} />;
+      case "numbered-list":
+        return (
+          <NumberedListBlockRenderer
+            block={block}
+            listNumber={listNumber}
+            onUpdate={onUpdate}
+          />
+        );
+      case "todo":
+        return <TodoBlockRenderer block={block} onUpdate={onUpdate} />;
+      case "table":
+        return <TableBlockRenderer block={block} onUpdate={onUpdate} />;
       case "columns":
         if (!renderBlock) {
           console.warn("renderBlock prop required for columns block");
@@ -670,6 +1339,8 @@ export function BlockRenderer({
             renderBlock={renderBlock}
           />
         );
+      case "custom":
+        return <CustomBlockRenderer block={block} onUpdate={onUpdate} />;
       default:
         return <div>Unknown block type</div>;
     }
@@ -677,11 +1348,23 @@ export function BlockRenderer({
 
   return (
     <BlockWrapper
+      blockId={block.props.id}
       dragHandleProps={dragHandleProps}
+      footer={footer}
+      isSelected={isSelected}
+      onAIAction={aiAction}
       onDelete={onDelete}
       onDuplicate={onDuplicate}
+      presence={presence}
+      turnInto={convert && { block, onConvert: convert }}
     >
-      {content}
+      <AIActionProvider onAction={aiAction ?? null}>
+        <BlockConversionProvider onConvert={convert ?? null}>
+          <BlockKeyboardProvider onKeyAction={keyAction ?? null}>
+            {content}
+          </BlockKeyboardProvider>
+        </BlockConversionProvider>
+      </AIActionProvider>
     </BlockWrapper>
   );
 }
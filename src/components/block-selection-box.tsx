@@ -0,0 +1,130 @@
+import { useEffect, useRef, useState } from "react";
+
+// Pointer travel before a press on empty space becomes a selection box
+const MIN_BOX_DRAG = 4;
+
+// Presses on these start their own interaction, not a box
+const NO_BOX_SELECTOR =
+  "[data-block-id], button, input, textarea, select, a, [contenteditable='true']";
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+function getBox(
+  start: { x: number; y: number },
+  end: { x: number; y: number }
+): Box {
+  return {
+    left: Math.min(start.x, end.x),
+    top: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  };
+}
+
+function intersects(box: Box, rect: DOMRect): boolean {
+  return (
+    rect.left < box.left + box.width &&
+    rect.right > box.left &&
+    rect.top < box.top + box.height &&
+    rect.bottom > box.top
+  );
+}
+
+/**
+ * IDs of the blocks inside `container` touched by a box (viewport
+ * coordinates), in document order
+ */
+function getBlocksInBox(container: HTMLElement, box: Box): string[] {
+  return [...container.querySelectorAll<HTMLElement>("[data-block-id]")]
+    .filter((element) => intersects(box, element.getBoundingClientRect()))
+    .map((element) => element.dataset.blockId ?? "")
+    .filter(Boolean);
+}
+
+interface BlockSelectionBoxProps {
+  /** Area whose empty space starts a box, and whose blocks it selects */
+  containerRef: React.RefObject<HTMLElement | null>;
+  /** Called with the blocks under the box as it is dragged */
+  onSelect: (blockIds: string[]) => void;
+}
+
+/**
+ * Drag-box selection: pressing on empty space around the blocks and
+ * dragging draws a box that selects every block it touches.
+ */
+export function BlockSelectionBox({
+  containerRef,
+  onSelect,
+}: BlockSelectionBoxProps) {
+  const [box, setBox] = useState<Box | null>(null);
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) {
+      return;
+    }
+
+    const handlePointerDown = (event: PointerEvent) => {
+      const target = event.target as HTMLElement;
+      if (
+        event.button !== 0 ||
+        !event.isPrimary ||
+        target.closest(NO_BOX_SELECTOR)
+      ) {
+        return;
+      }
+      const start = { x: event.clientX, y: event.clientY };
+      let isDragging = false;
+
+      const handlePointerMove = (moveEvent: PointerEvent) => {
+        const next = getBox(start, {
+          x: moveEvent.clientX,
+          y: moveEvent.clientY,
+        });
+        if (!isDragging && Math.max(next.width, next.height) < MIN_BOX_DRAG) {
+          return;
+        }
+        if (!isDragging) {
+          isDragging = true;
+          window.document.body.style.userSelect = "none";
+          window.getSelection()?.removeAllRanges();
+        }
+        setBox(next);
+        onSelectRef.current(getBlocksInBox(container, next));
+      };
+      const handlePointerUp = () => {
+        window.removeEventListener("pointermove", handlePointerMove);
+        window.removeEventListener("pointerup", handlePointerUp);
+        window.removeEventListener("pointercancel", handlePointerUp);
+        window.document.body.style.userSelect = "";
+        setBox(null);
+      };
+
+      window.addEventListener("pointermove", handlePointerMove);
+      window.addEventListener("pointerup", handlePointerUp);
+      window.addEventListener("pointercancel", handlePointerUp);
+    };
+
+    container.addEventListener("pointerdown", handlePointerDown);
+    return () =>
+      container.removeEventListener("pointerdown", handlePointerDown);
+  }, [containerRef]);
+
+  if (!box) {
+    return null;
+  }
+  return (
+    <div
+      aria-hidden
+      className="pointer-events-none fixed z-40 rounded-sm border border-accent/60 bg-accent/10"
+      style={box}
+    />
+  );
+}
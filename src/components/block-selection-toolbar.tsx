@@ -0,0 +1,133 @@
+import {
+  ClipboardCopy,
+  Columns2,
+  Copy,
+  Scissors,
+  Trash2,
+  X,
+} from "lucide-react";
+import {
+  type BlockConversion,
+  TURN_INTO_OPTIONS,
+} from "@/lib/block-conversion";
+import { cn } from "@/lib/utils";
+
+const BUTTON_CLASS =
+  "flex items-center gap-1.5 rounded-md px-2 py-1 text-surface-600 text-xs transition-colors hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700";
+
+interface BlockSelectionToolbarProps {
+  count: number;
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onCopy: () => void;
+  onCut: () => void;
+  onWrapInColumns: () => void;
+  onConvert: (conversion: BlockConversion) => void;
+  onClear: () => void;
+}
+
+/**
+ * Bulk actions for a multi-block selection, floating at the bottom of the
+ * screen while blocks are selected
+ */
+export function BlockSelectionToolbar({
+  count,
+  onDuplicate,
+  onDelete,
+  onCopy,
+  onCut,
+  onWrapInColumns,
+  onConvert,
+  onClear,
+}: BlockSelectionToolbarProps) {
+  return (
+    <div
+      aria-label="Selected blocks"
+      className={cn(
+        "fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 items-center gap-1",
+        "rounded-full border border-surface-200 bg-white px-3 py-1.5 shadow-lg",
+        "dark:border-surface-700 dark:bg-surface-800",
+        "animate-scale-in"
+      )}
+      role="toolbar"
+    >
+      <span className="px-2 font-medium text-surface-700 text-xs dark:text-surface-200">
+        {count} {count === 1 ? "block" : "blocks"} selected
+      </span>
+      <select
+        aria-label="Turn into"
+        className="cursor-pointer rounded-md border-none bg-transparent px-2 py-1 text-surface-600 text-xs hover:bg-surface-100 focus:outline-hidden focus:ring-0 dark:text-surface-300 dark:hover:bg-surface-700"
+        onChange={(event) => {
+          const option = TURN_INTO_OPTIONS.find(
+            ({ id }) => id === event.target.value
+          );
+          if (option) {
+            onConvert(option.conversion);
+          }
+        }}
+        value=""
+      >
+        <option disabled value="">
+          Turn into…
+        </option>
+        {TURN_INTO_OPTIONS.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button className={BUTTON_CLASS} onClick={onWrapInColumns} type="button">
+        <Columns2 className="h-3.5 w-3.5" />
+        Columns
+      </button>
+      <button
+        className={BUTTON_CLASS}
+        onClick={onDuplicate}
+        title="Duplicate (⌘D)"
+        type="button"
+      >
+        <Copy className="h-3.5 w-3.5" />
+        Duplicate
+      </button>
+      <button
+        className={BUTTON_CLASS}
+        onClick={onCopy}
+        title="Copy (⌘C)"
+        type="button"
+      >
+        <ClipboardCopy className="h-3.5 w-3.5" />
+        Copy
+      </button>
+      <button
+        className={BUTTON_CLASS}
+        onClick={onCut}
+        title="Cut (⌘X)"
+        type="button"
+      >
+        <Scissors className="h-3.5 w-3.5" />
+        Cut
+      </button>
+      <button
+        className={cn(
+          BUTTON_CLASS,
+          "text-red-600 hover:bg-red-50 dark:text-red-400 dark:hover:bg-red-900/20"
+        )}
+        onClick={onDelete}
+        title="Delete (⌫)"
+        type="button"
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+        Delete
+      </button>
+      <button
+        aria-label="Clear selection"
+        className="rounded-full p-1 text-surface-400 hover:bg-surface-100 hover:text-surface-600 dark:hover:bg-surface-700"
+        onClick={onClear}
+        title="Clear selection (Esc)"
+        type="button"
+      >
+        <X className="h-3.5 w-3.5" />
+      </button>
+    </div>
+  );
+}
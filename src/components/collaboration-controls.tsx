@@ -0,0 +1,82 @@
+import { Loader2, Users } from "lucide-react";
+import type {
+  CollaborationStatus,
+  CollaborationUser,
+  RemotePeer,
+} from "@/lib/collaboration";
+import { cn } from "@/lib/utils";
+
+interface PresenceAvatarProps {
+  user: CollaborationUser;
+  label: string;
+}
+
+function PresenceAvatar({ user, label }: PresenceAvatarProps) {
+  return (
+    <span
+      className="-ml-1 flex h-6 w-6 items-center justify-center rounded-full border-2 border-white font-semibold text-[10px] text-white first:ml-0 dark:border-surface-900"
+      style={{ backgroundColor: user.color }}
+      title={label}
+    >
+      {user.name.charAt(0)}
+    </span>
+  );
+}
+
+interface CollaborationControlsProps {
+  isActive: boolean;
+  status: CollaborationStatus | "off";
+  user: CollaborationUser;
+  peers: RemotePeer[];
+  onToggle: () => void;
+}
+
+/**
+ * Header toggle for collaborative editing, with the people connected.
+ */
+export function CollaborationControls({
+  isActive,
+  status,
+  user,
+  peers,
+  onToggle,
+}: CollaborationControlsProps) {
+  return (
+    <div className="mr-2 flex items-center gap-2">
+      {status === "connecting" && (
+        <Loader2 className="h-4 w-4 animate-spin text-surface-400" />
+      )}
+      {status === "synced" && (
+        <div className="flex items-center">
+          <PresenceAvatar label={`${user.name} (you)`} user={user} />
+          {peers.map((peer) => (
+            <PresenceAvatar
+              key={peer.clientId}
+              label={peer.user.name}
+              user={peer.user}
+            />
+          ))}
+        </div>
+      )}
+      <button
+        aria-pressed={isActive}
+        className={cn(
+          "flex items-center gap-1.5 rounded-md px-2 py-1 text-sm transition-colors",
+          isActive
+            ? "bg-accent/10 text-accent dark:bg-accent/20"
+            : "text-surface-400 hover:bg-surface-100 hover:text-surface-600 dark:hover:bg-surface-800"
+        )}
+        onClick={onToggle}
+        title={
+          isActive
+            ? "Stop collaborating"
+            : "Edit together with other tabs or people in this document"
+        }
+        type="button"
+      >
+        <Users className="h-4 w-4" />
+        {isActive ? "Live" : "Collaborate"}
+      </button>
+    </div>
+  );
+}
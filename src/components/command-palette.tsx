@@ -1,243 +1,202 @@
 import {
-  Code,
-  Columns,
-  Heading1,
-  Heading2,
-  Heading3,
-  Image,
-  Loader2,
-  MessageSquare,
-  Minus,
-  Pilcrow,
-  Quote,
+  ChevronLeft,
+  ChevronRight,
+  Command as CommandIcon,
   Sparkles,
 } from "lucide-react";
-import { useCallback, useEffect, useRef, useState } from "react";
-import { generateBlocksFromPrompt } from "@/lib/ai";
-import { cn, createBlock } from "@/lib/utils";
-import type { Block } from "@/types/blocks";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  type CommandContext,
+  type CommandMatch,
+  formatShortcut,
+  getRecentCommands,
+  type PaletteCommand,
+  rankCommands,
+} from "@/lib/command-registry";
+import { cn } from "@/lib/utils";
+import { AISuggestionChips } from "./ai-suggestion-chips";
+import { useCommandRegistry, useCommands } from "./command-provider";
+
+// Room kept for the palette when anchored near the bottom or right edge
+const PALETTE_HEIGHT = 400;
+const PALETTE_WIDTH = 296;
+
+// Keys taken from the document while a slash menu filters the palette
+const SLASH_MENU_KEYS = new Set(["ArrowDown", "ArrowUp", "Enter"]);
 
 interface CommandPaletteProps {
   isOpen: boolean;
   onClose: () => void;
-  onInsertBlock: (block: Block) => void;
-  onInsertBlocks: (blocks: Block[]) => void;
+  /** What commands act on (the palette adds askAI, its own AI mode) */
+  context: Omit<CommandContext, "askAI">;
+  /** Generate blocks with AI for a prompt */
+  onGenerate: (prompt: string) => void;
+  /** Prompts offered at the top of AI mode */
+  suggestions?: string[];
+  /** Viewport point to open at (e.g. below the caret); centered otherwise */
   position?: { top: number; left: number };
+  /**
+   * Filter typed in the document after a "/" (see slash-menu). Replaces the
+   * search input; the palette takes the arrow keys, Enter and Escape from
+   * the document while it has matches.
+   */
+  filter?: string;
+}
+
+/** A sub-menu opened in the palette */
+interface OpenMenu {
+  command: PaletteCommand;
+  /** Length of the slash filter when it opened; what follows filters it */
+  filterStart: number;
 }
 
-interface CommandItem {
-  id: string;
-  label: string;
-  description: string;
-  icon: React.ComponentType<{ className?: string }>;
-  action: () => void;
-  category: "basic" | "media" | "layout" | "ai";
+interface CommandSection {
+  /** Heading; none for search results */
+  label?: string;
+  matches: CommandMatch[];
+}
+
+/**
+ * What the palette lists: search results best first, or (with no search)
+ * recently used commands followed by the commands in their groups
+ */
+function getCommandSections(
+  commands: PaletteCommand[],
+  search: string,
+  context: CommandContext,
+  recent: string[]
+): CommandSection[] {
+  const matches = rankCommands(commands, search, context, recent);
+  if (search.trim()) {
+    return matches.length > 0 ? [{ matches }] : [];
+  }
+  const sections: CommandSection[] = [];
+  const recentMatches = getRecentCommands(commands, recent, context);
+  if (recentMatches.length > 0) {
+    sections.push({ label: "Recent", matches: recentMatches });
+  }
+  for (const match of matches) {
+    const section = sections.find(
+      (candidate) =>
+        candidate.label === match.command.group && candidate.label !== "Recent"
+    );
+    if (section) {
+      section.matches.push(match);
+    } else {
+      sections.push({ label: match.command.group, matches: [match] });
+    }
+  }
+  return sections;
 }
 
 export function CommandPalette({
   isOpen,
   onClose,
-  onInsertBlock,
-  onInsertBlocks,
+  context,
+  onGenerate,
+  suggestions = [],
   position,
+  filter,
 }: CommandPaletteProps) {
+  const registry = useCommandRegistry();
+  const commands = useCommands();
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [isAIMode, setIsAIMode] = useState(false);
-  const [isLoading, setIsLoading] = useState(false);
+  const [openMenus, setOpenMenus] = useState<OpenMenu[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const isSlashMenu = filter !== undefined;
+  const showInput = !isSlashMenu || isAIMode;
 
-  // Focus input when opened
+  // Focus input when opened (a slash menu leaves the focus in the document)
   useEffect(() => {
     if (isOpen) {
       setQuery("");
       setSelectedIndex(0);
       setIsAIMode(false);
-      setTimeout(() => inputRef.current?.focus(), 0);
+      setOpenMenus([]);
     }
   }, [isOpen]);
 
-  // Build command list
-  const commands: CommandItem[] = [
-    // Basic blocks
-    {
-      id: "paragraph",
-      label: "Text",
-      description: "Just start writing with plain text",
-      icon: Pilcrow,
-      action: () => onInsertBlock(createBlock("paragraph")),
-      category: "basic",
-    },
-    {
-      id: "heading-1",
-      label: "Heading 1",
-      description: "Large section heading",
-      icon: Heading1,
-      action: () => onInsertBlock(createBlock("heading", { level: "h1" })),
-      category: "basic",
-    },
-    {
-      id: "heading-2",
-      label: "Heading 2",
-      description: "Medium section heading",
-      icon: Heading2,
-      action: () => onInsertBlock(createBlock("heading", { level: "h2" })),
-      category: "basic",
-    },
-    {
-      id: "heading-3",
-      label: "Heading 3",
-      description: "Small section heading",
-      icon: Heading3,
-      action: () => onInsertBlock(createBlock("heading", { level: "h3" })),
-      category: "basic",
-    },
-    {
-      id: "quote",
-      label: "Quote",
-      description: "Capture a quote",
-      icon: Quote,
-      action: () => onInsertBlock(createBlock("quote")),
-      category: "basic",
-    },
-    {
-      id: "divider",
-      label: "Divider",
-      description: "Horizontal line to separate content",
-      icon: Minus,
-      action: () => onInsertBlock(createBlock("divider")),
-      category: "basic",
-    },
+  useEffect(() => {
+    if (isOpen && showInput) {
+      setTimeout(() => inputRef.current?.focus(), 0);
+    }
+  }, [isOpen, showInput]);
 
-    // Media
-    {
-      id: "image",
-      label: "Image",
-      description: "Upload or embed an image",
-      icon: Image,
-      action: () => onInsertBlock(createBlock("image")),
-      category: "media",
-    },
-    {
-      id: "code",
-      label: "Code",
-      description: "Code snippet with syntax highlighting",
-      icon: Code,
-      action: () => onInsertBlock(createBlock("code")),
-      category: "media",
-    },
+  // The first match is selected as the filter changes; deleting the text
+  // typed since a sub-menu opened goes back out of it
+  useEffect(() => {
+    setSelectedIndex(0);
+    setOpenMenus((menus) =>
+      menus.filter((menu) => menu.filterStart <= (filter?.length ?? 0))
+    );
+  }, [filter]);
 
-    // Layout
-    {
-      id: "columns-2",
-      label: "2 Columns",
-      description: "Split into two columns",
-      icon: Columns,
-      action: () =>
-        onInsertBlock(
-          createBlock("columns", { layout: "1-1", columns: [[], []] })
-        ),
-      category: "layout",
-    },
-    {
-      id: "columns-3",
-      label: "3 Columns",
-      description: "Split into three columns",
-      icon: Columns,
-      action: () =>
-        onInsertBlock(
-          createBlock("columns", { layout: "1-1-1", columns: [[], [], []] })
-        ),
-      category: "layout",
-    },
+  const commandContext = useMemo(
+    (): CommandContext => ({ ...context, askAI: () => setIsAIMode(true) }),
+    [context]
+  );
 
-    // Callouts
-    {
-      id: "callout-info",
-      label: "Info Callout",
-      description: "Highlight important information",
-      icon: MessageSquare,
-      action: () =>
-        onInsertBlock(createBlock("callout", { variant: "info", emoji: "💡" })),
-      category: "basic",
-    },
-    {
-      id: "callout-warning",
-      label: "Warning Callout",
-      description: "Warn about something",
-      icon: MessageSquare,
-      action: () =>
-        onInsertBlock(
-          createBlock("callout", { variant: "warning", emoji: "⚠️" })
-        ),
-      category: "basic",
-    },
-    {
-      id: "callout-success",
-      label: "Success Callout",
-      description: "Celebrate a success",
-      icon: MessageSquare,
-      action: () =>
-        onInsertBlock(
-          createBlock("callout", { variant: "success", emoji: "✅" })
-        ),
-      category: "basic",
-    },
+  // Inside a sub-menu only its commands are listed, and not as recent ones
+  const openMenu = openMenus.at(-1);
+  const search = isSlashMenu ? filter.slice(openMenu?.filterStart ?? 0) : query;
+  const sections = getCommandSections(
+    openMenu ? (openMenu.command.children ?? []) : commands,
+    search,
+    commandContext,
+    openMenu ? [] : registry.getRecent()
+  );
+  const matches = sections.flatMap((section) => section.matches);
 
-    // AI
-    {
-      id: "ai",
-      label: "Ask AI",
-      description: "Generate content with AI",
-      icon: Sparkles,
-      action: () => setIsAIMode(true),
-      category: "ai",
-    },
-  ];
+  const goBack = useCallback(() => {
+    setOpenMenus((menus) => menus.slice(0, -1));
+    setQuery("");
+    setSelectedIndex(0);
+  }, []);
 
-  // Filter commands by query
-  const filteredCommands = commands.filter(
-    (cmd) =>
-      cmd.label.toLowerCase().includes(query.toLowerCase()) ||
-      cmd.description.toLowerCase().includes(query.toLowerCase())
+  // Commands with a sub-menu open it (and the ones leading to it, for
+  // search results); others run
+  const selectMatch = useCallback(
+    ({ command, path }: CommandMatch) => {
+      if (command.children) {
+        const filterStart = filter?.length ?? 0;
+        setOpenMenus((menus) => [
+          ...menus,
+          ...[...path, command].map((menu) => ({ command: menu, filterStart })),
+        ]);
+        setQuery("");
+        setSelectedIndex(0);
+        return;
+      }
+      command.run?.(commandContext);
+      registry.recordUse(command.id);
+      if (!command.keepOpen) {
+        onClose();
+      }
+    },
+    [filter, commandContext, registry, onClose]
   );
 
-  // Handle AI mode submission
-  const handleAISubmit = useCallback(async () => {
+  // Handle AI mode submission: blocks stream into the document
+  const handleAISubmit = useCallback(() => {
     if (!query.trim()) {
       return;
     }
-    setIsLoading(true);
-    try {
-      const blocks = await generateBlocksFromPrompt(query);
-      onInsertBlocks(blocks);
-      onClose();
-    } catch (error) {
-      console.error("AI generation failed:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [query, onInsertBlocks, onClose]);
-
-  // Handle command selection
-  const handleSelectCommand = useCallback(() => {
-    const selected = filteredCommands[selectedIndex];
-    if (selected) {
-      selected.action();
-      if (selected.id !== "ai") {
-        onClose();
-      }
-    }
-  }, [filteredCommands, selectedIndex, onClose]);
+    onGenerate(query);
+    onClose();
+  }, [query, onGenerate, onClose]);
 
   // Handle keyboard navigation
   const handleKeyDown = useCallback(
-    (e: React.KeyboardEvent) => {
+    (e: KeyboardEvent | React.KeyboardEvent) => {
       if (e.key === "Escape") {
         if (isAIMode) {
           setIsAIMode(false);
           setQuery("");
+        } else if (openMenus.length > 0) {
+          goBack();
         } else {
           onClose();
         }
@@ -255,47 +214,64 @@ export function CommandPalette({
       switch (e.key) {
         case "ArrowDown":
           e.preventDefault();
-          setSelectedIndex((i) => Math.min(i + 1, filteredCommands.length - 1));
+          setSelectedIndex((i) => Math.min(i + 1, matches.length - 1));
           break;
         case "ArrowUp":
           e.preventDefault();
           setSelectedIndex((i) => Math.max(i - 1, 0));
           break;
-        case "Enter":
+        case "Enter": {
           e.preventDefault();
-          handleSelectCommand();
+          const selected = matches[selectedIndex];
+          if (selected) {
+            selectMatch(selected);
+          }
+          break;
+        }
+        case "Backspace":
+          if (!isSlashMenu && query === "" && openMenus.length > 0) {
+            e.preventDefault();
+            goBack();
+          }
           break;
         default:
           break;
       }
     },
     [
-      filteredCommands.length,
+      matches,
+      selectedIndex,
       isAIMode,
+      isSlashMenu,
+      query,
+      openMenus.length,
       onClose,
+      goBack,
       handleAISubmit,
-      handleSelectCommand,
+      selectMatch,
     ]
   );
 
-  // Group commands by category
-  const groupedCommands = filteredCommands.reduce(
-    (groups, cmd) => {
-      if (!groups[cmd.category]) {
-        groups[cmd.category] = [];
+  // A slash menu keeps the focus in the document, so its keys are caught on
+  // the way there (and left alone when nothing matches, so Enter still
+  // starts a new line)
+  useEffect(() => {
+    if (!(isOpen && isSlashMenu) || isAIMode) {
+      return;
+    }
+    const handleDocumentKeyDown = (e: KeyboardEvent) => {
+      if (
+        e.key === "Escape" ||
+        (matches.length > 0 && SLASH_MENU_KEYS.has(e.key))
+      ) {
+        e.stopPropagation();
+        handleKeyDown(e);
       }
-      groups[cmd.category].push(cmd);
-      return groups;
-    },
-    {} as Record<string, CommandItem[]>
-  );
-
-  const categoryLabels: Record<string, string> = {
-    basic: "Basic Blocks",
-    media: "Media",
-    layout: "Layout",
-    ai: "AI",
-  };
+    };
+    window.addEventListener("keydown", handleDocumentKeyDown, true);
+    return () =>
+      window.removeEventListener("keydown", handleDocumentKeyDown, true);
+  }, [isOpen, isSlashMenu, isAIMode, matches.length, handleKeyDown]);
 
   if (!isOpen) {
     return null;
@@ -313,11 +289,20 @@ export function CommandPalette({
       {/* Centering wrapper - handles positioning without transform conflict */}
       <div
         className="fixed z-50"
-        style={{
-          top: position?.top ?? "50%",
-          left: position?.left ?? "50%",
-          transform: position ? undefined : "translate(-50%, -50%)",
-        }}
+        style={
+          position
+            ? {
+                top: Math.max(
+                  0,
+                  Math.min(position.top, window.innerHeight - PALETTE_HEIGHT)
+                ),
+                left: Math.max(
+                  0,
+                  Math.min(position.left, window.innerWidth - PALETTE_WIDTH)
+                ),
+              }
+            : { top: "50%", left: "50%", transform: "translate(-50%, -50%)" }
+        }
       >
         {/* Palette - handles animation */}
         <div
@@ -331,7 +316,12 @@ export function CommandPalette({
           ref={containerRef}
         >
           {/* Input */}
-          <div className="border-surface-200 border-b p-3 dark:border-surface-700">
+          <div
+            className={cn(
+              "border-surface-200 border-b p-3 dark:border-surface-700",
+              !showInput && "hidden"
+            )}
+          >
             <div className="flex items-center gap-2">
               {isAIMode && (
                 <Sparkles className="h-4 w-4 shrink-0 text-accent" />
@@ -348,111 +338,120 @@ export function CommandPalette({
                 }}
                 onKeyDown={handleKeyDown}
                 placeholder={
-                  isAIMode ? "Describe what you want..." : "Search blocks..."
+                  isAIMode
+                    ? "Describe what you want..."
+                    : `Search ${openMenu ? openMenu.command.label : "commands"}...`
                 }
                 ref={inputRef}
                 type="text"
                 value={query}
               />
-              {isLoading && (
-                <Loader2 className="h-4 w-4 animate-spin text-accent" />
-              )}
             </div>
           </div>
 
           {/* AI suggestions */}
-          {isAIMode && (
-            <div className="border-surface-200 border-b bg-accent/5 p-3 dark:border-surface-700">
-              <p className="mb-2 text-surface-500 text-xs">Try:</p>
-              <div className="flex flex-wrap gap-1">
-                {[
-                  "Add an intro",
-                  "Two-column layout",
-                  "Code example",
-                  "Image gallery",
-                  "Feature list",
-                ].map((suggestion) => (
-                  <button
-                    className={cn(
-                      "rounded-full px-2 py-1 text-xs",
-                      "bg-accent/10 text-accent hover:bg-accent/20",
-                      "transition-colors"
-                    )}
-                    key={suggestion}
-                    onClick={() => setQuery(suggestion)}
-                    type="button"
-                  >
-                    {suggestion}
-                  </button>
-                ))}
-              </div>
+          {isAIMode && suggestions.length > 0 && (
+            <div className="border-surface-200 border-b p-3 dark:border-surface-700">
+              <AISuggestionChips
+                onSelect={(suggestion) => {
+                  setQuery(suggestion);
+                  inputRef.current?.focus();
+                }}
+                suggestions={suggestions}
+              />
             </div>
           )}
 
+          {/* Open sub-menus */}
+          {!isAIMode && openMenu && (
+            <button
+              className="flex w-full items-center gap-1 border-surface-200 border-b px-3 py-2 text-left text-surface-500 text-xs hover:bg-surface-100 dark:border-surface-700 dark:hover:bg-surface-700"
+              onClick={goBack}
+              type="button"
+            >
+              <ChevronLeft className="h-3.5 w-3.5" />
+              {openMenus.map((menu) => menu.command.label).join(" → ")}
+            </button>
+          )}
+
           {/* Command list */}
           {!isAIMode && (
             <div className="max-h-72 overflow-y-auto p-2">
-              {Object.entries(groupedCommands).map(([category, items]) => (
-                <div className="mb-2 last:mb-0" key={category}>
-                  <div className="px-2 py-1 font-medium text-surface-400 text-xs uppercase tracking-wider">
-                    {categoryLabels[category]}
-                  </div>
-                  {items.map((cmd) => {
-                    const globalIndex = filteredCommands.indexOf(cmd);
-                    const Icon = cmd.icon;
+              {sections.map((section) => (
+                <div
+                  className="mb-2 last:mb-0"
+                  key={section.label ?? "results"}
+                >
+                  {section.label && (
+                    <div className="px-2 py-1 font-medium text-surface-400 text-xs uppercase tracking-wider">
+                      {section.label}
+                    </div>
+                  )}
+                  {section.matches.map((match) => {
+                    const globalIndex = matches.indexOf(match);
+                    const { command, path } = match;
+                    const Icon = command.icon ?? CommandIcon;
+                    const isSelected = globalIndex === selectedIndex;
                     return (
                       <button
                         className={cn(
                           "flex w-full items-center gap-3 rounded-lg px-2 py-2",
                           "text-left transition-colors",
-                          globalIndex === selectedIndex
+                          isSelected
                             ? "bg-accent/10"
                             : "hover:bg-surface-100 dark:hover:bg-surface-700"
                         )}
-                        key={cmd.id}
-                        onClick={() => {
-                          cmd.action();
-                          if (cmd.id !== "ai") {
-                            onClose();
-                          }
-                        }}
+                        key={command.id}
+                        onClick={() => selectMatch(match)}
                         onMouseEnter={() => setSelectedIndex(globalIndex)}
                         type="button"
                       >
                         <div
                           className={cn(
                             "flex h-8 w-8 shrink-0 items-center justify-center rounded-lg",
-                            globalIndex === selectedIndex
+                            isSelected
                               ? "bg-accent text-white"
                               : "bg-surface-100 text-surface-600 dark:bg-surface-700 dark:text-surface-300"
                           )}
                         >
                           <Icon className="h-4 w-4" />
                         </div>
-                        <div className="min-w-0">
+                        <div className="min-w-0 flex-1">
                           <div
                             className={cn(
                               "truncate font-medium text-sm",
-                              globalIndex === selectedIndex
+                              isSelected
                                 ? "text-accent"
                                 : "text-surface-700 dark:text-surface-200"
                             )}
                           >
-                            {cmd.label}
-                          </div>
-                          <div className="truncate text-surface-500 text-xs">
-                            {cmd.description}
+                            {[...path, command]
+                              .map((item) => item.label)
+                              .join(" → ")}
                           </div>
+                          {command.description && (
+                            <div className="truncate text-surface-500 text-xs">
+                              {command.description}
+                            </div>
+                          )}
                         </div>
+                        {command.shortcut && (
+                          <kbd className="shrink-0 rounded border border-surface-200 px-1.5 font-sans text-surface-400 text-xs dark:border-surface-700">
+                            {formatShortcut(command.shortcut)}
+                          </kbd>
+                        )}
+                        {command.children && (
+                          <ChevronRight className="h-4 w-4 shrink-0 text-surface-400" />
+                        )}
                       </button>
                     );
                   })}
                 </div>
               ))}
 
-              {filteredCommands.length === 0 && (
+              {matches.length === 0 && (
                 <div className="py-8 text-center text-sm text-surface-400">
-                  No blocks found
+                  No commands found
                 </div>
               )}
             </div>
@@ -463,7 +462,7 @@ export function CommandPalette({
             <div className="flex items-center justify-between text-surface-400 text-xs">
               <span>↑↓ Navigate</span>
               <span>↵ Select</span>
-              <span>Esc Close</span>
+              <span>Esc {openMenu ? "Back" : "Close"}</span>
             </div>
           </div>
         </div>
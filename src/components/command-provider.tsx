@@ -0,0 +1,79 @@
+import {
+  createContext,
+  type ReactNode,
+  useContext,
+  useMemo,
+  useSyncExternalStore,
+} from "react";
+import {
+  getBlockDefinitions,
+  subscribeBlockDefinitions,
+} from "@/lib/block-definitions";
+import {
+  type CommandRegistry,
+  createCommandRegistry,
+  type PaletteCommand,
+} from "@/lib/command-registry";
+import {
+  createBlockDefinitionCommand,
+  EDITOR_COMMANDS,
+} from "./editor-commands";
+
+// Used when no CommandRegistryProvider is mounted
+const defaultRegistry = createCommandRegistry(EDITOR_COMMANDS);
+
+const CommandRegistryContext = createContext<CommandRegistry>(defaultRegistry);
+
+interface CommandRegistryProviderProps {
+  registry: CommandRegistry;
+  children: ReactNode;
+}
+
+/**
+ * Supplies the commands offered by the command palette and run by keyboard
+ * shortcuts below it. Start a registry with EDITOR_COMMANDS to keep the
+ * built-in ones.
+ */
+export function CommandRegistryProvider({
+  registry,
+  children,
+}: CommandRegistryProviderProps) {
+  return (
+    <CommandRegistryContext value={registry}>{children}</CommandRegistryContext>
+  );
+}
+
+/**
+ * The registry from the nearest CommandRegistryProvider (the built-in
+ * commands if none).
+ */
+export function useCommandRegistry(): CommandRegistry {
+  return useContext(CommandRegistryContext);
+}
+
+/**
+ * The registered commands followed by those inserting registered block
+ * types, updated as either change.
+ */
+export function useCommands(): PaletteCommand[] {
+  const registry = useCommandRegistry();
+  const commands = useSyncExternalStore(
+    registry.subscribe,
+    registry.getCommands,
+    registry.getCommands
+  );
+  const definitions = useSyncExternalStore(
+    subscribeBlockDefinitions,
+    getBlockDefinitions,
+    getBlockDefinitions
+  );
+  return useMemo(
+    () => [
+      ...commands,
+      ...definitions.flatMap(
+        (definition) => createBlockDefinitionCommand(definition) ?? []
+      ),
+    ],
+    [commands, definitions]
+  );
+}
@@ -0,0 +1,411 @@
+import {
+  AlertTriangle,
+  ArrowDownWideNarrow,
+  ArrowUpNarrowWide,
+  Copy,
+  FileText,
+  Loader2,
+  Pencil,
+  Plus,
+  Search,
+  Trash2,
+} from "lucide-react";
+import type { KeyboardEvent } from "react";
+import { useCallback, useMemo, useState } from "react";
+import {
+  type DocumentSortOrder,
+  formatRelativeTime,
+  getDocumentDisplayTitle,
+  searchDocuments,
+  sortDocuments,
+} from "@/lib/document-library";
+import type { QuarantinedDocument } from "@/lib/persistence";
+import { cn } from "@/lib/utils";
+import type { BlockDocument } from "@/types/blocks";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+
+// ============================================================================
+// DOCUMENT LIST ITEM
+// ============================================================================
+
+interface DocumentListItemProps {
+  document: BlockDocument;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename: (title: string) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+function DocumentListItem({
+  document,
+  isActive,
+  onSelect,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: DocumentListItemProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(document.title);
+
+  const startRename = useCallback(() => {
+    setDraftTitle(document.title);
+    setIsRenaming(true);
+  }, [document.title]);
+
+  const commitRename = useCallback(() => {
+    setIsRenaming(false);
+    onRename(draftTitle.trim());
+  }, [draftTitle, onRename]);
+
+  const handleRenameKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLInputElement>) => {
+      if (event.key === "Enter") {
+        event.preventDefault();
+        commitRename();
+      } else if (event.key === "Escape") {
+        event.preventDefault();
+        setIsRenaming(false);
+      }
+    },
+    [commitRename]
+  );
+
+  if (isRenaming) {
+    return (
+      <li className="px-2 py-1">
+        <input
+          aria-label="Document title"
+          className={cn(
+            "w-full rounded-md border px-2 py-1.5 text-sm",
+            "border-accent bg-white dark:bg-surface-800",
+            "text-surface-900 dark:text-surface-100",
+            "focus:outline-hidden focus:ring-1 focus:ring-accent"
+          )}
+          onBlur={commitRename}
+          onChange={(e) => setDraftTitle(e.target.value)}
+          onKeyDown={handleRenameKeyDown}
+          placeholder="Untitled"
+          ref={(input) => input?.focus()}
+          type="text"
+          value={draftTitle}
+        />
+      </li>
+    );
+  }
+
+  return (
+    <li className="group relative">
+      <button
+        aria-current={isActive ? "page" : undefined}
+        className={cn(
+          "flex w-full flex-col items-start gap-0.5 rounded-md px-3 py-2 pr-20 text-left",
+          "transition-colors",
+          isActive
+            ? "bg-accent/10 text-accent dark:bg-accent/20"
+            : "text-surface-700 hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-800"
+        )}
+        onClick={onSelect}
+        onDoubleClick={startRename}
+        type="button"
+      >
+        <span className="w-full truncate font-medium text-sm">
+          {getDocumentDisplayTitle(document)}
+        </span>
+        <span className="text-surface-400 text-xs">
+          Edited {formatRelativeTime(document.updatedAt)}
+        </span>
+      </button>
+
+      {/* Hover actions */}
+      <div className="absolute top-1/2 right-2 flex -translate-y-1/2 items-center gap-0.5 opacity-0 transition-opacity focus-within:opacity-100 group-hover:opacity-100">
+        <button
+          aria-label="Rename document"
+          className="rounded-sm p-1 text-surface-400 hover:bg-surface-200 hover:text-surface-600 dark:hover:bg-surface-700"
+          onClick={startRename}
+          title="Rename"
+          type="button"
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </button>
+        <button
+          aria-label="Duplicate document"
+          className="rounded-sm p-1 text-surface-400 hover:bg-surface-200 hover:text-surface-600 dark:hover:bg-surface-700"
+          onClick={onDuplicate}
+          title="Duplicate"
+          type="button"
+        >
+          <Copy className="h-3.5 w-3.5" />
+        </button>
+        <button
+          aria-label="Delete document"
+          className="rounded-sm p-1 text-surface-400 hover:bg-red-50 hover:text-red-500 dark:hover:bg-red-900/20"
+          onClick={onDelete}
+          title="Delete"
+          type="button"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </li>
+  );
+}
+
+// ============================================================================
+// DELETE CONFIRMATION
+// ============================================================================
+
+interface DeleteDocumentDialogProps {
+  document: BlockDocument | null;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+function DeleteDocumentDialog({
+  document,
+  onCancel,
+  onConfirm,
+}: DeleteDocumentDialogProps) {
+  return (
+    <Dialog
+      onOpenChange={(open) => {
+        if (!open) {
+          onCancel();
+        }
+      }}
+      open={document !== null}
+    >
+      <DialogContent className="border-surface-200 bg-white sm:max-w-md dark:border-surface-700 dark:bg-surface-800">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-surface-900 dark:text-surface-100">
+            <Trash2 className="h-5 w-5 text-red-500" />
+            Delete document?
+          </DialogTitle>
+          <DialogDescription className="text-surface-500 dark:text-surface-400">
+            "{document ? getDocumentDisplayTitle(document) : ""}" will be
+            permanently deleted. This can't be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DialogFooter>
+          <button
+            className={cn(
+              "rounded-lg px-4 py-2 font-medium text-sm",
+              "border border-surface-200 dark:border-surface-600",
+              "text-surface-700 dark:text-surface-300",
+              "hover:bg-surface-100 dark:hover:bg-surface-700",
+              "transition-colors"
+            )}
+            onClick={onCancel}
+            type="button"
+          >
+            Cancel
+          </button>
+          <button
+            className={cn(
+              "rounded-lg px-4 py-2 font-medium text-sm",
+              "bg-red-500 text-white hover:bg-red-600",
+              "transition-colors"
+            )}
+            onClick={onConfirm}
+            type="button"
+          >
+            Delete
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ============================================================================
+// QUARANTINED DOCUMENTS
+// ============================================================================
+
+interface QuarantinedDocumentListProps {
+  documents: QuarantinedDocument[];
+}
+
+function QuarantinedDocumentList({ documents }: QuarantinedDocumentListProps) {
+  return (
+    <details className="border-surface-200 border-t px-3 py-2 dark:border-surface-800">
+      <summary className="flex cursor-pointer items-center gap-1.5 text-amber-600 text-xs dark:text-amber-400">
+        <AlertTriangle className="h-3.5 w-3.5" />
+        {documents.length} document{documents.length === 1 ? "" : "s"} couldn't
+        be opened
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {documents.map((entry) => (
+          <li
+            className="truncate rounded-md px-2 py-1 font-mono text-surface-500 text-xs"
+            key={entry.id}
+            title={entry.reason}
+          >
+            {entry.id}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+}
+
+// ============================================================================
+// DOCUMENT LIBRARY SIDEBAR
+// ============================================================================
+
+interface DocumentLibraryProps {
+  documents: BlockDocument[];
+  /** Stored documents that failed validation and can't be opened */
+  quarantinedDocuments?: QuarantinedDocument[];
+  isLoading: boolean;
+  activeDocumentId?: string;
+  onSelectDocument: (documentId: string) => void;
+  onCreateDocument: () => void;
+  onDuplicateDocument: (documentId: string) => void;
+  onRenameDocument: (documentId: string, title: string) => void;
+  onDeleteDocument: (documentId: string) => void;
+  className?: string;
+}
+
+export function DocumentLibrary({
+  documents,
+  quarantinedDocuments = [],
+  isLoading,
+  activeDocumentId,
+  onSelectDocument,
+  onCreateDocument,
+  onDuplicateDocument,
+  onRenameDocument,
+  onDeleteDocument,
+  className,
+}: DocumentLibraryProps) {
+  const [query, setQuery] = useState("");
+  const [sortOrder, setSortOrder] = useState<DocumentSortOrder>("newest");
+  const [pendingDelete, setPendingDelete] = useState<BlockDocument | null>(
+    null
+  );
+
+  const visibleDocuments = useMemo(
+    () => sortDocuments(searchDocuments(documents, query), sortOrder),
+    [documents, query, sortOrder]
+  );
+
+  const handleConfirmDelete = useCallback(() => {
+    if (pendingDelete) {
+      onDeleteDocument(pendingDelete.id);
+    }
+    setPendingDelete(null);
+  }, [pendingDelete, onDeleteDocument]);
+
+  return (
+    <aside
+      className={cn(
+        "flex h-screen w-64 shrink-0 flex-col border-surface-200 border-r bg-white dark:border-surface-800 dark:bg-surface-900",
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 pt-4 pb-2">
+        <span className="font-semibold text-sm text-surface-700 dark:text-surface-200">
+          Documents
+        </span>
+        <button
+          aria-label="New document"
+          className="rounded-sm p-1.5 text-surface-400 transition-colors hover:bg-surface-100 hover:text-accent dark:hover:bg-surface-800"
+          onClick={onCreateDocument}
+          title="New document"
+          type="button"
+        >
+          <Plus className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Search + sort */}
+      <div className="flex items-center gap-1 px-3 pb-2">
+        <div className="relative flex-1">
+          <Search className="absolute top-1/2 left-2 h-3.5 w-3.5 -translate-y-1/2 text-surface-400" />
+          <input
+            aria-label="Search documents"
+            className={cn(
+              "w-full rounded-md border py-1.5 pr-2 pl-7 text-sm",
+              "border-surface-200 dark:border-surface-700",
+              "bg-surface-50 dark:bg-surface-800",
+              "placeholder:text-surface-400",
+              "focus:border-accent focus:outline-hidden focus:ring-1 focus:ring-accent"
+            )}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by title"
+            type="search"
+            value={query}
+          />
+        </div>
+        <button
+          aria-label={
+            sortOrder === "newest"
+              ? "Sorted by last edited, newest first"
+              : "Sorted by last edited, oldest first"
+          }
+          className="rounded-sm p-1.5 text-surface-400 transition-colors hover:bg-surface-100 hover:text-surface-600 dark:hover:bg-surface-800"
+          onClick={() =>
+            setSortOrder((order) => (order === "newest" ? "oldest" : "newest"))
+          }
+          title={sortOrder === "newest" ? "Newest first" : "Oldest first"}
+          type="button"
+        >
+          {sortOrder === "newest" ? (
+            <ArrowDownWideNarrow className="h-4 w-4" />
+          ) : (
+            <ArrowUpNarrowWide className="h-4 w-4" />
+          )}
+        </button>
+      </div>
+
+      {/* Document list */}
+      <nav aria-label="Documents" className="flex-1 overflow-y-auto px-2 pb-4">
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-accent" />
+          </div>
+        )}
+
+        {!isLoading && visibleDocuments.length === 0 && (
+          <div className="flex flex-col items-center gap-2 px-4 py-8 text-center text-sm text-surface-400">
+            <FileText className="h-6 w-6" />
+            <span>{query ? "No matching documents" : "No documents yet"}</span>
+          </div>
+        )}
+
+        <ul className="space-y-0.5">
+          {visibleDocuments.map((document) => (
+            <DocumentListItem
+              document={document}
+              isActive={document.id === activeDocumentId}
+              key={document.id}
+              onDelete={() => setPendingDelete(document)}
+              onDuplicate={() => onDuplicateDocument(document.id)}
+              onRename={(title) => onRenameDocument(document.id, title)}
+              onSelect={() => onSelectDocument(document.id)}
+            />
+          ))}
+        </ul>
+      </nav>
+
+      {quarantinedDocuments.length > 0 && (
+        <QuarantinedDocumentList documents={quarantinedDocuments} />
+      )}
+
+      <DeleteDocumentDialog
+        document={pendingDelete}
+        onCancel={() => setPendingDelete(null)}
+        onConfirm={handleConfirmDelete}
+      />
+    </aside>
+  );
+}
@@ -0,0 +1,474 @@
+import {
+  Code,
+  Columns,
+  Download,
+  Heading1,
+  Heading2,
+  Heading3,
+  History,
+  Image,
+  Languages,
+  List,
+  ListOrdered,
+  ListTodo,
+  MessageSquare,
+  Minus,
+  Pilcrow,
+  Puzzle,
+  Quote,
+  Redo2,
+  Save,
+  Sparkles,
+  Table,
+  Undo2,
+  Upload,
+  Wand2,
+} from "lucide-react";
+import {
+  AI_BASIC_ACTIONS,
+  AI_LANGUAGES,
+  AI_TONES,
+  type AIBlockAction,
+  getAIActionLabel,
+} from "@/lib/ai-actions";
+import { TURN_INTO_OPTIONS } from "@/lib/block-conversion";
+import {
+  type BlockDefinition,
+  createCustomBlock,
+} from "@/lib/block-definitions";
+import type {
+  CommandContext,
+  DocumentExportFormat,
+  PaletteCommand,
+} from "@/lib/command-registry";
+import { documentToHtml } from "@/lib/html-renderer";
+import { documentToMarkdown } from "@/lib/markdown-renderer";
+import { createBlock } from "@/lib/utils";
+import type { BlockDocument } from "@/types/blocks";
+import { TURN_INTO_ICONS } from "./turn-into-menu";
+
+// ============================================================================
+// EDITOR COMMANDS
+// The commands the palette starts with: turning selected blocks into another
+// type, inserting blocks, AI and document actions. Host apps add their own
+// to the registry next to these (see command-provider).
+// ============================================================================
+
+const hasSelection = (context: CommandContext) =>
+  context.convertBlocks !== undefined;
+
+const hasAITarget = (context: CommandContext) =>
+  context.runAIAction !== undefined;
+
+const TURN_INTO_COMMANDS: PaletteCommand[] = TURN_INTO_OPTIONS.map(
+  (option) => ({
+    id: `turn-into-${option.id}`,
+    label: option.label,
+    description: `Turn into ${option.label.toLowerCase()}`,
+    group: "Turn Into",
+    icon: TURN_INTO_ICONS[option.id] ?? Pilcrow,
+    keywords: ["turn into", "convert"],
+    enabled: hasSelection,
+    run: (context) => context.convertBlocks?.(option.conversion),
+  })
+);
+
+const BLOCK_COMMANDS: PaletteCommand[] = [
+  {
+    id: "paragraph",
+    label: "Text",
+    description: "Just start writing with plain text",
+    group: "Basic Blocks",
+    icon: Pilcrow,
+    aliases: ["paragraph"],
+    run: (context) => context.insertBlock(createBlock("paragraph")),
+  },
+  {
+    id: "heading-1",
+    label: "Heading 1",
+    description: "Large section heading",
+    group: "Basic Blocks",
+    icon: Heading1,
+    aliases: ["h1", "title"],
+    run: (context) =>
+      context.insertBlock(createBlock("heading", { level: "h1" })),
+  },
+  {
+    id: "heading-2",
+    label: "Heading 2",
+    description: "Medium section heading",
+    group: "Basic Blocks",
+    icon: Heading2,
+    aliases: ["h2", "subtitle"],
+    run: (context) =>
+      context.insertBlock(createBlock("heading", { level: "h2" })),
+  },
+  {
+    id: "heading-3",
+    label: "Heading 3",
+    description: "Small section heading",
+    group: "Basic Blocks",
+    icon: Heading3,
+    aliases: ["h3"],
+    run: (context) =>
+      context.insertBlock(createBlock("heading", { level: "h3" })),
+  },
+  {
+    id: "quote",
+    label: "Quote",
+    description: "Capture a quote",
+    group: "Basic Blocks",
+    icon: Quote,
+    aliases: ["blockquote"],
+    run: (context) => context.insertBlock(createBlock("quote")),
+  },
+  {
+    id: "bulleted-list",
+    label: "Bulleted List",
+    description: "Create a simple bulleted list",
+    group: "Basic Blocks",
+    icon: List,
+    aliases: ["ul", "bullets"],
+    run: (context) => context.insertBlock(createBlock("bulleted-list")),
+  },
+  {
+    id: "numbered-list",
+    label: "Numbered List",
+    description: "Create a list with numbering",
+    group: "Basic Blocks",
+    icon: ListOrdered,
+    aliases: ["ol", "ordered list"],
+    run: (context) => context.insertBlock(createBlock("numbered-list")),
+  },
+  {
+    id: "todo",
+    label: "To-do List",
+    description: "Track tasks with a checkbox",
+    group: "Basic Blocks",
+    icon: ListTodo,
+    aliases: ["checkbox", "task"],
+    run: (context) => context.insertBlock(createBlock("todo")),
+  },
+  {
+    id: "divider",
+    label: "Divider",
+    description: "Horizontal line to separate content",
+    group: "Basic Blocks",
+    icon: Minus,
+    aliases: ["hr", "separator"],
+    run: (context) => context.insertBlock(createBlock("divider")),
+  },
+  {
+    id: "callout",
+    label: "Callout",
+    description: "Highlight a note, warning or success",
+    group: "Basic Blocks",
+    icon: MessageSquare,
+    children: [
+      {
+        id: "callout-info",
+        label: "Info",
+        description: "Highlight important information",
+        group: "Callout",
+        icon: MessageSquare,
+        keywords: ["note", "tip"],
+        run: (context) =>
+          context.insertBlock(
+            createBlock("callout", { variant: "info", emoji: "💡" })
+          ),
+      },
+      {
+        id: "callout-warning",
+        label: "Warning",
+        description: "Warn about something",
+        group: "Callout",
+        icon: MessageSquare,
+        keywords: ["caution", "danger"],
+        run: (context) =>
+          context.insertBlock(
+            createBlock("callout", { variant: "warning", emoji: "⚠️" })
+          ),
+      },
+      {
+        id: "callout-success",
+        label: "Success",
+        description: "Celebrate a success",
+        group: "Callout",
+        icon: MessageSquare,
+        keywords: ["done"],
+        run: (context) =>
+          context.insertBlock(
+            createBlock("callout", { variant: "success", emoji: "✅" })
+          ),
+      },
+    ],
+  },
+  {
+    id: "image",
+    label: "Image",
+    description: "Upload or embed an image",
+    group: "Media",
+    icon: Image,
+    aliases: ["picture", "photo"],
+    run: (context) => context.insertBlock(createBlock("image")),
+  },
+  {
+    id: "code",
+    label: "Code",
+    description: "Code snippet with syntax highlighting",
+    group: "Media",
+    icon: Code,
+    aliases: ["snippet"],
+    run: (context) => context.insertBlock(createBlock("code")),
+  },
+  {
+    id: "table",
+    label: "Table",
+    description: "Rows and columns of text",
+    group: "Media",
+    icon: Table,
+    aliases: ["grid"],
+    run: (context) => context.insertBlock(createBlock("table")),
+  },
+  {
+    id: "columns",
+    label: "Columns",
+    description: "Split into side-by-side columns",
+    group: "Layout",
+    icon: Columns,
+    children: [
+      {
+        id: "columns-2",
+        label: "2 Columns",
+        description: "Split into two columns",
+        group: "Columns",
+        icon: Columns,
+        run: (context) =>
+          context.insertBlock(
+            createBlock("columns", { columns: [[], []], widths: [1, 1] })
+          ),
+      },
+      {
+        id: "columns-3",
+        label: "3 Columns",
+        description: "Split into three columns",
+        group: "Columns",
+        icon: Columns,
+        run: (context) =>
+          context.insertBlock(
+            createBlock("columns", {
+              columns: [[], [], []],
+              widths: [1, 1, 1],
+            })
+          ),
+      },
+    ],
+  },
+];
+
+function createAIActionCommand(
+  id: string,
+  action: AIBlockAction,
+  label = getAIActionLabel(action)
+): PaletteCommand {
+  return {
+    id: `ai-${id}`,
+    label,
+    group: "Edit with AI",
+    icon: Wand2,
+    run: (context) => context.runAIAction?.(action),
+  };
+}
+
+const AI_COMMANDS: PaletteCommand[] = [
+  {
+    id: "ai",
+    label: "Ask AI",
+    description: "Generate content with AI",
+    group: "AI",
+    icon: Sparkles,
+    aliases: ["generate", "write"],
+    keepOpen: true,
+    run: (context) => context.askAI(),
+  },
+  {
+    id: "ai-edit",
+    label: "Edit with AI",
+    description: "Rewrite, shorten or translate the selected block",
+    group: "AI",
+    icon: Wand2,
+    enabled: hasAITarget,
+    children: [
+      ...AI_BASIC_ACTIONS.map((action) =>
+        createAIActionCommand(action.type, action)
+      ),
+      {
+        id: "ai-tone",
+        label: "Change tone",
+        group: "Edit with AI",
+        icon: Wand2,
+        children: AI_TONES.map((tone) =>
+          createAIActionCommand(`tone-${tone}`, { type: "tone", tone }, tone)
+        ),
+      },
+      {
+        id: "ai-translate",
+        label: "Translate",
+        group: "Edit with AI",
+        icon: Languages,
+        children: AI_LANGUAGES.map((language) =>
+          createAIActionCommand(
+            `translate-${language.toLowerCase()}`,
+            { type: "translate", language },
+            language
+          )
+        ),
+      },
+    ],
+  },
+];
+
+const DOCUMENT_COMMANDS: PaletteCommand[] = [
+  {
+    id: "import",
+    label: "Import HTML",
+    description: "Turn pasted HTML into blocks",
+    group: "Document",
+    icon: Upload,
+    run: (context) => context.importDocument(),
+  },
+  {
+    id: "export",
+    label: "Export",
+    description: "Download the document",
+    group: "Document",
+    icon: Download,
+    aliases: ["download"],
+    children: [
+      {
+        id: "export-html",
+        label: "HTML",
+        description: "Download as an HTML file",
+        group: "Export",
+        icon: Download,
+        run: (context) => context.exportDocument("html"),
+      },
+      {
+        id: "export-markdown",
+        label: "Markdown",
+        description: "Download as a Markdown file",
+        group: "Export",
+        icon: Download,
+        aliases: ["md"],
+        run: (context) => context.exportDocument("markdown"),
+      },
+      {
+        id: "export-json",
+        label: "JSON",
+        description: "Download the blocks as JSON",
+        group: "Export",
+        icon: Download,
+        run: (context) => context.exportDocument("json"),
+      },
+    ],
+  },
+  {
+    id: "save-version",
+    label: "Save Version",
+    description: "Keep a named snapshot of the document",
+    group: "Document",
+    icon: Save,
+    aliases: ["snapshot"],
+    run: (context) => context.saveVersion(),
+  },
+  {
+    id: "version-history",
+    label: "Version History",
+    description: "Browse and restore saved versions",
+    group: "Document",
+    icon: History,
+    aliases: ["versions", "restore"],
+    run: (context) => context.showTab("history"),
+  },
+  {
+    id: "undo",
+    label: "Undo",
+    group: "Document",
+    icon: Undo2,
+    shortcut: "Mod+Z",
+    run: (context) => context.undo(),
+  },
+  {
+    id: "redo",
+    label: "Redo",
+    group: "Document",
+    icon: Redo2,
+    shortcut: "Mod+Shift+Z",
+    run: (context) => context.redo(),
+  },
+];
+
+/** Everything the palette offers out of the box, in display order */
+export const EDITOR_COMMANDS: PaletteCommand[] = [
+  ...TURN_INTO_COMMANDS,
+  ...BLOCK_COMMANDS,
+  ...AI_COMMANDS,
+  ...DOCUMENT_COMMANDS,
+];
+
+/**
+ * The palette command inserting a block of a registered type, unless its
+ * definition opts out
+ */
+export function createBlockDefinitionCommand(
+  definition: BlockDefinition
+): PaletteCommand | undefined {
+  const { command } = definition;
+  if (command === false) {
+    return;
+  }
+  return {
+    id: `block-${definition.type}`,
+    label: command?.label ?? definition.name,
+    description: definition.description,
+    group: command?.group ?? "Custom Blocks",
+    icon: definition.icon ?? Puzzle,
+    aliases: command?.aliases,
+    keywords: command?.keywords,
+    shortcut: command?.shortcut,
+    run: (context) => context.insertBlock(createCustomBlock(definition.type)),
+  };
+}
+
+const EXPORT_FORMATS: Record<
+  DocumentExportFormat,
+  { extension: string; type: string; serialize: (doc: BlockDocument) => string }
+> = {
+  html: { extension: "html", type: "text/html", serialize: documentToHtml },
+  markdown: {
+    extension: "md",
+    type: "text/markdown",
+    serialize: documentToMarkdown,
+  },
+  json: {
+    extension: "json",
+    type: "application/json",
+    serialize: (doc) => JSON.stringify(doc, null, 2),
+  },
+};
+
+/**
+ * Save a document as a file, named after its title
+ */
+export function downloadDocument(
+  doc: BlockDocument,
+  format: DocumentExportFormat
+): void {
+  const { extension, type, serialize } = EXPORT_FORMATS[format];
+  const url = URL.createObjectURL(new Blob([serialize(doc)], { type }));
+  const link = window.document.createElement("a");
+  link.href = url;
+  link.download = `${doc.title.trim() || "Untitled"}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -6,6 +6,7 @@
  */
 import { describe, expect, it, mock } from "bun:test";
 import { parseHtmlToBlocks } from "@/lib/clipboard-parser";
+import { parseMarkdownToBlocks } from "@/lib/markdown-parser";
 import type { Block } from "@/types/blocks";
 
 // ============================================================================
@@ -201,6 +202,32 @@ describe("HtmlImportModal - block count preview", () => {
   });
 });
 
+// ============================================================================
+// Test Markdown import mode
+// ============================================================================
+
+describe("HtmlImportModal - Markdown mode", () => {
+  it("should parse Markdown into structured blocks", () => {
+    const markdown = "# Title\n\nIntro paragraph\n\n- one\n- two";
+    const blocks = parseMarkdownToBlocks(markdown);
+
+    expect(blocks.map((b) => b.type)).toEqual([
+      "heading",
+      "paragraph",
+      "bulleted-list",
+      "bulleted-list",
+    ]);
+  });
+
+  it("should count differently than HTML mode for the same text", () => {
+    // The same source parsed as HTML stays a single paragraph
+    const source = "# Title\n\nBody";
+
+    expect(parseHtmlToBlocks(source)).toHaveLength(1);
+    expect(parseMarkdownToBlocks(source)).toHaveLength(2);
+  });
+});
+
 // ============================================================================
 // Test edge cases
 // ============================================================================
@@ -2,6 +2,7 @@ import { FileCode } from "lucide-react";
 import type { ClipboardEvent } from "react";
 import { useCallback, useMemo, useState } from "react";
 import { parseHtmlToBlocks } from "@/lib/clipboard-parser";
+import { parseMarkdownToBlocks } from "@/lib/markdown-parser";
 import { cn } from "@/lib/utils";
 import type { Block } from "@/types/blocks";
 import {
@@ -13,6 +14,21 @@ import {
   DialogTitle,
 } from "./ui/dialog";
 
+type ImportMode = "html" | "markdown";
+
+const IMPORT_MODES: { mode: ImportMode; label: string }[] = [
+  { mode: "html", label: "HTML" },
+  { mode: "markdown", label: "Markdown" },
+];
+
+const PLACEHOLDERS: Record<ImportMode, string> = {
+  html: `<h1>Your HTML here...</h1>
+<p>Paste formatted content from web pages, documents, or write HTML directly.</p>`,
+  markdown: `# Your Markdown here...
+
+Paste a README or notes. **Bold**, lists, tables and code fences are supported.`,
+};
+
 interface HtmlImportModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -25,14 +41,17 @@ export function HtmlImportModal({
   onImport,
 }: HtmlImportModalProps) {
   const [htmlContent, setHtmlContent] = useState("");
+  const [mode, setMode] = useState<ImportMode>("html");
 
-  // Parse HTML and get block count preview
+  // Parse content in the selected mode and get block count preview
   const parsedBlocks = useMemo(() => {
     if (!htmlContent.trim()) {
       return [];
     }
-    return parseHtmlToBlocks(htmlContent);
-  }, [htmlContent]);
+    return mode === "markdown"
+      ? parseMarkdownToBlocks(htmlContent)
+      : parseHtmlToBlocks(htmlContent);
+  }, [htmlContent, mode]);
 
   const blockCount = parsedBlocks.length;
 
@@ -52,6 +71,11 @@ export function HtmlImportModal({
   // Handle paste to extract HTML content from clipboard
   const handlePaste = useCallback(
     (event: ClipboardEvent<HTMLTextAreaElement>) => {
+      // Markdown is plain text, so keep the default paste behavior
+      if (mode === "markdown") {
+        return;
+      }
+
       const html = event.clipboardData.getData("text/html");
 
       if (html) {
@@ -61,7 +85,7 @@ export function HtmlImportModal({
       }
       // If no HTML, let the default paste behavior handle plain text
     },
-    []
+    [mode]
   );
 
   // Reset content when modal opens/closes
@@ -81,14 +105,35 @@ export function HtmlImportModal({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-surface-900 dark:text-surface-100">
             <FileCode className="h-5 w-5 text-accent" />
-            Import HTML
+            {mode === "markdown" ? "Import Markdown" : "Import HTML"}
           </DialogTitle>
           <DialogDescription className="text-surface-500 dark:text-surface-400">
-            Paste HTML content below to convert it into editable blocks.
+            Paste {mode === "markdown" ? "Markdown" : "HTML"} content below to
+            convert it into editable blocks.
           </DialogDescription>
         </DialogHeader>
 
         <div className="space-y-4">
+          {/* Import mode toggle */}
+          <div className="inline-flex rounded-lg bg-surface-100 p-1 dark:bg-surface-700">
+            {IMPORT_MODES.map((option) => (
+              <button
+                aria-pressed={mode === option.mode}
+                className={cn(
+                  "rounded-md px-3 py-1 font-medium text-sm transition-colors",
+                  mode === option.mode
+                    ? "bg-white text-surface-900 shadow-xs dark:bg-surface-800 dark:text-surface-100"
+                    : "text-surface-500 hover:text-surface-700 dark:text-surface-400 dark:hover:text-surface-200"
+                )}
+                key={option.mode}
+                onClick={() => setMode(option.mode)}
+                type="button"
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
           <textarea
             className={cn(
               "h-64 w-full resize-none rounded-lg border p-3",
@@ -101,8 +146,7 @@ export function HtmlImportModal({
             )}
             onChange={(e) => setHtmlContent(e.target.value)}
             onPaste={handlePaste}
-            placeholder="<h1>Your HTML here...</h1>
-<p>Paste formatted content from web pages, documents, or write HTML directly.</p>"
+            placeholder={PLACEHOLDERS[mode]}
             value={htmlContent}
           />
 
@@ -120,7 +164,10 @@ export function HtmlImportModal({
                 {blockCount} block{blockCount !== 1 ? "s" : ""} will be created
               </span>
             ) : (
-              <span>Enter HTML content to preview block count</span>
+              <span>
+                Enter {mode === "markdown" ? "Markdown" : "HTML"} content to
+                preview block count
+              </span>
             )}
           </div>
         </div>
@@ -1,21 +1,43 @@
-import { CheckIcon, CopyIcon } from "lucide-react";
-import { useCallback, useState } from "react";
+import { CheckIcon, CopyIcon, WrenchIcon } from "lucide-react";
+import { useCallback, useMemo, useState } from "react";
+import type { IntegrityReport } from "@/hooks/use-document-store";
+import {
+  describeIntegrityIssue,
+  type IntegrityIssue,
+  validateDocumentIntegrity,
+} from "@/lib/document-integrity";
 import { cn } from "@/lib/utils";
 import type { BlockDocument } from "@/types/blocks";
 import { BlockDocumentSchema } from "@/types/blocks";
 
 interface JsonPreviewProps {
   document: BlockDocument;
+  /** Problems repaired automatically on load or before the last save */
+  integrityReport?: IntegrityReport | null;
+  /** Repairs the structural problems listed in the preview */
+  onRepair?: () => void;
   className?: string;
 }
 
-export function JsonPreview({ document, className }: JsonPreviewProps) {
+export function JsonPreview({
+  document,
+  integrityReport,
+  onRepair,
+  className,
+}: JsonPreviewProps) {
   const [isCopied, setIsCopied] = useState(false);
 
   // Validate document against schema
   const validationResult = BlockDocumentSchema.safeParse(document);
   const isValid = validationResult.success;
 
+  // Structure the schema can't check: orphans, dangling IDs, cycles
+  const integrityIssues = useMemo(
+    () => validateDocumentIntegrity(document),
+    [document]
+  );
+  const isSound = integrityIssues.length === 0;
+
   const jsonString = JSON.stringify(document, null, 2);
 
   const handleCopy = useCallback(() => {
@@ -53,6 +75,18 @@ export function JsonPreview({ document, className }: JsonPreviewProps) {
           >
             {isValid ? "Valid Schema" : "Invalid Schema"}
           </span>
+          <span
+            className={cn(
+              "rounded-full px-2 py-0.5 font-medium text-xs",
+              isSound
+                ? "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400"
+                : "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400"
+            )}
+          >
+            {isSound
+              ? "Structure OK"
+              : `${integrityIssues.length} structure ${integrityIssues.length === 1 ? "issue" : "issues"}`}
+          </span>
         </div>
 
         <button
@@ -88,6 +122,40 @@ export function JsonPreview({ document, className }: JsonPreviewProps) {
         </div>
       )}
 
+      {/* Structural problems in the current document */}
+      {!isSound && (
+        <div className="flex items-start justify-between gap-4 border-amber-200 border-b bg-amber-50 px-4 py-2 text-amber-800 text-sm dark:border-amber-900/50 dark:bg-amber-900/20 dark:text-amber-300">
+          <IntegrityIssueList issues={integrityIssues} />
+          {onRepair && (
+            <button
+              className="flex shrink-0 items-center gap-1.5 rounded-md border border-amber-300 px-2.5 py-1 hover:bg-amber-100 dark:border-amber-800 dark:hover:bg-amber-900/40"
+              onClick={onRepair}
+              type="button"
+            >
+              <WrenchIcon className="h-3.5 w-3.5" />
+              Repair
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Problems that were repaired automatically */}
+      {integrityReport && integrityReport.issues.length > 0 && (
+        <details className="border-surface-200 border-b px-4 py-2 text-sm text-surface-600 dark:border-surface-700 dark:text-surface-300">
+          <summary className="cursor-pointer">
+            Repaired {integrityReport.issues.length}{" "}
+            {integrityReport.issues.length === 1 ? "problem" : "problems"}{" "}
+            {integrityReport.source === "load"
+              ? "when the document was loaded"
+              : "before the last save"}
+          </summary>
+          <IntegrityIssueList
+            className="mt-1"
+            issues={integrityReport.issues}
+          />
+        </details>
+      )}
+
       {/* JSON content */}
       <div className="max-h-[calc(100vh-300px)] overflow-auto">
         <pre className="p-4 text-sm">
@@ -106,3 +174,20 @@ export function JsonPreview({ document, className }: JsonPreviewProps) {
     </div>
   );
 }
+
+interface IntegrityIssueListProps {
+  issues: IntegrityIssue[];
+  className?: string;
+}
+
+function IntegrityIssueList({ issues, className }: IntegrityIssueListProps) {
+  // A block listed several times in one place gives identical lines
+  const descriptions = [...new Set(issues.map(describeIntegrityIssue))];
+  return (
+    <ul className={cn("list-disc space-y-0.5 pl-5", className)}>
+      {descriptions.map((description) => (
+        <li key={description}>{description}</li>
+      ))}
+    </ul>
+  );
+}
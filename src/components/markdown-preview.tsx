@@ -0,0 +1,89 @@
+import { CheckIcon, CopyIcon } from "lucide-react";
+import { useCallback, useState } from "react";
+import { documentToMarkdown } from "@/lib/markdown-renderer";
+import { cn } from "@/lib/utils";
+import type { BlockDocument } from "@/types/blocks";
+
+interface MarkdownPreviewProps {
+  document: BlockDocument;
+  className?: string;
+}
+
+export function MarkdownPreview({ document, className }: MarkdownPreviewProps) {
+  const [isCopied, setIsCopied] = useState(false);
+
+  const markdown = documentToMarkdown(document);
+
+  const handleCopy = useCallback(() => {
+    navigator.clipboard
+      .writeText(markdown)
+      .then(() => {
+        setIsCopied(true);
+        setTimeout(() => setIsCopied(false), 1500);
+      })
+      .catch((error) => {
+        console.error("Failed to copy:", error);
+      });
+  }, [markdown]);
+
+  return (
+    <div
+      className={cn(
+        "relative rounded-xl border border-surface-200 bg-white dark:border-surface-700 dark:bg-surface-800",
+        className
+      )}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between border-surface-200 border-b px-4 py-3 dark:border-surface-700">
+        <span className="font-medium text-sm text-surface-700 dark:text-surface-200">
+          Markdown
+        </span>
+
+        <button
+          className={cn(
+            "flex items-center gap-1.5 rounded-md px-2.5 py-1.5",
+            "text-sm text-surface-600 dark:text-surface-300",
+            "border border-surface-200 dark:border-surface-600",
+            "hover:bg-surface-50 dark:hover:bg-surface-700",
+            "transition-colors"
+          )}
+          onClick={handleCopy}
+          type="button"
+        >
+          {isCopied ? (
+            <>
+              <CheckIcon className="h-3.5 w-3.5" />
+              <span>Copied!</span>
+            </>
+          ) : (
+            <>
+              <CopyIcon className="h-3.5 w-3.5" />
+              <span>Copy Markdown</span>
+            </>
+          )}
+        </button>
+      </div>
+
+      {/* Markdown content */}
+      <div className="max-h-[calc(100vh-300px)] overflow-auto">
+        {markdown ? (
+          <pre className="p-4 text-sm">
+            <code className="whitespace-pre-wrap font-mono text-surface-700 dark:text-surface-300">
+              {markdown}
+            </code>
+          </pre>
+        ) : (
+          <div className="flex items-center justify-center py-12 text-surface-400">
+            <span>No content to export</span>
+          </div>
+        )}
+      </div>
+
+      {/* Footer stats */}
+      <div className="flex items-center gap-4 border-surface-200 border-t px-4 py-2 text-surface-500 text-xs dark:border-surface-700">
+        <span>{markdown ? markdown.split("\n").length : 0} lines</span>
+        <span>{markdown.length.toLocaleString()} characters</span>
+      </div>
+    </div>
+  );
+}
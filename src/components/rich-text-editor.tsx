@@ -16,11 +16,21 @@ import {
   Highlighter,
   Italic,
   Link as LinkIcon,
+  Sparkles,
   Strikethrough,
   Underline as UnderlineIcon,
 } from "lucide-react";
-import { useCallback, useEffect } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getBlockKeyAction } from "@/lib/block-keyboard";
+import {
+  getMarkdownShortcut,
+  MarkdownShortcuts,
+} from "@/lib/markdown-shortcuts";
+import { SlashCommands } from "@/lib/slash-menu";
 import { cn } from "@/lib/utils";
+import { AIActionMenu, useAIAction } from "./ai-action-menu";
+import { useBlockKeyboard } from "./block-keyboard";
+import { useBlockConversion } from "./turn-into-menu";
 
 interface RichTextEditorProps {
   content: string;
@@ -29,6 +39,8 @@ interface RichTextEditorProps {
   className?: string;
   editorClassName?: string;
   align?: "left" | "center" | "right";
+  /** Return true to mark the key as handled and stop TipTap's default */
+  onKeyDown?: (event: KeyboardEvent) => boolean;
 }
 
 export function RichTextEditor({
@@ -38,7 +50,23 @@ export function RichTextEditor({
   className,
   editorClassName,
   align = "left",
+  onKeyDown,
 }: RichTextEditorProps) {
+  // Keep the latest handler without recreating the editor
+  const onKeyDownRef = useRef(onKeyDown);
+  onKeyDownRef.current = onKeyDown;
+  // AI actions for the block this editor belongs to, if it has them
+  const onAIAction = useAIAction();
+  const [showAIMenu, setShowAIMenu] = useState(false);
+  // Markdown shortcuts convert the block this editor belongs to, if it can
+  const onConvert = useBlockConversion();
+  const onConvertRef = useRef(onConvert);
+  onConvertRef.current = onConvert;
+  // Enter, Backspace and arrows at the edges of the text act on the block
+  const onKeyAction = useBlockKeyboard();
+  const onKeyActionRef = useRef(onKeyAction);
+  onKeyActionRef.current = onKeyAction;
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -47,6 +75,8 @@ export function RichTextEditor({
         // Disable - we configure these separately with custom options
         link: false,
         underline: false,
+        // Undo/redo is handled document-wide by useDocumentStore
+        undoRedo: false,
       }),
       Placeholder.configure({
         placeholder,
@@ -64,6 +94,14 @@ export function RichTextEditor({
       }),
       TextStyle,
       Color,
+      MarkdownShortcuts.configure({
+        isEnabled: () => onConvertRef.current !== null,
+      }),
+      SlashCommands.configure({
+        isEnabled: () => onKeyActionRef.current !== null,
+        onChange: (menu) =>
+          onKeyActionRef.current?.({ type: "slash-menu", menu }),
+      }),
     ],
     content,
     immediatelyRender: false,
@@ -75,9 +113,23 @@ export function RichTextEditor({
           editorClassName
         ),
       },
+      handleKeyDown: (view, event) => {
+        if (onKeyDownRef.current?.(event)) {
+          return true;
+        }
+        const action = onKeyActionRef.current && getBlockKeyAction(view, event);
+        return action ? (onKeyActionRef.current?.(action) ?? false) : false;
+      },
     },
-    onUpdate: ({ editor }) => {
+    onUpdate: ({ editor, transaction }) => {
       onChange(editor.getHTML());
+      // Act on the block after saving the content without the marker
+      const shortcut = getMarkdownShortcut(transaction);
+      if (shortcut?.type === "divider") {
+        onKeyActionRef.current?.({ type: "insert-divider" });
+      } else if (shortcut) {
+        onConvertRef.current?.(shortcut);
+      }
     },
   });
 
@@ -128,7 +180,33 @@ export function RichTextEditor({
           "animate-scale-in"
         )}
         editor={editor}
+        options={{ onHide: () => setShowAIMenu(false) }}
       >
+        {onAIAction && (
+          <>
+            <div className="relative">
+              <ToolbarButton
+                isActive={showAIMenu}
+                onClick={() => setShowAIMenu(!showAIMenu)}
+                title="Ask AI"
+              >
+                <Sparkles className="h-4 w-4" />
+              </ToolbarButton>
+              {showAIMenu && (
+                <AIActionMenu
+                  className="absolute top-full left-0 mt-2"
+                  onSelect={(action) => {
+                    setShowAIMenu(false);
+                    onAIAction(action);
+                  }}
+                />
+              )}
+            </div>
+
+            <div className="mx-1 h-5 w-px bg-surface-200 dark:bg-surface-700" />
+          </>
+        )}
+
         <ToolbarButton
           isActive={editor.isActive("bold")}
           onClick={() => editor.chain().focus().toggleBold().run()}
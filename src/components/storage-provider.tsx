@@ -0,0 +1,28 @@
+import { createContext, type ReactNode, useContext } from "react";
+import { createIndexedDbStorage } from "@/lib/indexeddb-storage";
+import type { StorageAdapter } from "@/lib/persistence";
+
+// Used when no StorageProvider is mounted
+const defaultStorage = createIndexedDbStorage();
+
+const StorageContext = createContext<StorageAdapter>(defaultStorage);
+
+interface StorageProviderProps {
+  storage: StorageAdapter;
+  children: ReactNode;
+}
+
+/**
+ * Supplies the storage adapter used by document stores, the document
+ * library and image uploads below it.
+ */
+export function StorageProvider({ storage, children }: StorageProviderProps) {
+  return <StorageContext value={storage}>{children}</StorageContext>;
+}
+
+/**
+ * The storage adapter from the nearest StorageProvider (IndexedDB if none).
+ */
+export function useStorage(): StorageAdapter {
+  return useContext(StorageContext);
+}
@@ -0,0 +1,125 @@
+import {
+  Check,
+  Code,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  ListTodo,
+  MessageSquare,
+  Pilcrow,
+  Quote,
+  Repeat2,
+} from "lucide-react";
+import { createContext, useContext } from "react";
+import {
+  type BlockConversion,
+  isConversionActive,
+  TURN_INTO_OPTIONS,
+} from "@/lib/block-conversion";
+import { cn } from "@/lib/utils";
+import type { Block } from "@/types/blocks";
+
+type BlockConversionHandler = (conversion: BlockConversion) => void;
+
+/** Icons for the "turn into" options, by option ID */
+export const TURN_INTO_ICONS: Record<
+  string,
+  React.ComponentType<{ className?: string }>
+> = {
+  paragraph: Pilcrow,
+  "heading-1": Heading1,
+  "heading-2": Heading2,
+  "heading-3": Heading3,
+  quote: Quote,
+  callout: MessageSquare,
+  code: Code,
+  "bulleted-list": List,
+  "numbered-list": ListOrdered,
+  todo: ListTodo,
+};
+
+const BlockConversionContext = createContext<BlockConversionHandler | null>(
+  null
+);
+
+interface BlockConversionProviderProps {
+  /** Converts the surrounding block; null for blocks that can't convert */
+  onConvert: BlockConversionHandler | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Lets rich text editors inside a block convert it (Markdown shortcuts)
+ * without passing handlers through every renderer.
+ */
+export function BlockConversionProvider({
+  onConvert,
+  children,
+}: BlockConversionProviderProps) {
+  return (
+    <BlockConversionContext.Provider value={onConvert}>
+      {children}
+    </BlockConversionContext.Provider>
+  );
+}
+
+/**
+ * The conversion handler of the surrounding block, or null if it has none
+ */
+export function useBlockConversion(): BlockConversionHandler | null {
+  return useContext(BlockConversionContext);
+}
+
+const ITEM_CLASS =
+  "flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-surface-700 hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700";
+
+interface TurnIntoMenuProps {
+  block: Block;
+  onSelect: BlockConversionHandler;
+  className?: string;
+}
+
+/**
+ * Dropdown of the types a text block can be turned into, its current type
+ * checked
+ */
+export function TurnIntoMenu({
+  block,
+  onSelect,
+  className,
+}: TurnIntoMenuProps) {
+  return (
+    <div
+      className={cn(
+        "z-20 rounded-lg border border-surface-200 bg-white py-1 shadow-lg dark:border-surface-700 dark:bg-surface-800",
+        "max-h-80 min-w-[180px] overflow-y-auto",
+        "animate-scale-in",
+        className
+      )}
+    >
+      <p className="flex items-center gap-1.5 px-3 py-1 font-medium text-surface-400 text-xs">
+        <Repeat2 className="h-3.5 w-3.5" />
+        Turn into
+      </p>
+      {TURN_INTO_OPTIONS.map((option) => {
+        const Icon = TURN_INTO_ICONS[option.id] ?? Pilcrow;
+        const isActive = isConversionActive(block, option.conversion);
+        return (
+          <button
+            aria-pressed={isActive}
+            className={ITEM_CLASS}
+            key={option.id}
+            onClick={() => onSelect(option.conversion)}
+            type="button"
+          >
+            <Icon className="h-4 w-4" />
+            <span className="flex-1">{option.label}</span>
+            {isActive && <Check className="h-4 w-4 text-accent" />}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import { History, Loader2, RotateCcw, Save, Trash2 } from "lucide-react";
+import type { FormEvent } from "react";
+import { useCallback, useMemo, useState } from "react";
+import { formatRelativeTime } from "@/lib/document-library";
+import type { DocumentSnapshot } from "@/lib/persistence";
+import {
+  type BlockChangeType,
+  diffDocuments,
+  getBlockSummary,
+} from "@/lib/snapshots";
+import { cn } from "@/lib/utils";
+import type { BlockDocument } from "@/types/blocks";
+
+const CHANGE_STYLES: Record<
+  BlockChangeType,
+  { label: string; symbol: string; className: string }
+> = {
+  added: {
+    label: "Added",
+    symbol: "+",
+    className:
+      "border-green-200 bg-green-50 text-green-800 dark:border-green-900 dark:bg-green-900/20 dark:text-green-300",
+  },
+  removed: {
+    label: "Removed",
+    symbol: "−",
+    className:
+      "border-red-200 bg-red-50 text-red-800 line-through dark:border-red-900 dark:bg-red-900/20 dark:text-red-300",
+  },
+  changed: {
+    label: "Changed",
+    symbol: "~",
+    className:
+      "border-amber-200 bg-amber-50 text-amber-800 dark:border-amber-900 dark:bg-amber-900/20 dark:text-amber-300",
+  },
+};
+
+// ============================================================================
+// SNAPSHOT DIFF
+// ============================================================================
+
+interface SnapshotDiffProps {
+  snapshot: DocumentSnapshot;
+  document: BlockDocument;
+  onRestore: () => void;
+}
+
+function SnapshotDiff({ snapshot, document, onRestore }: SnapshotDiffProps) {
+  const diff = useMemo(
+    () => diffDocuments(snapshot.document, document),
+    [snapshot, document]
+  );
+  const hasChanges = diff.titleChanged || diff.changes.length > 0;
+
+  return (
+    <div className="flex min-w-0 flex-1 flex-col">
+      <div className="flex items-center justify-between gap-2 border-surface-200 border-b px-4 py-3 dark:border-surface-700">
+        <span className="text-sm text-surface-500">
+          Changes since this version
+        </span>
+        <button
+          className={cn(
+            "flex items-center gap-1.5 rounded-md px-2.5 py-1.5",
+            "bg-accent font-medium text-sm text-white hover:bg-accent/90",
+            "transition-colors disabled:opacity-50"
+          )}
+          disabled={!hasChanges}
+          onClick={onRestore}
+          type="button"
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+          Restore this version
+        </button>
+      </div>
+
+      <div className="max-h-[calc(100vh-300px)] space-y-1.5 overflow-auto p-4">
+        {!hasChanges && (
+          <p className="py-8 text-center text-sm text-surface-400">
+            Identical to the current document
+          </p>
+        )}
+
+        {diff.titleChanged && (
+          <div
+            className={cn(
+              "rounded-md border px-3 py-2 text-sm",
+              CHANGE_STYLES.changed.className
+            )}
+          >
+            Title: "{snapshot.document.title}" → "{document.title}"
+          </div>
+        )}
+
+        {diff.changes.map((change) => {
+          const style = CHANGE_STYLES[change.type];
+          return (
+            <div
+              className={cn(
+                "flex gap-2 rounded-md border px-3 py-2 text-sm",
+                style.className
+              )}
+              key={`${change.type}-${change.blockId}`}
+            >
+              <span aria-hidden="true" className="font-mono">
+                {style.symbol}
+              </span>
+              <span className="sr-only">{style.label}:</span>
+              <div className="min-w-0 flex-1">
+                <span className="mr-2 font-mono text-xs opacity-70">
+                  {change.block.type}
+                </span>
+                {change.previous && (
+                  <span className="line-through opacity-60">
+                    {getBlockSummary(change.previous)}
+                  </span>
+                )}
+                {change.previous && " → "}
+                <span>{getBlockSummary(change.block)}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// VERSION HISTORY PANEL
+// ============================================================================
+
+interface VersionHistoryPanelProps {
+  document: BlockDocument;
+  snapshots: DocumentSnapshot[];
+  isLoading: boolean;
+  onSaveVersion: (name: string) => void;
+  onRestore: (snapshot: DocumentSnapshot) => void;
+  onDeleteSnapshot: (snapshotId: string) => void;
+  className?: string;
+}
+
+export function VersionHistoryPanel({
+  document,
+  snapshots,
+  isLoading,
+  onSaveVersion,
+  onRestore,
+  onDeleteSnapshot,
+  className,
+}: VersionHistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [versionName, setVersionName] = useState("");
+
+  const selected =
+    snapshots.find((snapshot) => snapshot.id === selectedId) ?? snapshots[0];
+
+  const handleSaveVersion = useCallback(
+    (event: FormEvent) => {
+      event.preventDefault();
+      if (versionName.trim()) {
+        onSaveVersion(versionName.trim());
+        setVersionName("");
+      }
+    },
+    [versionName, onSaveVersion]
+  );
+
+  return (
+    <div
+      className={cn(
+        "flex rounded-xl border border-surface-200 bg-white dark:border-surface-700 dark:bg-surface-800",
+        className
+      )}
+    >
+      {/* Snapshot list */}
+      <div className="flex w-64 shrink-0 flex-col border-surface-200 border-r dark:border-surface-700">
+        <form
+          className="flex gap-1 border-surface-200 border-b p-3 dark:border-surface-700"
+          onSubmit={handleSaveVersion}
+        >
+          <input
+            aria-label="Version name"
+            className={cn(
+              "min-w-0 flex-1 rounded-md border px-2 py-1.5 text-sm",
+              "border-surface-200 bg-surface-50 dark:border-surface-700 dark:bg-surface-900",
+              "focus:border-accent focus:outline-hidden focus:ring-1 focus:ring-accent"
+            )}
+            onChange={(e) => setVersionName(e.target.value)}
+            placeholder="Name this version"
+            type="text"
+            value={versionName}
+          />
+          <button
+            aria-label="Save version"
+            className="rounded-md p-1.5 text-surface-400 transition-colors hover:bg-surface-100 hover:text-accent disabled:opacity-40 dark:hover:bg-surface-700"
+            disabled={!versionName.trim()}
+            title="Save version"
+            type="submit"
+          >
+            <Save className="h-4 w-4" />
+          </button>
+        </form>
+
+        <div className="max-h-[calc(100vh-350px)] overflow-y-auto p-2">
+          {isLoading && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-accent" />
+            </div>
+          )}
+
+          {!isLoading && snapshots.length === 0 && (
+            <div className="flex flex-col items-center gap-2 px-4 py-8 text-center text-sm text-surface-400">
+              <History className="h-6 w-6" />
+              <span>No versions yet</span>
+            </div>
+          )}
+
+          <ul className="space-y-0.5">
+            {snapshots.map((snapshot) => (
+              <li className="group relative" key={snapshot.id}>
+                <button
+                  aria-current={snapshot === selected ? "true" : undefined}
+                  className={cn(
+                    "flex w-full flex-col items-start gap-0.5 rounded-md px-3 py-2 pr-9 text-left transition-colors",
+                    snapshot === selected
+                      ? "bg-accent/10 text-accent dark:bg-accent/20"
+                      : "text-surface-700 hover:bg-surface-100 dark:text-surface-300 dark:hover:bg-surface-700"
+                  )}
+                  onClick={() => setSelectedId(snapshot.id)}
+                  title={new Date(snapshot.createdAt).toLocaleString()}
+                  type="button"
+                >
+                  <span className="w-full truncate font-medium text-sm">
+                    {snapshot.name ?? "Automatic snapshot"}
+                  </span>
+                  <span className="text-surface-400 text-xs">
+                    {formatRelativeTime(snapshot.createdAt)}
+                  </span>
+                </button>
+                <button
+                  aria-label="Delete version"
+                  className="absolute top-1/2 right-2 -translate-y-1/2 rounded-sm p-1 text-surface-400 opacity-0 transition-opacity hover:bg-red-50 hover:text-red-500 focus:opacity-100 group-hover:opacity-100 dark:hover:bg-red-900/20"
+                  onClick={() => onDeleteSnapshot(snapshot.id)}
+                  title="Delete"
+                  type="button"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+
+      {/* Diff against the current document */}
+      {selected ? (
+        <SnapshotDiff
+          document={document}
+          onRestore={() => onRestore(selected)}
+          snapshot={selected}
+        />
+      ) : (
+        <div className="flex flex-1 items-center justify-center p-8 text-center text-sm text-surface-400">
+          Versions are saved automatically as you edit. Name one to keep it.
+        </div>
+      )}
+    </div>
+  );
+}
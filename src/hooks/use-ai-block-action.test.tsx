@@ -0,0 +1,92 @@
+/**
+ * Tests for useAIBlockAction.
+ * Renders the hook with a stub provider and checks that a suggestion is
+ * applied on accept, and refused once the block has changed since the
+ * request.
+ */
+import { afterEach, describe, expect, it } from "bun:test";
+import { createRoot, type Root } from "react-dom/client";
+import { createBlock } from "@/lib/utils";
+import type { BlockDocument } from "@/types/blocks";
+import { createTestDocument, createTestProvider } from "../../test/fixtures";
+import { useAIBlockAction } from "./use-ai-block-action";
+
+type Action = ReturnType<typeof useAIBlockAction>;
+
+const provider = createTestProvider({
+  transformText: () => Promise.resolve("Better text"),
+});
+
+const block = createBlock("paragraph", { content: "Some text" });
+
+function withContent(content: string): BlockDocument {
+  return createTestDocument([{ ...block, props: { ...block.props, content } }]);
+}
+
+let root: Root | null = null;
+
+/** Render the hook; returns a getter for its value and the applied updates */
+function renderAction(document: BlockDocument) {
+  let action: Action | undefined;
+  const updates: string[] = [];
+  function Probe({ doc }: { doc: BlockDocument }) {
+    action = useAIBlockAction({
+      provider,
+      document: doc,
+      updateBlock: (_blockId, { content }) => updates.push(content),
+    });
+    return null;
+  }
+  root = createRoot(window.document.createElement("div"));
+  root.render(<Probe doc={document} />);
+  return {
+    getAction: () => action as Action,
+    setDocument: (doc: BlockDocument) => root?.render(<Probe doc={doc} />),
+    updates,
+  };
+}
+
+/** Wait out rendering and the stub provider */
+function wait() {
+  return new Promise((resolve) => setTimeout(resolve, 30));
+}
+
+afterEach(() => {
+  root?.unmount();
+  root = null;
+});
+
+describe("useAIBlockAction", () => {
+  it("should apply the suggestion on accept", async () => {
+    const { getAction, updates } = renderAction(withContent("Some text"));
+    await wait();
+
+    getAction().run(block.props.id, { type: "rewrite" });
+    await wait();
+    expect(getAction().pending?.status).toBe("ready");
+    expect(getAction().isStale).toBe(false);
+
+    getAction().accept();
+    await wait();
+    expect(updates).toEqual(["Better text"]);
+    expect(getAction().pending).toBeNull();
+  });
+
+  it("should refuse a suggestion for a block edited since the request", async () => {
+    const { getAction, setDocument, updates } = renderAction(
+      withContent("Some text")
+    );
+    await wait();
+
+    getAction().run(block.props.id, { type: "rewrite" });
+    await wait();
+    setDocument(withContent("Some text, edited"));
+    await wait();
+    expect(getAction().isStale).toBe(true);
+
+    getAction().accept();
+    await wait();
+    expect(updates).toEqual([]);
+    expect(getAction().pending?.status).toBe("ready");
+  });
+});
@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  type AIBlockAction,
+  runAIBlockAction,
+  supportsAIActions,
+} from "@/lib/ai-actions";
+import type { AIProvider } from "@/lib/ai-provider";
+import { generateId } from "@/lib/utils";
+import type { BlockDocument } from "@/types/blocks";
+
+export type AIBlockActionStatus = "loading" | "ready" | "failed";
+
+export interface AIBlockActionState {
+  blockId: string;
+  action: AIBlockAction;
+  status: AIBlockActionStatus;
+  /** Block content when the action was run */
+  original: string;
+  /** Proposed content, once the model has answered */
+  suggestion: string | null;
+  /** Why the request failed, if it did */
+  failure: string | null;
+}
+
+interface UseAIBlockActionOptions {
+  provider: AIProvider;
+  document: BlockDocument;
+  updateBlock: (
+    blockId: string,
+    updates: { content: string },
+    options?: { group?: string }
+  ) => void;
+}
+
+/**
+ * AI edits to a single block. The result is held as a suggestion next to
+ * the original until it is accepted (one undo step) or rejected. A
+ * suggestion for a block that has changed since the request is stale: it
+ * can't be accepted, only run again on the current content.
+ */
+export function useAIBlockAction({
+  provider,
+  document,
+  updateBlock,
+}: UseAIBlockActionOptions) {
+  const [pending, setPending] = useState<AIBlockActionState | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const documentRef = useRef(document);
+  documentRef.current = document;
+
+  /** Ask the model to apply an action to a block */
+  const run = useCallback(
+    async (blockId: string, action: AIBlockAction) => {
+      const block = documentRef.current.blocks[blockId];
+      if (!(block && supportsAIActions(block))) {
+        return;
+      }
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setPending({
+        blockId,
+        action,
+        status: "loading",
+        original: block.props.content,
+        suggestion: null,
+        failure: null,
+      });
+
+      try {
+        const suggestion = await runAIBlockAction(
+          provider,
+          documentRef.current,
+          block,
+          action,
+          controller.signal
+        );
+        if (controllerRef.current === controller) {
+          setPending((prev) =>
+            prev ? { ...prev, status: "ready", suggestion } : prev
+          );
+        }
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        console.error("AI action failed:", error);
+        setPending((prev) =>
+          prev
+            ? {
+                ...prev,
+                status: "failed",
+                failure: error instanceof Error ? error.message : String(error),
+              }
+            : prev
+        );
+      }
+    },
+    [provider]
+  );
+
+  // Stop the request when the editor unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const pendingBlock = pending ? document.blocks[pending.blockId] : undefined;
+  const isStale =
+    pending !== null &&
+    !(
+      pendingBlock &&
+      supportsAIActions(pendingBlock) &&
+      pendingBlock.props.content === pending.original
+    );
+
+  /** Replace the block's content with the suggestion */
+  const accept = useCallback(() => {
+    if (isStale) {
+      return;
+    }
+    if (pending?.suggestion != null) {
+      updateBlock(
+        pending.blockId,
+        { content: pending.suggestion },
+        { group: `ai-action:${generateId()}` }
+      );
+    }
+    controllerRef.current = null;
+    setPending(null);
+  }, [isStale, pending, updateBlock]);
+
+  /** Drop the suggestion (or stop waiting for it) */
+  const reject = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setPending(null);
+  }, []);
+
+  /** Ask again for a different suggestion */
+  const retry = useCallback(() => {
+    if (pending) {
+      run(pending.blockId, pending.action);
+    }
+  }, [pending, run]);
+
+  return { pending, isStale, run, accept, reject, retry };
+}
@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { buildRepairPrompt, generateBlockCatalogPrompt } from "@/lib/ai";
+import type { AIProvider } from "@/lib/ai-provider";
+import { streamBlocksFromPrompt } from "@/lib/ai-stream";
+import type { AIBlockError } from "@/lib/ai-validation";
+import { generateId } from "@/lib/utils";
+import type { Block, BlockDocument } from "@/types/blocks";
+
+export type AIGenerationStatus = "streaming" | "cancelled" | "done";
+
+export interface AIGeneration {
+  prompt: string;
+  status: AIGenerationStatus;
+  /** Root block the generated blocks follow (the last one inserted so far) */
+  anchorBlockId: string | undefined;
+  /** Blocks inserted so far */
+  blockCount: number;
+  /** Blocks that were skipped as invalid */
+  errors: AIBlockError[];
+  /** 1 for the first request, then one more per retry */
+  attempt: number;
+  /** Why the request failed, if it did */
+  failure: string | null;
+}
+
+interface GenerationRun {
+  controller: AbortController;
+  /** Undo group shared by every insertion of this run */
+  group: string;
+  prompt: string;
+  afterBlockId: string | undefined;
+  attempt: number;
+  blockIds: string[];
+  response: string;
+  errors: AIBlockError[];
+}
+
+interface UseAIGenerationOptions {
+  provider: AIProvider;
+  document: BlockDocument;
+  insertGeneratedBlocks: (
+    blocks: Block[],
+    afterBlockId?: string,
+    options?: { group?: string }
+  ) => void;
+  /** Called when a run stops streaming, so edits no longer join its step */
+  finishGeneratedBlocks: (group: string) => void;
+  discardGeneratedBlocks: (blockIds: string[], group: string) => void;
+}
+
+/**
+ * Streamed AI generation into the document. Blocks are inserted in order
+ * as the model completes them, and the whole run is one undo step (along
+ * with any edits made while it streams). A run can be stopped part way,
+ * after which its blocks are kept or discarded.
+ */
+export function useAIGeneration({
+  provider,
+  document,
+  insertGeneratedBlocks,
+  finishGeneratedBlocks,
+  discardGeneratedBlocks,
+}: UseAIGenerationOptions) {
+  const [generation, setGeneration] = useState<AIGeneration | null>(null);
+  const runRef = useRef<GenerationRun | null>(null);
+  const documentRef = useRef(document);
+  documentRef.current = document;
+
+  const run = useCallback(
+    async (
+      prompt: string,
+      afterBlockId: string | undefined,
+      attempt: number,
+      request: string
+    ) => {
+      runRef.current?.controller.abort();
+      const current: GenerationRun = {
+        controller: new AbortController(),
+        group: `ai:${generateId()}`,
+        prompt,
+        afterBlockId,
+        attempt,
+        blockIds: [],
+        response: "",
+        errors: [],
+      };
+      runRef.current = current;
+      setGeneration({
+        prompt,
+        status: "streaming",
+        anchorBlockId: afterBlockId,
+        blockCount: 0,
+        errors: [],
+        attempt,
+        failure: null,
+      });
+
+      let anchorBlockId = afterBlockId;
+      const update = (changes: Partial<AIGeneration>) => {
+        if (runRef.current === current) {
+          setGeneration((prev) => (prev ? { ...prev, ...changes } : prev));
+        }
+      };
+
+      try {
+        const { response, errors } = await streamBlocksFromPrompt(
+          provider,
+          generateBlockCatalogPrompt(),
+          request,
+          {
+            signal: current.controller.signal,
+            reservedIds: Object.keys(documentRef.current.blocks),
+            onBlocks: (blocks) => {
+              insertGeneratedBlocks(blocks, anchorBlockId, {
+                group: current.group,
+              });
+              // The first block is the root one (columns come with children)
+              anchorBlockId = blocks[0].props.id;
+              current.blockIds.push(...blocks.map((block) => block.props.id));
+              update({
+                anchorBlockId,
+                blockCount: current.blockIds.length,
+              });
+            },
+          }
+        );
+        current.response = response;
+        current.errors = errors;
+        if (runRef.current !== current) {
+          return;
+        }
+        if (errors.length === 0) {
+          runRef.current = null;
+          setGeneration(null);
+        } else {
+          update({ status: "done", errors });
+        }
+      } catch (error) {
+        if (current.controller.signal.aborted) {
+          return;
+        }
+        console.error("AI generation failed:", error);
+        update({
+          status: "done",
+          failure: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        finishGeneratedBlocks(current.group);
+      }
+    },
+    [provider, insertGeneratedBlocks, finishGeneratedBlocks]
+  );
+
+  // Stop streaming when the editor unmounts
+  useEffect(() => () => runRef.current?.controller.abort(), []);
+
+  /** Generate blocks for a prompt after the given root block */
+  const start = useCallback(
+    (prompt: string, afterBlockId?: string) => {
+      run(prompt, afterBlockId, 1, prompt);
+    },
+    [run]
+  );
+
+  /** Abort the request; the blocks inserted so far stay until keep/discard */
+  const cancel = useCallback(() => {
+    const current = runRef.current;
+    if (!current) {
+      return;
+    }
+    current.controller.abort();
+    if (current.blockIds.length === 0) {
+      runRef.current = null;
+      setGeneration(null);
+    } else {
+      setGeneration((prev) => (prev ? { ...prev, status: "cancelled" } : prev));
+    }
+  }, []);
+
+  /** Keep the generated blocks and close the run */
+  const keep = useCallback(() => {
+    runRef.current = null;
+    setGeneration(null);
+  }, []);
+
+  /** Remove the generated blocks, undoing the run */
+  const discard = useCallback(() => {
+    const current = runRef.current;
+    if (current) {
+      current.controller.abort();
+      discardGeneratedBlocks(current.blockIds, current.group);
+    }
+    runRef.current = null;
+    setGeneration(null);
+  }, [discardGeneratedBlocks]);
+
+  /**
+   * Discard the run and ask again, sending back the errors (or the same
+   * prompt if the request failed)
+   */
+  const retry = useCallback(() => {
+    const current = runRef.current;
+    if (!current) {
+      return;
+    }
+    discardGeneratedBlocks(current.blockIds, current.group);
+    const request =
+      current.errors.length > 0
+        ? buildRepairPrompt(current.prompt, current.response, current.errors)
+        : current.prompt;
+    run(current.prompt, current.afterBlockId, current.attempt + 1, request);
+  }, [run, discardGeneratedBlocks]);
+
+  return { generation, start, cancel, keep, discard, retry };
+}
@@ -0,0 +1,67 @@
+import { useEffect, useRef, useState } from "react";
+import type { AIProvider } from "@/lib/ai-provider";
+import {
+  generateSuggestions,
+  getSuggestionRefreshKey,
+} from "@/lib/ai-suggestions";
+import type { BlockDocument } from "@/types/blocks";
+
+// Wait for a pause in editing before asking again
+const SUGGESTION_DELAY = 800;
+
+interface UseAISuggestionsOptions {
+  /** Without one, suggestions come from the fallback rules */
+  provider: AIProvider | undefined;
+  document: BlockDocument;
+  /** Block containing the cursor, if any */
+  activeBlockId?: string;
+  enabled?: boolean;
+}
+
+/**
+ * Prompt suggestions for the document, refreshed after edits to the title,
+ * block types or outline and when the cursor moves to another block (not
+ * while typing in it).
+ */
+export function useAISuggestions({
+  provider,
+  document,
+  activeBlockId,
+  enabled = true,
+}: UseAISuggestionsOptions): string[] {
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  // Refresh key of the last request, to skip edits that don't change it
+  const requestedKeyRef = useRef<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    const key = getSuggestionRefreshKey(document, activeBlockId);
+    if (key === requestedKeyRef.current) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      requestedKeyRef.current = key;
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      generateSuggestions(provider, document, {
+        activeBlockId,
+        signal: controller.signal,
+      })
+        .then(setSuggestions)
+        // Only rejects when a newer request took over
+        .catch(() => undefined);
+    }, SUGGESTION_DELAY);
+
+    return () => clearTimeout(timer);
+  }, [enabled, provider, document, activeBlockId]);
+
+  // Stop the request when the editor unmounts
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return suggestions;
+}
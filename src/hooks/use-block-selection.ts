@@ -0,0 +1,121 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import {
+  getBlockRange,
+  getSiblingBlockId,
+  liftToCommonContainer,
+} from "@/lib/block-selection";
+import { sortBlockIds } from "@/lib/block-tree";
+import type { BlockDocument } from "@/types/blocks";
+
+interface SelectionState {
+  /** Where range selection started (shift-click, Shift+Arrow) */
+  anchorId: string | null;
+  /** The end that moves when the range is extended */
+  focusId: string | null;
+  blockIds: string[];
+}
+
+const EMPTY_SELECTION: SelectionState = {
+  anchorId: null,
+  focusId: null,
+  blockIds: [],
+};
+
+/**
+ * Multi-block selection: a run of sibling blocks (see block-selection).
+ * Selected IDs are resolved against the current document, so blocks can be
+ * selected in the same event that creates them, and deleted blocks drop out
+ * of the selection on their own.
+ */
+export function useBlockSelection(document: BlockDocument) {
+  const [state, setState] = useState<SelectionState>(EMPTY_SELECTION);
+  const documentRef = useRef(document);
+  documentRef.current = document;
+
+  const selectedIds = useMemo(
+    () => liftToCommonContainer(document, state.blockIds),
+    [document, state.blockIds]
+  );
+
+  /** Select a range; anchor and focus are lifted to the range's ends */
+  const selectRange = useCallback((anchorId: string, focusId: string) => {
+    const doc = documentRef.current;
+    const blockIds = getBlockRange(doc, anchorId, focusId);
+    const forward =
+      sortBlockIds(doc, [anchorId, focusId])[0] === anchorId ||
+      anchorId === focusId;
+    setState({
+      anchorId: (forward ? blockIds[0] : blockIds.at(-1)) ?? null,
+      focusId: (forward ? blockIds.at(-1) : blockIds[0]) ?? null,
+      blockIds,
+    });
+  }, []);
+
+  /** Select these blocks (lifted to one container, see selectedIds) */
+  const select = useCallback((blockIds: string[]) => {
+    setState({
+      anchorId: blockIds[0] ?? null,
+      focusId: blockIds.at(-1) ?? null,
+      blockIds,
+    });
+  }, []);
+
+  /** Extend the selection to a block, starting from `fromId` if empty */
+  const extendTo = useCallback(
+    (blockId: string, fromId?: string) => {
+      const anchorId = state.anchorId ?? fromId ?? blockId;
+      selectRange(anchorId, blockId);
+    },
+    [state.anchorId, selectRange]
+  );
+
+  /** Move the focus end of the selection to the previous/next sibling */
+  const extendBy = useCallback(
+    (offset: -1 | 1) => {
+      const { anchorId, focusId } = state;
+      if (!(anchorId && focusId)) {
+        return;
+      }
+      const next = getSiblingBlockId(documentRef.current, focusId, offset);
+      if (next) {
+        selectRange(anchorId, next);
+      }
+    },
+    [state, selectRange]
+  );
+
+  /** Select the sibling before the first / after the last selected block */
+  const moveBy = useCallback(
+    (offset: -1 | 1) => {
+      const edge = offset < 0 ? selectedIds[0] : selectedIds.at(-1);
+      const next = edge
+        ? getSiblingBlockId(documentRef.current, edge, offset)
+        : undefined;
+      if (next) {
+        select([next]);
+      }
+    },
+    [selectedIds, select]
+  );
+
+  const clear = useCallback(() => {
+    setState((current) =>
+      current.blockIds.length > 0 ? EMPTY_SELECTION : current
+    );
+  }, []);
+
+  const isSelected = useCallback(
+    (blockId: string) => selectedIds.includes(blockId),
+    [selectedIds]
+  );
+
+  return {
+    selectedIds,
+    isSelected,
+    select,
+    extendTo,
+    extendBy,
+    moveBy,
+    clear,
+  };
+}
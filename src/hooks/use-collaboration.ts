@@ -0,0 +1,182 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Doc, UndoManager } from "yjs";
+import { createBroadcastChannelTransport } from "@/lib/broadcast-channel-transport";
+import {
+  type CollaborationStatus,
+  type CollaborationTransport,
+  createCollaborationSession,
+  createCollaborationUser,
+  type RemotePeer,
+} from "@/lib/collaboration";
+import {
+  applyDocumentToYDoc,
+  getSharedTypes,
+  yDocToDocument,
+} from "@/lib/crdt-document";
+import { hasSameContent } from "@/lib/snapshots";
+import { createWebSocketTransport } from "@/lib/websocket-transport";
+import type { BlockDocument } from "@/types/blocks";
+
+/** Transaction origin for edits made in this editor */
+const LOCAL_ORIGIN = "local";
+/** Transaction origin for the initial copy written when seeding a room */
+const SEED_ORIGIN = "seed";
+
+/**
+ * Use the WebSocket relay when VITE_COLLAB_URL is set, otherwise sync
+ * between tabs with BroadcastChannel.
+ */
+function createDefaultTransport(room: string): CollaborationTransport {
+  const url = import.meta.env.VITE_COLLAB_URL;
+  return url
+    ? createWebSocketTransport({ url, room })
+    : createBroadcastChannelTransport(room);
+}
+
+interface UseCollaborationOptions {
+  enabled: boolean;
+  /** Current document from useDocumentStore */
+  document: BlockDocument;
+  /** Called with the merged document when collaborators change it */
+  applyRemoteDocument: (document: BlockDocument) => void;
+  /** Block this user is editing, shared as presence */
+  activeBlockId: string | null;
+  /** Transport factory (room = document ID) */
+  createTransport?: (room: string) => CollaborationTransport;
+}
+
+interface ActiveSession {
+  ydoc: Doc;
+  undoManager: UndoManager;
+  setActiveBlock: (blockId: string | null) => void;
+  isSynced: () => boolean;
+}
+
+/**
+ * Collaborative editing for a document. While enabled, the document is
+ * mirrored in a CRDT shared with everyone in the same room: local edits are
+ * written to it, and merged remote edits are pushed back into the store.
+ * Undo and redo only revert this user's own changes.
+ */
+export function useCollaboration({
+  enabled,
+  document,
+  applyRemoteDocument,
+  activeBlockId,
+  createTransport = createDefaultTransport,
+}: UseCollaborationOptions) {
+  const [user] = useState(createCollaborationUser);
+  const [status, setStatus] = useState<CollaborationStatus | "off">("off");
+  const [peers, setPeers] = useState<RemotePeer[]>([]);
+  const [undoState, setUndoState] = useState({
+    canUndo: false,
+    canRedo: false,
+  });
+  const sessionRef = useRef<ActiveSession | null>(null);
+  // Latest values for callbacks registered once per session
+  const documentRef = useRef(document);
+  documentRef.current = document;
+  const applyRemoteRef = useRef(applyRemoteDocument);
+  applyRemoteRef.current = applyRemoteDocument;
+  const documentId = document.id;
+
+  // Join the room for this document
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const ydoc = new Doc();
+    const shared = getSharedTypes(ydoc);
+    const undoManager = new UndoManager(
+      [shared.meta, shared.title, shared.rootBlockIds, shared.blocks],
+      { trackedOrigins: new Set([LOCAL_ORIGIN]) }
+    );
+    const session = createCollaborationSession({
+      ydoc,
+      transport: createTransport(documentId),
+      user,
+      onSeed: () => applyDocumentToYDoc(ydoc, documentRef.current, SEED_ORIGIN),
+    });
+
+    // Push remote edits (and undo/redo) into the store
+    const handleUpdate = (_update: Uint8Array, origin: unknown) => {
+      if (origin === LOCAL_ORIGIN || origin === SEED_ORIGIN) {
+        return;
+      }
+      const merged = yDocToDocument(ydoc);
+      if (merged && !hasSameContent(merged, documentRef.current)) {
+        applyRemoteRef.current(merged);
+      }
+    };
+    ydoc.on("update", handleUpdate);
+
+    const syncUndoState = () =>
+      setUndoState({
+        canUndo: undoManager.canUndo(),
+        canRedo: undoManager.canRedo(),
+      });
+    undoManager.on("stack-item-added", syncUndoState);
+    undoManager.on("stack-item-popped", syncUndoState);
+
+    const syncSessionState = () => {
+      setStatus(session.getStatus());
+      setPeers(session.getPeers());
+    };
+    const unsubscribe = session.subscribe(syncSessionState);
+    syncSessionState();
+
+    sessionRef.current = {
+      ydoc,
+      undoManager,
+      setActiveBlock: session.setActiveBlock,
+      isSynced: () => session.getStatus() === "synced",
+    };
+
+    return () => {
+      sessionRef.current = null;
+      unsubscribe();
+      ydoc.off("update", handleUpdate);
+      session.destroy();
+      undoManager.destroy();
+      ydoc.destroy();
+      setStatus("off");
+      setPeers([]);
+      setUndoState({ canUndo: false, canRedo: false });
+    };
+  }, [enabled, documentId, user, createTransport]);
+
+  // Write local edits into the shared document
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (session && status === "synced" && session.isSynced()) {
+      applyDocumentToYDoc(session.ydoc, document, LOCAL_ORIGIN);
+    }
+  }, [document, status]);
+
+  // Share which block this user is in
+  useEffect(() => {
+    if (status !== "off") {
+      sessionRef.current?.setActiveBlock(activeBlockId);
+    }
+  }, [activeBlockId, status]);
+
+  const undo = useCallback(() => {
+    sessionRef.current?.undoManager.undo();
+  }, []);
+
+  const redo = useCallback(() => {
+    sessionRef.current?.undoManager.redo();
+  }, []);
+
+  return {
+    isActive: status !== "off",
+    status,
+    user,
+    peers,
+    undo,
+    redo,
+    canUndo: undoState.canUndo,
+    canRedo: undoState.canRedo,
+  };
+}
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useState } from "react";
+import { useStorage } from "@/components/storage-provider";
+import {
+  duplicateDocument as copyDocument,
+  upsertDocument,
+} from "@/lib/document-library";
+import type { QuarantinedDocument, StorageAdapter } from "@/lib/persistence";
+import { createDocument as createEmptyDocument } from "@/lib/utils";
+import type { BlockDocument } from "@/types/blocks";
+
+/**
+ * All stored documents plus library actions (create, duplicate, rename,
+ * delete). The list stays current with saves made by open editors.
+ * Documents that failed validation are listed separately as quarantined.
+ */
+export function useDocumentLibrary(options: { storage?: StorageAdapter } = {}) {
+  const contextStorage = useStorage();
+  const storage = options.storage ?? contextStorage;
+  const [documents, setDocuments] = useState<BlockDocument[]>([]);
+  const [quarantinedDocuments, setQuarantinedDocuments] = useState<
+    QuarantinedDocument[]
+  >([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load all documents on mount (listing quarantines invalid ones first)
+  useEffect(() => {
+    let cancelled = false;
+    storage
+      .listDocuments()
+      .then(async (loaded) => {
+        const quarantined = await storage.listQuarantinedDocuments();
+        if (!cancelled) {
+          setDocuments(loaded);
+          setQuarantinedDocuments(quarantined);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [storage]);
+
+  // Mirror saves and deletions from anywhere in the app
+  useEffect(
+    () =>
+      storage.subscribe((change) => {
+        switch (change.type) {
+          case "saved":
+            setDocuments((prev) => upsertDocument(prev, change.document));
+            break;
+          case "deleted":
+            setDocuments((prev) => prev.filter((doc) => doc.id !== change.id));
+            setQuarantinedDocuments((prev) =>
+              prev.filter((entry) => entry.id !== change.id)
+            );
+            break;
+          case "cleared":
+            setDocuments([]);
+            break;
+          default:
+            change satisfies never;
+        }
+      }),
+    [storage]
+  );
+
+  // Create and store an empty document
+  const createDocument = useCallback(
+    (): Promise<BlockDocument> => storage.saveDocument(createEmptyDocument()),
+    [storage]
+  );
+
+  // Store a copy of an existing document
+  const duplicateDocument = useCallback(
+    (documentId: string): Promise<BlockDocument | undefined> => {
+      const source = documents.find((doc) => doc.id === documentId);
+      return source
+        ? storage.saveDocument(copyDocument(source))
+        : Promise.resolve(undefined);
+    },
+    [documents, storage]
+  );
+
+  // Rename a document (open editors pick up the new title)
+  const renameDocument = useCallback(
+    async (documentId: string, title: string): Promise<void> => {
+      const source = documents.find((doc) => doc.id === documentId);
+      if (source && source.title !== title) {
+        await storage.saveDocument({ ...source, title });
+      }
+    },
+    [documents, storage]
+  );
+
+  const deleteDocument = useCallback(
+    (documentId: string): Promise<void> => storage.deleteDocument(documentId),
+    [storage]
+  );
+
+  return {
+    documents,
+    quarantinedDocuments,
+    isLoading,
+    createDocument,
+    duplicateDocument,
+    renameDocument,
+    deleteDocument,
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Tests for useDocumentStore.
+ * Renders the hook against the in-memory storage adapter and checks that
+ * edits reach storage through the auto-save, that renames made elsewhere
+ * are taken in, that deleted documents are not saved again, and how
+ * streamed generated blocks undo.
+ */
+import { afterEach, describe, expect, it } from "bun:test";
+import { createRoot, type Root } from "react-dom/client";
+import { createMemoryStorage } from "@/lib/memory-storage";
+import type { StorageAdapter } from "@/lib/persistence";
+import { createBlock, createDocument } from "@/lib/utils";
+import type { BlockDocument } from "@/types/blocks";
+import { cancelPendingSave, useDocumentStore } from "./use-document-store";
+
+const AUTO_SAVE_DELAY = 10;
+
+type Store = ReturnType<typeof useDocumentStore>;
+
+let root: Root | null = null;
+
+/** Render the store and return a getter for its latest value */
+async function renderStore(
+  storage: StorageAdapter,
+  documentId?: string
+): Promise<() => Store> {
+  let store: Store | undefined;
+  function Probe() {
+    store = useDocumentStore({
+      documentId,
+      storage,
+      autoSaveDelay: AUTO_SAVE_DELAY,
+    });
+    return null;
+  }
+  root = createRoot(window.document.createElement("div"));
+  root.render(<Probe />);
+  // Let the document load and render
+  await wait();
+  return () => store as Store;
+}
+
+/** Wait out rendering and the auto-save delay */
+function wait() {
+  return new Promise((resolve) => setTimeout(resolve, AUTO_SAVE_DELAY * 3));
+}
+
+afterEach(() => {
+  root?.unmount();
+  root = null;
+});
+
+describe("useDocumentStore auto-save", () => {
+  it("should save every edit made in a row", async () => {
+    const storage = createMemoryStorage();
+    const getStore = await renderStore(storage);
+    const { id, rootBlockIds } = getStore().document;
+
+    getStore().setTitle("One");
+    getStore().setTitle("Two");
+    getStore().addBlock(createBlock("paragraph"));
+    getStore().setTitle("Three");
+    await wait();
+
+    const saved = await storage.loadDocument(id);
+    expect(saved?.title).toBe("Three");
+    expect(saved?.rootBlockIds).toHaveLength(rootBlockIds.length + 1);
+  });
+
+  it("should save each edit to a loaded document", async () => {
+    const document: BlockDocument = { ...createDocument(), title: "Draft" };
+    const storage = createMemoryStorage([document]);
+    const getStore = await renderStore(storage, document.id);
+    expect(getStore().document.title).toBe("Draft");
+
+    for (const title of ["A", "B", "C", "D"]) {
+      getStore().setTitle(title);
+      await wait();
+      expect((await storage.loadDocument(document.id))?.title).toBe(title);
+    }
+  });
+});
+
+describe("useDocumentStore loading", () => {
+  it("should report a document that fails to load", async () => {
+    const storage: StorageAdapter = {
+      ...createMemoryStorage(),
+      loadDocument: () => Promise.reject(new Error("Network down")),
+    };
+    const getStore = await renderStore(storage, "doc");
+
+    expect(getStore().isLoading).toBe(false);
+    expect(getStore().loadError).toBe("Network down");
+  });
+});
+
+describe("useDocumentStore title sync", () => {
+  it("should take a rename made elsewhere without saving or an undo step", async () => {
+    const document = createDocument();
+    const storage = createMemoryStorage([document]);
+    const getStore = await renderStore(storage, document.id);
+    const origins: (string | undefined)[] = [];
+    storage.subscribe((change) => {
+      if (change.type === "saved") {
+        origins.push(change.origin);
+      }
+    });
+
+    await storage.saveDocument(
+      { ...document, title: "Renamed" },
+      { origin: "library" }
+    );
+    await wait();
+
+    expect(getStore().document.title).toBe("Renamed");
+    expect(getStore().canUndo).toBe(false);
+    expect(origins).toEqual(["library"]);
+  });
+
+  it("should keep the rename when saving unsaved local edits", async () => {
+    const document = createDocument();
+    const storage = createMemoryStorage([document]);
+    const getStore = await renderStore(storage, document.id);
+    const { rootBlockIds } = getStore().document;
+
+    getStore().addBlock(createBlock("paragraph"));
+    await storage.saveDocument(
+      { ...document, title: "Renamed" },
+      { origin: "library" }
+    );
+    await wait();
+
+    const saved = await storage.loadDocument(document.id);
+    expect(saved?.title).toBe("Renamed");
+    expect(saved?.rootBlockIds).toHaveLength(rootBlockIds.length + 1);
+  });
+});
+
+describe("cancelPendingSave", () => {
+  it("should keep a deleted document from being saved on unmount", async () => {
+    const document = createDocument();
+    const storage = createMemoryStorage([document]);
+    const getStore = await renderStore(storage, document.id);
+
+    // Deleting an open document that was just edited (see App)
+    getStore().setTitle("Edited");
+    cancelPendingSave(document.id);
+    await storage.deleteDocument(document.id);
+    root?.unmount();
+    root = null;
+    await wait();
+
+    expect(await storage.loadDocument(document.id)).toBeNull();
+  });
+
+  it("should leave other documents' saves alone", async () => {
+    const document = createDocument();
+    const storage = createMemoryStorage([document]);
+    const getStore = await renderStore(storage, document.id);
+
+    getStore().setTitle("Edited");
+    cancelPendingSave("another-document");
+    root?.unmount();
+    root = null;
+    await wait();
+
+    expect((await storage.loadDocument(document.id))?.title).toBe("Edited");
+  });
+});
+
+describe("useDocumentStore generated blocks", () => {
+  const GROUP = "ai:run";
+
+  it("should undo a streamed run in one step despite edits in between", async () => {
+    const storage = createMemoryStorage();
+    const getStore = await renderStore(storage);
+    const { rootBlockIds } = getStore().document;
+    const first = createBlock("paragraph", { content: "First" });
+    const second = createBlock("paragraph", { content: "Second" });
+
+    getStore().insertGeneratedBlocks([first], undefined, { group: GROUP });
+    await wait();
+    getStore().setTitle("Edited while streaming");
+    await wait();
+    getStore().insertGeneratedBlocks([second], first.props.id, {
+      group: GROUP,
+    });
+    getStore().finishGeneratedBlocks(GROUP);
+    await wait();
+    expect(getStore().document.rootBlockIds).toHaveLength(
+      rootBlockIds.length + 2
+    );
+
+    getStore().undo();
+    await wait();
+    expect(getStore().document.rootBlockIds).toEqual(rootBlockIds);
+    expect(getStore().canUndo).toBe(false);
+  });
+
+  it("should keep edits made during a run when discarding it", async () => {
+    const storage = createMemoryStorage();
+    const getStore = await renderStore(storage);
+    const { rootBlockIds } = getStore().document;
+    const block = createBlock("paragraph", { content: "Generated" });
+
+    getStore().insertGeneratedBlocks([block], undefined, { group: GROUP });
+    getStore().setTitle("Edited while streaming");
+    getStore().discardGeneratedBlocks([block.props.id], GROUP);
+    await wait();
+
+    expect(getStore().document.rootBlockIds).toEqual(rootBlockIds);
+    expect(getStore().document.title).toBe("Edited while streaming");
+  });
+
+  it("should end the run's step once it finishes", async () => {
+    const storage = createMemoryStorage();
+    const getStore = await renderStore(storage);
+    const block = createBlock("paragraph", { content: "Generated" });
+
+    getStore().insertGeneratedBlocks([block], undefined, { group: GROUP });
+    getStore().finishGeneratedBlocks(GROUP);
+    getStore().setTitle("Edited afterwards");
+    await wait();
+
+    getStore().undo();
+    await wait();
+    expect(getStore().document.title).not.toBe("Edited afterwards");
+    expect(getStore().document.blocks[block.props.id]).toBeDefined();
+  });
+});
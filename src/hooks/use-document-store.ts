@@ -1,38 +1,164 @@
 import { useCallback, useEffect, useRef, useState } from "react";
-import { loadDocument, saveDocument } from "@/lib/persistence";
-import { cloneDocument, createDocument, generateId } from "@/lib/utils";
+import { useStorage } from "@/components/storage-provider";
+import type {
+  BlockConversion,
+  ConvertibleBlockType,
+} from "@/lib/block-conversion";
+import {
+  convertBlocksInDocument,
+  duplicateBlocksInDocument,
+  normalizeSelection,
+  wrapBlocksInColumnsInDocument,
+} from "@/lib/block-selection";
+import {
+  type BlockContainer,
+  copyBlockTrees,
+  insertBlockNextTo,
+  moveBlocksInDocument,
+  ROOT_CONTAINER,
+  removeBlocksInDocument,
+} from "@/lib/block-tree";
+import {
+  type IntegrityIssue,
+  repairDocumentIntegrity,
+} from "@/lib/document-integrity";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  type HistoryState,
+  pushHistory,
+  redoHistory,
+  replacePresent,
+  revertGroup,
+  undoHistory,
+} from "@/lib/history";
+import type { QuarantinedDocument, StorageAdapter } from "@/lib/persistence";
+import {
+  cloneDocument,
+  createBlock,
+  createDocument,
+  generateId,
+} from "@/lib/utils";
 import type { Block, BlockDocument } from "@/types/blocks";
 
+/**
+ * Container for the optional column arguments of the move operations
+ */
+function getTargetContainer(
+  targetColumnId?: string,
+  targetColumnIndex?: number
+): BlockContainer {
+  return targetColumnId && targetColumnIndex !== undefined
+    ? {
+        type: "column",
+        columnId: targetColumnId,
+        columnIndex: targetColumnIndex,
+      }
+    : ROOT_CONTAINER;
+}
+
+// Drop the auto-save waiting in each open store, by document ID
+const pendingSaveCancels = new Map<string, () => void>();
+
+/**
+ * Drop the auto-save waiting for a document, if any, so it isn't written
+ * (e.g. when switching away from a document that is being deleted, whose
+ * editor would otherwise flush the save on unmount and re-create it)
+ */
+export function cancelPendingSave(documentId: string) {
+  pendingSaveCancels.get(documentId)?.();
+}
+
+/** Structural problems fixed automatically when loading or saving */
+export interface IntegrityReport {
+  source: "load" | "save";
+  issues: IntegrityIssue[];
+}
+
 interface UseDocumentStoreOptions {
   documentId?: string;
+  /** Storage backend; defaults to the nearest StorageProvider's adapter */
+  storage?: StorageAdapter;
   autoSave?: boolean;
   autoSaveDelay?: number;
 }
 
 export function useDocumentStore(options: UseDocumentStoreOptions = {}) {
   const { documentId, autoSave = true, autoSaveDelay = 1000 } = options;
+  const contextStorage = useStorage();
+  const storage = options.storage ?? contextStorage;
 
-  const [document, setDocument] = useState<BlockDocument>(() =>
-    createDocument()
+  const [history, setHistory] = useState<HistoryState<BlockDocument>>(() =>
+    createHistory(createDocument())
   );
+  // Mirrors `history` so each transition starts from the latest state, even
+  // before React re-renders (see applyHistory)
+  const historyRef = useRef(history);
+  const document = history.present;
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(!!documentId);
+  const [isNotFound, setIsNotFound] = useState(false);
+  // Set when the requested document exists but failed validation on load
+  const [quarantinedDocument, setQuarantinedDocument] =
+    useState<QuarantinedDocument | null>(null);
+  // Set when storage failed to load the requested document
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [saveError, setSaveError] = useState<string | null>(null);
+  const [integrityReport, setIntegrityReport] =
+    useState<IntegrityReport | null>(null);
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Latest document waiting for the auto-save timer
+  const pendingSaveRef = useRef<BlockDocument | null>(null);
+  // Tags this store's saves so change notifications about them are ignored
+  const originRef = useRef(generateId());
+  // Group key of the open transaction, if any (see `transaction`)
+  const transactionRef = useRef<string | null>(null);
+  // Undo group of the generated blocks streaming in, if any (see
+  // insertGeneratedBlocks); `joined` once other edits have joined its step
+  const generationRef = useRef<{ group: string; joined: boolean } | null>(null);
+
+  const commitHistory = useCallback((next: HistoryState<BlockDocument>) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
 
   // Load document on mount if ID provided
   useEffect(() => {
     if (documentId) {
       setIsLoading(true);
-      loadDocument(documentId)
-        .then((doc) => {
+      setLoadError(null);
+      storage
+        .loadDocument(documentId)
+        .then(async (doc) => {
           if (doc) {
-            setDocument(doc);
+            // A freshly loaded document starts with an empty undo stack.
+            // Broken structure is repaired; the fix is saved with the next edit.
+            const { document: repaired, issues } = repairDocumentIntegrity(doc);
+            if (issues.length > 0) {
+              console.warn("Repaired document structure on load:", issues);
+            }
+            setIntegrityReport(
+              issues.length > 0 ? { source: "load", issues } : null
+            );
+            commitHistory(createHistory(repaired));
+          } else {
+            const quarantined = await storage.listQuarantinedDocuments();
+            setQuarantinedDocument(
+              quarantined.find((entry) => entry.id === documentId) ?? null
+            );
           }
+          setIsNotFound(!doc);
+        })
+        .catch((error) => {
+          console.error("Failed to load document:", error);
+          setLoadError(
+            error instanceof Error ? error.message : "Failed to load"
+          );
         })
         .finally(() => setIsLoading(false));
     }
-  }, [documentId]);
+  }, [documentId, storage, commitHistory]);
 
   // Auto-save logic
   const scheduleSave = useCallback(
@@ -45,11 +171,33 @@ export function useDocumentStore(options: UseDocumentStoreOptions = {}) {
         clearTimeout(saveTimeoutRef.current);
       }
 
+      const cancel = () => {
+        if (saveTimeoutRef.current) {
+          clearTimeout(saveTimeoutRef.current);
+        }
+        pendingSaveRef.current = null;
+        saveTimeoutRef.current = null;
+        if (pendingSaveCancels.get(doc.id) === cancel) {
+          pendingSaveCancels.delete(doc.id);
+        }
+      };
+      pendingSaveCancels.set(doc.id, cancel);
+      pendingSaveRef.current = doc;
       saveTimeoutRef.current = setTimeout(async () => {
+        cancel();
         setIsSaving(true);
         setSaveError(null);
+        // Never store a broken structure; show the repaired one too
+        const { document: repaired, issues } = repairDocumentIntegrity(doc);
+        if (issues.length > 0) {
+          console.warn("Repaired document structure before saving:", issues);
+          setIntegrityReport({ source: "save", issues });
+          if (historyRef.current.present === doc) {
+            commitHistory(replacePresent(historyRef.current, repaired));
+          }
+        }
         try {
-          await saveDocument(doc);
+          await storage.saveDocument(repaired, { origin: originRef.current });
         } catch (error) {
           console.error("Failed to save document:", error);
           setSaveError(
@@ -60,29 +208,106 @@ export function useDocumentStore(options: UseDocumentStoreOptions = {}) {
         }
       }, autoSaveDelay);
     },
-    [autoSave, autoSaveDelay]
+    [autoSave, autoSaveDelay, storage, commitHistory]
+  );
+
+  // Flush a pending save on unmount (e.g. when switching documents)
+  useEffect(
+    () => () => {
+      const pending = pendingSaveRef.current;
+      if (saveTimeoutRef.current && pending) {
+        cancelPendingSave(pending.id);
+        storage
+          .saveDocument(pending, { origin: originRef.current })
+          .catch((error) => {
+            console.error("Failed to save document:", error);
+          });
+      }
+    },
+    [storage]
+  );
+
+  // Apply a history transition and schedule a save if the document changed
+  const applyHistory = useCallback(
+    (
+      transition: (
+        prev: HistoryState<BlockDocument>
+      ) => HistoryState<BlockDocument>,
+      { save = true }: { save?: boolean } = {}
+    ) => {
+      const prev = historyRef.current;
+      const next = transition(prev);
+      if (next === prev) {
+        return;
+      }
+      commitHistory(next);
+      if (save && next.present !== prev.present) {
+        scheduleSave(next.present);
+      }
+    },
+    [commitHistory, scheduleSave]
   );
 
-  // Update document and schedule save
+  // Update document, record an undo step and schedule save.
+  // Updates sharing a `group` in quick succession (e.g. typing) undo together.
   const updateDocument = useCallback(
-    (updater: (doc: BlockDocument) => BlockDocument) => {
-      let nextDoc: BlockDocument;
-      setDocument((prev) => {
-        nextDoc = updater(cloneDocument(prev));
+    (
+      updater: (doc: BlockDocument) => BlockDocument,
+      options?: { group?: string; groupWindow?: number }
+    ) => {
+      // Edits made while generated blocks stream in join their undo step,
+      // so the run stays one step
+      const generation = generationRef.current;
+      const openGroup = generation?.group ?? transactionRef.current;
+      const pushOptions = {
+        group: openGroup ?? options?.group,
+        groupWindow: openGroup
+          ? Number.POSITIVE_INFINITY
+          : options?.groupWindow,
+        now: Date.now(),
+      };
+
+      applyHistory((prev) => {
+        const nextDoc = updater(cloneDocument(prev.present));
+        // Skip no-op updates (e.g. editors echoing unchanged content on mount)
+        // so they don't create empty undo steps
+        if (JSON.stringify(nextDoc) === JSON.stringify(prev.present)) {
+          return prev;
+        }
         nextDoc.updatedAt = new Date().toISOString();
-        return nextDoc;
-      });
-      // Schedule save outside of the state updater to avoid side effects in render
-      // Use queueMicrotask to ensure state has been set
-      queueMicrotask(() => {
-        if (nextDoc) {
-          scheduleSave(nextDoc);
+        if (generation && options?.group !== generation.group) {
+          generation.joined = true;
         }
+        return pushHistory(prev, nextDoc, pushOptions);
       });
     },
-    [scheduleSave]
+    [applyHistory]
   );
 
+  // Run several mutations as a single undo step
+  const transaction = useCallback((fn: () => void) => {
+    // Nested transactions join the outer one
+    if (transactionRef.current) {
+      fn();
+      return;
+    }
+
+    transactionRef.current = `transaction:${generateId()}`;
+    try {
+      fn();
+    } finally {
+      transactionRef.current = null;
+    }
+  }, []);
+
+  const undo = useCallback(() => {
+    applyHistory(undoHistory);
+  }, [applyHistory]);
+
+  const redo = useCallback(() => {
+    applyHistory(redoHistory);
+  }, [applyHistory]);
+
   // Get a block by ID
   const getBlock = useCallback(
     (blockId: string): Block | undefined => {
@@ -93,17 +318,31 @@ export function useDocumentStore(options: UseDocumentStoreOptions = {}) {
 
   // Update a single block
   const updateBlock = useCallback(
-    <T extends Block>(blockId: string, updates: Partial<T["props"]>) => {
-      updateDocument((doc) => {
-        const block = doc.blocks[blockId];
-        if (block) {
-          doc.blocks[blockId] = {
-            ...block,
-            props: { ...block.props, ...updates },
-          } as Block;
+    <T extends Block>(
+      blockId: string,
+      updates: Partial<T["props"]>,
+      options?: {
+        /** Undo group; defaults to grouping edits of the same props */
+        group?: string;
+      }
+    ) => {
+      updateDocument(
+        (doc) => {
+          const block = doc.blocks[blockId];
+          if (block) {
+            doc.blocks[blockId] = {
+              ...block,
+              props: { ...block.props, ...updates },
+            } as Block;
+          }
+          return doc;
+        },
+        {
+          group:
+            options?.group ??
+            `block:${blockId}:${Object.keys(updates).sort().join(",")}`,
         }
-        return doc;
-      });
+      );
     },
     [updateDocument]
   );
@@ -113,12 +352,22 @@ export function useDocumentStore(options: UseDocumentStoreOptions = {}) {
     (
       block: Block,
       options?: {
+        /** Place the block after this one, in the same root list or column */
         afterBlockId?: string;
+        /** Place the block before this one, in the same root list or column */
+        beforeBlockId?: string;
         parentColumnId?: string;
         columnIndex?: number;
       }
     ) => {
       updateDocument((doc) => {
+        // Next to another block, wherever that block is
+        const neighborId = options?.beforeBlockId ?? options?.afterBlockId;
+        const side = options?.beforeBlockId ? "before" : "after";
+        if (neighborId && insertBlockNextTo(doc, block, neighborId, side)) {
+          return doc;
+        }
+
         // Add the block to the blocks map
         doc.blocks[block.props.id] = block;
 
@@ -139,16 +388,8 @@ export function useDocumentStore(options: UseDocumentStoreOptions = {}) {
               props: { ...parentBlock.props, columns },
             };
           }
-        } else if (options?.afterBlockId) {
-          // Add to root blocks after specific block
-          const index = doc.rootBlockIds.indexOf(options.afterBlockId);
-          if (index >= 0) {
-            doc.rootBlockIds.splice(index + 1, 0, block.props.id);
-          } else {
-            doc.rootBlockIds.push(block.props.id);
-          }
         } else {
-          // Add to end of root blocks
+          // Add to end of root blocks (also when the neighbor is gone)
           doc.rootBlockIds.push(block.props.id);
         }
 
@@ -158,36 +399,19 @@ export function useDocumentStore(options: UseDocumentStoreOptions = {}) {
     [updateDocument]
   );
 
-  // Remove a block
+  // Remove a block, with any blocks nested in its columns
   const removeBlock = useCallback(
     (blockId: string) => {
       updateDocument((doc) => {
-        // Remove from root blocks
-        doc.rootBlockIds = doc.rootBlockIds.filter((id) => id !== blockId);
-
-        // Remove from any columns
-        for (const block of Object.values(doc.blocks)) {
-          if (block.type === "columns") {
-            const newColumns = block.props.columns.map((col) =>
-              col.filter((id) => id !== blockId)
-            );
-            doc.blocks[block.props.id] = {
-              ...block,
-              props: { ...block.props, columns: newColumns },
-            };
-          }
-        }
-
-        // Delete the block itself
-        delete doc.blocks[blockId];
-
+        removeBlocksInDocument(doc, [blockId]);
         return doc;
       });
     },
     [updateDocument]
   );
 
-  // Move a block
+  // Move a block to an index in the root list or in a column. Moves that
+  // would put a columns block inside itself are ignored.
   const moveBlock = useCallback(
     (
       blockId: string,
@@ -196,126 +420,317 @@ export function useDocumentStore(options: UseDocumentStoreOptions = {}) {
       targetColumnIndex?: number
     ) => {
       updateDocument((doc) => {
-        // First, remove from current location
-        doc.rootBlockIds = doc.rootBlockIds.filter((id) => id !== blockId);
-        for (const block of Object.values(doc.blocks)) {
-          if (block.type === "columns") {
-            const newColumns = block.props.columns.map((col) =>
-              col.filter((id) => id !== blockId)
-            );
-            doc.blocks[block.props.id] = {
-              ...block,
-              props: { ...block.props, columns: newColumns },
-            };
-          }
-        }
+        moveBlocksInDocument(
+          doc,
+          [blockId],
+          targetIndex,
+          getTargetContainer(targetColumnId, targetColumnIndex)
+        );
+        return doc;
+      });
+    },
+    [updateDocument]
+  );
 
-        // Then, add to new location
-        if (targetColumnId && targetColumnIndex !== undefined) {
-          const parentBlock = doc.blocks[targetColumnId];
-          if (parentBlock?.type === "columns") {
-            const columns = [...parentBlock.props.columns];
-            columns[targetColumnIndex] = [
-              ...columns[targetColumnIndex].slice(0, targetIndex),
-              blockId,
-              ...columns[targetColumnIndex].slice(targetIndex),
-            ];
-            doc.blocks[targetColumnId] = {
-              ...parentBlock,
-              props: { ...parentBlock.props, columns },
-            };
-          }
-        } else {
-          doc.rootBlockIds.splice(targetIndex, 0, blockId);
-        }
+  // ==========================================================================
+  // Bulk operations on several blocks (a multi-block selection). Each is a
+  // single update, so it undoes in one step. Blocks nested in another listed
+  // block come along with it rather than being handled twice.
+  // ==========================================================================
 
+  // Remove blocks, with any blocks nested in their columns
+  const removeBlocks = useCallback(
+    (blockIds: string[]) => {
+      updateDocument((doc) => {
+        removeBlocksInDocument(doc, normalizeSelection(doc, blockIds));
         return doc;
       });
     },
     [updateDocument]
   );
 
-  // Duplicate a block
-  const duplicateBlock = useCallback(
-    (blockId: string) => {
-      const block = document.blocks[blockId];
-      if (!block) {
-        return;
-      }
+  // Copy blocks (with their contents) to right after the last of them.
+  // Returns the copies' IDs.
+  const duplicateBlocks = useCallback(
+    (blockIds: string[]): string[] => {
+      // Made up front so the update itself doesn't generate IDs
+      const copy = copyBlockTrees(
+        document,
+        normalizeSelection(document, blockIds)
+      );
+      updateDocument((doc) => {
+        duplicateBlocksInDocument(doc, blockIds, copy);
+        return doc;
+      });
+      return copy.rootBlockIds;
+    },
+    [document, updateDocument]
+  );
 
-      const newBlock = {
-        ...block,
-        props: { ...block.props, id: generateId() },
-      } as Block;
+  // Move blocks together, in reading order, to an index in the root list or
+  // in a column (counted without them). Ignored if any of them can't go there.
+  const moveBlocks = useCallback(
+    (
+      blockIds: string[],
+      targetIndex: number,
+      targetColumnId?: string,
+      targetColumnIndex?: number
+    ) => {
+      updateDocument((doc) => {
+        moveBlocksInDocument(
+          doc,
+          normalizeSelection(doc, blockIds),
+          targetIndex,
+          getTargetContainer(targetColumnId, targetColumnIndex)
+        );
+        return doc;
+      });
+    },
+    [updateDocument]
+  );
 
-      addBlock(newBlock, { afterBlockId: blockId });
+  // Put blocks side by side in a new columns block. Returns its ID.
+  const wrapBlocksInColumns = useCallback(
+    (blockIds: string[]): string => {
+      const columnsBlock = createBlock("columns");
+      updateDocument((doc) => {
+        wrapBlocksInColumnsInDocument(doc, blockIds, columnsBlock);
+        return doc;
+      });
+      return columnsBlock.props.id;
     },
-    [document.blocks, addBlock]
+    [updateDocument]
   );
 
-  // Insert blocks from AI generation
-  const insertGeneratedBlocks = useCallback(
-    (blocks: Block[], afterBlockId?: string) => {
+  // Turn text blocks into another text type; other blocks are left alone
+  const convertBlocks = useCallback(
+    (
+      blockIds: string[],
+      conversion: ConvertibleBlockType | BlockConversion
+    ) => {
       updateDocument((doc) => {
-        // Add all blocks to the map
-        for (const block of blocks) {
-          doc.blocks[block.props.id] = block;
-        }
+        convertBlocksInDocument(doc, blockIds, conversion);
+        return doc;
+      });
+    },
+    [updateDocument]
+  );
 
-        // Get root-level block IDs (blocks that are in columns will be handled by the columns block)
-        const rootBlockIds = blocks
-          .filter((block) => {
-            // Check if this block is referenced in any columns block
-            const isInColumn = blocks.some(
-              (b) =>
-                b.type === "columns" &&
-                b.props.columns.some((col) => col.includes(block.props.id))
-            );
-            return !isInColumn;
-          })
-          .map((b) => b.props.id);
-
-        // Insert at the correct position
-        if (afterBlockId) {
-          const index = doc.rootBlockIds.indexOf(afterBlockId);
-          if (index >= 0) {
-            doc.rootBlockIds.splice(index + 1, 0, ...rootBlockIds);
+  // Turn a text block into another text type, keeping its ID and content
+  const convertBlock = useCallback(
+    (blockId: string, conversion: ConvertibleBlockType | BlockConversion) => {
+      convertBlocks([blockId], conversion);
+    },
+    [convertBlocks]
+  );
+
+  // Duplicate a block (with the contents of its columns)
+  const duplicateBlock = useCallback(
+    (blockId: string) => {
+      duplicateBlocks([blockId]);
+    },
+    [duplicateBlocks]
+  );
+
+  // Insert generated blocks (AI, import). Insertions sharing a `group` undo
+  // together however long apart they are (e.g. blocks streamed in by AI),
+  // along with any edits made in between, until finishGeneratedBlocks.
+  const insertGeneratedBlocks = useCallback(
+    (blocks: Block[], afterBlockId?: string, options?: { group?: string }) => {
+      if (options?.group && generationRef.current?.group !== options.group) {
+        generationRef.current = { group: options.group, joined: false };
+      }
+      updateDocument(
+        (doc) => {
+          // Add all blocks to the map
+          for (const block of blocks) {
+            doc.blocks[block.props.id] = block;
+          }
+
+          // Get root-level block IDs (blocks that are in columns will be handled by the columns block)
+          const rootBlockIds = blocks
+            .filter((block) => {
+              // Check if this block is referenced in any columns block
+              const isInColumn = blocks.some(
+                (b) =>
+                  b.type === "columns" &&
+                  b.props.columns.some((col) => col.includes(block.props.id))
+              );
+              return !isInColumn;
+            })
+            .map((b) => b.props.id);
+
+          // Insert at the correct position
+          if (afterBlockId) {
+            const index = doc.rootBlockIds.indexOf(afterBlockId);
+            if (index >= 0) {
+              doc.rootBlockIds.splice(index + 1, 0, ...rootBlockIds);
+            } else {
+              doc.rootBlockIds.push(...rootBlockIds);
+            }
           } else {
             doc.rootBlockIds.push(...rootBlockIds);
           }
-        } else {
-          doc.rootBlockIds.push(...rootBlockIds);
-        }
 
-        return doc;
-      });
+          return doc;
+        },
+        options?.group
+          ? { group: options.group, groupWindow: Number.POSITIVE_INFINITY }
+          : undefined
+      );
     },
     [updateDocument]
   );
 
+  // Stop edits joining the undo step of blocks inserted under `group`. If
+  // some did, the step can't be dropped without them (see discard below).
+  const finishGeneratedBlocks = useCallback(
+    (group: string) => {
+      const generation = generationRef.current;
+      if (generation?.group !== group) {
+        return;
+      }
+      generationRef.current = null;
+      const prev = historyRef.current;
+      if (generation.joined && prev.lastGroup === group) {
+        commitHistory(replacePresent(prev, prev.present));
+      }
+    },
+    [commitHistory]
+  );
+
+  // Take back blocks inserted with insertGeneratedBlocks under `group`.
+  // If nothing else changed since, the insertion's undo step is dropped as
+  // though it never happened; otherwise the blocks are removed as a new step.
+  const discardGeneratedBlocks = useCallback(
+    (blockIds: string[], group: string) => {
+      finishGeneratedBlocks(group);
+      applyHistory((prev) => {
+        const reverted = revertGroup(prev, group);
+        if (reverted !== prev) {
+          return reverted;
+        }
+        if (!blockIds.some((id) => prev.present.blocks[id])) {
+          return prev;
+        }
+        const nextDoc = cloneDocument(prev.present);
+        removeBlocksInDocument(nextDoc, blockIds);
+        nextDoc.updatedAt = new Date().toISOString();
+        return pushHistory(prev, nextDoc);
+      });
+    },
+    [applyHistory, finishGeneratedBlocks]
+  );
+
+  // Keep the title in sync when the document is renamed elsewhere
+  // (e.g. from the document library). The rename is already stored and isn't
+  // an undo step here; it is only saved again along with unsaved local edits,
+  // which would otherwise overwrite it.
+  useEffect(
+    () =>
+      storage.subscribe((change) => {
+        if (change.type !== "saved" || change.origin === originRef.current) {
+          return;
+        }
+        const { id, title } = change.document;
+        applyHistory(
+          (prev) =>
+            prev.present.id === id && prev.present.title !== title
+              ? replacePresent(prev, { ...prev.present, title })
+              : prev,
+          { save: pendingSaveRef.current !== null }
+        );
+      }),
+    [storage, applyHistory]
+  );
+
   // Update document title
   const setTitle = useCallback(
     (title: string) => {
-      updateDocument((doc) => {
-        doc.title = title;
-        return doc;
+      updateDocument(
+        (doc) => {
+          doc.title = title;
+          return doc;
+        },
+        { group: "title" }
+      );
+    },
+    [updateDocument]
+  );
+
+  // Show changes made by collaborators. They are saved like local edits but
+  // don't add undo steps (collaborative undo is handled by useCollaboration).
+  // Generated blocks still streaming in keep adding to their undo step.
+  const applyRemoteDocument = useCallback(
+    (remote: BlockDocument) => {
+      applyHistory((prev) => {
+        const next = replacePresent(prev, cloneDocument(remote));
+        const generation = generationRef.current;
+        if (!generation) {
+          return next;
+        }
+        generation.joined = true;
+        return {
+          ...next,
+          lastGroup: prev.lastGroup,
+          lastChangeAt: prev.lastChangeAt,
+        };
       });
     },
+    [applyHistory]
+  );
+
+  // Replace the title and content with another version of this document
+  // (e.g. a snapshot). Undoable like any other edit.
+  const restoreDocument = useCallback(
+    (version: BlockDocument) => {
+      updateDocument((doc) => ({
+        ...cloneDocument(version),
+        id: doc.id,
+        createdAt: doc.createdAt,
+        schemaVersion: doc.schemaVersion,
+      }));
+    },
     [updateDocument]
   );
 
+  // Fix the document's structure (see document-integrity). Undoable.
+  const repairDocument = useCallback(() => {
+    updateDocument((doc) => repairDocumentIntegrity(doc).document);
+  }, [updateDocument]);
+
   return {
     document,
     isLoading,
+    isNotFound,
+    quarantinedDocument,
+    loadError,
     isSaving,
     saveError,
+    integrityReport,
+    canUndo: canUndo(history),
+    canRedo: canRedo(history),
+    undo,
+    redo,
+    transaction,
     getBlock,
     updateBlock,
     addBlock,
     removeBlock,
     moveBlock,
     duplicateBlock,
+    removeBlocks,
+    duplicateBlocks,
+    moveBlocks,
+    wrapBlocksInColumns,
+    convertBlocks,
+    convertBlock,
     insertGeneratedBlocks,
+    finishGeneratedBlocks,
+    discardGeneratedBlocks,
     setTitle,
+    restoreDocument,
+    applyRemoteDocument,
+    repairDocument,
   };
 }
@@ -0,0 +1,45 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { getRoutePath, parseRoute, type Route } from "@/lib/routes";
+
+// Dispatched on pushState/replaceState, which don't fire popstate themselves
+const NAVIGATE_EVENT = "block-editor:navigate";
+
+function subscribe(onChange: () => void): () => void {
+  window.addEventListener("popstate", onChange);
+  window.addEventListener(NAVIGATE_EVENT, onChange);
+  return () => {
+    window.removeEventListener("popstate", onChange);
+    window.removeEventListener(NAVIGATE_EVENT, onChange);
+  };
+}
+
+function getPathname(): string {
+  return window.location.pathname;
+}
+
+/**
+ * Current route derived from the browser URL, plus a navigate function
+ * that updates the URL through the History API.
+ */
+export function useRoute() {
+  const pathname = useSyncExternalStore(subscribe, getPathname);
+  const route = useMemo(() => parseRoute(pathname), [pathname]);
+
+  const navigate = useCallback(
+    (next: Route, options: { replace?: boolean } = {}) => {
+      const path = getRoutePath(next);
+      if (path === window.location.pathname) {
+        return;
+      }
+      if (options.replace) {
+        window.history.replaceState(null, "", path);
+      } else {
+        window.history.pushState(null, "", path);
+      }
+      window.dispatchEvent(new Event(NAVIGATE_EVENT));
+    },
+    []
+  );
+
+  return { route, navigate };
+}
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useStorage } from "@/components/storage-provider";
+import type { DocumentSnapshot, StorageAdapter } from "@/lib/persistence";
+import {
+  createSnapshot,
+  getSnapshotsToPrune,
+  shouldTakeAutoSnapshot,
+} from "@/lib/snapshots";
+import type { BlockDocument } from "@/types/blocks";
+
+/**
+ * Version history for a document: lists its snapshots, takes automatic
+ * snapshots while it is edited and saves named versions on request.
+ */
+export function useVersionHistory(
+  document: BlockDocument,
+  options: { enabled?: boolean; storage?: StorageAdapter } = {}
+) {
+  const { enabled = true } = options;
+  const contextStorage = useStorage();
+  const storage = options.storage ?? contextStorage;
+  const [snapshots, setSnapshots] = useState<DocumentSnapshot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Latest snapshots for the auto-snapshot check, without re-running it
+  // whenever the list changes
+  const snapshotsRef = useRef(snapshots);
+  snapshotsRef.current = snapshots;
+  // Guards against taking two automatic snapshots while one is being saved
+  const isSnapshottingRef = useRef(false);
+  const documentId = document.id;
+
+  // Load snapshots for the document
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    storage
+      .listSnapshots(documentId)
+      .then((loaded) => {
+        if (!cancelled) {
+          setSnapshots(loaded);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, enabled, storage]);
+
+  // Take an automatic snapshot when one is due, pruning old ones
+  useEffect(() => {
+    if (
+      !enabled ||
+      isLoading ||
+      isSnapshottingRef.current ||
+      !shouldTakeAutoSnapshot(document, snapshotsRef.current)
+    ) {
+      return;
+    }
+
+    isSnapshottingRef.current = true;
+    storage
+      .saveSnapshot(createSnapshot(document))
+      .then(async (saved) => {
+        const next = [saved, ...snapshotsRef.current];
+        const pruned = getSnapshotsToPrune(next);
+        await Promise.all(
+          pruned.map((snapshot) => storage.deleteSnapshot(snapshot.id))
+        );
+        setSnapshots(next.filter((snapshot) => !pruned.includes(snapshot)));
+      })
+      .catch((error) => {
+        console.error("Failed to save snapshot:", error);
+      })
+      .finally(() => {
+        isSnapshottingRef.current = false;
+      });
+  }, [document, enabled, isLoading, storage]);
+
+  // Save the current document as a named version
+  const saveVersion = useCallback(
+    async (name: string): Promise<DocumentSnapshot> => {
+      const saved = await storage.saveSnapshot(createSnapshot(document, name));
+      setSnapshots((prev) => [saved, ...prev]);
+      return saved;
+    },
+    [document, storage]
+  );
+
+  const deleteSnapshot = useCallback(
+    async (snapshotId: string): Promise<void> => {
+      await storage.deleteSnapshot(snapshotId);
+      setSnapshots((prev) =>
+        prev.filter((snapshot) => snapshot.id !== snapshotId)
+      );
+    },
+    [storage]
+  );
+
+  return { snapshots, isLoading, saveVersion, deleteSnapshot };
+}
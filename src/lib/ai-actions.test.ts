@@ -0,0 +1,157 @@
+/**
+ * Unit tests for AI block actions.
+ * Tests context gathering, response cleanup and running actions against
+ * the mock provider.
+ */
+import { describe, expect, it } from "bun:test";
+import { createBlock } from "@/lib/utils";
+import { createTestDocument, createTestProvider } from "../../test/fixtures";
+import {
+  type AIBlockAction,
+  cleanTransformResponse,
+  getAIActionContext,
+  getAIActionInstruction,
+  runAIBlockAction,
+  supportsAIActions,
+} from "./ai-actions";
+import type { AITransformRequest } from "./ai-provider";
+import { createMockAIProvider } from "./mock-ai-provider";
+
+const title = "Trip notes";
+
+/** A provider that records transform requests and answers with fixed text */
+function createTransformProvider(output: string) {
+  const requests: AITransformRequest[] = [];
+  const provider = createTestProvider({
+    transformText: (request) => {
+      requests.push(request);
+      return Promise.resolve(output);
+    },
+  });
+  return { provider, requests };
+}
+
+describe("supportsAIActions", () => {
+  it("should accept rich text blocks only", () => {
+    expect(supportsAIActions(createBlock("paragraph"))).toBe(true);
+    expect(supportsAIActions(createBlock("todo"))).toBe(true);
+    expect(supportsAIActions(createBlock("code"))).toBe(false);
+    expect(supportsAIActions(createBlock("table"))).toBe(false);
+  });
+});
+
+describe("getAIActionContext", () => {
+  it("should include the title and nearby blocks", () => {
+    const blocks = ["One", "Two", "Three", "Four", "Five"].map((content) =>
+      createBlock("paragraph", { content })
+    );
+    const document = createTestDocument(blocks, { title });
+
+    expect(getAIActionContext(document, blocks[3].props.id)).toBe(
+      "# Trip notes\n\nTwo\n\nThree\n\nFive"
+    );
+  });
+
+  it("should use the column a block is in", () => {
+    const before = createBlock("paragraph", { content: "Outside" });
+    const left = createBlock("paragraph", { content: "Left" });
+    const right = createBlock("paragraph", { content: "Right" });
+    const below = createBlock("paragraph", { content: "Below" });
+    const columns = createBlock("columns", {
+      columns: [[left.props.id, below.props.id], [right.props.id]],
+    });
+    const document = createTestDocument([before, columns, left, right, below], {
+      title,
+      rootBlockIds: [before.props.id, columns.props.id],
+    });
+
+    expect(getAIActionContext(document, left.props.id)).toBe(
+      "# Trip notes\n\nBelow"
+    );
+  });
+});
+
+describe("cleanTransformResponse", () => {
+  it("should strip code fences and wrapping quotes", () => {
+    expect(cleanTransformResponse("```markdown\nShort text\n```")).toBe(
+      "Short text"
+    );
+    expect(cleanTransformResponse('  "Quoted"\n')).toBe("Quoted");
+    expect(cleanTransformResponse('Say "hi" twice')).toBe('Say "hi" twice');
+  });
+});
+
+describe("runAIBlockAction", () => {
+  it("should send the text as Markdown and return HTML", async () => {
+    const block = createBlock("paragraph", {
+      content: "<strong>Pack</strong> light.",
+    });
+    const document = createTestDocument([block], { title });
+    const { provider, requests } =
+      createTransformProvider("Pack *very* light.");
+
+    const content = await runAIBlockAction(provider, document, block, {
+      type: "rewrite",
+    });
+
+    expect(requests[0]).toMatchObject({
+      instruction: getAIActionInstruction({ type: "rewrite" }),
+      text: "**Pack** light.",
+      context: "# Trip notes",
+    });
+    expect(content).toBe("Pack <em>very</em> light.");
+  });
+
+  it("should append continuations to the existing text", async () => {
+    const block = createBlock("paragraph", { content: "Day one." });
+    const { provider } = createTransformProvider("Day two.");
+
+    const content = await runAIBlockAction(
+      provider,
+      createTestDocument([block], { title }),
+      block,
+      { type: "continue" }
+    );
+
+    expect(content).toBe("Day one. Day two.");
+  });
+
+  it("should reject an empty answer", async () => {
+    const block = createBlock("paragraph", { content: "Text" });
+    const { provider } = createTransformProvider("  ");
+
+    await expect(
+      runAIBlockAction(
+        provider,
+        createTestDocument([block], { title }),
+        block,
+        {
+          type: "shorter",
+        }
+      )
+    ).rejects.toThrow("The model returned no text");
+  });
+
+  it("should produce a change for every action with the mock provider", async () => {
+    const provider = createMockAIProvider({ delay: 0 });
+    const block = createBlock("paragraph", {
+      content:
+        "we travel light. it keeps the trip simple and cheap for everyone",
+    });
+    const document = createTestDocument([block], { title });
+    const actions: AIBlockAction[] = [
+      { type: "rewrite" },
+      { type: "shorter" },
+      { type: "longer" },
+      { type: "grammar" },
+      { type: "continue" },
+      { type: "tone", tone: "friendly" },
+      { type: "translate", language: "French" },
+    ];
+
+    for (const action of actions) {
+      const content = await runAIBlockAction(provider, document, block, action);
+      expect(content).not.toBe(block.props.content);
+    }
+  });
+});
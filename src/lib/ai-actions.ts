@@ -0,0 +1,198 @@
+import type { Block, BlockDocument } from "@/types/blocks";
+import type { AIProvider } from "./ai-provider";
+import { markdownInlineToHtml } from "./markdown-parser";
+import { blockToMarkdown, inlineHtmlToMarkdown } from "./markdown-renderer";
+
+// ============================================================================
+// AI BLOCK ACTIONS
+// Edits to one existing block (rewrite, shorten, translate, ...). The block's
+// rich text is sent to the provider as Markdown together with the blocks
+// around it, and the answer is converted back to rich text HTML so it can be
+// previewed and then applied with updateBlock.
+// ============================================================================
+
+export const AI_TONES = [
+  "professional",
+  "casual",
+  "friendly",
+  "confident",
+] as const;
+export type AITone = (typeof AI_TONES)[number];
+
+export const AI_LANGUAGES = [
+  "English",
+  "Spanish",
+  "French",
+  "German",
+  "Japanese",
+  "Chinese",
+] as const;
+export type AILanguage = (typeof AI_LANGUAGES)[number];
+
+export type AIBlockAction =
+  | { type: "rewrite" }
+  | { type: "shorter" }
+  | { type: "longer" }
+  | { type: "grammar" }
+  | { type: "continue" }
+  | { type: "tone"; tone: AITone }
+  | { type: "translate"; language: AILanguage };
+
+/** Actions that take no option, in menu order */
+export const AI_BASIC_ACTIONS: AIBlockAction[] = [
+  { type: "rewrite" },
+  { type: "shorter" },
+  { type: "longer" },
+  { type: "grammar" },
+  { type: "continue" },
+];
+
+/** Blocks with rich text content, the ones AI actions apply to */
+export type AITextBlock = Extract<Block, { props: { content: string } }>;
+
+// Blocks before and after the target sent as context
+const CONTEXT_BLOCKS_BEFORE = 2;
+const CONTEXT_BLOCKS_AFTER = 1;
+
+const CODE_FENCE_REGEX = /^```\w*\n?([\s\S]*?)\n?```$/;
+const WRAPPING_QUOTES_REGEX = /^"([\s\S]*)"$/;
+
+export function supportsAIActions(block: Block): block is AITextBlock {
+  return "content" in block.props;
+}
+
+/**
+ * Menu label for an action
+ */
+export function getAIActionLabel(action: AIBlockAction): string {
+  switch (action.type) {
+    case "rewrite":
+      return "Rewrite";
+    case "shorter":
+      return "Make shorter";
+    case "longer":
+      return "Make longer";
+    case "grammar":
+      return "Fix grammar";
+    case "continue":
+      return "Continue writing";
+    case "tone":
+      return `Tone: ${action.tone}`;
+    case "translate":
+      return `Translate to ${action.language}`;
+    default:
+      action satisfies never;
+      return "";
+  }
+}
+
+/**
+ * What the model is asked to do for an action
+ */
+export function getAIActionInstruction(action: AIBlockAction): string {
+  switch (action.type) {
+    case "rewrite":
+      return "Rewrite the text so it reads more clearly, keeping its meaning.";
+    case "shorter":
+      return "Make the text shorter, keeping its key points.";
+    case "longer":
+      return "Make the text longer by adding relevant detail.";
+    case "grammar":
+      return "Fix spelling and grammar mistakes in the text and change nothing else.";
+    case "continue":
+      return "Continue writing from the end of the text. Output only the new text.";
+    case "tone":
+      return `Rewrite the text in a ${action.tone} tone, keeping its meaning.`;
+    case "translate":
+      return `Translate the text into ${action.language}.`;
+    default:
+      action satisfies never;
+      return "";
+  }
+}
+
+/**
+ * IDs of the blocks in the same list as a block: the root list, or the
+ * column it sits in
+ */
+function getSiblingIds(document: BlockDocument, blockId: string): string[] {
+  if (document.rootBlockIds.includes(blockId)) {
+    return document.rootBlockIds;
+  }
+  for (const block of Object.values(document.blocks)) {
+    if (block.type !== "columns") {
+      continue;
+    }
+    const column = block.props.columns.find((ids) => ids.includes(blockId));
+    if (column) {
+      return column;
+    }
+  }
+  return [blockId];
+}
+
+/**
+ * Markdown of the document title and the blocks around a block, sent with
+ * an action so the result fits in.
+ */
+export function getAIActionContext(
+  document: BlockDocument,
+  blockId: string
+): string {
+  const siblingIds = getSiblingIds(document, blockId);
+  const index = siblingIds.indexOf(blockId);
+  const getBlock = (id: string): Block | undefined => document.blocks[id];
+  const nearby = [
+    ...siblingIds.slice(Math.max(0, index - CONTEXT_BLOCKS_BEFORE), index),
+    ...siblingIds.slice(index + 1, index + 1 + CONTEXT_BLOCKS_AFTER),
+  ]
+    .map((id) => getBlock(id))
+    .filter((block): block is Block => block !== undefined)
+    .map((block) => blockToMarkdown(block, getBlock))
+    .filter(Boolean);
+
+  return [`# ${document.title}`, ...nearby].join("\n\n");
+}
+
+/**
+ * Strip what models tend to wrap answers in (code fences, quotes).
+ */
+export function cleanTransformResponse(response: string): string {
+  const trimmed = response.trim();
+  const unfenced = trimmed.match(CODE_FENCE_REGEX)?.[1] ?? trimmed;
+  return (unfenced.trim().match(WRAPPING_QUOTES_REGEX)?.[1] ?? unfenced).trim();
+}
+
+/**
+ * Run an action on a block.
+ *
+ * @param provider - Model to ask
+ * @param document - Document the block is in (for context)
+ * @param block - Block to edit
+ * @param action - What to do
+ * @param signal - Aborts the request
+ * @returns The block's new content (rich text HTML)
+ * @throws When the request fails or the model returns nothing
+ */
+export async function runAIBlockAction(
+  provider: AIProvider,
+  document: BlockDocument,
+  block: AITextBlock,
+  action: AIBlockAction,
+  signal?: AbortSignal
+): Promise<string> {
+  const text = inlineHtmlToMarkdown(block.props.content);
+  const response = await provider.transformText({
+    instruction: getAIActionInstruction(action),
+    text,
+    context: getAIActionContext(document, block.props.id),
+    signal,
+  });
+  const result = cleanTransformResponse(response);
+  if (!result) {
+    throw new Error("The model returned no text");
+  }
+  const markdown =
+    action.type === "continue" && text ? `${text} ${result}` : result;
+  return markdownInlineToHtml(markdown);
+}
@@ -0,0 +1,88 @@
+// ============================================================================
+// AI PROVIDER
+// Where model output comes from. Providers only move text: they send the
+// block catalog (system prompt) and the user's prompt to a model and return
+// what it wrote. Parsing and validation happen in ai.ts / ai-validation.ts,
+// so every provider gets the same repair and retry behavior.
+// Implementations: createOpenAIProvider (any OpenAI-compatible endpoint),
+// createMockAIProvider (canned responses, no network).
+// ============================================================================
+
+export interface AIGenerateRequest {
+  /** Describes the block schema (see generateBlockCatalogPrompt) */
+  systemPrompt: string;
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  /**
+   * Generate blocks for a prompt.
+   * @returns The model's raw output (a JSON array of blocks)
+   */
+  generateBlocks(request: AIGenerateRequest): Promise<string>;
+  /**
+   * Generate blocks for a prompt, yielding the raw output in chunks as the
+   * model produces it.
+   */
+  streamBlocks(request: AIGenerateRequest): AsyncIterable<string>;
+  /**
+   * Suggest prompts the user could ask for next, most useful first.
+   * @param context - Text describing the document so far (see
+   * buildSuggestionContext)
+   */
+  suggest(context: string, signal?: AbortSignal): Promise<string[]>;
+  /**
+   * Rewrite or continue the text of one block.
+   * @returns The new text (Markdown), or only the added text when continuing
+   */
+  transformText(request: AITransformRequest): Promise<string>;
+}
+
+export interface AITransformRequest {
+  /** What to do with the text, e.g. "Make the text shorter." */
+  instruction: string;
+  /** The block's text as Markdown */
+  text: string;
+  /** Nearby blocks as Markdown, for tone and continuity */
+  context: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * System prompt for AIProvider.suggest on chat-based providers.
+ */
+export const SUGGESTIONS_SYSTEM_PROMPT = `
+You help people write documents in a block editor.
+Given a description of the document so far (title, block types used, heading outline, the text near the cursor), suggest up to 5 short requests (2-6 words each) the user could ask you to add next, e.g. "Add a code example".
+Prefer requests that fit where the cursor is and add what the document lacks. Order them from most to least useful.
+Output only a JSON array of strings.
+`.trim();
+
+/**
+ * System prompt for AIProvider.transformText on chat-based providers.
+ */
+export const TRANSFORM_SYSTEM_PROMPT = `
+You edit one block of text in a document.
+Follow the instruction for the text between <text> tags. The text between <context> tags surrounds it in the document; use it for tone and continuity but don't repeat it.
+Output only the resulting text as a single paragraph of Markdown (inline formatting only: **bold**, *italic*, \`code\`, [links](url)), without quotes, explanations or code fences.
+`.trim();
+
+/**
+ * User message for AIProvider.transformText on chat-based providers.
+ */
+export function buildTransformPrompt({
+  instruction,
+  text,
+  context,
+}: AITransformRequest): string {
+  return `${instruction}
+
+<context>
+${context}
+</context>
+
+<text>
+${text}
+</text>`;
+}
@@ -0,0 +1,179 @@
+/**
+ * Unit tests for streaming AI output.
+ * Tests incremental JSON array parsing and block-by-block validation.
+ */
+import { describe, expect, it } from "bun:test";
+import type { Block } from "@/types/blocks";
+import { createTestProvider } from "../../test/fixtures";
+import {
+  createJsonArrayStreamParser,
+  streamBlocksFromPrompt,
+} from "./ai-stream";
+
+/** Feed text one character at a time, collecting emitted elements */
+function parseInChunks(text: string, size = 1) {
+  const parser = createJsonArrayStreamParser();
+  const emitted: unknown[][] = [];
+  for (let i = 0; i < text.length; i += size) {
+    emitted.push(parser.push(text.slice(i, i + size)));
+  }
+  return { parser, emitted, elements: emitted.flat() };
+}
+
+/** A provider that streams fixed output in small chunks */
+function createStreamingProvider(output: string, size = 5) {
+  return createTestProvider({
+    generateBlocks: () => Promise.resolve(output),
+    async *streamBlocks() {
+      for (let i = 0; i < output.length; i += size) {
+        yield await Promise.resolve(output.slice(i, i + size));
+      }
+    },
+  });
+}
+
+describe("createJsonArrayStreamParser", () => {
+  it("should emit each element as soon as it is complete", () => {
+    const first = '{"type":"divider"}';
+    const { emitted, elements, parser } = parseInChunks(
+      `[${first},{"type":"quote"}]`
+    );
+
+    expect(elements).toEqual([{ type: "divider" }, { type: "quote" }]);
+    // Emitted on the chunk holding the first element's closing brace
+    expect(emitted[first.length]).toEqual([{ type: "divider" }]);
+    expect(parser.isArray()).toBe(true);
+    expect(parser.isComplete()).toBe(true);
+  });
+
+  it("should ignore brackets and quotes inside strings", () => {
+    const block = {
+      type: "code",
+      props: { code: 'if (a) { b["}"]; } // \\" ]' },
+    };
+    const { elements } = parseInChunks(JSON.stringify([block, block]), 3);
+    expect(elements).toEqual([block, block]);
+  });
+
+  it("should handle nested arrays and objects", () => {
+    const block = {
+      type: "columns",
+      props: { columns: [[{ type: "paragraph" }], [{ type: "divider" }]] },
+    };
+    const { elements } = parseInChunks(JSON.stringify([block]), 4);
+    expect(elements).toEqual([block]);
+  });
+
+  it("should skip prose and code fences before the array", () => {
+    const { elements } = parseInChunks(
+      'Here you go:\n```json\n[{"type":"divider"}]\n```'
+    );
+    expect(elements).toEqual([{ type: "divider" }]);
+  });
+
+  it("should report output that isn't an array", () => {
+    const { elements, parser } = parseInChunks('{"type":"divider"}');
+    expect(elements).toEqual([]);
+    expect(parser.isArray()).toBe(false);
+    expect(parser.getText()).toBe('{"type":"divider"}');
+  });
+
+  it("should not complete a truncated array", () => {
+    const { elements, parser } = parseInChunks('[{"type":"divider"},{"ty');
+    expect(elements).toHaveLength(1);
+    expect(parser.isComplete()).toBe(false);
+  });
+});
+
+describe("streamBlocksFromPrompt", () => {
+  it("should validate and hand over blocks in order", async () => {
+    const output = JSON.stringify([
+      { type: "heading", props: { content: "Title" } },
+      { type: "heading", props: { level: "h9" } },
+      {
+        type: "columns",
+        props: { columns: [[{ type: "paragraph" }], [{ type: "divider" }]] },
+      },
+    ]);
+    const batches: Block[][] = [];
+
+    const { response, errors } = await streamBlocksFromPrompt(
+      createStreamingProvider(output),
+      "catalog",
+      "prompt",
+      { onBlocks: (blocks) => batches.push(blocks) }
+    );
+
+    expect(response).toBe(output);
+    expect(batches.map((batch) => batch.map((block) => block.type))).toEqual([
+      ["heading"],
+      ["columns", "paragraph", "divider"],
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ path: "1", type: "heading" });
+  });
+
+  it("should not reuse IDs already in the document", async () => {
+    const output = JSON.stringify([
+      { type: "divider", props: { id: "taken" } },
+    ]);
+    const batches: Block[][] = [];
+
+    await streamBlocksFromPrompt(
+      createStreamingProvider(output),
+      "catalog",
+      "prompt",
+      { reservedIds: ["taken"], onBlocks: (blocks) => batches.push(blocks) }
+    );
+
+    expect(batches[0][0].props.id).not.toBe("taken");
+  });
+
+  it("should validate non-array output as a whole", async () => {
+    const batches: Block[][] = [];
+    await streamBlocksFromPrompt(
+      createStreamingProvider('{"blocks":[{"type":"divider"}]}'),
+      "catalog",
+      "prompt",
+      { onBlocks: (blocks) => batches.push(blocks) }
+    );
+    expect(batches).toHaveLength(1);
+  });
+
+  it("should report truncated output", async () => {
+    const { errors } = await streamBlocksFromPrompt(
+      createStreamingProvider('[{"type":"divider"},'),
+      "catalog",
+      "prompt",
+      { onBlocks: () => undefined }
+    );
+    expect(errors).toEqual([
+      {
+        path: null,
+        message: "Response ended before the list of blocks was complete",
+      },
+    ]);
+  });
+
+  it("should stop when aborted", async () => {
+    const controller = new AbortController();
+    const output = JSON.stringify([{ type: "divider" }, { type: "divider" }]);
+    const batches: Block[][] = [];
+
+    const streaming = streamBlocksFromPrompt(
+      createStreamingProvider(output, 2),
+      "catalog",
+      "prompt",
+      {
+        signal: controller.signal,
+        onBlocks: (blocks) => {
+          batches.push(blocks);
+          controller.abort();
+        },
+      }
+    );
+
+    await expect(streaming).rejects.toThrow();
+    expect(batches).toHaveLength(1);
+  });
+});
@@ -0,0 +1,207 @@
+import type { Block } from "@/types/blocks";
+import type { AIProvider } from "./ai-provider";
+import {
+  type AIBlockError,
+  parseAIResponse,
+  validateAIBlocks,
+} from "./ai-validation";
+
+// ============================================================================
+// STREAMING AI OUTPUT
+// The model writes a JSON array of blocks. While it streams, the parser
+// scans the text for the array's elements and hands each one over as soon
+// as its closing brace arrives, so blocks can be validated and inserted one
+// at a time instead of after the whole response.
+// ============================================================================
+
+export interface JsonArrayStreamParser {
+  /**
+   * Feed the next chunk of text.
+   * @returns Array elements completed by this chunk, parsed
+   */
+  push(chunk: string): unknown[];
+  /** All text received so far */
+  getText(): string;
+  /**
+   * Whether the output is an array: true once "[" is seen, false when the
+   * JSON starts with "{" instead, null while undecided
+   */
+  isArray(): boolean | null;
+  /** Whether the array's closing "]" has arrived (or it isn't an array) */
+  isComplete(): boolean;
+}
+
+/**
+ * Create a parser that extracts the object elements of a streamed JSON
+ * array. Text before the JSON (prose, a code fence) is skipped.
+ * Elements that aren't objects are ignored; elements that aren't valid
+ * JSON are returned as their raw text so validation reports them.
+ */
+export function createJsonArrayStreamParser(): JsonArrayStreamParser {
+  let text = "";
+  let position = 0;
+  let isArray: boolean | null = null;
+  let complete = false;
+  // Nesting depth inside the array (1 = between elements)
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+
+  const parseElement = (source: string): unknown => {
+    try {
+      return JSON.parse(source);
+    } catch {
+      return source;
+    }
+  };
+
+  // Skip text until the JSON starts
+  const scanStart = (char: string) => {
+    if (char === "[") {
+      isArray = true;
+      depth = 1;
+    } else if (char === "{") {
+      isArray = false;
+      complete = true;
+    }
+  };
+
+  // Track strings so brackets inside them don't count
+  const scanString = (char: string) => {
+    if (escaped) {
+      escaped = false;
+    } else if (char === "\\") {
+      escaped = true;
+    } else if (char === '"') {
+      inString = false;
+    }
+  };
+
+  const scanStructure = (char: string, index: number): unknown => {
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{" || char === "[") {
+      if (depth === 1 && char === "{") {
+        elementStart = index;
+      }
+      depth++;
+    } else if (char === "}" || char === "]") {
+      depth--;
+      if (depth === 1 && char === "}" && elementStart >= 0) {
+        const element = parseElement(text.slice(elementStart, index + 1));
+        elementStart = -1;
+        return element;
+      }
+      if (depth === 0) {
+        complete = true;
+      }
+    }
+    return undefined;
+  };
+
+  return {
+    push(chunk) {
+      text += chunk;
+      const elements: unknown[] = [];
+      for (; position < text.length && !complete; position++) {
+        const char = text[position];
+        if (isArray === null) {
+          scanStart(char);
+        } else if (inString) {
+          scanString(char);
+        } else {
+          const element = scanStructure(char, position);
+          if (element !== undefined) {
+            elements.push(element);
+          }
+        }
+      }
+      return elements;
+    },
+    getText: () => text,
+    isArray: () => isArray,
+    isComplete: () => complete,
+  };
+}
+
+export interface StreamBlocksOptions {
+  signal?: AbortSignal;
+  /** IDs already in the document, so generated blocks don't reuse them */
+  reservedIds?: Iterable<string>;
+  /**
+   * Called with each valid block as it arrives (a columns block comes with
+   * the blocks nested in it)
+   */
+  onBlocks: (blocks: Block[]) => void;
+}
+
+export interface StreamBlocksResult {
+  /** The complete raw output */
+  response: string;
+  /** Blocks that were skipped, and problems with the response as a whole */
+  errors: AIBlockError[];
+}
+
+/**
+ * Stream blocks for a prompt, validating each block as soon as it is
+ * complete.
+ *
+ * @param provider - Model to ask
+ * @param systemPrompt - Block catalog prompt
+ * @param prompt - What the user asked for
+ * @param options - Abort signal, reserved IDs and block callback
+ * @returns The raw output and the errors found
+ * @throws When the request fails or is aborted
+ */
+export async function streamBlocksFromPrompt(
+  provider: AIProvider,
+  systemPrompt: string,
+  prompt: string,
+  options: StreamBlocksOptions
+): Promise<StreamBlocksResult> {
+  const parser = createJsonArrayStreamParser();
+  const reservedIds = new Set(options.reservedIds);
+  const errors: AIBlockError[] = [];
+  let index = 0;
+
+  const stream = provider.streamBlocks({
+    systemPrompt,
+    prompt,
+    signal: options.signal,
+  });
+  for await (const chunk of stream) {
+    options.signal?.throwIfAborted();
+    const elements = parser.push(chunk);
+    if (parser.isArray() === false) {
+      continue;
+    }
+    for (const element of elements) {
+      const result = validateAIBlocks([element], {
+        reservedIds,
+        firstIndex: index++,
+      });
+      errors.push(...result.errors);
+      if (result.blocks.length > 0) {
+        options.onBlocks(result.blocks);
+      }
+    }
+  }
+
+  const response = parser.getText();
+  if (parser.isArray() !== true) {
+    // Not an array (e.g. a single block or { blocks }): validate it whole
+    const result = parseAIResponse(response, { reservedIds });
+    if (result.blocks.length > 0) {
+      options.onBlocks(result.blocks);
+    }
+    return { response, errors: result.errors };
+  }
+  if (!parser.isComplete()) {
+    errors.push({
+      path: null,
+      message: "Response ended before the list of blocks was complete",
+    });
+  }
+  return { response, errors };
+}
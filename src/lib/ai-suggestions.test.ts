@@ -0,0 +1,176 @@
+/**
+ * Unit tests for AI prompt suggestions.
+ * Tests the document context, the fallback rules and provider ranking.
+ */
+import { describe, expect, it } from "bun:test";
+import { createBlock, createDocument } from "@/lib/utils";
+import { createTestDocument, createTestProvider } from "../../test/fixtures";
+import type { AIProvider } from "./ai-provider";
+import {
+  buildSuggestionContext,
+  generateSuggestions,
+  getFallbackSuggestions,
+  getSuggestionRefreshKey,
+  MAX_SUGGESTIONS,
+} from "./ai-suggestions";
+import { createMockAIProvider } from "./mock-ai-provider";
+
+/** A provider whose suggest() answers with a fixed result */
+function createSuggestProvider(
+  suggest: AIProvider["suggest"]
+): AIProvider & { contexts: string[] } {
+  const contexts: string[] = [];
+  return {
+    ...createTestProvider({
+      suggest: (context, signal) => {
+        contexts.push(context);
+        return suggest(context, signal);
+      },
+    }),
+    contexts,
+  };
+}
+
+const heading = createBlock("heading", {
+  content: "Getting <em>started</em>",
+  level: "h1",
+});
+const subheading = createBlock("heading", {
+  content: "Install",
+  level: "h2",
+});
+const paragraph = createBlock("paragraph", { content: "Run the installer." });
+const guide = createTestDocument([heading, subheading, paragraph], {
+  title: "Guide",
+});
+
+describe("buildSuggestionContext", () => {
+  it("should describe the title, block types, outline and nearby block", () => {
+    expect(buildSuggestionContext(guide, subheading.props.id)).toBe(
+      [
+        "Title: Guide",
+        "Block types used: heading, paragraph",
+        "Outline:\n- Getting started\n  - Install",
+        "Near the cursor:\n## Install",
+      ].join("\n\n")
+    );
+  });
+
+  it("should use the last block when there is no cursor", () => {
+    expect(buildSuggestionContext(guide)).toEndWith(
+      "Near the cursor:\nRun the installer."
+    );
+  });
+});
+
+describe("getSuggestionRefreshKey", () => {
+  it("should not change while typing in a paragraph", () => {
+    const edited = {
+      ...guide,
+      blocks: {
+        ...guide.blocks,
+        [paragraph.props.id]: {
+          ...paragraph,
+          props: { ...paragraph.props, content: "Run the installer, then" },
+        },
+      },
+    };
+    expect(getSuggestionRefreshKey(edited, paragraph.props.id)).toBe(
+      getSuggestionRefreshKey(guide, paragraph.props.id)
+    );
+  });
+
+  it("should change with the outline and the active block", () => {
+    const key = getSuggestionRefreshKey(guide, paragraph.props.id);
+    const retitled = {
+      ...guide,
+      blocks: {
+        ...guide.blocks,
+        [subheading.props.id]: {
+          ...subheading,
+          props: { ...subheading.props, content: "Installation" },
+        },
+      },
+    };
+    expect(getSuggestionRefreshKey(retitled, paragraph.props.id)).not.toBe(key);
+    expect(getSuggestionRefreshKey(guide, subheading.props.id)).not.toBe(key);
+  });
+});
+
+describe("getFallbackSuggestions", () => {
+  it("should offer starting points for an empty document", () => {
+    const suggestions = getFallbackSuggestions(createDocument());
+    expect(suggestions).toContain("Add an introduction");
+    expect(suggestions).toHaveLength(MAX_SUGGESTIONS);
+  });
+
+  it("should follow the heading near the cursor and the outline", () => {
+    expect(getFallbackSuggestions(guide, heading.props.id)).toEqual([
+      'Write a section about "Getting started"',
+      'Expand on "Install"',
+      "Summarize the key points",
+      "Add a code example",
+      "Add a feature list",
+    ]);
+  });
+
+  it("should be deterministic", () => {
+    expect(getFallbackSuggestions(guide)).toEqual(
+      getFallbackSuggestions(guide)
+    );
+  });
+});
+
+describe("generateSuggestions", () => {
+  it("should keep the provider's order, without repeats", async () => {
+    const provider = createSuggestProvider(() =>
+      Promise.resolve(["Add a table", " add a TABLE ", "Add a quote", ""])
+    );
+
+    const suggestions = await generateSuggestions(provider, guide, {
+      activeBlockId: paragraph.props.id,
+    });
+
+    expect(suggestions).toEqual(["Add a table", "Add a quote"]);
+    expect(provider.contexts).toEqual([
+      buildSuggestionContext(guide, paragraph.props.id),
+    ]);
+  });
+
+  it("should fall back without a provider, on errors and on no answer", async () => {
+    const fallback = getFallbackSuggestions(guide);
+    const failing = createSuggestProvider(() =>
+      Promise.reject(new Error("offline"))
+    );
+    const empty = createSuggestProvider(() => Promise.resolve([]));
+
+    expect(await generateSuggestions(undefined, guide)).toEqual(fallback);
+    expect(await generateSuggestions(failing, guide)).toEqual(fallback);
+    expect(await generateSuggestions(empty, guide)).toEqual(fallback);
+  });
+
+  it("should reject when aborted", async () => {
+    const controller = new AbortController();
+    const provider = createSuggestProvider(() => {
+      controller.abort();
+      return Promise.reject(new Error("aborted"));
+    });
+
+    await expect(
+      generateSuggestions(provider, guide, { signal: controller.signal })
+    ).rejects.toThrow();
+  });
+
+  it("should leave out what the document has with the mock provider", async () => {
+    const provider = createMockAIProvider({ delay: 0 });
+    const withCode = createTestDocument(
+      [paragraph, createBlock("code", { code: "bun install" })],
+      { title: "Notes" }
+    );
+
+    const suggestions = await generateSuggestions(provider, withCode);
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    expect(suggestions).not.toContain("Add a code example");
+  });
+});
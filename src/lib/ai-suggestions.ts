@@ -0,0 +1,230 @@
+import type { Block, BlockDocument, HeadingBlock } from "@/types/blocks";
+import type { AIProvider } from "./ai-provider";
+import { blockToMarkdown } from "./markdown-renderer";
+
+// ============================================================================
+// AI SUGGESTIONS
+// Prompts offered to the user for what to generate next. The provider gets
+// a short description of the document (title, heading outline, the block
+// near the cursor) and picks and ranks the suggestions. Without a provider,
+// or when it fails or has nothing to offer, suggestions are derived from the
+// document with fixed rules so the same document always gets the same ones.
+// ============================================================================
+
+/** Suggestions shown at most */
+export const MAX_SUGGESTIONS = 5;
+
+// Longest heading quoted in a suggestion
+const MAX_QUOTED_HEADING_LENGTH = 40;
+
+const HEADING_INDENT: Record<HeadingBlock["props"]["level"], string> = {
+  h1: "",
+  h2: "  ",
+  h3: "    ",
+};
+
+function getPlainText(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return (doc.body.textContent ?? "").trim();
+}
+
+function getRootBlocks(document: BlockDocument): Block[] {
+  return document.rootBlockIds
+    .map((id) => document.blocks[id])
+    .filter((block): block is Block => block !== undefined);
+}
+
+/** Headings in document order, with their text */
+function getOutline(
+  document: BlockDocument
+): { level: HeadingBlock["props"]["level"]; text: string }[] {
+  return getRootBlocks(document)
+    .filter((block): block is HeadingBlock => block.type === "heading")
+    .map((block) => ({
+      level: block.props.level,
+      text: getPlainText(block.props.content),
+    }))
+    .filter((heading) => heading.text);
+}
+
+/** The block the cursor is in, or the last block of the document */
+function getNearbyBlock(
+  document: BlockDocument,
+  activeBlockId?: string
+): Block | undefined {
+  const active = activeBlockId ? document.blocks[activeBlockId] : undefined;
+  return active ?? document.blocks[document.rootBlockIds.at(-1) ?? ""];
+}
+
+function hasText(block: Block): boolean {
+  return "content" in block.props && getPlainText(block.props.content) !== "";
+}
+
+/**
+ * Describe a document for AIProvider.suggest: title, block types used,
+ * heading outline and the block near the cursor.
+ *
+ * @param document - Document being edited
+ * @param activeBlockId - Block containing the cursor, if any
+ */
+export function buildSuggestionContext(
+  document: BlockDocument,
+  activeBlockId?: string
+): string {
+  const blocks = Object.values(document.blocks);
+  const types = [...new Set(blocks.map((block) => block.type))];
+  const outline = getOutline(document);
+  const nearby = getNearbyBlock(document, activeBlockId);
+  const nearbyMarkdown = nearby
+    ? blockToMarkdown(nearby, (id) => document.blocks[id])
+    : "";
+
+  const sections = [
+    `Title: ${document.title || "Untitled"}`,
+    `Block types used: ${types.join(", ") || "none"}`,
+  ];
+  if (outline.length > 0) {
+    sections.push(
+      `Outline:\n${outline
+        .map((heading) => `${HEADING_INDENT[heading.level]}- ${heading.text}`)
+        .join("\n")}`
+    );
+  }
+  if (nearbyMarkdown.trim()) {
+    sections.push(`Near the cursor:\n${nearbyMarkdown}`);
+  }
+  return sections.join("\n\n");
+}
+
+/**
+ * What suggestions depend on, without the text being typed: title, block
+ * types, heading outline and which block has the cursor. Suggestions are
+ * refreshed when it changes rather than on every pause in typing.
+ *
+ * @param document - Document being edited
+ * @param activeBlockId - Block containing the cursor, if any
+ */
+export function getSuggestionRefreshKey(
+  document: BlockDocument,
+  activeBlockId?: string
+): string {
+  return JSON.stringify([
+    document.title,
+    [...new Set(Object.values(document.blocks).map((block) => block.type))],
+    getOutline(document),
+    getNearbyBlock(document, activeBlockId)?.props.id ?? null,
+  ]);
+}
+
+function quoteHeading(text: string): string {
+  return text.length > MAX_QUOTED_HEADING_LENGTH
+    ? `"${text.slice(0, MAX_QUOTED_HEADING_LENGTH - 1).trimEnd()}…"`
+    : `"${text}"`;
+}
+
+/**
+ * Suggestions derived from the document alone, used when no provider
+ * answers. Deterministic: the same document gives the same suggestions.
+ */
+export function getFallbackSuggestions(
+  document: BlockDocument,
+  activeBlockId?: string
+): string[] {
+  const blocks = getRootBlocks(document);
+  const types = new Set(
+    Object.values(document.blocks).map((block) => block.type)
+  );
+  const outline = getOutline(document);
+  const nearby = getNearbyBlock(document, activeBlockId);
+
+  if (!blocks.some(hasText)) {
+    return [
+      "Add an introduction",
+      "Outline the main sections",
+      "Add a feature list",
+      "Create a two-column layout",
+      "Add a code example",
+    ];
+  }
+
+  const suggestions: string[] = [];
+  if (nearby?.type === "heading" && hasText(nearby)) {
+    suggestions.push(
+      `Write a section about ${quoteHeading(getPlainText(nearby.props.content))}`
+    );
+  }
+  const lastHeading = outline.at(-1);
+  if (lastHeading) {
+    suggestions.push(`Expand on ${quoteHeading(lastHeading.text)}`);
+  } else {
+    suggestions.push("Add section headings");
+  }
+  if (blocks.length >= 3) {
+    suggestions.push("Summarize the key points");
+  }
+  if (!types.has("code")) {
+    suggestions.push("Add a code example");
+  }
+  if (!(types.has("bulleted-list") || types.has("numbered-list"))) {
+    suggestions.push("Add a feature list");
+  }
+  if (!types.has("columns")) {
+    suggestions.push("Create a two-column layout");
+  }
+  if (!types.has("todo")) {
+    suggestions.push("Add next steps as a checklist");
+  }
+  suggestions.push("Add a conclusion");
+
+  return dedupeSuggestions(suggestions);
+}
+
+/** Drop blanks and case-insensitive repeats, keeping the first */
+function dedupeSuggestions(suggestions: string[]): string[] {
+  const seen = new Set<string>();
+  const unique: string[] = [];
+  for (const suggestion of suggestions) {
+    const text = suggestion.trim();
+    const key = text.toLowerCase();
+    if (text && !seen.has(key)) {
+      seen.add(key);
+      unique.push(text);
+    }
+  }
+  return unique.slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Suggest prompts for the document. The provider ranks them; without a
+ * provider, or if it fails or returns none, the fallback rules are used.
+ *
+ * @param provider - Model to ask (optional)
+ * @param document - Document being edited
+ * @param options - Block containing the cursor and abort signal
+ * @returns Up to MAX_SUGGESTIONS prompts, best first
+ * @throws Only when aborted
+ */
+export async function generateSuggestions(
+  provider: AIProvider | undefined,
+  document: BlockDocument,
+  options: { activeBlockId?: string; signal?: AbortSignal } = {}
+): Promise<string[]> {
+  const fallback = () =>
+    getFallbackSuggestions(document, options.activeBlockId);
+  if (!provider) {
+    return fallback();
+  }
+  try {
+    const suggestions = dedupeSuggestions(
+      await provider.suggest(
+        buildSuggestionContext(document, options.activeBlockId),
+        options.signal
+      )
+    );
+    return suggestions.length > 0 ? suggestions : fallback();
+  } catch (error) {
+    options.signal?.throwIfAborted();
+    console.error("AI suggestions failed:", error);
+    return fallback();
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Unit tests for AI output validation.
+ * Tests schema validation, repairs, column normalization and error reporting.
+ */
+import { describe, expect, it } from "bun:test";
+import { BlockSchema } from "@/types/blocks";
+import {
+  extractJson,
+  formatAIBlockError,
+  parseAIResponse,
+  validateAIBlocks,
+} from "./ai-validation";
+
+describe("extractJson", () => {
+  it("should unwrap fenced JSON", () => {
+    expect(extractJson('Here you go:\n```json\n[{"a": 1}]\n```')).toEqual([
+      { a: 1 },
+    ]);
+  });
+
+  it("should parse bare JSON", () => {
+    expect(extractJson(' {"type": "divider"} ')).toEqual({ type: "divider" });
+  });
+});
+
+describe("validateAIBlocks", () => {
+  it("should accept valid blocks and keep their IDs", () => {
+    const { blocks, errors } = validateAIBlocks([
+      { type: "heading", props: { id: "h", content: "Title", level: "h1" } },
+    ]);
+    expect(errors).toEqual([]);
+    expect(blocks).toEqual([
+      {
+        type: "heading",
+        props: { id: "h", content: "Title", level: "h1", align: "left" },
+      },
+    ]);
+  });
+
+  it("should fill missing props from the catalog and generate IDs", () => {
+    const { blocks, errors } = validateAIBlocks([{ type: "todo" }]);
+    expect(errors).toEqual([]);
+    expect(blocks[0]).toMatchObject({
+      type: "todo",
+      props: { content: "", indent: 0, checked: false },
+    });
+    expect(blocks[0].props.id).toBeTruthy();
+  });
+
+  it("should accept a single block or a { blocks } wrapper", () => {
+    expect(validateAIBlocks({ type: "divider" }).blocks).toHaveLength(1);
+    expect(
+      validateAIBlocks({ blocks: [{ type: "divider" }, { type: "divider" }] })
+        .blocks
+    ).toHaveLength(2);
+  });
+
+  it("should move props written next to type into props", () => {
+    const { blocks } = validateAIBlocks([
+      { type: "paragraph", content: "Loose", align: "center" },
+    ]);
+    expect(blocks[0].props).toMatchObject({
+      content: "Loose",
+      align: "center",
+    });
+  });
+
+  it("should drop null props so defaults apply", () => {
+    const { blocks, errors } = validateAIBlocks([
+      { type: "quote", props: { content: "Hi", attribution: null } },
+    ]);
+    expect(errors).toEqual([]);
+    expect(blocks[0].props).not.toHaveProperty("attribution");
+  });
+
+  it("should replace duplicate IDs", () => {
+    const { blocks } = validateAIBlocks([
+      { type: "divider", props: { id: "same" } },
+      { type: "divider", props: { id: "same" } },
+    ]);
+    expect(blocks[0].props.id).toBe("same");
+    expect(blocks[1].props.id).not.toBe("same");
+  });
+
+  it("should report invalid blocks and keep the valid ones", () => {
+    const { blocks, errors } = validateAIBlocks([
+      { type: "paragraph", props: { content: "Fine" } },
+      { type: "heading", props: { content: "Bad", level: "h7" } },
+      { type: "video", props: {} },
+      "nonsense",
+    ]);
+    expect(blocks).toHaveLength(1);
+    expect(errors).toHaveLength(3);
+    expect(errors[0]).toMatchObject({ path: "1", type: "heading" });
+    expect(errors[0].message).toContain("level");
+    expect(errors[1]).toEqual({
+      path: "2",
+      message: 'Unknown block type "video"',
+    });
+    expect(errors[2]).toEqual({
+      path: "3",
+      message: "Expected a block object",
+    });
+  });
+
+  it("should flatten nested column blocks into ID references", () => {
+    const { blocks, errors } = validateAIBlocks([
+      {
+        type: "columns",
+        props: {
+          widths: [1, 1],
+          columns: [
+            [{ type: "paragraph", props: { content: "Left" } }],
+            [
+              { type: "paragraph", props: { content: "Right" } },
+              { type: "divider" },
+            ],
+          ],
+        },
+      },
+    ]);
+    expect(errors).toEqual([]);
+    expect(blocks.map((block) => block.type)).toEqual([
+      "columns",
+      "paragraph",
+      "paragraph",
+      "divider",
+    ]);
+    for (const block of blocks) {
+      expect(BlockSchema.safeParse(block).success).toBe(true);
+    }
+    const [columns, left, right, divider] = blocks;
+    expect(columns.type === "columns" && columns.props.columns).toEqual([
+      [left.props.id],
+      [right.props.id, divider.props.id],
+    ]);
+  });
+
+  it("should keep ID references to blocks in the output", () => {
+    const { blocks, errors } = validateAIBlocks([
+      { type: "columns", props: { columns: [["a"], ["b"]] } },
+      { type: "paragraph", props: { id: "a", content: "A" } },
+      { type: "paragraph", props: { id: "b", content: "B" } },
+    ]);
+    expect(errors).toEqual([]);
+    expect(blocks[0].type === "columns" && blocks[0].props.columns).toEqual([
+      ["a"],
+      ["b"],
+    ]);
+  });
+
+  it("should drop references to unknown blocks", () => {
+    const { blocks, errors } = validateAIBlocks([
+      { type: "columns", props: { columns: [["missing"], []] } },
+    ]);
+    expect(blocks[0].type === "columns" && blocks[0].props.columns).toEqual([
+      [],
+      [],
+    ]);
+    expect(errors).toEqual([
+      {
+        path: "0",
+        type: "columns",
+        message: 'Column references unknown block "missing"',
+      },
+    ]);
+  });
+
+  it("should accept columns nested inside columns", () => {
+    const { blocks, errors } = validateAIBlocks([
+      {
+        type: "columns",
+        props: {
+          columns: [
+            [
+              {
+                type: "columns",
+                props: {
+                  columns: [
+                    [{ type: "paragraph", props: { content: "Inside" } }],
+                    [],
+                  ],
+                },
+              },
+            ],
+            [],
+          ],
+        },
+      },
+    ]);
+    expect(errors).toEqual([]);
+    expect(blocks.map((block) => block.type)).toEqual([
+      "columns",
+      "columns",
+      "paragraph",
+    ]);
+    expect(blocks[0].type === "columns" && blocks[0].props.columns[0]).toEqual([
+      blocks[1].props.id,
+    ]);
+  });
+
+  it("should reject references that put columns inside themselves", () => {
+    const { blocks, errors } = validateAIBlocks([
+      { type: "columns", props: { id: "a", columns: [["b"], []] } },
+      { type: "columns", props: { id: "b", columns: [["a"], []] } },
+      { type: "columns", props: { id: "c", columns: [["c"], []] } },
+    ]);
+    expect(
+      blocks.map((block) => block.type === "columns" && block.props.columns)
+    ).toEqual([
+      [["b"], []],
+      [[], []],
+      [[], []],
+    ]);
+    expect(errors.map((error) => error.message)).toEqual([
+      'Block "a" can\'t be placed inside itself',
+      'Block "c" can\'t be placed inside itself',
+    ]);
+  });
+
+  it("should fit widths to the number of columns", () => {
+    const { blocks } = validateAIBlocks([
+      { type: "columns", props: { widths: [1, 2], columns: [[], [], []] } },
+    ]);
+    expect(blocks[0].type === "columns" && blocks[0].props.widths).toEqual([
+      1, 2, 1,
+    ]);
+  });
+
+  it("should keep the number of columns between two and six", () => {
+    const { blocks } = validateAIBlocks([
+      { type: "columns", props: { columns: [["a"]] } },
+      {
+        type: "columns",
+        props: { columns: [[], [], [], [], [], ["f"], ["g"]] },
+      },
+    ]);
+    const columns = blocks.map((block) =>
+      block.type === "columns" ? block.props.columns : []
+    );
+    expect(columns[0]).toEqual([[], []]);
+    expect(columns[1]).toEqual([[], [], [], [], [], []]);
+  });
+});
+
+describe("parseAIResponse", () => {
+  it("should report responses that aren't JSON", () => {
+    const { blocks, errors } = parseAIResponse("Sorry, I can't do that.");
+    expect(blocks).toEqual([]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].path).toBeNull();
+    expect(errors[0].message).toStartWith("Response is not valid JSON");
+  });
+});
+
+describe("formatAIBlockError", () => {
+  it("should label errors with their block", () => {
+    expect(
+      formatAIBlockError({ path: "2", type: "image", message: "src: Invalid" })
+    ).toBe("Block 2 (image): src: Invalid");
+    expect(formatAIBlockError({ path: null, message: "Not JSON" })).toBe(
+      "Not JSON"
+    );
+  });
+});
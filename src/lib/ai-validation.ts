@@ -0,0 +1,375 @@
+import type { z } from "zod";
+import { generateId } from "@/lib/utils";
+import {
+  BLOCK_CATALOG,
+  type Block,
+  type BlockCatalogKey,
+  BlockSchema,
+  type ColumnsBlock,
+  MAX_COLUMNS,
+  MIN_COLUMNS,
+} from "@/types/blocks";
+import { getCustomBlockError, resolveCustomBlock } from "./block-definitions";
+import { getColumnWidths } from "./columns";
+
+// Regex for extracting JSON from markdown code blocks
+const JSON_CODE_BLOCK_REGEX = /```(?:json)?\s*([\s\S]*?)```/;
+
+// ============================================================================
+// AI OUTPUT VALIDATION
+// Model output is untrusted: it is repaired where the intent is clear and
+// then validated against BlockSchema, block by block.
+//   - Missing props are filled from BLOCK_CATALOG defaults, missing or
+//     duplicate IDs are generated, null props are dropped, and props written
+//     next to "type" instead of inside "props" are moved into props.
+//   - Custom blocks must be of a registered type and match its data schema.
+//   - Columns may hold nested blocks (Block[][], as the catalog prompt asks
+//     for) or ID references; nested blocks are flattened into the output
+//     after their columns block and replaced by their IDs. The column count
+//     is kept within MIN_COLUMNS..MAX_COLUMNS with one width per column.
+//     Columns blocks may be nested, but a reference that would put a
+//     columns block inside itself is dropped.
+// Blocks that still fail validation are dropped and reported, so valid
+// blocks can be inserted and the errors sent back to the model.
+// ============================================================================
+
+/** A problem with one block (or the whole response) in AI output */
+export interface AIBlockError {
+  /**
+   * Where the block sits in the output, e.g. "2" or "1.columns[0][1]";
+   * null when the whole response is unusable
+   */
+  path: string | null;
+  /** Block type, when the block had a recognizable one */
+  type?: string;
+  message: string;
+}
+
+export interface AIValidationResult {
+  /** Valid blocks in the flat form insertGeneratedBlocks expects */
+  blocks: Block[];
+  errors: AIBlockError[];
+}
+
+export interface ValidateAIBlocksOptions {
+  /**
+   * IDs already in use (e.g. the document's blocks, or blocks validated
+   * earlier in a stream). Colliding IDs are replaced, and the IDs given to
+   * new blocks are added to the set.
+   */
+  reservedIds?: Set<string>;
+  /** Index of the first item in the full output, for error paths */
+  firstIndex?: number;
+}
+
+interface ValidationContext {
+  errors: AIBlockError[];
+  ids: Set<string>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isBlockType(type: unknown): type is BlockCatalogKey {
+  return typeof type === "string" && Object.hasOwn(BLOCK_CATALOG, type);
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message
+    )
+    .join("; ");
+}
+
+/**
+ * Extract the JSON payload from a model response, unwrapping markdown code
+ * fences.
+ *
+ * @throws SyntaxError if the payload isn't valid JSON
+ */
+export function extractJson(response: string): unknown {
+  const jsonMatch = response.match(JSON_CODE_BLOCK_REGEX);
+  const jsonStr = jsonMatch?.[1] || response;
+  return JSON.parse(jsonStr.trim());
+}
+
+/**
+ * Merge props from "props" and from the block object itself, drop nulls and
+ * fill the rest from the catalog defaults.
+ */
+function repairProps(
+  type: BlockCatalogKey,
+  raw: Record<string, unknown>,
+  ctx: ValidationContext
+): Record<string, unknown> {
+  const { type: _type, props, ...stray } = raw;
+  const merged: Record<string, unknown> = {
+    ...stray,
+    ...(isRecord(props) ? props : {}),
+  };
+  for (const [key, value] of Object.entries(merged)) {
+    if (value === null) {
+      delete merged[key];
+    }
+  }
+
+  let id = typeof merged.id === "string" ? merged.id : "";
+  if (!id || ctx.ids.has(id)) {
+    id = generateId();
+  }
+  ctx.ids.add(id);
+
+  return {
+    ...structuredClone(BLOCK_CATALOG[type].defaultProps),
+    ...merged,
+    id,
+  };
+}
+
+/**
+ * Replace nested blocks in a columns block's props with their IDs.
+ *
+ * @returns The nested blocks, flattened
+ */
+function flattenColumns(
+  props: Record<string, unknown>,
+  path: string,
+  ctx: ValidationContext
+): Block[] {
+  if (!Array.isArray(props.columns)) {
+    return [];
+  }
+
+  const nested: Block[] = [];
+  const columns = props.columns.map((column: unknown, columnIndex) => {
+    if (!Array.isArray(column)) {
+      ctx.errors.push({
+        path: `${path}.columns[${columnIndex}]`,
+        type: "columns",
+        message: "Column must be an array of blocks",
+      });
+      return [];
+    }
+    return column.flatMap((item: unknown, itemIndex) => {
+      if (typeof item === "string") {
+        return [item];
+      }
+      const blocks = normalizeBlock(
+        item,
+        `${path}.columns[${columnIndex}][${itemIndex}]`,
+        ctx
+      );
+      nested.push(...blocks);
+      return blocks.length > 0 ? [blocks[0].props.id] : [];
+    });
+  });
+  // Keep MIN_COLUMNS..MAX_COLUMNS columns (blocks past the last column move
+  // into it) and one width per column
+  while (columns.length < MIN_COLUMNS) {
+    columns.push([]);
+  }
+  const fitted =
+    columns.length > MAX_COLUMNS
+      ? [
+          ...columns.slice(0, MAX_COLUMNS - 1),
+          columns.slice(MAX_COLUMNS - 1).flat(),
+        ]
+      : columns;
+  props.columns = fitted;
+  props.widths = getColumnWidths(
+    Array.isArray(props.widths) ? props.widths : [],
+    fitted.length
+  );
+
+  return nested;
+}
+
+/**
+ * Repair and validate one block from AI output.
+ *
+ * @returns The block followed by blocks nested in its columns, or an empty
+ * array if the block is invalid (the error is recorded in ctx)
+ */
+function normalizeBlock(
+  raw: unknown,
+  path: string,
+  ctx: ValidationContext
+): Block[] {
+  if (!isRecord(raw)) {
+    ctx.errors.push({ path, message: "Expected a block object" });
+    return [];
+  }
+  const { type } = raw;
+  if (!isBlockType(type)) {
+    ctx.errors.push({
+      path,
+      message:
+        typeof type === "string"
+          ? `Unknown block type "${type}"`
+          : 'Missing block "type"',
+    });
+    return [];
+  }
+  const props = repairProps(type, raw, ctx);
+  const nested = type === "columns" ? flattenColumns(props, path, ctx) : [];
+
+  const result = BlockSchema.safeParse({ type, props });
+  if (!result.success) {
+    ctx.errors.push({ path, type, message: formatIssues(result.error) });
+    return [];
+  }
+  const block = result.data;
+  if (block.type === "custom") {
+    // Custom data is held to its registered schema, defaults applied
+    const resolved = resolveCustomBlock(block);
+    if (!resolved) {
+      ctx.errors.push({ path, type, message: getCustomBlockError(block) });
+      return [];
+    }
+    return [{ ...block, props: { ...block.props, data: resolved.data } }];
+  }
+  return [block, ...nested];
+}
+
+/**
+ * Drop column references to blocks that aren't in the output, are already
+ * placed in another column, or would put a columns block inside itself.
+ */
+function resolveColumnReferences(
+  blocks: Block[],
+  paths: Map<string, string>,
+  ctx: ValidationContext
+): void {
+  const byId = new Map(blocks.map((block) => [block.props.id, block]));
+  // Column each placed block went into, by the ID of its columns block
+  const parents = new Map<string, string>();
+
+  // Whether a block is the columns block or one it is nested in
+  const isAncestor = (id: string, columnsId: string) => {
+    let current: string | undefined = columnsId;
+    while (current !== undefined) {
+      if (current === id) {
+        return true;
+      }
+      current = parents.get(current);
+    }
+    return false;
+  };
+
+  const isPlaceable = (columns: ColumnsBlock, id: string) => {
+    const child = byId.get(id);
+    let message: string | null = null;
+    if (!child) {
+      message = `Column references unknown block "${id}"`;
+    } else if (parents.has(id)) {
+      message = `Block "${id}" is placed in more than one column`;
+    } else if (isAncestor(id, columns.props.id)) {
+      message = `Block "${id}" can't be placed inside itself`;
+    }
+    if (message) {
+      ctx.errors.push({
+        path: paths.get(columns.props.id) ?? null,
+        type: "columns",
+        message,
+      });
+      return false;
+    }
+    parents.set(id, columns.props.id);
+    return true;
+  };
+
+  for (const block of blocks) {
+    if (block.type === "columns") {
+      block.props.columns = block.props.columns.map((column) =>
+        column.filter((id) => isPlaceable(block, id))
+      );
+    }
+  }
+}
+
+/**
+ * Validate parsed AI output against BlockSchema, repairing what can be
+ * repaired.
+ *
+ * @param data - Parsed JSON: a block array, a single block, or { blocks }
+ * @param options - Reserved IDs and error path offset
+ * @returns Valid blocks (flat, columns reference children by ID) and
+ * per-block errors
+ */
+export function validateAIBlocks(
+  data: unknown,
+  options: ValidateAIBlocksOptions = {}
+): AIValidationResult {
+  let items: unknown[];
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (isRecord(data) && Array.isArray(data.blocks)) {
+    items = data.blocks;
+  } else {
+    items = [data];
+  }
+
+  const firstIndex = options.firstIndex ?? 0;
+  const ctx: ValidationContext = {
+    errors: [],
+    ids: options.reservedIds ?? new Set(),
+  };
+  const blocks: Block[] = [];
+  const paths = new Map<string, string>();
+  for (const [index, item] of items.entries()) {
+    const path = String(firstIndex + index);
+    const normalized = normalizeBlock(item, path, ctx);
+    if (normalized.length > 0) {
+      paths.set(normalized[0].props.id, path);
+    }
+    blocks.push(...normalized);
+  }
+
+  resolveColumnReferences(blocks, paths, ctx);
+  return { blocks, errors: ctx.errors };
+}
+
+/**
+ * Parse and validate a raw model response.
+ *
+ * @param response - Model output (JSON, optionally in a code fence)
+ * @param options - Reserved IDs and error path offset
+ * @returns Valid blocks and per-block errors
+ */
+export function parseAIResponse(
+  response: string,
+  options?: ValidateAIBlocksOptions
+): AIValidationResult {
+  let data: unknown;
+  try {
+    data = extractJson(response);
+  } catch (error) {
+    return {
+      blocks: [],
+      errors: [
+        {
+          path: null,
+          message: `Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+    };
+  }
+  return validateAIBlocks(data, options);
+}
+
+/**
+ * Describe an error for people and for repair prompts.
+ */
+export function formatAIBlockError(error: AIBlockError): string {
+  if (error.path === null) {
+    return error.message;
+  }
+  const label = error.type
+    ? `Block ${error.path} (${error.type})`
+    : `Block ${error.path}`;
+  return `${label}: ${error.message}`;
+}
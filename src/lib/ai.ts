@@ -1,12 +1,18 @@
-import { createBlock, generateId } from "@/lib/utils";
+import {
+  type AIBlockError,
+  formatAIBlockError,
+  parseAIResponse,
+} from "@/lib/ai-validation";
 import type { Block } from "@/types/blocks";
+import type { AIProvider } from "./ai-provider";
+import { generateCustomBlockPrompt } from "./block-definitions";
 
-// Regex for extracting JSON from markdown code blocks
-const JSON_CODE_BLOCK_REGEX = /```(?:json)?\s*([\s\S]*?)```/;
+/** Attempts per generation, including retries with validation errors */
+export const MAX_AI_ATTEMPTS = 3;
 
 // ============================================================================
-// AI GENERATION (STUB)
-// Replace with actual API calls to your AI backend
+// AI GENERATION
+// Sends prompts to an AIProvider with the block catalog as system prompt
 // The structure here shows how json-render's catalog approach would work
 // ============================================================================
 
@@ -15,6 +21,14 @@ const JSON_CODE_BLOCK_REGEX = /```(?:json)?\s*([\s\S]*?)```/;
  * This is similar to json-render's generateCatalogPrompt
  */
 export function generateBlockCatalogPrompt(): string {
+  const customBlocks = generateCustomBlockPrompt();
+  const customBlockEntry = customBlocks
+    ? `
+
+13. custom - A block type specific to this app; props.blockType picks one of these and props.data holds its fields
+   Props: { blockType: string, data: object }
+${customBlocks}`
+    : "";
   return `
 You are a document block generator. You create structured content blocks.
 
@@ -41,220 +55,97 @@ Available block types:
 7. divider - A horizontal line
    Props: { style: "solid" | "dashed" | "dotted" }
 
-8. columns - A multi-column layout
-   Props: { layout: "1-1" | "1-2" | "2-1" | "1-1-1", columns: Block[][] }
+8. bulleted-list - One bulleted list item (emit one block per item)
+   Props: { content: string (HTML), indent: number (0-5, nesting level) }
 
-Output valid JSON array of blocks. Each block must have: { type, props: { id, ...typeSpecificProps } }
-`.trim();
-}
+9. numbered-list - One numbered list item (emit one block per item)
+   Props: { content: string (HTML), indent: number (0-5), start?: number (first item only) }
 
-/**
- * Parse AI response into blocks
- * In production, this would validate against your Zod schemas
- */
-export function parseAIResponse(response: string): Block[] {
-  try {
-    // Extract JSON from response (handle markdown code blocks)
-    const jsonMatch = response.match(JSON_CODE_BLOCK_REGEX) || [null, response];
-    const jsonStr = jsonMatch[1] || response;
+10. todo - One checkbox to-do item
+   Props: { content: string (HTML), indent: number (0-5), checked: boolean }
 
-    const parsed = JSON.parse(jsonStr.trim());
-    const blocks = Array.isArray(parsed) ? parsed : [parsed];
+11. table - A table of rich-text cells
+   Props: { rows: string[][] (HTML per cell, rows[row][column]), hasHeaderRow: boolean, columnAlign: ("left" | "center" | "right")[] }
 
-    // Ensure each block has an ID
-    return blocks.map((block) => ({
-      ...block,
-      props: {
-        ...block.props,
-        id: block.props?.id || generateId(),
-      },
-    }));
-  } catch (error) {
-    console.error("Failed to parse AI response:", error);
-    return [];
-  }
+12. columns - A multi-column layout (2 to 6 columns; a column can hold another columns block)
+   Props: { columns: Block[][] (the blocks in each column), widths: number[] (relative width of each column, e.g. [2, 1]), stackBelow: "never" | "sm" | "md" | "lg" (screen size below which the columns stack) }${customBlockEntry}
+
+Output valid JSON array of blocks. Each block must have: { type, props: { id, ...typeSpecificProps } }
+`.trim();
 }
 
 // ============================================================================
-// MOCK AI RESPONSES FOR DEMO
-// These simulate what an AI would generate
+// GENERATION WITH VALIDATION
 // ============================================================================
 
-const mockResponses: Record<string, () => Block[]> = {
-  intro: () => [
-    createBlock("heading", {
-      content: "Welcome to Your New Document",
-      level: "h1",
-    }),
-    createBlock("paragraph", {
-      content:
-        "This is your space to <strong>create</strong>, <em>collaborate</em>, and <u>communicate</u>. Start typing to begin your journey.",
-    }),
-  ],
-
-  features: () => [
-    createBlock("heading", { content: "Key Features", level: "h2" }),
-    createBlock("callout", {
-      content:
-        "<strong>Block-based editing</strong> — Drag, drop, and rearrange content with ease.",
-      variant: "info",
-      emoji: "🧱",
-    }),
-    createBlock("callout", {
-      content:
-        "<strong>Rich formatting</strong> — Bold, italic, underline, and more.",
-      variant: "success",
-      emoji: "✨",
-    }),
-    createBlock("callout", {
-      content:
-        "<strong>Multi-column layouts</strong> — Create sophisticated page designs.",
-      variant: "warning",
-      emoji: "📐",
-    }),
-  ],
-
-  "two-column": () => {
-    const leftParagraph = createBlock("paragraph", {
-      content:
-        "<strong>Left Column</strong><br/>This content appears on the left side of the layout. You can add any blocks here.",
-    });
-    const rightParagraph = createBlock("paragraph", {
-      content:
-        "<strong>Right Column</strong><br/>This content appears on the right side. Columns can be resized using different layouts.",
-    });
-
-    return [
-      createBlock("heading", { content: "Two-Column Layout", level: "h2" }),
-      createBlock("columns", {
-        layout: "1-1",
-        columns: [[leftParagraph.props.id], [rightParagraph.props.id]],
-      }),
-      leftParagraph,
-      rightParagraph,
-    ];
-  },
-
-  "three-column": () => {
-    const col1 = createBlock("callout", {
-      content: "First column with important info",
-      variant: "info",
-      emoji: "1️⃣",
-    });
-    const col2 = createBlock("callout", {
-      content: "Second column with more details",
-      variant: "success",
-      emoji: "2️⃣",
-    });
-    const col3 = createBlock("callout", {
-      content: "Third column wrapping it up",
-      variant: "warning",
-      emoji: "3️⃣",
-    });
-
-    return [
-      createBlock("heading", { content: "Three-Column Layout", level: "h2" }),
-      createBlock("columns", {
-        layout: "1-1-1",
-        columns: [[col1.props.id], [col2.props.id], [col3.props.id]],
-      }),
-      col1,
-      col2,
-      col3,
-    ];
-  },
-
-  "code-example": () => [
-    createBlock("heading", { content: "Code Example", level: "h2" }),
-    createBlock("paragraph", { content: "Here's a simple React component:" }),
-    createBlock("code", {
-      language: "typescript",
-      code: `import { useState } from 'react';
-
-function Counter() {
-  const [count, setCount] = useState(0);
-
-  return (
-    <button onClick={() => setCount(c => c + 1)}>
-      Count: {count}
-    </button>
-  );
-}`,
-    }),
-  ],
+export interface AIGenerationResult {
+  /** Valid blocks from the last attempt */
+  blocks: Block[];
+  /** Errors left after the last attempt (empty when everything was valid) */
+  errors: AIBlockError[];
+  attempts: number;
+}
 
-  "image-gallery": () => [
-    createBlock("heading", { content: "Image Showcase", level: "h2" }),
-    createBlock("image", {
-      src: "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=1200",
-      alt: "Mountain landscape",
-      caption: "A beautiful mountain landscape at sunset",
-      width: "large",
-    }),
-    createBlock("paragraph", {
-      content:
-        "<em>Images can have captions and different width settings.</em>",
-      align: "center",
-    }),
-  ],
-};
+export interface GenerateBlocksOptions {
+  signal?: AbortSignal;
+  /** Defaults to MAX_AI_ATTEMPTS */
+  maxAttempts?: number;
+  /** Called before each retry with the errors being sent back */
+  onRetry?: (attempt: number, errors: AIBlockError[]) => void;
+}
 
 /**
- * Generate blocks from a prompt
- * STUB: Replace with actual AI API call
+ * Build the follow-up prompt asking the model to fix its previous output.
  */
-export async function generateBlocksFromPrompt(
-  prompt: string
-): Promise<Block[]> {
-  // Simulate API delay
-  await new Promise((resolve) => setTimeout(resolve, 800));
+export function buildRepairPrompt(
+  prompt: string,
+  response: string,
+  errors: AIBlockError[]
+): string {
+  return `${prompt}
 
-  const normalizedPrompt = prompt.toLowerCase();
+Your previous output did not match the block schema:
 
-  // Check for keyword matches in mock responses
-  if (
-    normalizedPrompt.includes("intro") ||
-    normalizedPrompt.includes("welcome")
-  ) {
-    return mockResponses.intro();
-  }
-  if (normalizedPrompt.includes("feature")) {
-    return mockResponses.features();
-  }
-  if (normalizedPrompt.includes("two") && normalizedPrompt.includes("column")) {
-    return mockResponses["two-column"]();
-  }
-  if (
-    normalizedPrompt.includes("three") &&
-    normalizedPrompt.includes("column")
-  ) {
-    return mockResponses["three-column"]();
-  }
-  if (normalizedPrompt.includes("code")) {
-    return mockResponses["code-example"]();
-  }
-  if (
-    normalizedPrompt.includes("image") ||
-    normalizedPrompt.includes("photo")
-  ) {
-    return mockResponses["image-gallery"]();
-  }
+${errors.map((error) => `- ${formatAIBlockError(error)}`).join("\n")}
+
+Previous output:
+${response}
 
-  // Default: create a paragraph with the prompt as content
-  return [createBlock("paragraph", { content: `<p>${prompt}</p>` })];
+Return the complete corrected JSON array of blocks.`;
 }
 
 /**
- * Generate content suggestions based on context
+ * Generate blocks from a prompt. Output is validated against the block
+ * schema; when blocks are invalid, the errors are sent back to the model
+ * and it is asked to try again.
+ *
+ * @param provider - Model to ask
+ * @param prompt - What the user asked for
+ * @param options - Abort signal, attempt limit and retry callback
+ * @returns Valid blocks, remaining errors and the number of attempts used
  */
-export async function generateSuggestions(_context: string): Promise<string[]> {
-  await new Promise((resolve) => setTimeout(resolve, 200));
-
-  return [
-    "Add an introduction section",
-    "Create a two-column layout",
-    "Add a code example",
-    "Insert an image gallery",
-    "Add feature highlights",
-  ];
+export async function generateBlocksFromPrompt(
+  provider: AIProvider,
+  prompt: string,
+  options: GenerateBlocksOptions = {}
+): Promise<AIGenerationResult> {
+  const maxAttempts = options.maxAttempts ?? MAX_AI_ATTEMPTS;
+  const systemPrompt = generateBlockCatalogPrompt();
+  let request = prompt;
+  let attempts = 0;
+
+  while (true) {
+    attempts++;
+    const response = await provider.generateBlocks({
+      systemPrompt,
+      prompt: request,
+      signal: options.signal,
+    });
+    const { blocks, errors } = parseAIResponse(response);
+    if (errors.length === 0 || attempts >= maxAttempts) {
+      return { blocks, errors, attempts };
+    }
+    options.onRetry?.(attempts + 1, errors);
+    request = buildRepairPrompt(prompt, response, errors);
+  }
 }
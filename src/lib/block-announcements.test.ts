@@ -0,0 +1,74 @@
+/**
+ * Unit tests for screen reader announcements.
+ * Tests block labels and the positions announced while dragging and after
+ * a move, at the root and inside columns.
+ */
+import { describe, expect, it } from "bun:test";
+import type { Block, BlockDocument } from "@/types/blocks";
+import {
+  announceBlockMove,
+  announceDragCancel,
+  announceDragOver,
+  announceDragStart,
+  getBlockLabel,
+} from "./block-announcements";
+import { createBlock, createDocument } from "./utils";
+
+function createAnnouncementDocument() {
+  const heading = createBlock("heading", { content: "Title", level: "h2" });
+  const text = createBlock("paragraph", { content: "Text" });
+  const left = createBlock("todo", { content: "Left" });
+  const cols = createBlock("columns", { columns: [[left.props.id], []] });
+  const blocks: Block[] = [heading, text, cols, left];
+  const doc: BlockDocument = {
+    ...createDocument(),
+    blocks: Object.fromEntries(blocks.map((block) => [block.props.id, block])),
+    rootBlockIds: [heading.props.id, text.props.id, cols.props.id],
+  };
+  return { doc, heading, text, cols, left };
+}
+
+describe("getBlockLabel", () => {
+  it("should name the type, with the heading level", () => {
+    const { heading, left } = createAnnouncementDocument();
+
+    expect(getBlockLabel(heading)).toBe("Heading 2");
+    expect(getBlockLabel(left)).toBe("To-do");
+  });
+});
+
+describe("drag announcements", () => {
+  it("should give the current position when picked up or cancelled", () => {
+    const { doc, text, left } = createAnnouncementDocument();
+
+    expect(announceDragStart(doc, [text.props.id])).toBe(
+      "Picked up Paragraph block, position 2 of 3."
+    );
+    expect(announceDragCancel(doc, [left.props.id])).toBe(
+      "Cancelled. To-do block left at position 1 of 1 in column 1 of 2."
+    );
+  });
+
+  it("should give the position the blocks will have", () => {
+    const { doc, heading, text, cols } = createAnnouncementDocument();
+    const blockIds = [heading.props.id, text.props.id];
+    const column = {
+      type: "column" as const,
+      columnId: cols.props.id,
+      columnIndex: 1,
+    };
+
+    expect(
+      announceDragOver(doc, blockIds, { container: column, index: 0 })
+    ).toBe("2 blocks will move to position 1 of 2 in column 2 of 2.");
+    expect(
+      announceBlockMove(doc, [heading.props.id], {
+        container: { type: "root" },
+        index: 2,
+      })
+    ).toBe("Heading 2 block moved to position 3 of 3.");
+    expect(announceDragOver(doc, blockIds, undefined)).toBe(
+      "2 blocks will not move."
+    );
+  });
+});
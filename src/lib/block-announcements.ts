@@ -0,0 +1,149 @@
+import { BLOCK_CATALOG, type Block, type BlockDocument } from "@/types/blocks";
+import { getBlockDefinition } from "./block-definitions";
+import {
+  type BlockLocation,
+  findBlockLocation,
+  getContainerBlockIds,
+} from "./block-tree";
+
+// ============================================================================
+// BLOCK ANNOUNCEMENTS
+// What screen readers hear while blocks are dragged or moved from the
+// keyboard: the block's type and its position in its list ("Heading 2,
+// position 3 of 5"), or in a column ("... in column 2 of 3"). Positions are the
+// ones the blocks will have once moved, counted from 1.
+// ============================================================================
+
+/**
+ * Readable name of a block's type, with the level for headings
+ */
+export function getBlockLabel(block: Block): string {
+  if (block.type === "custom") {
+    return getBlockDefinition(block.props.blockType)?.name ?? "Custom";
+  }
+  const { name } = BLOCK_CATALOG[block.type];
+  return block.type === "heading"
+    ? `${name} ${block.props.level.slice(1)}`
+    : name;
+}
+
+/**
+ * "Heading 2 block" for one block, "3 blocks" for several
+ */
+function describeBlocks(doc: BlockDocument, blockIds: string[]): string {
+  const block = blockIds.length === 1 ? doc.blocks[blockIds[0]] : undefined;
+  return block ? `${getBlockLabel(block)} block` : `${blockIds.length} blocks`;
+}
+
+/**
+ * "position 3 of 5", with the column for blocks inside columns
+ */
+function describePosition(
+  location: BlockLocation,
+  count: number,
+  columnCount: number
+): string {
+  const position = `position ${location.index + 1} of ${count}`;
+  const { container } = location;
+  return container.type === "column"
+    ? `${position} in column ${container.columnIndex + 1} of ${columnCount}`
+    : position;
+}
+
+function getColumnCount(doc: BlockDocument, location: BlockLocation): number {
+  const { container } = location;
+  const parent =
+    container.type === "column" ? doc.blocks[container.columnId] : undefined;
+  return parent?.type === "columns" ? parent.props.columns.length : 0;
+}
+
+/**
+ * Position of the first of some blocks, where they are now ("" if they
+ * aren't in the document)
+ */
+function describeCurrentPosition(
+  doc: BlockDocument,
+  blockIds: string[]
+): string {
+  const location = findBlockLocation(doc, blockIds[0] ?? "");
+  if (!location) {
+    return "";
+  }
+  return describePosition(
+    location,
+    getContainerBlockIds(doc, location.container).length,
+    getColumnCount(doc, location)
+  );
+}
+
+/**
+ * Position blocks will have at a target location (indexed as for
+ * moveBlocksInDocument, with the blocks already taken out)
+ */
+function describeTargetPosition(
+  doc: BlockDocument,
+  blockIds: string[],
+  location: BlockLocation
+): string {
+  const staying = getContainerBlockIds(doc, location.container).filter(
+    (blockId) => !blockIds.includes(blockId)
+  );
+  const count = staying.length + blockIds.length;
+  return describePosition(location, count, getColumnCount(doc, location));
+}
+
+/**
+ * Announced when blocks are picked up to drag
+ */
+export function announceDragStart(
+  doc: BlockDocument,
+  blockIds: string[]
+): string {
+  const position = describeCurrentPosition(doc, blockIds);
+  const subject = describeBlocks(doc, blockIds);
+  return position
+    ? `Picked up ${subject}, ${position}.`
+    : `Picked up ${subject}.`;
+}
+
+/**
+ * Announced as dragged blocks move over a new drop position; no location
+ * means dropping them here would leave them where they are
+ */
+export function announceDragOver(
+  doc: BlockDocument,
+  blockIds: string[],
+  location: BlockLocation | undefined
+): string {
+  const subject = describeBlocks(doc, blockIds);
+  return location
+    ? `${subject} will move to ${describeTargetPosition(doc, blockIds, location)}.`
+    : `${subject} will not move.`;
+}
+
+/**
+ * Announced once blocks are dropped, or moved from the keyboard
+ */
+export function announceBlockMove(
+  doc: BlockDocument,
+  blockIds: string[],
+  location: BlockLocation | undefined
+): string {
+  const subject = describeBlocks(doc, blockIds);
+  return location
+    ? `${subject} moved to ${describeTargetPosition(doc, blockIds, location)}.`
+    : `${subject} dropped in place.`;
+}
+
+/**
+ * Announced when a drag is cancelled
+ */
+export function announceDragCancel(
+  doc: BlockDocument,
+  blockIds: string[]
+): string {
+  const position = describeCurrentPosition(doc, blockIds);
+  return position
+    ? `Cancelled. ${describeBlocks(doc, blockIds)} left at ${position}.`
+    : "Cancelled.";
+}
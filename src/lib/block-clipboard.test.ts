@@ -0,0 +1,115 @@
+/**
+ * Unit tests for copying and pasting blocks.
+ * Tests the fragment format, its HTML and Markdown renderings, and that
+ * pasted fragments are validated and given new IDs.
+ */
+import { describe, expect, it } from "bun:test";
+import type { Block, BlockDocument } from "@/types/blocks";
+import {
+  BLOCK_FRAGMENT_MIME_TYPE,
+  createBlockFragment,
+  parseBlockFragment,
+  serializeBlockFragment,
+} from "./block-clipboard";
+import { createBlock, createDocument } from "./utils";
+
+function createClipboardDocument() {
+  const heading = createBlock("heading", { content: "Title", level: "h1" });
+  const left = createBlock("paragraph", { content: "Left" });
+  const cols = createBlock("columns", { columns: [[left.props.id], []] });
+  const outro = createBlock("paragraph", { content: "Outro" });
+  const blocks: Block[] = [heading, cols, left, outro];
+  const doc: BlockDocument = {
+    ...createDocument(),
+    blocks: Object.fromEntries(blocks.map((block) => [block.props.id, block])),
+    rootBlockIds: [heading.props.id, cols.props.id, outro.props.id],
+  };
+  return { doc, heading, cols, left };
+}
+
+describe("createBlockFragment", () => {
+  it("should include nested blocks", () => {
+    const { doc, heading, cols, left } = createClipboardDocument();
+
+    const fragment = createBlockFragment(doc, [
+      heading.props.id,
+      cols.props.id,
+    ]);
+
+    expect(fragment.rootBlockIds).toEqual([heading.props.id, cols.props.id]);
+    expect(Object.keys(fragment.blocks).sort()).toEqual(
+      [heading.props.id, cols.props.id, left.props.id].sort()
+    );
+  });
+});
+
+describe("serializeBlockFragment", () => {
+  it("should render HTML and Markdown", () => {
+    const { doc, heading } = createClipboardDocument();
+
+    const data = serializeBlockFragment(
+      createBlockFragment(doc, [heading.props.id])
+    );
+
+    expect(data["text/html"]).toContain("Title</h1>");
+    expect(data["text/plain"]).toBe("# Title");
+    expect(JSON.parse(data[BLOCK_FRAGMENT_MIME_TYPE]).rootBlockIds).toEqual([
+      heading.props.id,
+    ]);
+  });
+});
+
+describe("parseBlockFragment", () => {
+  it("should restore blocks with new IDs, pasted blocks first", () => {
+    const { doc, heading, cols } = createClipboardDocument();
+    const data = serializeBlockFragment(
+      createBlockFragment(doc, [cols.props.id, heading.props.id])
+    );
+
+    const blocks = parseBlockFragment(data[BLOCK_FRAGMENT_MIME_TYPE]) ?? [];
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      "columns",
+      "heading",
+      "paragraph",
+    ]);
+    const [columns, title, child] = blocks;
+    expect(title.props.id).not.toBe(heading.props.id);
+    expect(columns).toMatchObject({
+      props: { columns: [[child.props.id], []] },
+    });
+  });
+
+  it("should read a fragment embedded in the HTML", () => {
+    const { doc, heading } = createClipboardDocument();
+    const data = serializeBlockFragment(
+      createBlockFragment(doc, [heading.props.id])
+    );
+
+    expect(parseBlockFragment("", data["text/html"])).toMatchObject([
+      { type: "heading", props: { content: "Title", level: "h1" } },
+    ]);
+  });
+
+  it("should drop references to blocks missing from the fragment", () => {
+    const cols = createBlock("columns", { columns: [["missing"], []] });
+    const json = JSON.stringify({
+      ...createBlockFragment(createDocument(), []),
+      rootBlockIds: [cols.props.id],
+      blocks: { [cols.props.id]: cols },
+    });
+
+    expect(parseBlockFragment(json)).toMatchObject([
+      { type: "columns", props: { columns: [[], []] } },
+    ]);
+  });
+
+  it("should ignore anything that isn't a valid fragment", () => {
+    expect(parseBlockFragment("")).toBeUndefined();
+    expect(parseBlockFragment("not json")).toBeUndefined();
+    expect(
+      parseBlockFragment(JSON.stringify({ rootBlockIds: [], blocks: {} }))
+    ).toBeUndefined();
+    expect(parseBlockFragment("", "<p>Plain HTML</p>")).toBeUndefined();
+  });
+});
@@ -0,0 +1,145 @@
+import { z } from "zod";
+import {
+  type Block,
+  type BlockDocument,
+  BlockSchema,
+  CURRENT_SCHEMA_VERSION,
+} from "@/types/blocks";
+import { copyBlockTrees, getDescendantIds } from "./block-tree";
+import { escapeHtml } from "./clipboard-parser";
+import { repairDocumentIntegrity } from "./document-integrity";
+import { documentToHtml } from "./html-renderer";
+import { documentToMarkdown } from "./markdown-renderer";
+import { createDocument } from "./utils";
+
+// ============================================================================
+// BLOCK CLIPBOARD
+// Copied blocks go on the clipboard three ways: as HTML and Markdown for
+// other apps, and as a JSON fragment (the blocks and their nested contents
+// in the document format) so pasting into an editor restores them exactly.
+// The fragment travels under its own MIME type and, for clipboards that
+// only keep HTML, in an attribute of the HTML's wrapper element. Pasted
+// fragments are validated like any other untrusted input and get new IDs.
+// ============================================================================
+
+/** MIME type of the JSON fragment */
+export const BLOCK_FRAGMENT_MIME_TYPE = "application/x-block-editor+json";
+
+const FRAGMENT_ATTRIBUTE = "data-block-editor-fragment";
+
+const BlockFragmentSchema = z.object({
+  schemaVersion: z.literal(CURRENT_SCHEMA_VERSION),
+  rootBlockIds: z.array(z.string()),
+  blocks: z.record(z.string(), BlockSchema),
+});
+
+/** Copied blocks: the same shape as a document's block map and root list */
+export type BlockFragment = z.infer<typeof BlockFragmentSchema>;
+
+/** What to put on the clipboard, by MIME type */
+export interface BlockClipboardData {
+  "text/html": string;
+  "text/plain": string;
+  [BLOCK_FRAGMENT_MIME_TYPE]: string;
+}
+
+/**
+ * Fragment holding blocks and everything nested in their columns
+ *
+ * @param blockIds - Blocks to copy, in the order they should be pasted
+ */
+export function createBlockFragment(
+  doc: BlockDocument,
+  blockIds: string[]
+): BlockFragment {
+  const rootBlockIds = blockIds.filter((blockId) => doc.blocks[blockId]);
+  const blocks: Record<string, Block> = {};
+  for (const blockId of rootBlockIds) {
+    for (const id of [blockId, ...getDescendantIds(doc, blockId)]) {
+      const block = doc.blocks[id];
+      if (block) {
+        blocks[id] = structuredClone(block);
+      }
+    }
+  }
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, rootBlockIds, blocks };
+}
+
+function toDocument(fragment: BlockFragment): BlockDocument {
+  return {
+    ...createDocument(),
+    blocks: fragment.blocks,
+    rootBlockIds: fragment.rootBlockIds,
+  };
+}
+
+/**
+ * Clipboard contents for a fragment: rendered HTML (carrying the fragment),
+ * Markdown as plain text and the fragment as JSON
+ */
+export function serializeBlockFragment(
+  fragment: BlockFragment
+): BlockClipboardData {
+  const json = JSON.stringify(fragment);
+  const document = toDocument(fragment);
+  return {
+    "text/html": `<div ${FRAGMENT_ATTRIBUTE}="${escapeHtml(json)}">${documentToHtml(document)}</div>`,
+    "text/plain": documentToMarkdown(document),
+    [BLOCK_FRAGMENT_MIME_TYPE]: json,
+  };
+}
+
+/**
+ * Fragment JSON embedded in pasted HTML by serializeBlockFragment
+ */
+function getEmbeddedFragment(html: string): string | undefined {
+  if (!html.includes(FRAGMENT_ATTRIBUTE)) {
+    return;
+  }
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return (
+    doc
+      .querySelector(`[${FRAGMENT_ATTRIBUTE}]`)
+      ?.getAttribute(FRAGMENT_ATTRIBUTE) ?? undefined
+  );
+}
+
+/**
+ * Blocks from pasted clipboard data, if it holds a fragment. The blocks get
+ * new IDs (so pasting twice doesn't clash) and broken references between
+ * them are dropped.
+ *
+ * @param json - Data under BLOCK_FRAGMENT_MIME_TYPE (may be empty)
+ * @param html - Pasted HTML, checked for an embedded fragment
+ * @returns Blocks with the pasted ones first, in order, followed by their
+ *   nested contents (as insertGeneratedBlocks expects), or undefined if
+ *   there is no valid fragment
+ */
+export function parseBlockFragment(
+  json: string,
+  html = ""
+): Block[] | undefined {
+  const text = json || getEmbeddedFragment(html);
+  if (!text) {
+    return;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return;
+  }
+  const result = BlockFragmentSchema.safeParse(data);
+  if (!result.success) {
+    return;
+  }
+
+  const { document } = repairDocumentIntegrity(toDocument(result.data));
+  const copy = copyBlockTrees(document, document.rootBlockIds);
+  const roots = new Set(copy.rootBlockIds);
+  return [
+    ...copy.rootBlockIds.map((blockId) => copy.blocks[blockId]),
+    ...Object.values(copy.blocks).filter((block) => !roots.has(block.props.id)),
+  ];
+}
@@ -0,0 +1,139 @@
+/**
+ * Unit tests for block type conversion.
+ * Tests that IDs, text and shared props survive conversion between every
+ * pair of text types, variants like heading levels, and the rich text /
+ * code round trip.
+ */
+import { describe, expect, it } from "bun:test";
+import {
+  CONVERTIBLE_BLOCK_TYPES,
+  convertBlock,
+  isConversionActive,
+  TURN_INTO_OPTIONS,
+} from "./block-conversion";
+import { createBlock } from "./utils";
+
+describe("convertBlock", () => {
+  it("should keep the ID, content and alignment", () => {
+    const paragraph = createBlock("paragraph", {
+      content: "<strong>Hello</strong>",
+      align: "center",
+    });
+
+    expect(convertBlock(paragraph, "heading")).toEqual({
+      type: "heading",
+      props: {
+        id: paragraph.props.id,
+        content: "<strong>Hello</strong>",
+        level: "h2",
+        align: "center",
+      },
+    });
+  });
+
+  it("should convert between every pair of text types", () => {
+    for (const from of CONVERTIBLE_BLOCK_TYPES) {
+      const block =
+        from === "code"
+          ? createBlock("code", { code: "Text" })
+          : createBlock(from, { content: "Text" });
+      for (const to of CONVERTIBLE_BLOCK_TYPES) {
+        const converted = convertBlock(block, to);
+        expect(converted?.type).toBe(to);
+        expect(converted?.props.id).toBe(block.props.id);
+        expect(
+          converted?.type === "code"
+            ? converted.props.code
+            : (converted?.props as { content: string }).content
+        ).toBe("Text");
+      }
+    }
+  });
+
+  it("should apply variant props", () => {
+    const paragraph = createBlock("paragraph", { content: "Title" });
+
+    const heading = convertBlock(paragraph, {
+      type: "heading",
+      props: { level: "h1" },
+    });
+    expect(heading).toMatchObject({ props: { level: "h1", content: "Title" } });
+
+    // Another variant of the same type
+    expect(
+      heading &&
+        convertBlock(heading, { type: "heading", props: { level: "h3" } })
+    ).toMatchObject({
+      type: "heading",
+      props: { id: paragraph.props.id, level: "h3", content: "Title" },
+    });
+  });
+
+  it("should keep list indentation between list types", () => {
+    const item = createBlock("bulleted-list", { content: "Item", indent: 2 });
+
+    expect(convertBlock(item, "todo")).toMatchObject({
+      type: "todo",
+      props: { content: "Item", indent: 2, checked: false },
+    });
+  });
+
+  it("should turn rich text into plain code and back", () => {
+    const quote = createBlock("quote", {
+      content: "<p>a &lt; b</p><p>line<br>break</p>",
+    });
+
+    const code = convertBlock(quote, "code");
+    expect(code).toMatchObject({
+      type: "code",
+      props: { code: "a < b\n\nline\nbreak" },
+    });
+
+    expect(code && convertBlock(code, "paragraph")).toMatchObject({
+      props: { content: "a &lt; b<br><br>line<br>break" },
+    });
+  });
+
+  it("should return the block itself for its own type", () => {
+    const callout = createBlock("callout", { content: "Note" });
+
+    expect(convertBlock(callout, "callout")).toBe(callout);
+  });
+
+  it("should refuse blocks without text", () => {
+    expect(convertBlock(createBlock("divider"), "paragraph")).toBeUndefined();
+    expect(convertBlock(createBlock("columns"), "quote")).toBeUndefined();
+  });
+});
+
+describe("isConversionActive", () => {
+  it("should match the type and variant props", () => {
+    const heading = createBlock("heading", { level: "h1" });
+
+    expect(isConversionActive(heading, "heading")).toBe(true);
+    expect(
+      isConversionActive(heading, { type: "heading", props: { level: "h1" } })
+    ).toBe(true);
+    expect(
+      isConversionActive(heading, { type: "heading", props: { level: "h2" } })
+    ).toBe(false);
+    expect(isConversionActive(heading, "paragraph")).toBe(false);
+  });
+});
+
+describe("TURN_INTO_OPTIONS", () => {
+  it("should mark exactly one option active for each text block", () => {
+    const blocks = [
+      createBlock("paragraph"),
+      createBlock("heading", { level: "h3" }),
+      createBlock("code"),
+      createBlock("todo"),
+    ];
+    for (const block of blocks) {
+      const active = TURN_INTO_OPTIONS.filter((option) =>
+        isConversionActive(block, option.conversion)
+      );
+      expect(active).toHaveLength(1);
+    }
+  });
+});
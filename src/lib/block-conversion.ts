@@ -0,0 +1,177 @@
+import type { Block } from "@/types/blocks";
+import { escapeHtml } from "./clipboard-parser";
+import { createBlock } from "./utils";
+
+// ============================================================================
+// BLOCK CONVERSION
+// Text blocks can be turned into one another ("turn into"). The block keeps
+// its ID and its text; props both types share (alignment, list indent) carry
+// over and the rest start from the target type's defaults. Code blocks hold
+// plain text, so rich text loses its formatting on the way in and code is
+// escaped on the way out.
+// ============================================================================
+
+/** Block types a text block can be turned into, in menu order */
+export const CONVERTIBLE_BLOCK_TYPES = [
+  "paragraph",
+  "heading",
+  "quote",
+  "callout",
+  "code",
+  "bulleted-list",
+  "numbered-list",
+  "todo",
+] as const;
+
+export type ConvertibleBlockType = (typeof CONVERTIBLE_BLOCK_TYPES)[number];
+
+export type ConvertibleBlock = Extract<Block, { type: ConvertibleBlockType }>;
+
+/** Props picking a variant of the target type (e.g. a heading's level) */
+export type ConversionProps<T extends ConvertibleBlockType> = Partial<
+  Omit<Extract<Block, { type: T }>["props"], "id">
+>;
+
+/** What to turn a block into: a type, or a type with variant props */
+export type BlockConversion = {
+  [T in ConvertibleBlockType]: { type: T; props?: ConversionProps<T> };
+}[ConvertibleBlockType];
+
+// Props kept when both the source and target type have them
+const SHARED_PROPS = ["align", "indent"] as const;
+
+const BLOCK_BREAK_REGEX = /<\/(p|div|h[1-6]|li|blockquote)>/gi;
+const LINE_BREAK_REGEX = /<br\s*\/?>/gi;
+const NEWLINE_REGEX = /\r?\n/g;
+
+export function isConvertibleBlock(block: Block): block is ConvertibleBlock {
+  return (CONVERTIBLE_BLOCK_TYPES as readonly string[]).includes(block.type);
+}
+
+/**
+ * Plain text of rich text content, keeping line and paragraph breaks
+ */
+function richTextToPlainText(html: string): string {
+  const marked = html
+    .replace(LINE_BREAK_REGEX, "\n")
+    .replace(BLOCK_BREAK_REGEX, "</$1>\n\n");
+  const doc = new DOMParser().parseFromString(marked, "text/html");
+  return (doc.body.textContent ?? "").trim();
+}
+
+/**
+ * Rich text content of a convertible block (code is escaped)
+ */
+function getRichText(block: ConvertibleBlock): string {
+  return block.type === "code"
+    ? escapeHtml(block.props.code).replace(NEWLINE_REGEX, "<br>")
+    : block.props.content;
+}
+
+function toConversion(
+  conversion: ConvertibleBlockType | BlockConversion
+): BlockConversion {
+  return typeof conversion === "string" ? { type: conversion } : conversion;
+}
+
+/**
+ * Whether a block already is what the conversion would turn it into
+ */
+export function isConversionActive(
+  block: Block,
+  conversion: ConvertibleBlockType | BlockConversion
+): boolean {
+  const { type, props = {} } = toConversion(conversion);
+  return (
+    block.type === type &&
+    Object.entries(props).every(
+      ([key, value]) => (block.props as Record<string, unknown>)[key] === value
+    )
+  );
+}
+
+/**
+ * Turn a text block into another text type (or another variant of its own
+ * type), keeping its ID and text.
+ *
+ * @returns The converted block (the block itself if it already is what the
+ *   conversion asks for), or undefined if the block isn't a text block
+ */
+export function convertBlock(
+  block: Block,
+  conversion: ConvertibleBlockType | BlockConversion
+): Block | undefined {
+  if (!isConvertibleBlock(block)) {
+    return;
+  }
+  const { type, props: variant } = toConversion(conversion);
+  if (isConversionActive(block, conversion)) {
+    return block;
+  }
+  if (block.type === type) {
+    return { ...block, props: { ...block.props, ...variant } } as Block;
+  }
+
+  const props: Record<string, unknown> = {
+    ...createBlock(type).props,
+    ...variant,
+  };
+  props.id = block.props.id;
+  for (const key of SHARED_PROPS) {
+    if (key in props && key in block.props) {
+      props[key] = (block.props as Record<string, unknown>)[key];
+    }
+  }
+  const content = getRichText(block);
+  if (type === "code") {
+    props.code = richTextToPlainText(content);
+  } else {
+    props.content = content;
+  }
+  return { type, props } as Block;
+}
+
+// ============================================================================
+// TURN INTO
+// The targets offered by "turn into" menus. Every text block can be turned
+// into every option; headings come in their three levels.
+// ============================================================================
+
+export interface TurnIntoOption {
+  id: string;
+  label: string;
+  conversion: BlockConversion;
+}
+
+export const TURN_INTO_OPTIONS: TurnIntoOption[] = [
+  { id: "paragraph", label: "Text", conversion: { type: "paragraph" } },
+  {
+    id: "heading-1",
+    label: "Heading 1",
+    conversion: { type: "heading", props: { level: "h1" } },
+  },
+  {
+    id: "heading-2",
+    label: "Heading 2",
+    conversion: { type: "heading", props: { level: "h2" } },
+  },
+  {
+    id: "heading-3",
+    label: "Heading 3",
+    conversion: { type: "heading", props: { level: "h3" } },
+  },
+  { id: "quote", label: "Quote", conversion: { type: "quote" } },
+  { id: "callout", label: "Callout", conversion: { type: "callout" } },
+  { id: "code", label: "Code", conversion: { type: "code" } },
+  {
+    id: "bulleted-list",
+    label: "Bulleted list",
+    conversion: { type: "bulleted-list" },
+  },
+  {
+    id: "numbered-list",
+    label: "Numbered list",
+    conversion: { type: "numbered-list" },
+  },
+  { id: "todo", label: "To-do", conversion: { type: "todo" } },
+];
@@ -0,0 +1,220 @@
+/**
+ * Unit tests for block definitions.
+ * Tests registering a block type and how its blocks are created, resolved,
+ * rendered to HTML and Markdown, recognized in pasted HTML, described to
+ * and validated from the AI model, and labelled for screen readers.
+ */
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { z } from "zod";
+import type { Block, CustomBlock } from "@/types/blocks";
+import { generateBlockCatalogPrompt } from "./ai";
+import { validateAIBlocks } from "./ai-validation";
+import { getBlockLabel } from "./block-announcements";
+import {
+  type BlockDefinition,
+  createCustomBlock,
+  getBlockDefinitions,
+  getCustomBlockSummary,
+  registerBlock,
+  resolveCustomBlock,
+  subscribeBlockDefinitions,
+} from "./block-definitions";
+import { escapeHtml, parseHtmlToBlocks } from "./clipboard-parser";
+import { blockToHtml } from "./html-renderer";
+import { blockToMarkdown } from "./markdown-renderer";
+import { createBlock } from "./utils";
+
+const ProgressSchema = z.object({
+  label: z.string().default(""),
+  value: z.number().min(0).max(100).default(0),
+});
+
+type ProgressData = z.infer<typeof ProgressSchema>;
+
+const PROGRESS_BLOCK: BlockDefinition<ProgressData> = {
+  type: "progress",
+  name: "Progress Bar",
+  description: "A labelled progress bar",
+  schema: ProgressSchema,
+  defaultData: { label: "Progress", value: 0 },
+  component: () => null,
+  toHtml: ({ label, value }) =>
+    `<div class="progress" title="${value}">${escapeHtml(label)}<script>alert(1)</script></div>`,
+  toMarkdown: ({ label, value }) => `${label}: ${value}%`,
+  toText: ({ label }) => label,
+  isEmpty: ({ label }) => label.trim() === "",
+  parseHtml: (element) =>
+    element.classList.contains("progress")
+      ? {
+          label: element.textContent ?? "",
+          value: Number(element.getAttribute("title")),
+        }
+      : undefined,
+  prompt: "{ label: string, value: number (0-100) }",
+};
+
+let unregister: () => void;
+
+beforeEach(() => {
+  unregister = registerBlock(PROGRESS_BLOCK);
+});
+
+afterEach(() => {
+  unregister();
+});
+
+const getNone = () => undefined;
+
+describe("registerBlock", () => {
+  it("should replace a definition with the same type and remove it again", () => {
+    let calls = 0;
+    const unsubscribe = subscribeBlockDefinitions(() => {
+      calls += 1;
+    });
+    const removeRenamed = registerBlock({
+      ...PROGRESS_BLOCK,
+      name: "Meter",
+    });
+    expect(getBlockDefinitions().map((definition) => definition.name)).toEqual([
+      "Meter",
+    ]);
+    // The replaced registration no longer removes anything
+    unregister();
+    expect(getBlockDefinitions()).toHaveLength(1);
+    removeRenamed();
+    expect(getBlockDefinitions()).toHaveLength(0);
+    expect(calls).toBe(2);
+    unsubscribe();
+  });
+});
+
+describe("createCustomBlock", () => {
+  it("should start from the default data", () => {
+    const block = createCustomBlock("progress", { value: 40 });
+    expect(block.type).toBe("custom");
+    expect(block.props.blockType).toBe("progress");
+    expect(block.props.data).toEqual({ label: "Progress", value: 40 });
+  });
+
+  it("should throw for an unregistered type", () => {
+    expect(() => createCustomBlock("kanban")).toThrow("kanban");
+  });
+});
+
+describe("resolveCustomBlock", () => {
+  it("should apply the schema's defaults", () => {
+    const block = createBlock("custom", {
+      blockType: "progress",
+      data: { value: 10 },
+    });
+    expect(resolveCustomBlock(block)?.data).toEqual({ label: "", value: 10 });
+  });
+
+  it("should not resolve unregistered types or invalid data", () => {
+    const unknown = createBlock("custom", { blockType: "kanban" });
+    const invalid = createBlock("custom", {
+      blockType: "progress",
+      data: { value: 400 },
+    });
+    expect(resolveCustomBlock(unknown)).toBeUndefined();
+    expect(resolveCustomBlock(invalid)).toBeUndefined();
+    expect(getCustomBlockSummary(unknown)).toBe("kanban");
+  });
+});
+
+describe("output", () => {
+  it("should render HTML through the definition, sanitized", () => {
+    const html = blockToHtml(
+      createCustomBlock("progress", { label: "<b>Upload</b>", value: 40 }),
+      getNone
+    );
+    expect(html).toContain('class="progress"');
+    expect(html).toContain("&lt;b&gt;Upload&lt;/b&gt;");
+    expect(html).not.toContain("<script");
+  });
+
+  it("should render Markdown through the definition", () => {
+    const block = createCustomBlock("progress", { label: "Upload", value: 40 });
+    expect(blockToMarkdown(block, getNone)).toBe("Upload: 40%");
+    expect(getCustomBlockSummary(block)).toBe("Upload");
+  });
+
+  it("should fall back to the sanitized HTML for Markdown", () => {
+    const removeFallback = registerBlock({
+      ...PROGRESS_BLOCK,
+      toMarkdown: undefined,
+    });
+    const markdown = blockToMarkdown(
+      createCustomBlock("progress", { label: "Upload", value: 40 }),
+      getNone
+    );
+    removeFallback();
+
+    expect(markdown).toContain('class="progress"');
+    expect(markdown).not.toContain("<script");
+  });
+
+  it("should leave blocks of unregistered types out", () => {
+    const block = createBlock("custom", { blockType: "kanban" });
+    expect(blockToHtml(block, getNone)).toBe("");
+    expect(blockToMarkdown(block, getNone)).toBe("");
+  });
+});
+
+describe("parseHtmlToBlocks", () => {
+  it("should recognize registered types before the built-in ones", () => {
+    const [block, paragraph] = parseHtmlToBlocks(
+      '<div class="progress" title="75">Build</div><p>After</p>'
+    ) as [CustomBlock, Block];
+    expect(block.props.blockType).toBe("progress");
+    expect(block.props.data).toEqual({ label: "Build", value: 75 });
+    expect(paragraph.type).toBe("paragraph");
+  });
+
+  it("should drop blocks the definition considers empty", () => {
+    expect(parseHtmlToBlocks('<div class="progress" title="5"></div>')).toEqual(
+      []
+    );
+  });
+});
+
+describe("AI", () => {
+  it("should describe registered types in the catalog prompt", () => {
+    const prompt = generateBlockCatalogPrompt();
+    expect(prompt).toContain('blockType "progress" (Progress Bar)');
+    expect(prompt).toContain("{ label: string, value: number (0-100) }");
+    unregister();
+    expect(generateBlockCatalogPrompt()).not.toContain("13. custom");
+  });
+
+  it("should accept valid custom blocks with defaults applied", () => {
+    const { blocks, errors } = validateAIBlocks([
+      { type: "custom", props: { blockType: "progress", data: { value: 5 } } },
+    ]);
+    expect(errors).toEqual([]);
+    expect((blocks[0] as CustomBlock).props.data).toEqual({
+      label: "",
+      value: 5,
+    });
+  });
+
+  it("should reject unknown types and invalid data", () => {
+    const { blocks, errors } = validateAIBlocks([
+      { type: "custom", props: { blockType: "kanban" } },
+      { type: "custom", props: { blockType: "progress", data: { value: -1 } } },
+    ]);
+    expect(blocks).toEqual([]);
+    expect(errors.map((error) => error.path)).toEqual(["0", "1"]);
+    expect(errors[0].message).toContain('"kanban"');
+    expect(errors[1].message).toContain("data.value");
+  });
+});
+
+describe("getBlockLabel", () => {
+  it("should name custom blocks after their definition", () => {
+    expect(getBlockLabel(createCustomBlock("progress"))).toBe("Progress Bar");
+    expect(getBlockLabel(createBlock("custom", { blockType: "kanban" }))).toBe(
+      "Custom"
+    );
+  });
+});
@@ -0,0 +1,255 @@
+import type { ComponentType } from "react";
+import type { z } from "zod";
+import { createBlock } from "@/lib/utils";
+import type { CustomBlock } from "@/types/blocks";
+import { sanitizeHtml } from "./clipboard-parser";
+
+// ============================================================================
+// BLOCK DEFINITIONS
+// Block types added by the host app without touching the built-in ones. A
+// definition is registered once and supplies everything the editor needs
+// for the type: the schema and defaults of its data, the component editing
+// it, HTML and Markdown output, a hook recognizing it in pasted HTML, its
+// description in the AI prompt and its palette command.
+//
+// Such blocks are stored as "custom" blocks: props.blockType names the
+// definition and props.data holds the fields its schema describes. Stored
+// data is only checked against the schema when the block is read, so a
+// document still opens when a definition is missing or has changed; the
+// block then shows as unavailable and is left out of exports.
+// ============================================================================
+
+/** Block data: the fields a definition's schema describes */
+export type BlockData = Record<string, unknown>;
+
+/** Props of a definition's editor component */
+export interface CustomBlockComponentProps<TData extends BlockData> {
+  blockId: string;
+  data: TData;
+  /** Merges changes into the block's data */
+  onChange: (changes: Partial<TData>) => void;
+}
+
+/** Palette command inserting a block of the type (see command-registry) */
+export interface BlockDefinitionCommand {
+  /** Defaults to the definition's name */
+  label?: string;
+  /** Defaults to "Custom Blocks" */
+  group?: string;
+  aliases?: string[];
+  keywords?: string[];
+  shortcut?: string;
+}
+
+export interface BlockDefinition<TData extends BlockData = BlockData> {
+  /** Unique name stored in props.blockType, e.g. "kanban" */
+  type: string;
+  /** Shown in the palette and read out by screen readers */
+  name: string;
+  description: string;
+  icon?: ComponentType<{ className?: string }>;
+  /** Validates the block's data; defaults it declares fill missing fields */
+  schema: z.ZodType<TData>;
+  /** Data of a newly inserted block */
+  defaultData: TData;
+  /** Edits the block in the editor */
+  component: ComponentType<CustomBlockComponentProps<TData>>;
+  /** Semantic HTML for previews, copies and exports (sanitized afterwards) */
+  toHtml: (data: TData) => string;
+  /** Markdown output; the HTML is used when absent (Markdown allows HTML) */
+  toMarkdown?: (data: TData) => string;
+  /** Plain text summary for version history; the name when absent */
+  toText?: (data: TData) => string;
+  /** Empty blocks are dropped from pasted content */
+  isEmpty?: (data: TData) => boolean;
+  /**
+   * Recognizes the type in pasted HTML (after sanitizing, which keeps
+   * classes but not data attributes), returning its data or undefined for
+   * elements that aren't this type
+   */
+  parseHtml?: (element: Element) => BlockData | undefined;
+  /** The data's fields as described to the AI model, e.g. '{ title: string }' */
+  prompt: string;
+  /** Palette command inserting the block; false for none */
+  command?: BlockDefinitionCommand | false;
+}
+
+/** A custom block's definition and its data, checked against the schema */
+export interface ResolvedCustomBlock {
+  definition: BlockDefinition;
+  data: BlockData;
+}
+
+const definitions = new Map<string, BlockDefinition>();
+let definitionList: BlockDefinition[] = [];
+const listeners = new Set<() => void>();
+
+function setDefinitions() {
+  definitionList = [...definitions.values()];
+  for (const listener of listeners) {
+    listener();
+  }
+}
+
+/**
+ * Register a block type (replacing one registered under the same type)
+ *
+ * @returns Removes the definition again
+ */
+export function registerBlock<TData extends BlockData>(
+  definition: BlockDefinition<TData>
+): () => void {
+  // Definitions are stored with their data type erased
+  const stored = definition as unknown as BlockDefinition;
+  definitions.set(definition.type, stored);
+  setDefinitions();
+  return () => {
+    if (definitions.get(definition.type) === stored) {
+      definitions.delete(definition.type);
+      setDefinitions();
+    }
+  };
+}
+
+export function getBlockDefinition(
+  blockType: string
+): BlockDefinition | undefined {
+  return definitions.get(blockType);
+}
+
+/** Registered definitions, in order (the same array until they change) */
+export function getBlockDefinitions(): BlockDefinition[] {
+  return definitionList;
+}
+
+/** Called whenever a definition is registered or removed */
+export function subscribeBlockDefinitions(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * A block of a registered type, with its default data overridden by `data`
+ *
+ * @throws Error if no definition is registered for the type
+ */
+export function createCustomBlock(
+  blockType: string,
+  data: BlockData = {}
+): CustomBlock {
+  const definition = definitions.get(blockType);
+  if (!definition) {
+    throw new Error(`No block definition registered for "${blockType}"`);
+  }
+  return createBlock("custom", {
+    blockType,
+    data: { ...structuredClone(definition.defaultData), ...data },
+  });
+}
+
+/**
+ * A custom block's definition and data with the schema's defaults applied,
+ * or undefined if its type isn't registered or its data doesn't match
+ */
+export function resolveCustomBlock(
+  block: CustomBlock
+): ResolvedCustomBlock | undefined {
+  const definition = definitions.get(block.props.blockType);
+  const result = definition?.schema.safeParse(block.props.data);
+  return definition && result?.success
+    ? { definition, data: result.data }
+    : undefined;
+}
+
+/**
+ * Why a custom block can't be used ("" if it can), for validating blocks
+ * from outside the editor such as AI output
+ */
+export function getCustomBlockError(block: CustomBlock): string {
+  const definition = definitions.get(block.props.blockType);
+  if (!definition) {
+    return `Unknown custom block type "${block.props.blockType}"`;
+  }
+  const result = definition.schema.safeParse(block.props.data);
+  return result.success
+    ? ""
+    : result.error.issues
+        .map((issue) => `data.${issue.path.join(".")}: ${issue.message}`)
+        .join("; ");
+}
+
+/**
+ * The definition's HTML for a custom block, sanitized ("" if it can't be
+ * resolved)
+ */
+export function customBlockToHtml(block: CustomBlock): string {
+  const resolved = resolveCustomBlock(block);
+  return resolved
+    ? sanitizeHtml(resolved.definition.toHtml(resolved.data))
+    : "";
+}
+
+/**
+ * The definition's Markdown for a custom block, or its sanitized HTML when
+ * it has none ("" if it can't be resolved)
+ */
+export function customBlockToMarkdown(block: CustomBlock): string {
+  const resolved = resolveCustomBlock(block);
+  if (!resolved) {
+    return "";
+  }
+  const { definition, data } = resolved;
+  return definition.toMarkdown?.(data) ?? customBlockToHtml(block);
+}
+
+/**
+ * Plain text describing a custom block for change lists
+ */
+export function getCustomBlockSummary(block: CustomBlock): string {
+  const resolved = resolveCustomBlock(block);
+  if (!resolved) {
+    return block.props.blockType;
+  }
+  const { definition, data } = resolved;
+  return definition.toText?.(data) || definition.name;
+}
+
+export function isCustomBlockEmpty(block: CustomBlock): boolean {
+  const resolved = resolveCustomBlock(block);
+  return resolved?.definition.isEmpty?.(resolved.data) ?? false;
+}
+
+/**
+ * A block for a pasted element claimed by a registered type's parseHtml
+ * hook (the first to claim it wins)
+ */
+export function parseCustomBlockElement(
+  element: Element
+): CustomBlock | undefined {
+  for (const definition of definitionList) {
+    const data = definition.parseHtml?.(element);
+    const result = data && definition.schema.safeParse(data);
+    if (result?.success) {
+      return createBlock("custom", {
+        blockType: definition.type,
+        data: result.data,
+      });
+    }
+  }
+  return;
+}
+
+/**
+ * The registered types as listed in the AI catalog prompt ("" if none)
+ */
+export function generateCustomBlockPrompt(): string {
+  return definitionList
+    .map(
+      (definition) =>
+        `   - blockType "${definition.type}" (${definition.name}): ${definition.description}
+     data: ${definition.prompt}`
+    )
+    .join("\n");
+}
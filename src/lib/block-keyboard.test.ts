@@ -0,0 +1,109 @@
+/**
+ * Unit tests for keys leaving a block's text.
+ * Tests Enter at the end, Backspace in an empty block and modifier keys in a
+ * TipTap editor, and the arrow and Backspace keys in a code text area.
+ */
+import { afterEach, describe, expect, it } from "bun:test";
+import { Editor } from "@tiptap/react";
+import StarterKit from "@tiptap/starter-kit";
+import { getBlockKeyAction, getTextareaKeyAction } from "./block-keyboard";
+
+let editor: Editor | undefined;
+
+afterEach(() => {
+  editor?.destroy();
+  editor = undefined;
+});
+
+/** An editor with the caret at a position */
+function createEditor(content: string, caret: number): Editor {
+  editor = new Editor({ extensions: [StarterKit], content });
+  editor.commands.setTextSelection(caret);
+  return editor;
+}
+
+function key(name: string, init: KeyboardEventInit = {}): KeyboardEvent {
+  return new KeyboardEvent("keydown", { key: name, ...init });
+}
+
+describe("getBlockKeyAction", () => {
+  it("should start a new block on Enter at the end only", () => {
+    expect(
+      getBlockKeyAction(createEditor("<p>Hello</p>", 6).view, key("Enter"))
+    ).toEqual({ type: "enter-at-end", isEmpty: false });
+    expect(
+      getBlockKeyAction(createEditor("<p>Hello</p>", 3).view, key("Enter"))
+    ).toBeUndefined();
+    // End of the first of two paragraphs
+    expect(
+      getBlockKeyAction(
+        createEditor("<p>One</p><p>Two</p>", 4).view,
+        key("Enter")
+      )
+    ).toBeUndefined();
+  });
+
+  it("should report Enter in an empty block", () => {
+    expect(
+      getBlockKeyAction(createEditor("<p></p>", 1).view, key("Enter"))
+    ).toEqual({ type: "enter-at-end", isEmpty: true });
+  });
+
+  it("should delete on Backspace only when empty", () => {
+    expect(
+      getBlockKeyAction(createEditor("<p></p>", 1).view, key("Backspace"))
+    ).toEqual({ type: "backspace-empty" });
+    expect(
+      getBlockKeyAction(createEditor("<p>a</p>", 1).view, key("Backspace"))
+    ).toBeUndefined();
+  });
+
+  it("should leave modified keys to the editor", () => {
+    const { view } = createEditor("<p>Hello</p>", 6);
+
+    expect(
+      getBlockKeyAction(view, key("Enter", { shiftKey: true }))
+    ).toBeUndefined();
+    expect(
+      getBlockKeyAction(view, key("ArrowDown", { metaKey: true }))
+    ).toBeUndefined();
+  });
+});
+
+describe("getTextareaKeyAction", () => {
+  function createTextarea(value: string, caret: number) {
+    const textarea = window.document.createElement("textarea");
+    textarea.value = value;
+    textarea.setSelectionRange(caret, caret);
+    return textarea;
+  }
+
+  it("should leave on the first and last line", () => {
+    const textarea = createTextarea("one\ntwo", 2);
+
+    expect(getTextareaKeyAction(textarea, key("ArrowUp"))).toEqual({
+      type: "exit",
+      direction: "up",
+    });
+    expect(getTextareaKeyAction(textarea, key("ArrowDown"))).toBeUndefined();
+
+    textarea.setSelectionRange(5, 5);
+    expect(getTextareaKeyAction(textarea, key("ArrowUp"))).toBeUndefined();
+    expect(getTextareaKeyAction(textarea, key("ArrowDown"))).toEqual({
+      type: "exit",
+      direction: "down",
+    });
+  });
+
+  it("should keep Enter and delete only when empty", () => {
+    expect(
+      getTextareaKeyAction(createTextarea("", 0), key("Enter"))
+    ).toBeUndefined();
+    expect(
+      getTextareaKeyAction(createTextarea("", 0), key("Backspace"))
+    ).toEqual({ type: "backspace-empty" });
+    expect(
+      getTextareaKeyAction(createTextarea("x", 1), key("Backspace"))
+    ).toBeUndefined();
+  });
+});
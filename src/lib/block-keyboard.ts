@@ -0,0 +1,120 @@
+import type { EditorView } from "@tiptap/pm/view";
+import type { SlashMenu } from "./slash-menu";
+
+// ============================================================================
+// BLOCK KEYBOARD
+// Keys at the edges of a block's text leave the block: Enter at the end
+// starts a new block after it, Backspace in an empty block deletes it, and
+// the arrow keys on the first or last line move to the neighbouring block.
+// Anywhere else the keys keep their usual meaning inside the editor.
+// ============================================================================
+
+/** Something typed in a block's text that acts on the block itself */
+export type BlockKeyAction =
+  | { type: "enter-at-end"; isEmpty: boolean }
+  | { type: "backspace-empty" }
+  | { type: "exit"; direction: "up" | "down" }
+  /** "---" typed at the start of the block (see markdown-shortcuts) */
+  | { type: "insert-divider" }
+  /** A slash menu opened, changed or closed (see slash-menu) */
+  | { type: "slash-menu"; menu: SlashMenu | undefined };
+
+function hasModifier(event: KeyboardEvent): boolean {
+  return event.shiftKey || event.altKey || event.metaKey || event.ctrlKey;
+}
+
+/**
+ * Whether the caret is at the very end of the text, in a top-level
+ * paragraph (not inside a list or quote nested in the text)
+ */
+function isCaretAtEnd(view: EditorView): boolean {
+  const { selection, doc } = view.state;
+  const { $head } = selection;
+  return (
+    selection.empty &&
+    $head.depth === 1 &&
+    $head.index(0) === doc.childCount - 1 &&
+    $head.parentOffset === $head.parent.content.size
+  );
+}
+
+/**
+ * Whether an arrow key would move the caret out of the text: it is on the
+ * first line of the first paragraph (up) or the last line of the last (down)
+ */
+function isCaretOnEdgeLine(
+  view: EditorView,
+  direction: "up" | "down"
+): boolean {
+  const { selection, doc } = view.state;
+  const edgeIndex = direction === "up" ? 0 : doc.childCount - 1;
+  return (
+    selection.empty &&
+    selection.$head.index(0) === edgeIndex &&
+    view.endOfTextblock(direction)
+  );
+}
+
+/**
+ * What a key pressed in a block's text editor does to the block, if it
+ * leaves the text
+ */
+export function getBlockKeyAction(
+  view: EditorView,
+  event: KeyboardEvent
+): BlockKeyAction | undefined {
+  if (event.isComposing || hasModifier(event)) {
+    return;
+  }
+  const isEmpty =
+    view.state.doc.childCount === 1 &&
+    view.state.doc.firstChild?.content.size === 0;
+
+  switch (event.key) {
+    case "Enter":
+      return isCaretAtEnd(view) ? { type: "enter-at-end", isEmpty } : undefined;
+    case "Backspace":
+      return isEmpty ? { type: "backspace-empty" } : undefined;
+    case "ArrowUp":
+    case "ArrowDown": {
+      const direction = event.key === "ArrowUp" ? "up" : "down";
+      return isCaretOnEdgeLine(view, direction)
+        ? { type: "exit", direction }
+        : undefined;
+    }
+    default:
+      return;
+  }
+}
+
+/**
+ * What a key pressed in a plain text area (a code block) does to the block:
+ * Enter stays a newline, so only Backspace and the arrows leave it
+ */
+export function getTextareaKeyAction(
+  textarea: HTMLTextAreaElement,
+  event: KeyboardEvent
+): BlockKeyAction | undefined {
+  const { value, selectionStart, selectionEnd } = textarea;
+  if (
+    event.isComposing ||
+    hasModifier(event) ||
+    selectionStart !== selectionEnd
+  ) {
+    return;
+  }
+  switch (event.key) {
+    case "Backspace":
+      return value === "" ? { type: "backspace-empty" } : undefined;
+    case "ArrowUp":
+      return value.slice(0, selectionStart).includes("\n")
+        ? undefined
+        : { type: "exit", direction: "up" };
+    case "ArrowDown":
+      return value.slice(selectionStart).includes("\n")
+        ? undefined
+        : { type: "exit", direction: "down" };
+    default:
+      return;
+  }
+}
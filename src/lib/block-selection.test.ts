@@ -0,0 +1,227 @@
+/**
+ * Unit tests for multi-block selection helpers.
+ * Tests lifting selections to one container, ranges, moving blocks one
+ * place, and the bulk
+ * duplicate, wrap-in-columns and convert operations.
+ */
+import { describe, expect, it } from "bun:test";
+import type { Block, BlockDocument } from "@/types/blocks";
+import {
+  convertBlocksInDocument,
+  duplicateBlocksInDocument,
+  getBlockRange,
+  getNudgeLocation,
+  getSiblingBlockId,
+  liftToCommonContainer,
+  normalizeSelection,
+  wrapBlocksInColumnsInDocument,
+} from "./block-selection";
+import { createBlock, createDocument } from "./utils";
+
+/**
+ * Root: a, b, cols, c. The columns block holds `left` in column 0 and
+ * `right` in column 1.
+ */
+function createSelectionDocument() {
+  const [a, b, c, left, right] = ["A", "B", "C", "Left", "Right"].map(
+    (content) => createBlock("paragraph", { content })
+  );
+  const cols = createBlock("columns", {
+    columns: [[left.props.id], [right.props.id]],
+  });
+  const blocks: Block[] = [a, b, cols, c, left, right];
+  const doc: BlockDocument = {
+    ...createDocument(),
+    blocks: Object.fromEntries(blocks.map((block) => [block.props.id, block])),
+    rootBlockIds: [a.props.id, b.props.id, cols.props.id, c.props.id],
+  };
+  const ids = {
+    a: a.props.id,
+    b: b.props.id,
+    c: c.props.id,
+    cols: cols.props.id,
+    left: left.props.id,
+    right: right.props.id,
+  };
+  return { doc, ids };
+}
+
+function getColumns(doc: BlockDocument, blockId: string): string[][] {
+  const block = doc.blocks[blockId];
+  return block?.type === "columns" ? block.props.columns : [];
+}
+
+describe("liftToCommonContainer", () => {
+  it("should keep siblings in reading order", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    expect(liftToCommonContainer(doc, [ids.c, ids.a])).toEqual([ids.a, ids.c]);
+  });
+
+  it("should lift nested blocks to their ancestor", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    expect(liftToCommonContainer(doc, [ids.a, ids.left])).toEqual([
+      ids.a,
+      ids.cols,
+    ]);
+    // Different columns of the same block
+    expect(liftToCommonContainer(doc, [ids.left, ids.right])).toEqual([
+      ids.cols,
+    ]);
+    expect(liftToCommonContainer(doc, [ids.cols, ids.right])).toEqual([
+      ids.cols,
+    ]);
+  });
+
+  it("should ignore missing blocks", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    expect(liftToCommonContainer(doc, ["missing", ids.b])).toEqual([ids.b]);
+    expect(liftToCommonContainer(doc, ["missing"])).toEqual([]);
+  });
+});
+
+describe("getBlockRange", () => {
+  it("should select every sibling between two blocks", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    expect(getBlockRange(doc, ids.c, ids.b)).toEqual([ids.b, ids.cols, ids.c]);
+    expect(getBlockRange(doc, ids.a, ids.right)).toEqual([
+      ids.a,
+      ids.b,
+      ids.cols,
+    ]);
+  });
+});
+
+describe("getSiblingBlockId", () => {
+  it("should stay within the container", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    expect(getSiblingBlockId(doc, ids.b, 1)).toBe(ids.cols);
+    expect(getSiblingBlockId(doc, ids.left, 1)).toBeUndefined();
+  });
+});
+
+describe("getNudgeLocation", () => {
+  it("should move blocks one place within their container", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    expect(getNudgeLocation(doc, [ids.b, ids.cols], -1)).toEqual({
+      container: { type: "root" },
+      index: 0,
+    });
+    expect(getNudgeLocation(doc, [ids.b, ids.cols], 1)).toEqual({
+      container: { type: "root" },
+      index: 2,
+    });
+  });
+
+  it("should stop at either end of the container", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    expect(getNudgeLocation(doc, [ids.a], -1)).toBeUndefined();
+    expect(getNudgeLocation(doc, [ids.cols, ids.c], 1)).toBeUndefined();
+    expect(getNudgeLocation(doc, [ids.left], 1)).toBeUndefined();
+  });
+});
+
+describe("normalizeSelection", () => {
+  it("should drop blocks inside other selected blocks", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    expect(normalizeSelection(doc, [ids.left, ids.cols, ids.a])).toEqual([
+      ids.a,
+      ids.cols,
+    ]);
+  });
+});
+
+describe("duplicateBlocksInDocument", () => {
+  it("should insert copies after the last selected block", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    const copies = duplicateBlocksInDocument(doc, [ids.b, ids.cols]);
+
+    expect(copies).toHaveLength(2);
+    expect(doc.rootBlockIds).toEqual([
+      ids.a,
+      ids.b,
+      ids.cols,
+      ...copies,
+      ids.c,
+    ]);
+    const [leftCopy] = getColumns(doc, copies[1])[0];
+    expect(leftCopy).not.toBe(ids.left);
+    expect(doc.blocks[leftCopy]).toMatchObject({ props: { content: "Left" } });
+  });
+
+  it("should copy within a column", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    const [copy] = duplicateBlocksInDocument(doc, [ids.left]);
+
+    expect(getColumns(doc, ids.cols)[0]).toEqual([ids.left, copy]);
+  });
+});
+
+describe("wrapBlocksInColumnsInDocument", () => {
+  it("should put each block in its own column where the first was", () => {
+    const { doc, ids } = createSelectionDocument();
+    const wrapper = createBlock("columns");
+
+    expect(wrapBlocksInColumnsInDocument(doc, [ids.c, ids.b], wrapper)).toBe(
+      true
+    );
+
+    expect(doc.rootBlockIds).toEqual([ids.a, wrapper.props.id, ids.cols]);
+    expect(getColumns(doc, wrapper.props.id)).toEqual([[ids.b], [ids.c]]);
+  });
+
+  it("should add an empty column for a single block", () => {
+    const { doc, ids } = createSelectionDocument();
+    const wrapper = createBlock("columns");
+
+    wrapBlocksInColumnsInDocument(doc, [ids.left], wrapper);
+
+    expect(getColumns(doc, ids.cols)[0]).toEqual([wrapper.props.id]);
+    expect(getColumns(doc, wrapper.props.id)).toEqual([[ids.left], []]);
+  });
+
+  it("should share the last column past six blocks", () => {
+    const paragraphs = Array.from({ length: 8 }, () =>
+      createBlock("paragraph")
+    );
+    const doc: BlockDocument = {
+      ...createDocument(),
+      blocks: Object.fromEntries(
+        paragraphs.map((block) => [block.props.id, block])
+      ),
+      rootBlockIds: paragraphs.map((block) => block.props.id),
+    };
+    const wrapper = createBlock("columns");
+
+    wrapBlocksInColumnsInDocument(doc, doc.rootBlockIds, wrapper);
+
+    const columns = getColumns(doc, wrapper.props.id);
+    expect(columns).toHaveLength(6);
+    expect(columns[5]).toHaveLength(3);
+    expect(doc.rootBlockIds).toEqual([wrapper.props.id]);
+  });
+});
+
+describe("convertBlocksInDocument", () => {
+  it("should convert text blocks and skip others", () => {
+    const { doc, ids } = createSelectionDocument();
+
+    expect(convertBlocksInDocument(doc, [ids.a, ids.cols], "heading")).toEqual([
+      ids.a,
+    ]);
+    expect(doc.blocks[ids.a]).toMatchObject({
+      type: "heading",
+      props: { id: ids.a, content: "A" },
+    });
+    expect(doc.blocks[ids.cols]?.type).toBe("columns");
+  });
+});
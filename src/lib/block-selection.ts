@@ -0,0 +1,259 @@
+import {
+  type BlockDocument,
+  type ColumnsBlock,
+  MAX_COLUMNS,
+} from "@/types/blocks";
+import {
+  type BlockConversion,
+  type ConvertibleBlockType,
+  convertBlock,
+} from "./block-conversion";
+import {
+  type BlockLocation,
+  type BlockTreeCopy,
+  copyBlockTrees,
+  detachBlocks,
+  findBlockLocation,
+  getContainerBlockIds,
+  getContainerKey,
+  getDescendantIds,
+  insertBlockIds,
+  sortBlockIds,
+} from "./block-tree";
+import { setColumnCount } from "./columns";
+
+// ============================================================================
+// BLOCK SELECTION
+// A multi-block selection is a run of sibling blocks in one container (the
+// root list or one column). Selecting blocks at different depths selects
+// their ancestors in the deepest container holding all of them, the way a
+// text selection spanning two paragraphs covers the whole of both. Bulk
+// operations below change the document in place, so the store can run each
+// as a single update (and a single undo step).
+// ============================================================================
+
+/**
+ * IDs from a root-level block down to the block itself
+ */
+function getBlockPath(doc: BlockDocument, blockId: string): string[] {
+  const path = [blockId];
+  let location = findBlockLocation(doc, blockId);
+  while (location?.container.type === "column") {
+    const parentId = location.container.columnId;
+    // A malformed document could nest a block inside itself
+    if (path.includes(parentId)) {
+      break;
+    }
+    path.unshift(parentId);
+    location = findBlockLocation(doc, parentId);
+  }
+  return path;
+}
+
+/**
+ * Lift blocks to the deepest container holding all of them: each block is
+ * replaced by its ancestor in that container. If one block contains all the
+ * others, only it is kept.
+ *
+ * @returns Distinct sibling IDs in reading order
+ */
+export function liftToCommonContainer(
+  doc: BlockDocument,
+  blockIds: string[]
+): string[] {
+  const paths = blockIds
+    .filter((blockId) => doc.blocks[blockId])
+    .map((blockId) => getBlockPath(doc, blockId));
+  if (paths.length === 0) {
+    return [];
+  }
+
+  // Length of the ancestry every path shares
+  let depth = 0;
+  while (
+    paths.every((path) => depth < path.length - 1) &&
+    paths.every((path) => path[depth] === paths[0][depth])
+  ) {
+    depth++;
+  }
+
+  const candidates = paths.map((path) => path[depth]);
+  const containers = new Set(
+    candidates.map((blockId) => {
+      const location = findBlockLocation(doc, blockId);
+      return location ? getContainerKey(location.container) : "";
+    })
+  );
+  // Blocks in different columns of one columns block lift to that block
+  const lifted =
+    containers.size > 1 && depth > 0 ? [paths[0][depth - 1]] : candidates;
+  return sortBlockIds(doc, lifted);
+}
+
+/**
+ * Blocks from one block to another, inclusive, after lifting both to a
+ * common container (see liftToCommonContainer).
+ */
+export function getBlockRange(
+  doc: BlockDocument,
+  anchorId: string,
+  focusId: string
+): string[] {
+  const lifted = liftToCommonContainer(doc, [anchorId, focusId]);
+  const [first, last] = [lifted[0], lifted.at(-1)];
+  const location = first ? findBlockLocation(doc, first) : undefined;
+  if (!(location && last)) {
+    return lifted;
+  }
+  const siblings = getContainerBlockIds(doc, location.container);
+  return siblings.slice(location.index, siblings.indexOf(last) + 1);
+}
+
+/**
+ * The sibling `offset` places away from a block in its container, or
+ * undefined past either end
+ */
+export function getSiblingBlockId(
+  doc: BlockDocument,
+  blockId: string,
+  offset: number
+): string | undefined {
+  const location = findBlockLocation(doc, blockId);
+  if (!location) {
+    return;
+  }
+  return getContainerBlockIds(doc, location.container)[location.index + offset];
+}
+
+/**
+ * Where a run of sibling blocks lands when moved one place up (-1) or down
+ * (1) in its container, indexed as for moveBlocksInDocument; undefined at
+ * either end of the container
+ */
+export function getNudgeLocation(
+  doc: BlockDocument,
+  blockIds: string[],
+  offset: -1 | 1
+): BlockLocation | undefined {
+  const first = findBlockLocation(doc, blockIds[0] ?? "");
+  if (!first) {
+    return;
+  }
+  const count = getContainerBlockIds(doc, first.container).length;
+  const index = first.index + offset;
+  if (index < 0 || index + blockIds.length > count) {
+    return;
+  }
+  return { container: first.container, index };
+}
+
+/**
+ * Drop selected blocks that no longer exist or sit inside another selected
+ * block (they come along with it), in reading order.
+ */
+export function normalizeSelection(
+  doc: BlockDocument,
+  blockIds: string[]
+): string[] {
+  const nested = new Set<string>();
+  for (const blockId of blockIds) {
+    for (const descendantId of getDescendantIds(doc, blockId)) {
+      nested.add(descendantId);
+    }
+  }
+  return sortBlockIds(
+    doc,
+    blockIds.filter((blockId) => !nested.has(blockId))
+  );
+}
+
+/**
+ * Copy blocks, with their contents, right after the last of them.
+ *
+ * @param copy - Copies to insert, if already made (see copyBlockTrees)
+ * @returns IDs of the copies in reading order (empty if nothing was copied)
+ */
+export function duplicateBlocksInDocument(
+  doc: BlockDocument,
+  blockIds: string[],
+  copy: BlockTreeCopy = copyBlockTrees(doc, normalizeSelection(doc, blockIds))
+): string[] {
+  const last = normalizeSelection(doc, blockIds).at(-1);
+  const location = last ? findBlockLocation(doc, last) : undefined;
+  if (!location) {
+    return [];
+  }
+  Object.assign(doc.blocks, copy.blocks);
+  insertBlockIds(
+    doc,
+    copy.rootBlockIds,
+    location.index + 1,
+    location.container
+  );
+  return copy.rootBlockIds;
+}
+
+/**
+ * Put blocks into a new columns block where the first of them was, one
+ * block per column. Past MAX_COLUMNS, the remaining blocks share the last
+ * column.
+ *
+ * @param columnsBlock - Empty columns block to wrap them in
+ * @returns False (and leaves the document untouched) if there is nothing to wrap
+ */
+export function wrapBlocksInColumnsInDocument(
+  doc: BlockDocument,
+  blockIds: string[],
+  columnsBlock: ColumnsBlock
+): boolean {
+  const selected = normalizeSelection(doc, blockIds);
+  const first = selected[0];
+  const location = first ? findBlockLocation(doc, first) : undefined;
+  if (!location) {
+    return false;
+  }
+
+  // Position of the first block once the blocks are taken out
+  const selectedIds = new Set(selected);
+  const index = getContainerBlockIds(doc, location.container)
+    .slice(0, location.index)
+    .filter((blockId) => !selectedIds.has(blockId)).length;
+  detachBlocks(doc, selectedIds);
+
+  const columnsId = columnsBlock.props.id;
+  doc.blocks[columnsId] = {
+    ...columnsBlock,
+    props: {
+      ...columnsBlock.props,
+      ...setColumnCount(
+        { columns: selected.map((blockId) => [blockId]), widths: [] },
+        Math.min(selected.length, MAX_COLUMNS)
+      ),
+    },
+  };
+  insertBlockIds(doc, [columnsId], index, location.container);
+  return true;
+}
+
+/**
+ * Turn blocks into another text type (see convertBlock). Blocks that can't
+ * be converted are left as they are.
+ *
+ * @returns IDs of the blocks that changed
+ */
+export function convertBlocksInDocument(
+  doc: BlockDocument,
+  blockIds: string[],
+  conversion: ConvertibleBlockType | BlockConversion
+): string[] {
+  const changed: string[] = [];
+  for (const blockId of blockIds) {
+    const block = doc.blocks[blockId];
+    const converted = block ? convertBlock(block, conversion) : undefined;
+    if (converted && converted !== block) {
+      doc.blocks[blockId] = converted;
+      changed.push(blockId);
+    }
+  }
+  return changed;
+}
@@ -0,0 +1,362 @@
+/**
+ * Unit tests for the block tree helpers.
+ * Tests locating blocks and their neighbours, inserting, moving (one or
+ * several), removing and copying them, and refusing moves that would nest a
+ * columns block inside itself.
+ */
+import { describe, expect, it } from "bun:test";
+import { createBlock, createDocument } from "@/lib/utils";
+import type { Block, BlockDocument } from "@/types/blocks";
+import {
+  type BlockContainer,
+  canMoveBlock,
+  copyBlockTrees,
+  findBlockLocation,
+  getAdjacentBlockId,
+  getBlockOrder,
+  getContainerKey,
+  getDescendantIds,
+  insertBlockNextTo,
+  moveBlockInDocument,
+  moveBlocksInDocument,
+  parseContainerKey,
+  ROOT_CONTAINER,
+  removeBlocksInDocument,
+  resolveDropLocation,
+} from "./block-tree";
+
+const column = (columnId: string, columnIndex: number): BlockContainer => ({
+  type: "column",
+  columnId,
+  columnIndex,
+});
+
+/**
+ * Root: intro, outer columns, outro. The outer columns hold `left` and an
+ * inner columns block (holding `deep`) in column 0, and `right` in column 1.
+ */
+function createNestedDocument() {
+  const intro = createBlock("paragraph", { content: "Intro" });
+  const outro = createBlock("paragraph", { content: "Outro" });
+  const left = createBlock("paragraph", { content: "Left" });
+  const right = createBlock("paragraph", { content: "Right" });
+  const deep = createBlock("paragraph", { content: "Deep" });
+  const inner = createBlock("columns", {
+    columns: [[deep.props.id], []],
+  });
+  const outer = createBlock("columns", {
+    columns: [[left.props.id, inner.props.id], [right.props.id]],
+  });
+  const blocks: Block[] = [intro, outer, outro, left, right, inner, deep];
+  const doc: BlockDocument = {
+    ...createDocument(),
+    blocks: Object.fromEntries(blocks.map((block) => [block.props.id, block])),
+    rootBlockIds: [intro.props.id, outer.props.id, outro.props.id],
+  };
+  const ids = {
+    intro: intro.props.id,
+    outro: outro.props.id,
+    left: left.props.id,
+    right: right.props.id,
+    deep: deep.props.id,
+    inner: inner.props.id,
+    outer: outer.props.id,
+  };
+  return { doc, ids };
+}
+
+function getColumns(
+  doc: Pick<BlockDocument, "blocks">,
+  blockId: string
+): string[][] {
+  const block = doc.blocks[blockId];
+  return block?.type === "columns" ? block.props.columns : [];
+}
+
+describe("container keys", () => {
+  it("should round-trip", () => {
+    for (const container of [ROOT_CONTAINER, column("a:b", 2)]) {
+      expect(parseContainerKey(getContainerKey(container))).toEqual(container);
+    }
+  });
+
+  it("should not parse block IDs", () => {
+    expect(parseContainerKey("4f1c2d")).toBeUndefined();
+    expect(parseContainerKey("column:abc")).toBeUndefined();
+  });
+});
+
+describe("findBlockLocation", () => {
+  it("should find root and nested blocks", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(findBlockLocation(doc, ids.outro)).toEqual({
+      container: ROOT_CONTAINER,
+      index: 2,
+    });
+    expect(findBlockLocation(doc, ids.deep)).toEqual({
+      container: column(ids.inner, 0),
+      index: 0,
+    });
+    expect(findBlockLocation(doc, "missing")).toBeUndefined();
+  });
+});
+
+describe("getDescendantIds", () => {
+  it("should include blocks at every depth", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect([...getDescendantIds(doc, ids.outer)].sort()).toEqual(
+      [ids.left, ids.inner, ids.deep, ids.right].sort()
+    );
+    expect(getDescendantIds(doc, ids.intro).size).toBe(0);
+  });
+
+  it("should terminate on a cycle", () => {
+    const { doc, ids } = createNestedDocument();
+    getColumns(doc, ids.inner)[1].push(ids.outer);
+
+    expect(getDescendantIds(doc, ids.outer).has(ids.deep)).toBe(true);
+  });
+});
+
+describe("canMoveBlock", () => {
+  it("should refuse to put a columns block inside itself", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(canMoveBlock(doc, ids.outer, column(ids.outer, 1))).toBe(false);
+    expect(canMoveBlock(doc, ids.outer, column(ids.inner, 1))).toBe(false);
+    expect(canMoveBlock(doc, ids.inner, column(ids.outer, 1))).toBe(true);
+    expect(canMoveBlock(doc, ids.inner, ROOT_CONTAINER)).toBe(true);
+  });
+
+  it("should refuse missing columns", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(canMoveBlock(doc, ids.intro, column(ids.outer, 2))).toBe(false);
+    expect(canMoveBlock(doc, ids.intro, column(ids.left, 0))).toBe(false);
+  });
+});
+
+describe("moveBlockInDocument", () => {
+  it("should move a block from the root into a nested column", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(moveBlockInDocument(doc, ids.intro, 0, column(ids.inner, 1))).toBe(
+      true
+    );
+    expect(doc.rootBlockIds).toEqual([ids.outer, ids.outro]);
+    expect(getColumns(doc, ids.inner)).toEqual([[ids.deep], [ids.intro]]);
+  });
+
+  it("should move a columns block out to the root with its contents", () => {
+    const { doc, ids } = createNestedDocument();
+
+    moveBlockInDocument(doc, ids.inner, 3, ROOT_CONTAINER);
+
+    expect(doc.rootBlockIds).toEqual([
+      ids.intro,
+      ids.outer,
+      ids.outro,
+      ids.inner,
+    ]);
+    expect(getColumns(doc, ids.outer)).toEqual([[ids.left], [ids.right]]);
+    expect(getColumns(doc, ids.inner)[0]).toEqual([ids.deep]);
+  });
+
+  it("should leave the document untouched when the move makes a cycle", () => {
+    const { doc, ids } = createNestedDocument();
+    const before = structuredClone(doc);
+
+    expect(moveBlockInDocument(doc, ids.outer, 0, column(ids.inner, 1))).toBe(
+      false
+    );
+    expect(doc).toEqual(before);
+  });
+});
+
+describe("moveBlocksInDocument", () => {
+  it("should move blocks from different lists together in reading order", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(
+      moveBlocksInDocument(doc, [ids.right, ids.intro], 1, ROOT_CONTAINER)
+    ).toBe(true);
+    expect(doc.rootBlockIds).toEqual([
+      ids.outer,
+      ids.intro,
+      ids.right,
+      ids.outro,
+    ]);
+    expect(getColumns(doc, ids.outer)).toEqual([[ids.left, ids.inner], []]);
+  });
+});
+
+describe("removeBlocksInDocument", () => {
+  it("should remove blocks with their nested contents", () => {
+    const { doc, ids } = createNestedDocument();
+
+    removeBlocksInDocument(doc, [ids.inner, ids.intro]);
+
+    expect(doc.rootBlockIds).toEqual([ids.outer, ids.outro]);
+    expect(getColumns(doc, ids.outer)).toEqual([[ids.left], [ids.right]]);
+    expect(doc.blocks[ids.deep]).toBeUndefined();
+  });
+});
+
+describe("copyBlockTrees", () => {
+  it("should copy nested blocks with new IDs and references", () => {
+    const { doc, ids } = createNestedDocument();
+
+    const copy = copyBlockTrees(doc, [ids.outer, ids.intro]);
+
+    expect(copy.rootBlockIds).toHaveLength(2);
+    expect(Object.keys(copy.blocks)).toHaveLength(6);
+    const [outerCopy] = copy.rootBlockIds;
+    const [[leftCopy, innerCopy]] = getColumns(copy, outerCopy);
+    expect(leftCopy).not.toBe(ids.left);
+    expect(copy.blocks[leftCopy]).toMatchObject({
+      props: { content: "Left" },
+    });
+    expect(getColumns(copy, innerCopy)[0]).toHaveLength(1);
+    // The original is untouched
+    expect(getColumns(doc, ids.outer)[0]).toEqual([ids.left, ids.inner]);
+  });
+});
+
+describe("getBlockOrder", () => {
+  it("should list blocks depth first, column by column", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(getBlockOrder(doc)).toEqual([
+      ids.intro,
+      ids.outer,
+      ids.left,
+      ids.inner,
+      ids.deep,
+      ids.right,
+      ids.outro,
+    ]);
+  });
+});
+
+describe("getAdjacentBlockId", () => {
+  it("should step through reading order, in and out of columns", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(getAdjacentBlockId(doc, ids.intro, 1)).toBe(ids.outer);
+    expect(getAdjacentBlockId(doc, ids.right, -1)).toBe(ids.deep);
+    expect(getAdjacentBlockId(doc, ids.intro, -1)).toBeUndefined();
+  });
+
+  it("should skip blocks that aren't targets", () => {
+    const { doc, ids } = createNestedDocument();
+    const isParagraph = (block: Block) => block.type === "paragraph";
+
+    expect(getAdjacentBlockId(doc, ids.intro, 1, isParagraph)).toBe(ids.left);
+    expect(getAdjacentBlockId(doc, ids.left, 1, isParagraph)).toBe(ids.deep);
+  });
+});
+
+describe("insertBlockNextTo", () => {
+  it("should insert into the other block's container", () => {
+    const { doc, ids } = createNestedDocument();
+    const before = createBlock("divider");
+    const after = createBlock("paragraph");
+
+    expect(insertBlockNextTo(doc, before, ids.left, "before")).toBe(true);
+    expect(insertBlockNextTo(doc, after, ids.outro, "after")).toBe(true);
+
+    expect(getColumns(doc, ids.outer)[0]).toEqual([
+      before.props.id,
+      ids.left,
+      ids.inner,
+    ]);
+    expect(doc.rootBlockIds.at(-1)).toBe(after.props.id);
+    expect(doc.blocks[after.props.id]).toBe(after);
+  });
+
+  it("should leave the document alone if the other block isn't placed", () => {
+    const { doc } = createNestedDocument();
+    const block = createBlock("paragraph");
+
+    expect(insertBlockNextTo(doc, block, "missing", "after")).toBe(false);
+    expect(doc.blocks[block.props.id]).toBeUndefined();
+  });
+});
+
+describe("resolveDropLocation", () => {
+  it("should reorder within a list", () => {
+    const { doc, ids } = createNestedDocument();
+
+    // Dropping intro after outro: two blocks down, index 2 once it's removed
+    expect(resolveDropLocation(doc, [ids.intro], ids.outro, true)).toEqual({
+      container: ROOT_CONTAINER,
+      index: 2,
+    });
+    expect(resolveDropLocation(doc, [ids.outro], ids.intro)).toEqual({
+      container: ROOT_CONTAINER,
+      index: 0,
+    });
+  });
+
+  it("should move between columns", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(resolveDropLocation(doc, [ids.right], ids.left)).toEqual({
+      container: column(ids.outer, 0),
+      index: 0,
+    });
+  });
+
+  it("should append when dropped on a list", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(
+      resolveDropLocation(
+        doc,
+        [ids.intro],
+        getContainerKey(column(ids.inner, 1))
+      )
+    ).toEqual({ container: column(ids.inner, 1), index: 0 });
+  });
+
+  it("should ignore drops in place and into the block itself", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(resolveDropLocation(doc, [ids.outer], ids.outer)).toBeUndefined();
+    expect(resolveDropLocation(doc, [ids.intro], ids.outer)).toBeUndefined();
+    expect(resolveDropLocation(doc, [ids.outer], ids.deep)).toBeUndefined();
+    expect(
+      resolveDropLocation(
+        doc,
+        [ids.outer],
+        getContainerKey(column(ids.inner, 1))
+      )
+    ).toBeUndefined();
+  });
+
+  it("should move several blocks together, counting without them", () => {
+    const { doc, ids } = createNestedDocument();
+
+    // intro and outer dropped after outro: outro is left at 0
+    expect(
+      resolveDropLocation(doc, [ids.intro, ids.outer], ids.outro, true)
+    ).toEqual({ container: ROOT_CONTAINER, index: 1 });
+    expect(
+      resolveDropLocation(doc, [ids.intro, ids.outer], ids.outro)
+    ).toBeUndefined();
+    expect(resolveDropLocation(doc, [ids.intro, ids.outro], ids.left)).toEqual({
+      container: column(ids.outer, 0),
+      index: 0,
+    });
+  });
+
+  it("should refuse a group drop that one block can't make", () => {
+    const { doc, ids } = createNestedDocument();
+
+    expect(
+      resolveDropLocation(doc, [ids.intro, ids.inner], ids.deep)
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,484 @@
+import type { Block, BlockDocument } from "@/types/blocks";
+import { generateId } from "./utils";
+
+// ============================================================================
+// BLOCK TREE
+// Blocks live in containers: the document's root list or one column of a
+// columns block. Columns blocks can sit inside columns, so the document is a
+// tree. These helpers find where a block is, move, remove and copy blocks
+// (one or several at a time) and refuse moves that would put a columns block
+// inside itself.
+// ============================================================================
+
+/** A list of blocks: the root list or one column of a columns block */
+export type BlockContainer =
+  | { type: "root" }
+  | { type: "column"; columnId: string; columnIndex: number };
+
+export const ROOT_CONTAINER: BlockContainer = { type: "root" };
+
+/** Where a block sits: its container and its index in it */
+export interface BlockLocation {
+  container: BlockContainer;
+  index: number;
+}
+
+const COLUMN_CONTAINER_PREFIX = "column:";
+
+/**
+ * Stable string key for a container (used as a drag-and-drop droppable ID)
+ */
+export function getContainerKey(container: BlockContainer): string {
+  return container.type === "root"
+    ? "root"
+    : `${COLUMN_CONTAINER_PREFIX}${container.columnId}:${container.columnIndex}`;
+}
+
+/**
+ * Parse a key made by getContainerKey, or undefined if it isn't one
+ */
+export function parseContainerKey(key: string): BlockContainer | undefined {
+  if (key === "root") {
+    return ROOT_CONTAINER;
+  }
+  if (!key.startsWith(COLUMN_CONTAINER_PREFIX)) {
+    return;
+  }
+  const rest = key.slice(COLUMN_CONTAINER_PREFIX.length);
+  const separator = rest.lastIndexOf(":");
+  const columnIndex = Number(rest.slice(separator + 1));
+  if (separator <= 0 || !Number.isInteger(columnIndex) || columnIndex < 0) {
+    return;
+  }
+  return { type: "column", columnId: rest.slice(0, separator), columnIndex };
+}
+
+/**
+ * IDs of the blocks in a container (empty if the container doesn't exist)
+ */
+export function getContainerBlockIds(
+  doc: BlockDocument,
+  container: BlockContainer
+): string[] {
+  if (container.type === "root") {
+    return doc.rootBlockIds;
+  }
+  const parent = doc.blocks[container.columnId];
+  return parent?.type === "columns"
+    ? (parent.props.columns[container.columnIndex] ?? [])
+    : [];
+}
+
+/**
+ * Find the container a block is in
+ */
+export function findBlockLocation(
+  doc: BlockDocument,
+  blockId: string
+): BlockLocation | undefined {
+  const rootIndex = doc.rootBlockIds.indexOf(blockId);
+  if (rootIndex !== -1) {
+    return { container: ROOT_CONTAINER, index: rootIndex };
+  }
+  for (const block of Object.values(doc.blocks)) {
+    if (block.type !== "columns") {
+      continue;
+    }
+    for (const [columnIndex, column] of block.props.columns.entries()) {
+      const index = column.indexOf(blockId);
+      if (index !== -1) {
+        return {
+          container: { type: "column", columnId: block.props.id, columnIndex },
+          index,
+        };
+      }
+    }
+  }
+  return;
+}
+
+/**
+ * IDs of all blocks nested in a block's columns, at any depth
+ */
+export function getDescendantIds(
+  doc: BlockDocument,
+  blockId: string
+): Set<string> {
+  const descendants = new Set<string>();
+  const pending = [blockId];
+  while (pending.length > 0) {
+    const block = doc.blocks[pending.pop() ?? ""];
+    if (block?.type !== "columns") {
+      continue;
+    }
+    for (const childId of block.props.columns.flat()) {
+      // Skip repeats so a malformed document with a cycle still terminates
+      if (childId !== blockId && !descendants.has(childId)) {
+        descendants.add(childId);
+        pending.push(childId);
+      }
+    }
+  }
+  return descendants;
+}
+
+/**
+ * Whether a block may move into a container: a columns block can't go into
+ * one of its own columns, or a column of a block nested in it.
+ */
+export function canMoveBlock(
+  doc: BlockDocument,
+  blockId: string,
+  container: BlockContainer
+): boolean {
+  if (container.type === "root") {
+    return true;
+  }
+  const parent = doc.blocks[container.columnId];
+  if (
+    parent?.type !== "columns" ||
+    container.columnIndex >= parent.props.columns.length
+  ) {
+    return false;
+  }
+  return (
+    container.columnId !== blockId &&
+    !getDescendantIds(doc, blockId).has(container.columnId)
+  );
+}
+
+/**
+ * Every block ID in reading order: each block is followed by the contents
+ * of its columns, column by column.
+ */
+export function getBlockOrder(doc: BlockDocument): string[] {
+  const order: string[] = [];
+  const visited = new Set<string>();
+  const visit = (blockIds: string[]) => {
+    for (const blockId of blockIds) {
+      const block = doc.blocks[blockId];
+      if (!block || visited.has(blockId)) {
+        continue;
+      }
+      visited.add(blockId);
+      order.push(blockId);
+      if (block.type === "columns") {
+        for (const column of block.props.columns) {
+          visit(column);
+        }
+      }
+    }
+  };
+  visit(doc.rootBlockIds);
+  return order;
+}
+
+/**
+ * The nearest block before (-1) or after (1) a block in reading order that
+ * matches `isTarget` (e.g. the previous text block, wherever it is)
+ */
+export function getAdjacentBlockId(
+  doc: BlockDocument,
+  blockId: string,
+  offset: -1 | 1,
+  isTarget: (block: Block) => boolean = () => true
+): string | undefined {
+  const order = getBlockOrder(doc);
+  const start = order.indexOf(blockId);
+  if (start === -1) {
+    return;
+  }
+  for (
+    let index = start + offset;
+    index >= 0 && index < order.length;
+    index += offset
+  ) {
+    const block = doc.blocks[order[index]];
+    if (block && isTarget(block)) {
+      return block.props.id;
+    }
+  }
+  return;
+}
+
+/**
+ * Sort block IDs into reading order, dropping ones not in the document
+ */
+export function sortBlockIds(doc: BlockDocument, blockIds: string[]): string[] {
+  const order = getBlockOrder(doc);
+  const ids = new Set(blockIds);
+  return order.filter((blockId) => ids.has(blockId));
+}
+
+/**
+ * Take blocks out of the root list and every column, in place (they stay in
+ * the map)
+ */
+export function detachBlocks(doc: BlockDocument, blockIds: Set<string>): void {
+  doc.rootBlockIds = doc.rootBlockIds.filter((id) => !blockIds.has(id));
+  for (const block of Object.values(doc.blocks)) {
+    if (block.type === "columns") {
+      doc.blocks[block.props.id] = {
+        ...block,
+        props: {
+          ...block.props,
+          columns: block.props.columns.map((column) =>
+            column.filter((id) => !blockIds.has(id))
+          ),
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Insert block IDs into a container at an index, in place. The blocks must
+ * already be in the map and not placed anywhere else.
+ */
+export function insertBlockIds(
+  doc: BlockDocument,
+  blockIds: string[],
+  targetIndex: number,
+  container: BlockContainer
+): void {
+  if (container.type === "root") {
+    doc.rootBlockIds.splice(targetIndex, 0, ...blockIds);
+    return;
+  }
+  const parent = doc.blocks[container.columnId];
+  if (parent?.type === "columns") {
+    const columns = [...parent.props.columns];
+    const column = [...columns[container.columnIndex]];
+    column.splice(targetIndex, 0, ...blockIds);
+    columns[container.columnIndex] = column;
+    doc.blocks[container.columnId] = {
+      ...parent,
+      props: { ...parent.props, columns },
+    };
+  }
+}
+
+/**
+ * Add a block to the map and place it right before or after another block,
+ * in that block's container, in place
+ *
+ * @returns False (and leaves the document untouched) if the other block
+ *   isn't placed anywhere
+ */
+export function insertBlockNextTo(
+  doc: BlockDocument,
+  block: Block,
+  targetId: string,
+  side: "before" | "after"
+): boolean {
+  const location = findBlockLocation(doc, targetId);
+  if (!location) {
+    return false;
+  }
+  doc.blocks[block.props.id] = block;
+  insertBlockIds(
+    doc,
+    [block.props.id],
+    side === "before" ? location.index : location.index + 1,
+    location.container
+  );
+  return true;
+}
+
+/**
+ * Move blocks to an index in a container, in place, keeping their reading
+ * order. The index is counted after the blocks are taken out of their
+ * current containers.
+ *
+ * @returns False (and leaves the document untouched) if any block is missing
+ *   or the move isn't allowed for one of them
+ */
+export function moveBlocksInDocument(
+  doc: BlockDocument,
+  blockIds: string[],
+  targetIndex: number,
+  container: BlockContainer
+): boolean {
+  if (
+    blockIds.length === 0 ||
+    !blockIds.every(
+      (blockId) => doc.blocks[blockId] && canMoveBlock(doc, blockId, container)
+    )
+  ) {
+    return false;
+  }
+  const ordered = sortBlockIds(doc, blockIds);
+  detachBlocks(doc, new Set(ordered));
+  insertBlockIds(doc, ordered, targetIndex, container);
+  return true;
+}
+
+/**
+ * Move a block to an index in a container, in place. The index is counted
+ * after the block is taken out of its current container.
+ *
+ * @returns False (and leaves the document untouched) if the move isn't allowed
+ */
+export function moveBlockInDocument(
+  doc: BlockDocument,
+  blockId: string,
+  targetIndex: number,
+  container: BlockContainer
+): boolean {
+  return moveBlocksInDocument(doc, [blockId], targetIndex, container);
+}
+
+/**
+ * Remove blocks, and every block nested in their columns, in place
+ */
+export function removeBlocksInDocument(
+  doc: BlockDocument,
+  blockIds: string[]
+): void {
+  const removed = new Set<string>();
+  for (const blockId of blockIds) {
+    removed.add(blockId);
+    for (const descendantId of getDescendantIds(doc, blockId)) {
+      removed.add(descendantId);
+    }
+  }
+  detachBlocks(doc, removed);
+  for (const blockId of removed) {
+    delete doc.blocks[blockId];
+  }
+}
+
+/** Copies of blocks made by copyBlockTrees */
+export interface BlockTreeCopy {
+  /** Every copied block, nested ones included, by new ID */
+  blocks: Record<string, Block>;
+  /** New IDs of the copied blocks themselves, in the order given */
+  rootBlockIds: string[];
+}
+
+/**
+ * Copy blocks and everything nested in their columns, giving each copy a
+ * new ID. Column references inside the copies point at the copied children.
+ * Missing blocks are skipped, as are repeats (so a cycle can't recurse).
+ *
+ * @param source - Where the blocks are looked up (a document or a fragment)
+ */
+export function copyBlockTrees(
+  source: Pick<BlockDocument, "blocks">,
+  blockIds: string[]
+): BlockTreeCopy {
+  const blocks: Record<string, Block> = {};
+  const copied = new Set<string>();
+
+  const copy = (blockId: string): string | undefined => {
+    const block = source.blocks[blockId];
+    if (!block || copied.has(blockId)) {
+      return;
+    }
+    copied.add(blockId);
+    const id = generateId();
+    const props = structuredClone(block.props);
+    props.id = id;
+    if (block.type === "columns" && "columns" in props) {
+      props.columns = block.props.columns.map((column) =>
+        column
+          .map((childId) => copy(childId))
+          .filter((childId): childId is string => childId !== undefined)
+      );
+    }
+    blocks[id] = { ...block, props } as Block;
+    return id;
+  };
+
+  const rootBlockIds = blockIds
+    .map((blockId) => copy(blockId))
+    .filter((blockId): blockId is string => blockId !== undefined);
+  return { blocks, rootBlockIds };
+}
+
+/**
+ * Where dragged blocks land when dropped over another block or an empty
+ * part of a container. Several blocks (a multi-block selection) move
+ * together and keep their reading order.
+ *
+ * @param blockIds - Blocks being dragged
+ * @param overId - Block or container key (getContainerKey) under the pointer
+ * @param placeAfter - Drop after the block under the pointer, not before it
+ * @returns The target location, with the index counted as for
+ *   moveBlocksInDocument, or undefined if the drop does nothing or isn't allowed
+ */
+export function resolveDropLocation(
+  doc: BlockDocument,
+  blockIds: string[],
+  overId: string,
+  placeAfter = false
+): BlockLocation | undefined {
+  const sources = blockIds
+    .map((blockId) => findBlockLocation(doc, blockId))
+    .filter((source): source is BlockLocation => source !== undefined);
+  if (
+    sources.length === 0 ||
+    sources.length !== blockIds.length ||
+    blockIds.includes(overId)
+  ) {
+    return;
+  }
+
+  let target: BlockLocation | undefined;
+  const overContainer = parseContainerKey(overId);
+  if (overContainer) {
+    // Empty space in a container: append
+    const ids = getContainerBlockIds(doc, overContainer);
+    target = { container: overContainer, index: ids.length };
+  } else {
+    const over = findBlockLocation(doc, overId);
+    if (over) {
+      target = {
+        container: over.container,
+        index: over.index + (placeAfter ? 1 : 0),
+      };
+    }
+  }
+  const container = target?.container;
+  if (
+    !(
+      target &&
+      container &&
+      blockIds.every((blockId) => canMoveBlock(doc, blockId, container))
+    )
+  ) {
+    return;
+  }
+
+  // The blocks leave their containers first, shifting later blocks up
+  const moved = new Set(blockIds);
+  const index =
+    target.index -
+    getContainerBlockIds(doc, container)
+      .slice(0, target.index)
+      .filter((blockId) => moved.has(blockId)).length;
+  if (isInPlace(sources, container, index)) {
+    return;
+  }
+  return { container, index };
+}
+
+/**
+ * Whether blocks already sit together at `index` of `container`
+ */
+function isInPlace(
+  sources: BlockLocation[],
+  container: BlockContainer,
+  index: number
+): boolean {
+  const key = getContainerKey(container);
+  const indexes = sources
+    .filter((source) => getContainerKey(source.container) === key)
+    .map((source) => source.index)
+    .sort((a, b) => a - b);
+  return (
+    indexes.length === sources.length &&
+    indexes[0] === index &&
+    indexes.every((value, position) => value === index + position)
+  );
+}
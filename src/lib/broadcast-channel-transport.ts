@@ -0,0 +1,45 @@
+import type {
+  CollaborationMessage,
+  CollaborationMessageListener,
+  CollaborationTransport,
+} from "./collaboration";
+
+// ============================================================================
+// BROADCASTCHANNEL TRANSPORT
+// Connects tabs of the same browser profile; no server needed.
+// ============================================================================
+
+/**
+ * Create a transport that talks to other tabs in the same room.
+ *
+ * @param room - Room name (e.g. the document ID)
+ * @returns Collaboration transport
+ */
+export function createBroadcastChannelTransport(
+  room: string
+): CollaborationTransport {
+  const channel = new BroadcastChannel(`block-editor:collab:${room}`);
+  const listeners = new Set<CollaborationMessageListener>();
+
+  channel.onmessage = (event: MessageEvent<CollaborationMessage>) => {
+    for (const listener of listeners) {
+      listener(event.data);
+    }
+  };
+
+  return {
+    send(message) {
+      channel.postMessage(message);
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close() {
+      listeners.clear();
+      channel.close();
+    },
+  };
+}
@@ -5,12 +5,16 @@
 import { describe, expect, it } from "bun:test";
 import type {
   Block,
+  BulletedListBlock,
   CodeBlock,
   DividerBlock,
   HeadingBlock,
   ImageBlock,
+  NumberedListBlock,
   ParagraphBlock,
   QuoteBlock,
+  TableBlock,
+  TodoBlock,
 } from "@/types/blocks";
 import {
   parseHtmlToBlocks,
@@ -43,6 +47,22 @@ function isImage(block: Block): block is ImageBlock {
   return block.type === "image";
 }
 
+function isBulletedList(block: Block): block is BulletedListBlock {
+  return block.type === "bulleted-list";
+}
+
+function isNumberedList(block: Block): block is NumberedListBlock {
+  return block.type === "numbered-list";
+}
+
+function isTodo(block: Block): block is TodoBlock {
+  return block.type === "todo";
+}
+
+function isTable(block: Block): block is TableBlock {
+  return block.type === "table";
+}
+
 // =============================================================================
 // sanitizeHtml() Tests
 // =============================================================================
@@ -160,6 +180,33 @@ describe("sanitizeHtml", () => {
     expect(result).toContain('rel="noopener"');
     expect(result).toContain('target="_blank"');
   });
+
+  it("should only keep inputs that are task list checkboxes", () => {
+    const html = `
+      <p>Name <input type="text" value="x"><input type="password"><input type="checkbox"></p>
+      <ul><li><input type="checkbox" checked> Done</li><li><input type="text"> Field</li></ul>
+    `;
+    const result = sanitizeHtml(html);
+
+    expect(result).not.toContain('type="text"');
+    expect(result).not.toContain("password");
+    expect(result.match(/<input/g)).toHaveLength(1);
+    expect(result).toContain('<li><input type="checkbox" checked="">');
+  });
+
+  it("should drop non-checkbox inputs from pasted paragraphs and lists", () => {
+    const blocks = parseHtmlToBlocks(
+      '<p>Name <input type="text"></p><ul><li><input type="search"> Item</li></ul>'
+    );
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      "paragraph",
+      "bulleted-list",
+    ]);
+    for (const block of blocks) {
+      expect(JSON.stringify(block.props)).not.toContain("input");
+    }
+  });
 });
 
 // =============================================================================
@@ -433,30 +480,44 @@ describe("parseHtmlToBlocks", () => {
   });
 
   describe("lists", () => {
-    it("should preserve unordered lists as HTML in paragraph", () => {
+    it("should convert unordered lists into bulleted list items", () => {
       const html = "<ul><li>Item 1</li><li>Item 2</li></ul>";
       const blocks = parseHtmlToBlocks(html);
 
-      expect(blocks).toHaveLength(1);
-      expect(blocks[0].type).toBe("paragraph");
-      if (isParagraph(blocks[0])) {
-        expect(blocks[0].props.content).toContain("<ul>");
-        expect(blocks[0].props.content).toContain("<li>");
+      expect(blocks).toHaveLength(2);
+      expect(blocks.map((b) => b.type)).toEqual([
+        "bulleted-list",
+        "bulleted-list",
+      ]);
+      if (isBulletedList(blocks[0])) {
+        expect(blocks[0].props.content).toBe("Item 1");
+        expect(blocks[0].props.indent).toBe(0);
       }
     });
 
-    it("should preserve ordered lists as HTML in paragraph", () => {
+    it("should convert ordered lists into numbered list items", () => {
       const html = "<ol><li>First</li><li>Second</li></ol>";
       const blocks = parseHtmlToBlocks(html);
 
-      expect(blocks).toHaveLength(1);
-      expect(blocks[0].type).toBe("paragraph");
-      if (isParagraph(blocks[0])) {
-        expect(blocks[0].props.content).toContain("<ol>");
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0].type).toBe("numbered-list");
+      if (isNumberedList(blocks[0])) {
+        expect(blocks[0].props.content).toBe("First");
+        expect(blocks[0].props.start).toBeUndefined();
+      }
+    });
+
+    it("should keep a custom start index on the first numbered item", () => {
+      const html = '<ol start="4"><li>Fourth</li><li>Fifth</li></ol>';
+      const blocks = parseHtmlToBlocks(html);
+
+      if (isNumberedList(blocks[0]) && isNumberedList(blocks[1])) {
+        expect(blocks[0].props.start).toBe(4);
+        expect(blocks[1].props.start).toBeUndefined();
       }
     });
 
-    it("should preserve nested list structure", () => {
+    it("should flatten nested lists into indented items", () => {
       const html = `
         <ul>
           <li>Parent
@@ -469,19 +530,55 @@ describe("parseHtmlToBlocks", () => {
       `;
       const blocks = parseHtmlToBlocks(html);
 
-      expect(blocks).toHaveLength(1);
-      if (isParagraph(blocks[0])) {
-        expect(blocks[0].props.content).toContain("<ul>");
-        // Should contain nested ul
-        expect(
-          (blocks[0].props.content.match(/<ul>/g) || []).length
-        ).toBeGreaterThanOrEqual(2);
+      expect(blocks).toHaveLength(3);
+      const indents = blocks.map((b) =>
+        isBulletedList(b) ? b.props.indent : -1
+      );
+      expect(indents).toEqual([0, 1, 1]);
+      if (isBulletedList(blocks[0])) {
+        expect(blocks[0].props.content).toBe("Parent");
+        expect(blocks[0].props.content).not.toContain("<ul>");
       }
     });
+
+    it("should convert task list items with checkboxes into to-do items", () => {
+      const html = `
+        <ul>
+          <li><input type="checkbox" checked> Done</li>
+          <li><input type="checkbox"> Pending</li>
+        </ul>
+      `;
+      const blocks = parseHtmlToBlocks(html);
+
+      expect(blocks).toHaveLength(2);
+      if (isTodo(blocks[0]) && isTodo(blocks[1])) {
+        expect(blocks[0].props.checked).toBe(true);
+        expect(blocks[0].props.content).toBe("Done");
+        expect(blocks[1].props.checked).toBe(false);
+      } else {
+        throw new Error("Expected to-do blocks");
+      }
+    });
+
+    it("should preserve inline formatting in list items", () => {
+      const html = "<ul><li><strong>Bold</strong> item</li></ul>";
+      const blocks = parseHtmlToBlocks(html);
+
+      if (isBulletedList(blocks[0])) {
+        expect(blocks[0].props.content).toBe("<strong>Bold</strong> item");
+      }
+    });
+
+    it("should skip empty list items", () => {
+      const html = "<ul><li></li><li>Real</li></ul>";
+      const blocks = parseHtmlToBlocks(html);
+
+      expect(blocks).toHaveLength(1);
+    });
   });
 
   describe("tables", () => {
-    it("should flatten table rows into paragraphs with pipe separators", () => {
+    it("should convert tables into a table block", () => {
       const html = `
         <table>
           <tr><td>Cell 1</td><td>Cell 2</td></tr>
@@ -490,18 +587,42 @@ describe("parseHtmlToBlocks", () => {
       `;
       const blocks = parseHtmlToBlocks(html);
 
-      expect(blocks).toHaveLength(2);
-      expect(blocks[0].type).toBe("paragraph");
-      expect(blocks[1].type).toBe("paragraph");
-      if (isParagraph(blocks[0])) {
-        expect(blocks[0].props.content).toBe("Cell 1 | Cell 2");
+      expect(blocks).toHaveLength(1);
+      expect(blocks[0].type).toBe("table");
+      if (isTable(blocks[0])) {
+        expect(blocks[0].props.rows).toEqual([
+          ["Cell 1", "Cell 2"],
+          ["Cell 3", "Cell 4"],
+        ]);
+        expect(blocks[0].props.hasHeaderRow).toBe(false);
       }
-      if (isParagraph(blocks[1])) {
-        expect(blocks[1].props.content).toBe("Cell 3 | Cell 4");
+    });
+
+    it("should keep the rows of nested tables out of the outer table", () => {
+      const html = `
+        <table>
+          <thead><tr><th>Name</th><th>Details</th></tr></thead>
+          <tbody>
+            <tr>
+              <td>Outer</td>
+              <td><table><tr><td>Inner 1</td><td>Inner 2</td><td>Inner 3</td></tr></table></td>
+            </tr>
+          </tbody>
+        </table>
+      `;
+      const [block] = parseHtmlToBlocks(html);
+
+      if (!isTable(block)) {
+        throw new Error("Expected a table block");
       }
+      expect(block.props.rows).toHaveLength(2);
+      expect(block.props.rows[0]).toEqual(["Name", "Details"]);
+      expect(block.props.rows[1]).toHaveLength(2);
+      expect(block.props.rows[1][0]).toBe("Outer");
+      expect(block.props.rows[1][1]).toContain("Inner 1");
     });
 
-    it("should handle tables with header rows", () => {
+    it("should detect header rows in thead", () => {
       const html = `
         <table>
           <thead><tr><th>Name</th><th>Age</th></tr></thead>
@@ -510,12 +631,27 @@ describe("parseHtmlToBlocks", () => {
       `;
       const blocks = parseHtmlToBlocks(html);
 
-      expect(blocks).toHaveLength(2);
-      if (isParagraph(blocks[0])) {
-        expect(blocks[0].props.content).toBe("Name | Age");
+      expect(blocks).toHaveLength(1);
+      if (isTable(blocks[0])) {
+        expect(blocks[0].props.hasHeaderRow).toBe(true);
+        expect(blocks[0].props.rows).toEqual([
+          ["Name", "Age"],
+          ["Alice", "30"],
+        ]);
       }
-      if (isParagraph(blocks[1])) {
-        expect(blocks[1].props.content).toBe("Alice | 30");
+    });
+
+    it("should detect header rows made of th cells without thead", () => {
+      const html = `
+        <table>
+          <tr><th>Key</th><th>Value</th></tr>
+          <tr><td>a</td><td>1</td></tr>
+        </table>
+      `;
+      const blocks = parseHtmlToBlocks(html);
+
+      if (isTable(blocks[0])) {
+        expect(blocks[0].props.hasHeaderRow).toBe(true);
       }
     });
 
@@ -528,12 +664,12 @@ describe("parseHtmlToBlocks", () => {
       const blocks = parseHtmlToBlocks(html);
 
       expect(blocks).toHaveLength(1);
-      if (isParagraph(blocks[0])) {
-        expect(blocks[0].props.content).toBe("Only one cell");
+      if (isTable(blocks[0])) {
+        expect(blocks[0].props.rows).toEqual([["Only one cell"]]);
       }
     });
 
-    it("should skip empty cells in table rows", () => {
+    it("should keep empty cells to preserve column positions", () => {
       const html = `
         <table>
           <tr><td>Value</td><td></td><td>Other</td></tr>
@@ -541,9 +677,37 @@ describe("parseHtmlToBlocks", () => {
       `;
       const blocks = parseHtmlToBlocks(html);
 
-      expect(blocks).toHaveLength(1);
-      if (isParagraph(blocks[0])) {
-        expect(blocks[0].props.content).toBe("Value | Other");
+      if (isTable(blocks[0])) {
+        expect(blocks[0].props.rows).toEqual([["Value", "", "Other"]]);
+      }
+    });
+
+    it("should pad ragged rows to the widest row", () => {
+      const html = `
+        <table>
+          <tr><td>A</td><td>B</td><td>C</td></tr>
+          <tr><td>D</td></tr>
+        </table>
+      `;
+      const blocks = parseHtmlToBlocks(html);
+
+      if (isTable(blocks[0])) {
+        expect(blocks[0].props.rows[1]).toEqual(["D", "", ""]);
+        expect(blocks[0].props.columnAlign).toHaveLength(3);
+      }
+    });
+
+    it("should read column alignment from the first row", () => {
+      const html = `
+        <table>
+          <tr><th align="left">Item</th><th align="right">Price</th></tr>
+          <tr><td>Tea</td><td align="right">3</td></tr>
+        </table>
+      `;
+      const blocks = parseHtmlToBlocks(html);
+
+      if (isTable(blocks[0])) {
+        expect(blocks[0].props.columnAlign).toEqual(["left", "right"]);
       }
     });
 
@@ -565,7 +729,7 @@ describe("parseHtmlToBlocks", () => {
       expect(blocks).toHaveLength(0);
     });
 
-    it("should extract text content from cells with nested elements", () => {
+    it("should preserve inline formatting inside cells", () => {
       const html = `
         <table>
           <tr><td><strong>Bold</strong> text</td><td><a href="#">Link</a></td></tr>
@@ -574,8 +738,9 @@ describe("parseHtmlToBlocks", () => {
       const blocks = parseHtmlToBlocks(html);
 
       expect(blocks).toHaveLength(1);
-      if (isParagraph(blocks[0])) {
-        expect(blocks[0].props.content).toBe("Bold text | Link");
+      if (isTable(blocks[0])) {
+        expect(blocks[0].props.rows[0][0]).toBe("<strong>Bold</strong> text");
+        expect(blocks[0].props.rows[0][1]).toContain("<a");
       }
     });
   });
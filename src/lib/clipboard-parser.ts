@@ -1,6 +1,10 @@
 import DOMPurify from "dompurify";
 import { createBlock } from "@/lib/utils";
-import type { Block } from "@/types/blocks";
+import { type Block, MAX_LIST_INDENT } from "@/types/blocks";
+import {
+  isCustomBlockEmpty,
+  parseCustomBlockElement,
+} from "./block-definitions";
 
 /**
  * Allowed HTML tags for sanitization.
@@ -39,10 +43,12 @@ const ALLOWED_TAGS = [
   // Links and media
   "a",
   "img",
+  // Task list checkboxes (other inputs are removed, see sanitizeHtml)
+  "input",
   // Figures
   "figure",
   "figcaption",
-  // Tables (will be flattened later, but allow for extraction)
+  // Tables
   "table",
   "thead",
   "tbody",
@@ -73,23 +79,48 @@ const ALLOWED_ATTRS = [
   "rel",
   "width",
   "height",
+  // Table cell alignment
+  "align",
+  // List numbering and task list checkboxes
+  "start",
+  "type",
+  "checked",
 ];
 
+/**
+ * Inputs are only kept as task list checkboxes: checkboxes in a list item
+ */
+function isTaskCheckbox(input: Element): boolean {
+  return (
+    input.getAttribute("type")?.toLowerCase() === "checkbox" &&
+    !!input.closest("li")
+  );
+}
+
 /**
  * Sanitize HTML content to remove dangerous elements and attributes.
  * Uses DOMPurify to strip XSS vectors, event handlers, and javascript: URLs.
+ * Inputs are removed unless they are task list checkboxes.
  *
  * @param html - Raw HTML string to sanitize
  * @returns Sanitized HTML string safe for DOM parsing
  */
 export function sanitizeHtml(html: string): string {
-  return DOMPurify.sanitize(html, {
+  const body = DOMPurify.sanitize(html, {
     ALLOWED_TAGS,
     ALLOWED_ATTR: ALLOWED_ATTRS,
     ALLOW_DATA_ATTR: false,
     // Automatically add rel="noopener" to links with target="_blank"
     ADD_ATTR: ["rel"],
-  });
+    // The sanitized <body>, so inputs can be checked below
+    RETURN_DOM: true,
+  }) as HTMLElement;
+  for (const input of Array.from(body.querySelectorAll("input"))) {
+    if (!isTaskCheckbox(input)) {
+      input.remove();
+    }
+  }
+  return body.innerHTML;
 }
 
 // Top-level regex patterns for performance
@@ -103,12 +134,15 @@ const PARAGRAPH_BOUNDARY_REGEX = /\n\s*\n|\r\n\s*\r\n/;
  * Converts semantic HTML elements into their corresponding block types.
  *
  * Mapping:
+ * - Elements a registered block type recognizes → custom block
  * - <h1-h3> → heading block
  * - <p> → paragraph block
  * - <blockquote> → quote block
  * - <pre>/<code> → code block
  * - <hr> → divider block
  * - <img> → image block
+ * - <ul>/<ol> → bulleted-list/numbered-list/todo blocks (one per item)
+ * - <table> → table block
  * - Other elements → paragraph (with inner HTML preserved)
  */
 export function parseHtmlToBlocks(html: string): Block[] {
@@ -163,6 +197,7 @@ const CONTAINER_TAGS = new Set(["div", "section", "article", "main"]);
 const INLINE_TAGS = new Set(["span", "a", "strong", "em", "b", "i", "u"]);
 const LIST_TAGS = new Set(["ul", "ol"]);
 const TABLE_TAGS = new Set(["table"]);
+const TABLE_SECTION_TAGS = new Set(["thead", "tbody", "tfoot"]);
 
 /**
  * Process an element node and convert to appropriate block type(s).
@@ -171,6 +206,12 @@ const TABLE_TAGS = new Set(["table"]);
 function processElement(element: Element): Block[] {
   const tagName = element.tagName.toLowerCase();
 
+  // Registered block types get the first look (see block-definitions)
+  const customBlock = parseCustomBlockElement(element);
+  if (customBlock) {
+    return [customBlock];
+  }
+
   // Route to specialized handlers
   if (HEADING_H1_H3_REGEX.test(tagName)) {
     return processHeading(element, tagName as "h1" | "h2" | "h3");
@@ -203,7 +244,7 @@ function processElement(element: Element): Block[] {
     return processFigure(element);
   }
   if (LIST_TAGS.has(tagName)) {
-    return [createBlock("paragraph", { content: element.outerHTML })];
+    return processList(element, 0);
   }
   if (TABLE_TAGS.has(tagName)) {
     return processTable(element);
@@ -290,32 +331,166 @@ function processFigure(element: Element): Block[] {
 }
 
 /**
- * Process table elements by extracting cell content.
- * Since there's no table block type, we flatten the content into paragraphs
- * with cells joined by ' | ' separators to preserve some structure.
+ * Process ul/ol elements into one list item block per <li>.
+ * Nested lists become items with a deeper indent. Items containing a
+ * checkbox (GitHub/Markdown task lists) become to-do blocks.
  */
-function processTable(element: Element): Block[] {
+function processList(element: Element, indent: number): Block[] {
   const blocks: Block[] = [];
-  const rows = element.querySelectorAll("tr");
-
-  for (const row of Array.from(rows)) {
-    const cells = row.querySelectorAll("th, td");
-    if (cells.length > 0) {
-      const cellContents = Array.from(cells)
-        .map((cell) => cell.textContent?.trim() || "")
-        .filter((text) => text.length > 0);
-
-      if (cellContents.length > 0) {
-        const content = cellContents.join(" | ");
-        blocks.push(createBlock("paragraph", { content }));
-      }
+  const isOrdered = element.tagName.toLowerCase() === "ol";
+  const start = Number.parseInt(element.getAttribute("start") ?? "", 10);
+  const itemIndent = Math.min(indent, MAX_LIST_INDENT);
+  let isFirstItem = true;
+
+  for (const item of Array.from(element.children)) {
+    if (item.tagName.toLowerCase() !== "li") {
+      continue;
+    }
+
+    const { content, nestedLists, isTodo, checked } = splitListItem(item);
+
+    if (isTodo) {
+      blocks.push(
+        createBlock("todo", { content, indent: itemIndent, checked })
+      );
+    } else if (isOrdered) {
+      const hasCustomStart =
+        isFirstItem && Number.isFinite(start) && start !== 1;
+      blocks.push(
+        createBlock("numbered-list", {
+          content,
+          indent: itemIndent,
+          ...(hasCustomStart ? { start } : {}),
+        })
+      );
+    } else {
+      blocks.push(
+        createBlock("bulleted-list", { content, indent: itemIndent })
+      );
+    }
+    isFirstItem = false;
+
+    for (const nestedList of nestedLists) {
+      blocks.push(...processList(nestedList, indent + 1));
     }
   }
 
-  // If no rows extracted, return empty (will be filtered out)
   return blocks;
 }
 
+/**
+ * Separate an <li>'s own content from its nested lists and task checkbox.
+ */
+function splitListItem(item: Element): {
+  content: string;
+  nestedLists: Element[];
+  isTodo: boolean;
+  checked: boolean;
+} {
+  const clone = item.cloneNode(true) as Element;
+  const nestedLists: Element[] = [];
+  for (const child of Array.from(clone.children)) {
+    if (LIST_TAGS.has(child.tagName.toLowerCase())) {
+      nestedLists.push(child);
+      child.remove();
+    }
+  }
+
+  const checkbox = clone.querySelector('input[type="checkbox"]');
+  const isTodo = !!checkbox || item.classList.contains("task-list-item");
+  const checked = checkbox?.hasAttribute("checked") ?? false;
+  checkbox?.remove();
+
+  return { content: clone.innerHTML.trim(), nestedLists, isTodo, checked };
+}
+
+/**
+ * Process table elements into a table block.
+ * The first row becomes the header row when it lives in <thead> or is made
+ * up entirely of <th> cells. Ragged rows are padded to the widest row.
+ */
+function processTable(element: Element): Block[] {
+  const rowElements = getTableRows(element).filter(
+    (row) => getRowCells(row).length > 0
+  );
+
+  if (rowElements.length === 0) {
+    return [];
+  }
+
+  const rows = rowElements.map((row) =>
+    getRowCells(row).map((cell) => cell.innerHTML.trim())
+  );
+
+  // Drop tables without any text content
+  if (rows.every((row) => row.every((cell) => !cell))) {
+    return [];
+  }
+
+  const columnCount = Math.max(...rows.map((row) => row.length));
+  const paddedRows = rows.map((row) => [
+    ...row,
+    ...new Array<string>(columnCount - row.length).fill(""),
+  ]);
+
+  const firstRow = rowElements[0];
+  const hasHeaderRow =
+    firstRow.parentElement?.tagName.toLowerCase() === "thead" ||
+    Array.from(firstRow.children).every(
+      (cell) => cell.tagName.toLowerCase() === "th"
+    );
+
+  const firstRowCells = getRowCells(firstRow);
+  const columnAlign = Array.from({ length: columnCount }, (_, index) =>
+    extractCellAlignment(firstRowCells[index])
+  );
+
+  return [
+    createBlock("table", { rows: paddedRows, hasHeaderRow, columnAlign }),
+  ];
+}
+
+/**
+ * A table's own rows in order: those directly under it or its
+ * thead/tbody/tfoot, not the rows of tables nested in its cells.
+ */
+function getTableRows(table: Element): Element[] {
+  return Array.from(table.children).flatMap((child) => {
+    const tag = child.tagName.toLowerCase();
+    if (tag === "tr") {
+      return [child];
+    }
+    return TABLE_SECTION_TAGS.has(tag)
+      ? Array.from(child.children).filter(
+          (row) => row.tagName.toLowerCase() === "tr"
+        )
+      : [];
+  });
+}
+
+/**
+ * A row's own th/td cells (not those of tables nested in them).
+ */
+function getRowCells(row: Element): Element[] {
+  return Array.from(row.children).filter((cell) => {
+    const tag = cell.tagName.toLowerCase();
+    return tag === "th" || tag === "td";
+  });
+}
+
+/**
+ * Read a cell's horizontal alignment from its align attribute.
+ */
+function extractCellAlignment(
+  cell: Element | undefined
+): "left" | "center" | "right" {
+  const align = cell?.getAttribute("align")?.toLowerCase();
+  if (align === "center" || align === "right") {
+    return align;
+  }
+  return "left";
+}
+
 /**
  * Process all child nodes of an element.
  */
@@ -340,7 +515,7 @@ function extractLanguageFromClass(element: Element): string {
 /**
  * Check if a string is a valid URL.
  */
-function isValidUrl(str: string): boolean {
+export function isValidUrl(str: string): boolean {
   // Accept data URLs and http(s) URLs
   if (str.startsWith("data:")) {
     return true;
@@ -362,6 +537,9 @@ function isEmptyBlock(block: Block): boolean {
     case "heading":
     case "quote":
     case "callout":
+    case "bulleted-list":
+    case "numbered-list":
+    case "todo":
       return !block.props.content.trim();
     case "code":
       return !block.props.code.trim();
@@ -369,8 +547,12 @@ function isEmptyBlock(block: Block): boolean {
       return !block.props.src;
     case "divider":
       return false; // Dividers are never empty
+    case "table":
+      return block.props.rows.every((row) => row.every((cell) => !cell.trim()));
     case "columns":
       return block.props.columns.every((col) => col.length === 0);
+    case "custom":
+      return isCustomBlockEmpty(block);
     default:
       return false;
   }
@@ -408,7 +590,7 @@ export function parsePlainTextToBlocks(text: string): Block[] {
 /**
  * Escape HTML special characters to prevent XSS.
  */
-function escapeHtml(text: string): string {
+export function escapeHtml(text: string): string {
   const htmlEscapes: Record<string, string> = {
     "&": "&amp;",
     "<": "&lt;",
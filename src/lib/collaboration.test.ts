@@ -0,0 +1,159 @@
+/**
+ * Unit tests for collaboration sessions.
+ * Peers talk through an in-memory room that delivers messages asynchronously,
+ * like BroadcastChannel does.
+ */
+import { afterEach, describe, expect, it } from "bun:test";
+import { Doc } from "yjs";
+import {
+  type CollaborationMessage,
+  type CollaborationMessageListener,
+  type CollaborationSession,
+  type CollaborationTransport,
+  createCollaborationSession,
+  decodeBase64,
+  encodeBase64,
+} from "./collaboration";
+import { applyDocumentToYDoc, yDocToDocument } from "./crdt-document";
+import { createBlock, createDocument } from "./utils";
+
+const SYNC_TIMEOUT = 20;
+
+/** In-memory room: every message reaches every other transport */
+function createRoom() {
+  const listeners = new Set<CollaborationMessageListener>();
+
+  return (): CollaborationTransport => {
+    let own: CollaborationMessageListener | null = null;
+    return {
+      send(message: CollaborationMessage) {
+        const copy = JSON.parse(JSON.stringify(message));
+        setTimeout(() => {
+          for (const listener of listeners) {
+            if (listener !== own) {
+              listener(copy);
+            }
+          }
+        }, 0);
+      },
+      subscribe(listener) {
+        own = listener;
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      close() {
+        if (own) {
+          listeners.delete(own);
+        }
+      },
+    };
+  };
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const sessions: CollaborationSession[] = [];
+
+afterEach(() => {
+  for (const session of sessions.splice(0)) {
+    session.destroy();
+  }
+});
+
+function join(
+  connect: () => CollaborationTransport,
+  title: string,
+  ydoc = new Doc()
+) {
+  const doc = createDocument(title);
+  const block = createBlock("paragraph", { content: title });
+  doc.blocks[block.props.id] = block;
+  doc.rootBlockIds = [block.props.id];
+
+  let seeds = 0;
+  const session = createCollaborationSession({
+    ydoc,
+    transport: connect(),
+    user: { name: title, color: "#000000" },
+    syncTimeout: SYNC_TIMEOUT,
+    onSeed: () => {
+      seeds++;
+      applyDocumentToYDoc(ydoc, doc);
+    },
+  });
+  sessions.push(session);
+  return { ydoc, session, getSeeds: () => seeds };
+}
+
+describe("encodeBase64 / decodeBase64", () => {
+  it("should round-trip binary data", () => {
+    const data = new Uint8Array([0, 1, 127, 128, 255]);
+    expect(decodeBase64(encodeBase64(data))).toEqual(data);
+  });
+});
+
+describe("createCollaborationSession", () => {
+  it("should seed an empty room and sync later peers", async () => {
+    const connect = createRoom();
+    const first = join(connect, "First");
+    await wait(SYNC_TIMEOUT * 3);
+
+    expect(first.session.getStatus()).toBe("synced");
+    expect(first.getSeeds()).toBe(1);
+
+    const second = join(connect, "Second");
+    await wait(SYNC_TIMEOUT);
+
+    expect(second.session.getStatus()).toBe("synced");
+    expect(second.getSeeds()).toBe(0);
+    expect(yDocToDocument(second.ydoc)).toEqual(yDocToDocument(first.ydoc));
+  });
+
+  it("should seed only once when peers join together", async () => {
+    const connect = createRoom();
+    const a = join(connect, "A");
+    const b = join(connect, "B");
+    await wait(SYNC_TIMEOUT * 5);
+
+    expect(a.getSeeds() + b.getSeeds()).toBe(1);
+    expect(a.session.getStatus()).toBe("synced");
+    expect(b.session.getStatus()).toBe("synced");
+    expect(yDocToDocument(a.ydoc)).toEqual(yDocToDocument(b.ydoc));
+  });
+
+  it("should forward local edits once synced", async () => {
+    const connect = createRoom();
+    const a = join(connect, "A");
+    await wait(SYNC_TIMEOUT * 3);
+    const b = join(connect, "B");
+    await wait(SYNC_TIMEOUT);
+
+    const doc = yDocToDocument(b.ydoc);
+    if (!doc) {
+      throw new Error("expected synced document");
+    }
+    applyDocumentToYDoc(b.ydoc, { ...doc, title: "Renamed" });
+    await wait(5);
+
+    expect(yDocToDocument(a.ydoc)?.title).toBe("Renamed");
+  });
+
+  it("should share presence and remove peers that leave", async () => {
+    const connect = createRoom();
+    const a = join(connect, "A");
+    const b = join(connect, "B");
+    await wait(SYNC_TIMEOUT * 3);
+
+    b.session.setActiveBlock("block-1");
+    await wait(5);
+    expect(a.session.getPeers()).toMatchObject([
+      { clientId: b.ydoc.clientID, activeBlockId: "block-1" },
+    ]);
+
+    b.session.destroy();
+    await wait(5);
+    expect(a.session.getPeers()).toEqual([]);
+  });
+});
@@ -0,0 +1,339 @@
+import {
+  applyUpdate,
+  type Doc,
+  encodeStateAsUpdate,
+  encodeStateVector,
+} from "yjs";
+import { getSharedTypes } from "./crdt-document";
+
+// ============================================================================
+// COLLABORATION SESSION
+// Syncs a Y.Doc with peers in the same room over a pluggable transport
+// (BroadcastChannel between tabs, WebSocket through a relay server) and
+// shares presence: who is connected and which block they are in.
+//
+// Joining: a peer asks the room for state (sync-request). Peers that hold
+// the document answer with the updates it is missing. If nobody answers
+// within the sync timeout, the joining peer seeds the room from its own copy;
+// when several new peers join an empty room together, only the one with the
+// lowest client ID seeds, so the document isn't inserted twice.
+// ============================================================================
+
+/** Transaction origin for updates received from peers */
+export const REMOTE_ORIGIN = "remote";
+
+const DEFAULT_SYNC_TIMEOUT = 500;
+const PRESENCE_HEARTBEAT_MS = 5000;
+const PRESENCE_TIMEOUT_MS = 15_000;
+
+const PRESENCE_COLORS = [
+  "#e11d48",
+  "#d97706",
+  "#059669",
+  "#0284c7",
+  "#7c3aed",
+  "#db2777",
+];
+
+export interface CollaborationUser {
+  name: string;
+  color: string;
+}
+
+export interface PresenceState {
+  user: CollaborationUser;
+  /** Block the user is editing, if any */
+  activeBlockId: string | null;
+}
+
+export interface RemotePeer extends PresenceState {
+  clientId: number;
+  lastSeen: number;
+}
+
+export type CollaborationMessage =
+  | {
+      type: "sync-request";
+      clientId: number;
+      /** Base64 Yjs state vector of the sender */
+      stateVector: string;
+      /** Whether the sender already holds the document */
+      seeded: boolean;
+      /** Sent in answer to another request (never answered with a request) */
+      reply?: boolean;
+    }
+  | { type: "update"; clientId: number; update: string }
+  | { type: "presence"; clientId: number; presence: PresenceState | null };
+
+export type CollaborationMessageListener = (
+  message: CollaborationMessage
+) => void;
+
+/**
+ * Delivers messages to the other peers in a room. Implementations:
+ * createBroadcastChannelTransport, createWebSocketTransport.
+ */
+export interface CollaborationTransport {
+  send(message: CollaborationMessage): void;
+  /** @returns Unsubscribe function */
+  subscribe(listener: CollaborationMessageListener): () => void;
+  close(): void;
+}
+
+export type CollaborationStatus = "connecting" | "synced";
+
+export interface CollaborationSessionOptions {
+  ydoc: Doc;
+  transport: CollaborationTransport;
+  user: CollaborationUser;
+  /**
+   * Called when nobody in the room has the document, so this peer must
+   * write its own copy into the Y.Doc
+   */
+  onSeed: () => void;
+  /** How long to wait for peers before seeding (default 500ms) */
+  syncTimeout?: number;
+}
+
+export interface CollaborationSession {
+  getStatus(): CollaborationStatus;
+  /** Connected peers, excluding this one */
+  getPeers(): RemotePeer[];
+  setActiveBlock(blockId: string | null): void;
+  /**
+   * Subscribe to status and peer changes.
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void;
+  destroy(): void;
+}
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+/**
+ * Encode binary Yjs data for JSON transport.
+ */
+export function encodeBase64(data: Uint8Array): string {
+  let binary = "";
+  for (const byte of data) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode binary Yjs data from JSON transport.
+ */
+export function decodeBase64(encoded: string): Uint8Array {
+  const binary = atob(encoded);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i);
+  }
+  return data;
+}
+
+/**
+ * Create a guest identity with a random name and presence color.
+ */
+export function createCollaborationUser(): CollaborationUser {
+  const suffix = Math.floor(Math.random() * 9000 + 1000);
+  return {
+    name: `Guest ${suffix}`,
+    color: PRESENCE_COLORS[suffix % PRESENCE_COLORS.length],
+  };
+}
+
+// ============================================================================
+// SESSION
+// ============================================================================
+
+/**
+ * Join a collaboration room and keep the Y.Doc in sync with its peers.
+ *
+ * @param options - Shared document, transport, local user and seed callback
+ * @returns Session handle
+ */
+export function createCollaborationSession(
+  options: CollaborationSessionOptions
+): CollaborationSession {
+  const { ydoc, transport, user, onSeed } = options;
+  const syncTimeout = options.syncTimeout ?? DEFAULT_SYNC_TIMEOUT;
+  const clientId = ydoc.clientID;
+  const listeners = new Set<() => void>();
+  const peers = new Map<number, RemotePeer>();
+  // Peers that joined but don't hold the document yet (seeding tie-break)
+  const unseededPeers = new Set<number>();
+  let status: CollaborationStatus = "connecting";
+  let presence: PresenceState = { user, activeBlockId: null };
+  let syncTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const notify = () => {
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  const hasDocument = () => getSharedTypes(ydoc).meta.has("id");
+
+  const requestSync = (reply = false) =>
+    transport.send({
+      type: "sync-request",
+      clientId,
+      stateVector: encodeBase64(encodeStateVector(ydoc)),
+      seeded: status === "synced",
+      reply,
+    });
+
+  const sendPresence = () =>
+    transport.send({ type: "presence", clientId, presence });
+
+  const markSynced = () => {
+    if (status === "synced") {
+      return;
+    }
+    status = "synced";
+    clearTimeout(syncTimer);
+    notify();
+  };
+
+  // Seed the room ourselves unless a peer with a lower ID will
+  const handleSyncTimeout = () => {
+    if (status === "synced") {
+      return;
+    }
+    if (hasDocument()) {
+      markSynced();
+      return;
+    }
+    if ([...unseededPeers].some((peerId) => peerId < clientId)) {
+      unseededPeers.clear();
+      requestSync();
+      syncTimer = setTimeout(handleSyncTimeout, syncTimeout);
+      return;
+    }
+    // Mark synced first so the seed update is broadcast to waiting peers
+    markSynced();
+    onSeed();
+  };
+
+  const handleSyncRequest = (
+    message: Extract<CollaborationMessage, { type: "sync-request" }>
+  ) => {
+    if (status === "synced") {
+      const update = encodeStateAsUpdate(
+        ydoc,
+        decodeBase64(message.stateVector)
+      );
+      transport.send({
+        type: "update",
+        clientId,
+        update: encodeBase64(update),
+      });
+      sendPresence();
+    } else if (!message.seeded) {
+      unseededPeers.add(message.clientId);
+    }
+    // Fetch anything the requester has that we don't
+    if (message.seeded && !message.reply) {
+      requestSync(true);
+    }
+  };
+
+  const handlePresence = (
+    message: Extract<CollaborationMessage, { type: "presence" }>
+  ) => {
+    if (message.presence) {
+      peers.set(message.clientId, {
+        ...message.presence,
+        clientId: message.clientId,
+        lastSeen: Date.now(),
+      });
+    } else {
+      peers.delete(message.clientId);
+    }
+    notify();
+  };
+
+  const unsubscribe = transport.subscribe((message) => {
+    if (message.clientId === clientId) {
+      return;
+    }
+    switch (message.type) {
+      case "sync-request":
+        handleSyncRequest(message);
+        break;
+      case "update":
+        applyUpdate(ydoc, decodeBase64(message.update), REMOTE_ORIGIN);
+        if (hasDocument()) {
+          markSynced();
+        }
+        break;
+      case "presence":
+        handlePresence(message);
+        break;
+      default:
+        message satisfies never;
+    }
+  });
+
+  // Forward local changes once the room is synced
+  const handleUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin !== REMOTE_ORIGIN && status === "synced") {
+      transport.send({
+        type: "update",
+        clientId,
+        update: encodeBase64(update),
+      });
+    }
+  };
+  ydoc.on("update", handleUpdate);
+
+  // Re-announce presence and drop peers that went quiet
+  const heartbeat = setInterval(() => {
+    sendPresence();
+    const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+    let changed = false;
+    for (const [peerId, peer] of peers) {
+      if (peer.lastSeen < cutoff) {
+        peers.delete(peerId);
+        changed = true;
+      }
+    }
+    if (changed) {
+      notify();
+    }
+  }, PRESENCE_HEARTBEAT_MS);
+
+  requestSync();
+  sendPresence();
+  syncTimer = setTimeout(handleSyncTimeout, syncTimeout);
+
+  return {
+    getStatus: () => status,
+    getPeers: () => [...peers.values()],
+    setActiveBlock(blockId) {
+      if (presence.activeBlockId !== blockId) {
+        presence = { ...presence, activeBlockId: blockId };
+        sendPresence();
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    destroy() {
+      clearTimeout(syncTimer);
+      clearInterval(heartbeat);
+      ydoc.off("update", handleUpdate);
+      transport.send({ type: "presence", clientId, presence: null });
+      unsubscribe();
+      transport.close();
+      listeners.clear();
+    },
+  };
+}
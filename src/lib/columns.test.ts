@@ -0,0 +1,75 @@
+/**
+ * Unit tests for column layout helpers.
+ * Tests width ratios, resizing, changing the column count and stacking.
+ */
+import { describe, expect, it } from "bun:test";
+import {
+  getColumnFlexBasis,
+  getColumnStackClasses,
+  getColumnWidths,
+  resizeColumns,
+  setColumnCount,
+} from "./columns";
+
+describe("getColumnWidths", () => {
+  it("should give one ratio per column, defaulting to 1", () => {
+    expect(getColumnWidths([], 3)).toEqual([1, 1, 1]);
+    expect(getColumnWidths([2, 0, -1, 3], 3)).toEqual([2, 1, 1]);
+  });
+});
+
+describe("getColumnFlexBasis", () => {
+  it("should turn ratios into percentages", () => {
+    expect(getColumnFlexBasis([1, 3], 2)).toEqual(["25%", "75%"]);
+  });
+});
+
+describe("resizeColumns", () => {
+  it("should move width between the two neighbouring columns", () => {
+    // An eighth of a [1, 1, 2] row is half a unit
+    expect(resizeColumns([1, 1, 2], 3, 0, 0.125)).toEqual([1.5, 0.5, 2]);
+    expect(resizeColumns([1, 1, 2], 3, 1, -0.125)).toEqual([1, 0.5, 2.5]);
+  });
+
+  it("should keep both columns at least a tenth of the row", () => {
+    expect(resizeColumns([1, 1], 2, 0, 0.9)).toEqual([1.8, 0.2]);
+    expect(resizeColumns([1, 1], 2, 0, -0.9)).toEqual([0.2, 1.8]);
+  });
+
+  it("should ignore boundaries that don't exist", () => {
+    expect(resizeColumns([2, 1], 2, 1, 0.2)).toEqual([2, 1]);
+  });
+});
+
+describe("setColumnCount", () => {
+  it("should add empty columns with the average width", () => {
+    expect(
+      setColumnCount({ columns: [["a"], ["b"]], widths: [1, 2] }, 3)
+    ).toEqual({
+      columns: [["a"], ["b"], []],
+      widths: [1, 2, 1.5],
+    });
+  });
+
+  it("should move blocks from removed columns into the last one", () => {
+    expect(
+      setColumnCount({ columns: [["a"], ["b"], ["c"]], widths: [1, 2, 3] }, 2)
+    ).toEqual({ columns: [["a"], ["b", "c"]], widths: [1, 2] });
+  });
+
+  it("should stay between two and six columns", () => {
+    const two = { columns: [[], []], widths: [] };
+    expect(setColumnCount(two, 1).columns).toHaveLength(2);
+    expect(setColumnCount(two, 9).columns).toHaveLength(6);
+  });
+});
+
+describe("getColumnStackClasses", () => {
+  it("should lay out in a row from the breakpoint up", () => {
+    expect(getColumnStackClasses("md")).toEqual({
+      row: "flex-col gap-4 md:flex-row md:gap-0",
+      handle: "hidden md:flex",
+    });
+    expect(getColumnStackClasses("never").row).toBe("flex-row");
+  });
+});
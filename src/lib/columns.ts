@@ -0,0 +1,141 @@
+import {
+  type ColumnStackBreakpoint,
+  MAX_COLUMNS,
+  MIN_COLUMNS,
+} from "@/types/blocks";
+
+// ============================================================================
+// COLUMN LAYOUT
+// A columns block stores one width ratio per column (e.g. [2, 1] is two
+// thirds and one third) and the breakpoint below which its columns stack
+// vertically. Missing or invalid ratios count as 1, so an empty `widths`
+// means equal columns.
+// ============================================================================
+
+// Narrowest a column can be resized to, as a fraction of the row
+const MIN_COLUMN_FRACTION = 0.1;
+
+/** Ratios of the named layouts used before widths were stored as numbers */
+export const LEGACY_COLUMN_LAYOUTS: Record<string, number[]> = {
+  "1-1": [1, 1],
+  "1-2": [1, 2],
+  "2-1": [2, 1],
+  "1-1-1": [1, 1, 1],
+};
+
+/**
+ * One positive width ratio per column
+ *
+ * @param widths - Stored ratios (may be shorter, longer or invalid)
+ * @param count - Number of columns
+ */
+export function getColumnWidths(widths: number[], count: number): number[] {
+  return Array.from({ length: count }, (_, index) => {
+    const width = widths[index];
+    return Number.isFinite(width) && width > 0 ? width : 1;
+  });
+}
+
+/**
+ * CSS flex-basis percentages for each column
+ */
+export function getColumnFlexBasis(widths: number[], count: number): string[] {
+  const ratios = getColumnWidths(widths, count);
+  const total = ratios.reduce((a, b) => a + b, 0);
+  return ratios.map((ratio) => `${(ratio / total) * 100}%`);
+}
+
+/**
+ * Move the boundary between two neighbouring columns. Only those two change
+ * width; their combined width stays the same and neither gets narrower than
+ * MIN_COLUMN_FRACTION of the row.
+ *
+ * @param widths - Stored ratios
+ * @param count - Number of columns
+ * @param boundary - Index of the column left of the boundary
+ * @param delta - How far the boundary moves, as a fraction of the row width
+ * @returns New ratios (rounded to two decimals)
+ */
+export function resizeColumns(
+  widths: number[],
+  count: number,
+  boundary: number,
+  delta: number
+): number[] {
+  const ratios = getColumnWidths(widths, count);
+  if (boundary < 0 || boundary >= count - 1) {
+    return ratios;
+  }
+  const total = ratios.reduce((a, b) => a + b, 0);
+  const pair = ratios[boundary] + ratios[boundary + 1];
+  const min = Math.min(MIN_COLUMN_FRACTION * total, pair / 2);
+  const left = Math.min(
+    Math.max(ratios[boundary] + delta * total, min),
+    pair - min
+  );
+  const round = (value: number) => Math.round(value * 100) / 100;
+  ratios[boundary] = round(left);
+  ratios[boundary + 1] = round(pair - left);
+  return ratios;
+}
+
+/**
+ * Change the number of columns. Added columns are empty and get the average
+ * width; blocks in removed columns move to the last remaining column.
+ *
+ * @param count - New number of columns, clamped to MIN_COLUMNS..MAX_COLUMNS
+ */
+export function setColumnCount(
+  props: { columns: string[][]; widths: number[] },
+  count: number
+): { columns: string[][]; widths: number[] } {
+  const target = Math.min(Math.max(count, MIN_COLUMNS), MAX_COLUMNS);
+  const current = props.columns.length;
+  const ratios = getColumnWidths(props.widths, current);
+  if (target >= current) {
+    const average =
+      ratios.length > 0 ? ratios.reduce((a, b) => a + b, 0) / ratios.length : 1;
+    return {
+      columns: [
+        ...props.columns,
+        ...Array.from({ length: target - current }, () => []),
+      ],
+      widths: [
+        ...ratios,
+        ...new Array(target - current).fill(Math.round(average * 100) / 100),
+      ],
+    };
+  }
+  return {
+    columns: [
+      ...props.columns.slice(0, target - 1),
+      props.columns.slice(target - 1).flat(),
+    ],
+    widths: ratios.slice(0, target),
+  };
+}
+
+/** Tailwind classes for a columns row and its resize handles */
+export interface ColumnStackClasses {
+  /** Lays the columns out in a row from the breakpoint up (stacked ones get a gap) */
+  row: string;
+  /** Shows resize handles only while the columns are side by side */
+  handle: string;
+}
+
+// Full class names, so Tailwind picks them up from this file
+const STACK_CLASSES: Record<ColumnStackBreakpoint, ColumnStackClasses> = {
+  never: { row: "flex-row", handle: "flex" },
+  sm: { row: "flex-col gap-4 sm:flex-row sm:gap-0", handle: "hidden sm:flex" },
+  md: { row: "flex-col gap-4 md:flex-row md:gap-0", handle: "hidden md:flex" },
+  lg: { row: "flex-col gap-4 lg:flex-row lg:gap-0", handle: "hidden lg:flex" },
+};
+
+/**
+ * Classes that stack a columns block vertically below its breakpoint
+ */
+export function getColumnStackClasses(
+  stackBelow: ColumnStackBreakpoint
+): ColumnStackClasses {
+  return STACK_CLASSES[stackBelow];
+}
@@ -0,0 +1,255 @@
+/**
+ * Unit tests for the command registry.
+ * Tests fuzzy matching and ranking (aliases, keywords, sub-menus, recent
+ * use), enabled() filtering, keyboard shortcuts, and registering and
+ * removing commands.
+ */
+import { describe, expect, it } from "bun:test";
+import {
+  type CommandContext,
+  createCommandRegistry,
+  findShortcutCommand,
+  formatShortcut,
+  fuzzyScore,
+  getRecentCommands,
+  matchesShortcut,
+  type PaletteCommand,
+  rankCommands,
+} from "./command-registry";
+import { createDocument } from "./utils";
+
+const noop = () => undefined;
+
+function createContext(
+  overrides: Partial<CommandContext> = {}
+): CommandContext {
+  return {
+    document: createDocument(),
+    insertBlock: noop,
+    askAI: noop,
+    undo: noop,
+    redo: noop,
+    importDocument: noop,
+    exportDocument: noop,
+    saveVersion: noop,
+    showTab: noop,
+    ...overrides,
+  };
+}
+
+const COMMANDS: PaletteCommand[] = [
+  { id: "paragraph", label: "Text", group: "Basic", aliases: ["paragraph"] },
+  { id: "heading-1", label: "Heading 1", group: "Basic", aliases: ["h1"] },
+  {
+    id: "todo",
+    label: "To-do List",
+    group: "Basic",
+    keywords: ["checkbox"],
+  },
+  {
+    id: "callout",
+    label: "Callout",
+    group: "Basic",
+    children: [
+      { id: "callout-info", label: "Info", group: "Callout" },
+      { id: "callout-warning", label: "Warning", group: "Callout" },
+    ],
+  },
+  {
+    id: "turn-into-quote",
+    label: "Quote",
+    group: "Turn Into",
+    enabled: (context) => context.convertBlocks !== undefined,
+  },
+];
+
+const ids = (matches: { command: PaletteCommand }[]) =>
+  matches.map((match) => match.command.id);
+
+describe("fuzzyScore", () => {
+  it("should rank exact over prefix over word over substring matches", () => {
+    const exact = fuzzyScore("Table", "table");
+    const prefix = fuzzyScore("Table", "tab");
+    const word = fuzzyScore("Info Table", "tab");
+    const substring = fuzzyScore("Notable", "tab");
+    expect(exact).toBeGreaterThan(prefix);
+    expect(prefix).toBeGreaterThan(word);
+    expect(word).toBeGreaterThan(substring);
+  });
+
+  it("should match characters in order, closer together ranking higher", () => {
+    expect(fuzzyScore("Numbered List", "nl")).toBeGreaterThan(0);
+    expect(fuzzyScore("Bulleted List", "blt")).toBeGreaterThan(
+      fuzzyScore("Bulleted List", "bdt")
+    );
+    expect(fuzzyScore("Divider", "rd")).toBe(0);
+  });
+
+  it("should not match an empty query", () => {
+    expect(fuzzyScore("Text", "  ")).toBe(0);
+  });
+});
+
+describe("rankCommands", () => {
+  it("should list enabled top-level commands for an empty query", () => {
+    expect(ids(rankCommands(COMMANDS, "", createContext()))).toEqual([
+      "paragraph",
+      "heading-1",
+      "todo",
+      "callout",
+    ]);
+  });
+
+  it("should find commands by alias and keyword", () => {
+    const context = createContext();
+    expect(ids(rankCommands(COMMANDS, "h1", context))[0]).toBe("heading-1");
+    expect(ids(rankCommands(COMMANDS, "checkbox", context))).toEqual(["todo"]);
+  });
+
+  it("should find commands in sub-menus with their path", () => {
+    const [match] = rankCommands(COMMANDS, "warn", createContext());
+    expect(match.command.id).toBe("callout-warning");
+    expect(match.path.map((command) => command.id)).toEqual(["callout"]);
+  });
+
+  it("should leave out disabled commands", () => {
+    expect(ids(rankCommands(COMMANDS, "quote", createContext()))).toEqual([]);
+    expect(
+      ids(
+        rankCommands(COMMANDS, "quote", createContext({ convertBlocks: noop }))
+      )
+    ).toEqual(["turn-into-quote"]);
+  });
+
+  it("should boost recently used commands", () => {
+    const context = createContext();
+    // "t" starts both "Text" and "To-do List"; Text is shorter
+    expect(ids(rankCommands(COMMANDS, "t", context))[0]).toBe("paragraph");
+    expect(ids(rankCommands(COMMANDS, "t", context, ["todo"]))[0]).toBe("todo");
+  });
+});
+
+describe("getRecentCommands", () => {
+  it("should keep registered, enabled commands without sub-menus", () => {
+    const recent = ["turn-into-quote", "callout", "gone", "callout-info"];
+    expect(ids(getRecentCommands(COMMANDS, recent, createContext()))).toEqual([
+      "callout-info",
+    ]);
+  });
+});
+
+describe("shortcuts", () => {
+  const press = (code: string, modifiers: Partial<KeyboardEvent> = {}) =>
+    ({
+      key: code.replace("Key", "").toLowerCase(),
+      code,
+      metaKey: false,
+      ctrlKey: false,
+      shiftKey: false,
+      altKey: false,
+      ...modifiers,
+    }) as KeyboardEvent;
+
+  it("should accept Cmd or Ctrl for Mod and require exact Shift", () => {
+    expect(matchesShortcut(press("KeyZ", { metaKey: true }), "Mod+Z")).toBe(
+      true
+    );
+    expect(matchesShortcut(press("KeyZ", { ctrlKey: true }), "Mod+Z")).toBe(
+      true
+    );
+    expect(
+      matchesShortcut(press("KeyZ", { metaKey: true, shiftKey: true }), "Mod+Z")
+    ).toBe(false);
+    expect(matchesShortcut(press("KeyZ"), "Mod+Z")).toBe(false);
+  });
+
+  it("should compare letters by physical key", () => {
+    const event = { ...press("KeyS", { altKey: true }), key: "ß" };
+    expect(matchesShortcut(event, "Alt+S")).toBe(true);
+  });
+
+  it("should format shortcuts for the platform", () => {
+    expect(formatShortcut("Mod+Shift+Z", true)).toBe("⇧⌘Z");
+    expect(formatShortcut("Mod+Shift+Z", false)).toBe("Ctrl+Shift+Z");
+  });
+
+  it("should find the enabled command for a key press", () => {
+    const commands: PaletteCommand[] = [
+      {
+        id: "redo",
+        label: "Redo",
+        group: "Document",
+        shortcut: "Mod+Shift+Z",
+        run: noop,
+      },
+      {
+        id: "export",
+        label: "Export",
+        group: "Document",
+        children: [
+          {
+            id: "export-html",
+            label: "HTML",
+            group: "Export",
+            shortcut: "Mod+E",
+            enabled: () => false,
+            run: noop,
+          },
+        ],
+      },
+    ];
+    const context = createContext();
+    expect(
+      findShortcutCommand(
+        commands,
+        press("KeyZ", { metaKey: true, shiftKey: true }),
+        context
+      )?.id
+    ).toBe("redo");
+    expect(
+      findShortcutCommand(commands, press("KeyE", { metaKey: true }), context)
+    ).toBeUndefined();
+  });
+});
+
+describe("createCommandRegistry", () => {
+  it("should add commands, replacing ones with the same ID in place", () => {
+    const registry = createCommandRegistry(COMMANDS.slice(0, 2));
+    registry.register([
+      { id: "paragraph", label: "Plain Text", group: "Basic" },
+      { id: "mention", label: "Mention", group: "Plugins" },
+    ]);
+    expect(registry.getCommands().map((command) => command.label)).toEqual([
+      "Plain Text",
+      "Heading 1",
+      "Mention",
+    ]);
+  });
+
+  it("should remove registered commands and notify listeners", () => {
+    const registry = createCommandRegistry(COMMANDS.slice(0, 1));
+    let calls = 0;
+    const unsubscribe = registry.subscribe(() => {
+      calls += 1;
+    });
+    const commands = registry.getCommands();
+    const unregister = registry.register([
+      { id: "mention", label: "Mention", group: "Plugins" },
+    ]);
+    expect(registry.getCommands()).not.toBe(commands);
+    unregister();
+    expect(registry.getCommands().map((command) => command.id)).toEqual([
+      "paragraph",
+    ]);
+    expect(calls).toBe(2);
+    unsubscribe();
+  });
+
+  it("should remember recently used commands, most recent first", () => {
+    const registry = createCommandRegistry();
+    for (const id of ["a", "b", "c", "a", "d", "e", "f"]) {
+      registry.recordUse(id);
+    }
+    expect(registry.getRecent()).toEqual(["f", "e", "d", "a", "c"]);
+  });
+});
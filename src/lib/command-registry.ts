@@ -0,0 +1,391 @@
+import type { ComponentType } from "react";
+import type { Block, BlockDocument } from "@/types/blocks";
+import type { AIBlockAction } from "./ai-actions";
+import type { BlockConversion } from "./block-conversion";
+
+// ============================================================================
+// COMMAND REGISTRY
+// Everything the command palette offers is a registered command: block
+// types, AI actions, document actions and whatever the host app adds. A
+// command is found by its label, aliases, keywords and description, can be
+// hidden by an enabled() predicate, may have a keyboard shortcut that runs
+// it anywhere in the editor, and may open a sub-menu of further commands
+// (Callout → Warning). Matching is fuzzy: the query's characters must appear
+// in order, and whole-word, early and unbroken matches rank higher, as do
+// recently used commands.
+// ============================================================================
+
+export type DocumentExportFormat = "html" | "markdown" | "json";
+
+export type EditorTab =
+  | "editor"
+  | "preview"
+  | "markdown"
+  | "structure"
+  | "history";
+
+/** What commands act on, supplied by the editor */
+export interface CommandContext {
+  document: BlockDocument;
+  /** Adds a block where the palette was opened (at the caret for "/") */
+  insertBlock: (block: Block) => void;
+  /** Turns the selected blocks into another type; absent with none selected */
+  convertBlocks?: (conversion: BlockConversion) => void;
+  /** Runs an AI action on the selected block; absent unless one text block is selected */
+  runAIAction?: (action: AIBlockAction) => void;
+  /** Opens the palette's prompt for generating blocks */
+  askAI: () => void;
+  undo: () => void;
+  redo: () => void;
+  importDocument: () => void;
+  exportDocument: (format: DocumentExportFormat) => void;
+  saveVersion: () => void;
+  showTab: (tab: EditorTab) => void;
+}
+
+export interface PaletteCommand {
+  /** Unique in the registry; registering an ID again replaces the command */
+  id: string;
+  label: string;
+  description?: string;
+  /** Heading it is listed under; groups keep the order they first appear in */
+  group: string;
+  icon?: ComponentType<{ className?: string }>;
+  /** Other names it is found by, e.g. "h1" */
+  aliases?: string[];
+  /** Words it is found by, ranked below the label and aliases */
+  keywords?: string[];
+  /** Runs it from anywhere in the editor, e.g. "Mod+Shift+Z" (see matchesShortcut) */
+  shortcut?: string;
+  /** Hidden (with its sub-menu) while this returns false */
+  enabled?: (context: CommandContext) => boolean;
+  run?: (context: CommandContext) => void;
+  /** Opened instead of running, e.g. Callout → Info, Warning, Success */
+  children?: PaletteCommand[];
+  /** Leave the palette open after running (e.g. switching to AI mode) */
+  keepOpen?: boolean;
+}
+
+/** A command found by a search, with the sub-menus leading to it */
+export interface CommandMatch {
+  command: PaletteCommand;
+  /** Parent commands, outermost first (empty at the top level) */
+  path: PaletteCommand[];
+  score: number;
+}
+
+// Recently run commands remembered (and boosted) per registry
+const RECENT_LIMIT = 5;
+// Added to the score of the most recent command, less for older ones
+const RECENT_BOOST = 60;
+
+// Weights for where a query matched, relative to the label
+const ALIAS_WEIGHT = 0.95;
+const KEYWORD_WEIGHT = 0.8;
+const DESCRIPTION_WEIGHT = 0.5;
+
+const WORD_BOUNDARY_REGEX = /[\s\-_/.→]/;
+
+/**
+ * How well a query matches a piece of text, 0 if it doesn't: exact
+ * matches, then prefixes, then whole words, then substrings, then the
+ * query's characters in order (closer together and at word starts is
+ * better)
+ */
+export function fuzzyScore(text: string, query: string): number {
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase().trim();
+  if (!needle) {
+    return 0;
+  }
+  if (haystack === needle) {
+    return 1000;
+  }
+  // Shorter texts rank higher among equally good matches
+  const tightness = needle.length / haystack.length;
+  if (haystack.startsWith(needle)) {
+    return 800 + tightness * 100;
+  }
+  const index = haystack.indexOf(needle);
+  if (index > 0 && WORD_BOUNDARY_REGEX.test(haystack[index - 1])) {
+    return 600 + tightness * 100;
+  }
+  if (index > 0) {
+    return 400 + tightness * 100;
+  }
+  return subsequenceScore(haystack, needle);
+}
+
+/**
+ * Score for the query's characters appearing in order, 0 if they don't
+ */
+function subsequenceScore(haystack: string, needle: string): number {
+  let score = 200;
+  let position = -1;
+  for (const char of needle) {
+    const next = haystack.indexOf(char, position + 1);
+    if (next === -1) {
+      return 0;
+    }
+    const gap = next - position - 1;
+    const atWordStart =
+      next === 0 || WORD_BOUNDARY_REGEX.test(haystack[next - 1]);
+    score += atWordStart ? 10 : -Math.min(gap, 10) * 2;
+    position = next;
+  }
+  return Math.max(score, 1);
+}
+
+/**
+ * Best score of a command's label, aliases, keywords and description
+ */
+function scoreCommand(command: PaletteCommand, query: string): number {
+  const best = (texts: string[] | undefined, weight: number) =>
+    Math.max(0, ...(texts ?? []).map((text) => fuzzyScore(text, query))) *
+    weight;
+  return Math.max(
+    fuzzyScore(command.label, query),
+    best(command.aliases, ALIAS_WEIGHT),
+    best(command.keywords, KEYWORD_WEIGHT),
+    best(command.description ? [command.description] : [], DESCRIPTION_WEIGHT)
+  );
+}
+
+/**
+ * Whether a command is shown for a context
+ */
+export function isCommandEnabled(
+  command: PaletteCommand,
+  context: CommandContext
+): boolean {
+  return command.enabled?.(context) ?? true;
+}
+
+/**
+ * Enabled commands at every depth, parents before their sub-menus
+ */
+function flattenCommands(
+  commands: PaletteCommand[],
+  context: CommandContext,
+  path: PaletteCommand[] = []
+): CommandMatch[] {
+  return commands
+    .filter((command) => isCommandEnabled(command, context))
+    .flatMap((command) => [
+      { command, path, score: 0 },
+      ...flattenCommands(command.children ?? [], context, [...path, command]),
+    ]);
+}
+
+/**
+ * Commands matching a query, best first. Commands in sub-menus are found
+ * too (with their path); recently used ones are boosted. An empty query
+ * lists the enabled top-level commands in order.
+ *
+ * @param recent - Recently run command IDs, most recent first
+ */
+export function rankCommands(
+  commands: PaletteCommand[],
+  query: string,
+  context: CommandContext,
+  recent: string[] = []
+): CommandMatch[] {
+  if (!query.trim()) {
+    return commands
+      .filter((command) => isCommandEnabled(command, context))
+      .map((command) => ({ command, path: [], score: 0 }));
+  }
+  return flattenCommands(commands, context)
+    .map((match) => {
+      const score = scoreCommand(match.command, query);
+      const recentIndex = recent.indexOf(match.command.id);
+      const boost =
+        score > 0 && recentIndex !== -1
+          ? RECENT_BOOST * (1 - recentIndex / RECENT_LIMIT)
+          : 0;
+      return { ...match, score: score + boost };
+    })
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Recently run commands that are still registered and enabled, most
+ * recent first
+ */
+export function getRecentCommands(
+  commands: PaletteCommand[],
+  recent: string[],
+  context: CommandContext
+): CommandMatch[] {
+  const byId = new Map(
+    flattenCommands(commands, context).map((match) => [match.command.id, match])
+  );
+  return recent.flatMap((id) => {
+    const match = byId.get(id);
+    return match && !match.command.children ? [match] : [];
+  });
+}
+
+// ============================================================================
+// SHORTCUTS
+// Written as modifiers and a key joined by "+": "Mod+Shift+Z". Mod is Cmd
+// on a Mac and Ctrl elsewhere (either is accepted); Shift and Alt must match
+// exactly. Letters and digits are compared by physical key, so Alt+S works
+// on layouts where Alt changes the character typed.
+// ============================================================================
+
+const MAC_PLATFORM_REGEX = /Mac|iPhone|iPad/;
+const LETTER_REGEX = /^[a-z]$/i;
+const DIGIT_REGEX = /^\d$/;
+
+function parseShortcut(shortcut: string) {
+  const parts = shortcut.split("+");
+  const key = parts.at(-1) ?? "";
+  const modifiers = new Set(parts.slice(0, -1));
+  return {
+    key,
+    mod: modifiers.has("Mod"),
+    shift: modifiers.has("Shift"),
+    alt: modifiers.has("Alt"),
+  };
+}
+
+/**
+ * Whether a key press is a shortcut
+ */
+export function matchesShortcut(
+  event: Pick<
+    KeyboardEvent,
+    "key" | "code" | "metaKey" | "ctrlKey" | "shiftKey" | "altKey"
+  >,
+  shortcut: string
+): boolean {
+  const { key, mod, shift, alt } = parseShortcut(shortcut);
+  if (
+    mod !== (event.metaKey || event.ctrlKey) ||
+    shift !== event.shiftKey ||
+    alt !== event.altKey
+  ) {
+    return false;
+  }
+  if (LETTER_REGEX.test(key)) {
+    return event.code === `Key${key.toUpperCase()}`;
+  }
+  if (DIGIT_REGEX.test(key)) {
+    return event.code === `Digit${key}`;
+  }
+  return event.key.toLowerCase() === key.toLowerCase();
+}
+
+/**
+ * A shortcut as shown next to its command: "⇧⌘Z" on a Mac, "Ctrl+Shift+Z"
+ * elsewhere
+ */
+export function formatShortcut(
+  shortcut: string,
+  isMac = typeof navigator !== "undefined" &&
+    MAC_PLATFORM_REGEX.test(navigator.platform)
+): string {
+  const { key, mod, shift, alt } = parseShortcut(shortcut);
+  const label = key.length === 1 ? key.toUpperCase() : key;
+  if (isMac) {
+    return `${alt ? "⌥" : ""}${shift ? "⇧" : ""}${mod ? "⌘" : ""}${label}`;
+  }
+  return [mod && "Ctrl", alt && "Alt", shift && "Shift", label]
+    .filter(Boolean)
+    .join("+");
+}
+
+/**
+ * The enabled command whose shortcut a key press is, if any
+ */
+export function findShortcutCommand(
+  commands: PaletteCommand[],
+  event: KeyboardEvent,
+  context: CommandContext
+): PaletteCommand | undefined {
+  return flattenCommands(commands, context).find(
+    ({ command }) =>
+      command.shortcut &&
+      command.run &&
+      matchesShortcut(event, command.shortcut)
+  )?.command;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+export interface CommandRegistry {
+  /**
+   * Add commands after the ones registered so far (a command with an ID
+   * already registered replaces it in place)
+   *
+   * @returns Removes the commands again
+   */
+  register: (commands: PaletteCommand[]) => () => void;
+  /** Registered commands, in order (the same array until they change) */
+  getCommands: () => PaletteCommand[];
+  /** Called whenever commands are added or removed */
+  subscribe: (listener: () => void) => () => void;
+  /** Recently run command IDs, most recent first */
+  getRecent: () => string[];
+  /** Remember a command as just run, for ranking */
+  recordUse: (commandId: string) => void;
+}
+
+/**
+ * Create a command registry, optionally starting with some commands
+ */
+export function createCommandRegistry(
+  initialCommands: PaletteCommand[] = []
+): CommandRegistry {
+  let commands: PaletteCommand[] = [];
+  let recent: string[] = [];
+  const listeners = new Set<() => void>();
+
+  const setCommands = (next: PaletteCommand[]) => {
+    commands = next;
+    for (const listener of listeners) {
+      listener();
+    }
+  };
+
+  const register = (added: PaletteCommand[]) => {
+    const next = [...commands];
+    for (const command of added) {
+      const index = next.findIndex((existing) => existing.id === command.id);
+      if (index === -1) {
+        next.push(command);
+      } else {
+        next[index] = command;
+      }
+    }
+    setCommands(next);
+    return () => {
+      // Commands replaced by a later registration stay
+      setCommands(commands.filter((command) => !added.includes(command)));
+    };
+  };
+
+  register(initialCommands);
+
+  return {
+    register,
+    getCommands: () => commands,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    getRecent: () => recent,
+    recordUse(commandId) {
+      recent = [commandId, ...recent.filter((id) => id !== commandId)].slice(
+        0,
+        RECENT_LIMIT
+      );
+    },
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Unit tests for the CRDT document model.
+ * Tests round-tripping BlockDocuments through a Y.Doc, minimal updates and
+ * merging of concurrent edits.
+ */
+import { describe, expect, it } from "bun:test";
+import { applyUpdate, Doc, encodeStateAsUpdate } from "yjs";
+import type { BlockDocument } from "@/types/blocks";
+import { createTestDocument } from "../../test/fixtures";
+import { applyDocumentToYDoc, yDocToDocument } from "./crdt-document";
+import { cloneDocument, createBlock } from "./utils";
+
+/** A paragraph followed by columns holding another paragraph */
+function createSharedDocument(): BlockDocument {
+  const paragraph = createBlock("paragraph", { content: "<p>Hello world</p>" });
+  const left = createBlock("paragraph", { content: "<p>Left</p>" });
+  const columns = createBlock("columns", {
+    columns: [[left.props.id], []],
+  });
+  return createTestDocument([paragraph, left, columns], {
+    title: "Shared",
+    rootBlockIds: [paragraph.props.id, columns.props.id],
+  });
+}
+
+/** Two replicas of the same shared document */
+function createReplicas(doc: BlockDocument): [Doc, Doc] {
+  const a = new Doc();
+  applyDocumentToYDoc(a, doc);
+  const b = new Doc();
+  applyUpdate(b, encodeStateAsUpdate(a));
+  return [a, b];
+}
+
+function syncReplicas(a: Doc, b: Doc) {
+  applyUpdate(a, encodeStateAsUpdate(b));
+  applyUpdate(b, encodeStateAsUpdate(a));
+}
+
+function setContent(doc: BlockDocument, blockId: string, content: string) {
+  const block = doc.blocks[blockId];
+  if (block.type === "paragraph") {
+    block.props.content = content;
+  }
+}
+
+describe("applyDocumentToYDoc / yDocToDocument", () => {
+  it("should round-trip a document", () => {
+    const doc = createSharedDocument();
+    const ydoc = new Doc();
+    applyDocumentToYDoc(ydoc, doc);
+
+    expect(yDocToDocument(ydoc)).toEqual(doc);
+  });
+
+  it("should return null for an empty Y.Doc", () => {
+    expect(yDocToDocument(new Doc())).toBeNull();
+  });
+
+  it("should not emit updates when nothing changed", () => {
+    const doc = createSharedDocument();
+    const ydoc = new Doc();
+    applyDocumentToYDoc(ydoc, doc);
+
+    let updates = 0;
+    ydoc.on("update", () => updates++);
+    applyDocumentToYDoc(ydoc, cloneDocument(doc));
+    expect(updates).toBe(0);
+  });
+
+  it("should apply edits in the middle of text", () => {
+    const doc = createSharedDocument();
+    const ydoc = new Doc();
+    applyDocumentToYDoc(ydoc, doc);
+
+    const [paragraphId] = doc.rootBlockIds;
+    setContent(doc, paragraphId, "<p>Hello brave world</p>");
+    applyDocumentToYDoc(ydoc, doc);
+    expect(yDocToDocument(ydoc)).toEqual(doc);
+  });
+
+  it("should remove deleted blocks and reorder root blocks", () => {
+    const doc = createSharedDocument();
+    const ydoc = new Doc();
+    applyDocumentToYDoc(ydoc, doc);
+
+    const [paragraphId, columnsId] = doc.rootBlockIds;
+    delete doc.blocks[paragraphId];
+    doc.rootBlockIds = [columnsId];
+    applyDocumentToYDoc(ydoc, doc);
+
+    expect(yDocToDocument(ydoc)).toEqual(doc);
+  });
+});
+
+describe("concurrent edits", () => {
+  it("should merge typing in the same block", () => {
+    const doc = createSharedDocument();
+    const [a, b] = createReplicas(doc);
+    const [paragraphId] = doc.rootBlockIds;
+
+    const docA = cloneDocument(doc);
+    setContent(docA, paragraphId, "<p>Hello big world</p>");
+    applyDocumentToYDoc(a, docA);
+
+    const docB = cloneDocument(doc);
+    setContent(docB, paragraphId, "<p>Hello world!</p>");
+    applyDocumentToYDoc(b, docB);
+
+    syncReplicas(a, b);
+    const merged = yDocToDocument(a);
+    expect(merged).toEqual(yDocToDocument(b));
+    const block = merged?.blocks[paragraphId];
+    expect(block?.type === "paragraph" && block.props.content).toBe(
+      "<p>Hello big world!</p>"
+    );
+  });
+
+  it("should keep blocks inserted by both users", () => {
+    const doc = createSharedDocument();
+    const [a, b] = createReplicas(doc);
+
+    const docA = cloneDocument(doc);
+    const fromA = createBlock("heading", { content: "From A" });
+    docA.blocks[fromA.props.id] = fromA;
+    docA.rootBlockIds.unshift(fromA.props.id);
+    applyDocumentToYDoc(a, docA);
+
+    const docB = cloneDocument(doc);
+    const fromB = createBlock("divider");
+    docB.blocks[fromB.props.id] = fromB;
+    docB.rootBlockIds.push(fromB.props.id);
+    applyDocumentToYDoc(b, docB);
+
+    syncReplicas(a, b);
+    const merged = yDocToDocument(a);
+    expect(merged?.rootBlockIds).toEqual([
+      fromA.props.id,
+      ...doc.rootBlockIds,
+      fromB.props.id,
+    ]);
+  });
+
+  it("should merge moves into different columns", () => {
+    const doc = createSharedDocument();
+    const [a, b] = createReplicas(doc);
+    const [paragraphId, columnsId] = doc.rootBlockIds;
+    const columns = doc.blocks[columnsId];
+    if (columns.type !== "columns") {
+      throw new Error("expected columns block");
+    }
+    const [leftId] = columns.props.columns[0];
+
+    // A moves the root paragraph into the right column
+    const docA = cloneDocument(doc);
+    const columnsA = docA.blocks[columnsId];
+    if (columnsA.type === "columns") {
+      columnsA.props.columns[1].push(paragraphId);
+    }
+    docA.rootBlockIds = [columnsId];
+    applyDocumentToYDoc(a, docA);
+
+    // B edits the left column's block
+    const docB = cloneDocument(doc);
+    setContent(docB, leftId, "<p>Left edited</p>");
+    applyDocumentToYDoc(b, docB);
+
+    syncReplicas(a, b);
+    const merged = yDocToDocument(b);
+    const mergedColumns = merged?.blocks[columnsId];
+    expect(
+      mergedColumns?.type === "columns" && mergedColumns.props.columns
+    ).toEqual([[leftId], [paragraphId]]);
+    expect(merged?.rootBlockIds).toEqual([columnsId]);
+    const left = merged?.blocks[leftId];
+    expect(left?.type === "paragraph" && left.props.content).toBe(
+      "<p>Left edited</p>"
+    );
+  });
+});
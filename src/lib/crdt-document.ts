@@ -0,0 +1,238 @@
+import { type Doc, Array as YArray, Map as YMap, Text as YText } from "yjs";
+import {
+  type Block,
+  type BlockDocument,
+  BlockDocumentSchema,
+} from "@/types/blocks";
+
+// ============================================================================
+// CRDT DOCUMENT MODEL
+// Mirrors a BlockDocument in a Y.Doc so concurrent edits from several users
+// merge instead of overwriting each other:
+//   meta          Y.Map   id, createdAt, updatedAt, schemaVersion
+//   title         Y.Text
+//   rootBlockIds  Y.Array<string>
+//   blocks        Y.Map<Y.Map>  blockId → { type, props: Y.Map }
+// Inside props, text fields are Y.Text (merged per character), column
+// membership is Y.Array<Y.Array<string>>, and every other prop is a plain
+// value where the last writer wins.
+// Local changes are applied as minimal edits (common prefix/suffix), so
+// unchanged parts of the document produce no CRDT operations.
+// ============================================================================
+
+/** Props stored as Y.Text so concurrent typing merges */
+const TEXT_PROPS = new Set(["content", "code"]);
+
+/** Top-level shared types of a collaborative document */
+export function getSharedTypes(ydoc: Doc) {
+  return {
+    meta: ydoc.getMap<unknown>("meta"),
+    title: ydoc.getText("title"),
+    rootBlockIds: ydoc.getArray<string>("rootBlockIds"),
+    blocks: ydoc.getMap<YMap<unknown>>("blocks"),
+  };
+}
+
+/**
+ * Replace a Y.Text's content with a minimal delete + insert.
+ */
+function syncText(ytext: YText, value: string): void {
+  const current = ytext.toString();
+  if (current === value) {
+    return;
+  }
+
+  const maxShared = Math.min(current.length, value.length);
+  let start = 0;
+  while (start < maxShared && current[start] === value[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < maxShared - start &&
+    current.at(-1 - end) === value.at(-1 - end)
+  ) {
+    end++;
+  }
+
+  ytext.delete(start, current.length - start - end);
+  ytext.insert(start, value.slice(start, value.length - end));
+}
+
+/**
+ * Replace a Y.Array's items with a minimal splice.
+ */
+function syncArray(yarray: YArray<string>, value: string[]): void {
+  const current = yarray.toArray();
+  const maxShared = Math.min(current.length, value.length);
+  let start = 0;
+  while (start < maxShared && current[start] === value[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < maxShared - start &&
+    current.at(-1 - end) === value.at(-1 - end)
+  ) {
+    end++;
+  }
+
+  const deleteCount = current.length - start - end;
+  const inserted = value.slice(start, value.length - end);
+  if (deleteCount > 0) {
+    yarray.delete(start, deleteCount);
+  }
+  if (inserted.length > 0) {
+    yarray.insert(start, inserted);
+  }
+}
+
+/**
+ * Sync column membership: one Y.Array of block IDs per column.
+ */
+function syncColumns(
+  ycolumns: YArray<YArray<string>>,
+  columns: string[][]
+): void {
+  if (ycolumns.length > columns.length) {
+    ycolumns.delete(columns.length, ycolumns.length - columns.length);
+  }
+  while (ycolumns.length < columns.length) {
+    ycolumns.push([new YArray<string>()]);
+  }
+  for (const [index, column] of columns.entries()) {
+    syncArray(ycolumns.get(index), column);
+  }
+}
+
+/**
+ * Write a prop into a block's props map, reusing existing shared types.
+ */
+function syncProp(yprops: YMap<unknown>, key: string, value: unknown): void {
+  const existing = yprops.get(key);
+
+  if (TEXT_PROPS.has(key) && typeof value === "string") {
+    if (existing instanceof YText) {
+      syncText(existing, value);
+    } else {
+      yprops.set(key, new YText(value));
+    }
+    return;
+  }
+
+  if (key === "columns" && Array.isArray(value)) {
+    if (existing instanceof YArray) {
+      syncColumns(existing, value as string[][]);
+    } else {
+      const ycolumns = new YArray<YArray<string>>();
+      yprops.set(key, ycolumns);
+      syncColumns(ycolumns, value as string[][]);
+    }
+    return;
+  }
+
+  if (JSON.stringify(existing) !== JSON.stringify(value)) {
+    yprops.set(key, value);
+  }
+}
+
+/**
+ * Write a block into its shared map, creating the map if needed.
+ */
+function syncBlock(yblocks: YMap<YMap<unknown>>, block: Block): void {
+  let yblock = yblocks.get(block.props.id);
+  if (!yblock) {
+    yblock = new YMap<unknown>();
+    yblocks.set(block.props.id, yblock);
+  }
+  if (yblock.get("type") !== block.type) {
+    yblock.set("type", block.type);
+  }
+
+  let yprops = yblock.get("props");
+  if (!(yprops instanceof YMap)) {
+    yprops = new YMap<unknown>();
+    yblock.set("props", yprops);
+  }
+  const props = yprops as YMap<unknown>;
+
+  const entries = Object.entries(block.props).filter(
+    ([, value]) => value !== undefined
+  );
+  for (const [key, value] of entries) {
+    syncProp(props, key, value);
+  }
+  const keys = new Set(entries.map(([key]) => key));
+  for (const key of [...props.keys()]) {
+    if (!keys.has(key)) {
+      props.delete(key);
+    }
+  }
+}
+
+/**
+ * Apply a document to its CRDT mirror as a single transaction. Only the
+ * differences from the current shared state are written.
+ *
+ * @param ydoc - Shared document
+ * @param document - Document to write
+ * @param origin - Transaction origin (identifies local vs remote changes)
+ */
+export function applyDocumentToYDoc(
+  ydoc: Doc,
+  document: BlockDocument,
+  origin?: unknown
+): void {
+  const { meta, title, rootBlockIds, blocks } = getSharedTypes(ydoc);
+
+  ydoc.transact(() => {
+    for (const key of [
+      "id",
+      "createdAt",
+      "updatedAt",
+      "schemaVersion",
+    ] as const) {
+      if (meta.get(key) !== document[key]) {
+        meta.set(key, document[key]);
+      }
+    }
+    syncText(title, document.title);
+
+    for (const blockId of [...blocks.keys()]) {
+      if (!document.blocks[blockId]) {
+        blocks.delete(blockId);
+      }
+    }
+    for (const block of Object.values(document.blocks)) {
+      syncBlock(blocks, block);
+    }
+
+    syncArray(rootBlockIds, document.rootBlockIds);
+  }, origin);
+}
+
+/**
+ * Read the document a Y.Doc currently holds.
+ *
+ * @param ydoc - Shared document
+ * @returns The document, or null if the shared state is empty or invalid
+ */
+export function yDocToDocument(ydoc: Doc): BlockDocument | null {
+  const { meta, title, rootBlockIds, blocks } = getSharedTypes(ydoc);
+  if (!meta.has("id")) {
+    return null;
+  }
+
+  const result = BlockDocumentSchema.safeParse({
+    ...meta.toJSON(),
+    title: title.toString(),
+    blocks: blocks.toJSON(),
+    // Concurrent inserts of the same block can leave duplicates
+    rootBlockIds: [...new Set(rootBlockIds.toArray())],
+  });
+  if (!result.success) {
+    console.warn("Ignoring invalid shared document:", result.error);
+    return null;
+  }
+  return result.data;
+}
@@ -0,0 +1,135 @@
+/**
+ * Unit tests for the document integrity checker.
+ * Tests detection and repair of orphans, dangling and duplicate references
+ * and cycles.
+ */
+import { describe, expect, it } from "bun:test";
+import type { BlockDocument } from "@/types/blocks";
+import { createTestDocument } from "../../test/fixtures";
+import {
+  describeIntegrityIssue,
+  repairDocumentIntegrity,
+  validateDocumentIntegrity,
+} from "./document-integrity";
+import { createBlock, createDocument } from "./utils";
+
+function getColumns(doc: BlockDocument, blockId: string): string[][] {
+  const block = doc.blocks[blockId];
+  return block?.type === "columns" ? block.props.columns : [];
+}
+
+const paragraph = (content: string) => createBlock("paragraph", { content });
+
+describe("validateDocumentIntegrity", () => {
+  it("should accept a sound document with nested columns", () => {
+    const left = paragraph("Left");
+    const inner = createBlock("columns", { columns: [[left.props.id], []] });
+    const outer = createBlock("columns", { columns: [[inner.props.id], []] });
+    const doc = createTestDocument([outer, inner, left], {
+      rootBlockIds: [outer.props.id],
+    });
+
+    expect(validateDocumentIntegrity(doc)).toEqual([]);
+    expect(validateDocumentIntegrity(createDocument())).toEqual([]);
+  });
+
+  it("should find orphans, dangling and duplicate references", () => {
+    const kept = paragraph("Kept");
+    const orphan = paragraph("Orphan");
+    const columns = createBlock("columns", {
+      columns: [[kept.props.id], ["missing"]],
+    });
+    const doc = createTestDocument([kept, orphan, columns], {
+      rootBlockIds: [columns.props.id, kept.props.id],
+    });
+
+    expect(validateDocumentIntegrity(doc)).toEqual([
+      {
+        type: "dangling-reference",
+        blockId: "missing",
+        parentId: columns.props.id,
+      },
+      { type: "duplicate-reference", blockId: kept.props.id, parentId: null },
+      { type: "orphan", blockId: orphan.props.id },
+    ]);
+  });
+
+  it("should find a columns block placed inside itself", () => {
+    const outer = createBlock("columns", { columns: [[], []] });
+    const inner = createBlock("columns", { columns: [[outer.props.id], []] });
+    const doc = createTestDocument([outer, inner], {
+      rootBlockIds: [outer.props.id],
+    });
+    getColumns(doc, outer.props.id)[0].push(inner.props.id);
+
+    expect(validateDocumentIntegrity(doc)).toEqual([
+      { type: "cycle", blockId: outer.props.id, parentId: inner.props.id },
+    ]);
+  });
+});
+
+describe("repairDocumentIntegrity", () => {
+  it("should keep the first reference and drop the rest", () => {
+    const child = paragraph("Child");
+    const orphan = paragraph("Orphan");
+    const columns = createBlock("columns", {
+      columns: [[child.props.id, "missing"], [child.props.id]],
+    });
+    const doc = createTestDocument([child, orphan, columns], {
+      rootBlockIds: [columns.props.id, "missing"],
+    });
+
+    const { document, issues } = repairDocumentIntegrity(doc);
+
+    expect(issues).toHaveLength(4);
+    expect(document.rootBlockIds).toEqual([columns.props.id]);
+    expect(getColumns(document, columns.props.id)).toEqual([
+      [child.props.id],
+      [],
+    ]);
+    expect(document.blocks[orphan.props.id]).toBeUndefined();
+    expect(validateDocumentIntegrity(document)).toEqual([]);
+  });
+
+  it("should delete the contents of a removed columns block", () => {
+    const child = paragraph("Left behind");
+    const columns = createBlock("columns", { columns: [[child.props.id], []] });
+    const doc = createTestDocument([child, columns], { rootBlockIds: [] });
+
+    const { document } = repairDocumentIntegrity(doc);
+
+    expect(Object.keys(document.blocks)).toEqual([]);
+  });
+
+  it("should break cycles and leave the input untouched", () => {
+    const outer = createBlock("columns", { columns: [[], []] });
+    const doc = createTestDocument([outer], { rootBlockIds: [outer.props.id] });
+    getColumns(doc, outer.props.id)[1].push(outer.props.id);
+    const before = structuredClone(doc);
+
+    const { document } = repairDocumentIntegrity(doc);
+
+    expect(getColumns(document, outer.props.id)).toEqual([[], []]);
+    expect(doc).toEqual(before);
+  });
+
+  it("should return the same document when nothing is wrong", () => {
+    const doc = createDocument();
+    expect(repairDocumentIntegrity(doc).document).toBe(doc);
+  });
+});
+
+describe("describeIntegrityIssue", () => {
+  it("should say where the problem is", () => {
+    expect(
+      describeIntegrityIssue({
+        type: "dangling-reference",
+        blockId: "a",
+        parentId: null,
+      })
+    ).toBe('The root list references missing block "a"');
+    expect(
+      describeIntegrityIssue({ type: "cycle", blockId: "a", parentId: "b" })
+    ).toBe('Block "a" is placed inside itself via columns block "b"');
+  });
+});
@@ -0,0 +1,132 @@
+import type { BlockDocument } from "@/types/blocks";
+import { cloneDocument } from "./utils";
+
+// ============================================================================
+// DOCUMENT INTEGRITY
+// The block map and the ID lists that order it (rootBlockIds and each
+// column) can drift apart: a deleted columns block can leave its children
+// behind, a list can point at a block that no longer exists, a block can be
+// listed twice, or a columns block can end up inside itself. The schema
+// can't see any of this, so documents are checked by walking the tree from
+// the root list, and repaired by keeping the first valid reference to each
+// block and dropping everything else.
+// ============================================================================
+
+export type IntegrityIssue =
+  /** A block in the map that no list references (it is never shown) */
+  | { type: "orphan"; blockId: string }
+  /** A list references a block that isn't in the map */
+  | { type: "dangling-reference"; blockId: string; parentId: string | null }
+  /** A block is referenced again after its first placement */
+  | { type: "duplicate-reference"; blockId: string; parentId: string | null }
+  /** A columns block is referenced from inside itself */
+  | { type: "cycle"; blockId: string; parentId: string };
+
+export interface IntegrityResult {
+  /** The repaired document (a copy; the input is never changed) */
+  document: BlockDocument;
+  /** What was wrong, in document order; empty if nothing was */
+  issues: IntegrityIssue[];
+}
+
+/**
+ * Walk the tree from the root list and rebuild every list with only valid
+ * references. `parentId` is the columns block owning a list (null for root).
+ */
+function repairTree(doc: BlockDocument): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const placed = new Set<string>();
+
+  const repairList = (
+    ids: string[],
+    parentId: string | null,
+    ancestors: Set<string>
+  ): string[] =>
+    ids.filter((blockId) => {
+      const block = doc.blocks[blockId];
+      if (!block) {
+        issues.push({ type: "dangling-reference", blockId, parentId });
+        return false;
+      }
+      // Ancestors are always placed, so check for cycles first
+      if (parentId !== null && ancestors.has(blockId)) {
+        issues.push({ type: "cycle", blockId, parentId });
+        return false;
+      }
+      if (placed.has(blockId)) {
+        issues.push({ type: "duplicate-reference", blockId, parentId });
+        return false;
+      }
+      placed.add(blockId);
+      if (block.type === "columns") {
+        const inside = new Set([...ancestors, blockId]);
+        block.props.columns = block.props.columns.map((column) =>
+          repairList(column, blockId, inside)
+        );
+      }
+      return true;
+    });
+
+  doc.rootBlockIds = repairList(doc.rootBlockIds, null, new Set());
+
+  for (const blockId of Object.keys(doc.blocks)) {
+    if (!placed.has(blockId)) {
+      issues.push({ type: "orphan", blockId });
+      delete doc.blocks[blockId];
+    }
+  }
+  return issues;
+}
+
+/**
+ * Repair a document's structure: drop dangling, duplicate and cyclic
+ * references and delete orphaned blocks.
+ *
+ * @param document - Document to check (not modified)
+ * @returns The repaired copy and the issues that were fixed
+ */
+export function repairDocumentIntegrity(
+  document: BlockDocument
+): IntegrityResult {
+  const repaired = cloneDocument(document);
+  const issues = repairTree(repaired);
+  return { document: issues.length > 0 ? repaired : document, issues };
+}
+
+/**
+ * Find structural problems in a document without changing it.
+ *
+ * @returns Issues in document order, orphans last; empty if the document is sound
+ */
+export function validateDocumentIntegrity(
+  document: BlockDocument
+): IntegrityIssue[] {
+  return repairDocumentIntegrity(document).issues;
+}
+
+/**
+ * One-line description of an issue and how repair handles it
+ */
+export function describeIntegrityIssue(issue: IntegrityIssue): string {
+  const where =
+    "parentId" in issue && issue.parentId !== null
+      ? `columns block "${issue.parentId}"`
+      : "the root list";
+  switch (issue.type) {
+    case "orphan":
+      return `Block "${issue.blockId}" isn't placed anywhere (deleted on repair)`;
+    case "dangling-reference":
+      return `${capitalize(where)} references missing block "${issue.blockId}"`;
+    case "duplicate-reference":
+      return `Block "${issue.blockId}" is placed again in ${where} (extra reference removed)`;
+    case "cycle":
+      return `Block "${issue.blockId}" is placed inside itself via ${where}`;
+    default:
+      issue satisfies never;
+      return "";
+  }
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for document library helpers.
+ * Tests searchDocuments(), sortDocuments(), duplicateDocument(),
+ * upsertDocument() and formatRelativeTime().
+ */
+import { describe, expect, it } from "bun:test";
+import type { BlockDocument } from "@/types/blocks";
+import {
+  duplicateDocument,
+  formatRelativeTime,
+  getDocumentDisplayTitle,
+  searchDocuments,
+  sortDocuments,
+  upsertDocument,
+} from "./document-library";
+import { createDocument } from "./utils";
+
+function createDocumentAt(title: string, updatedAt: string): BlockDocument {
+  return { ...createDocument(title), updatedAt };
+}
+
+describe("getDocumentDisplayTitle", () => {
+  it("should fall back to Untitled for empty titles", () => {
+    expect(getDocumentDisplayTitle(createDocument("  "))).toBe("Untitled");
+    expect(getDocumentDisplayTitle(createDocument("Notes"))).toBe("Notes");
+  });
+});
+
+describe("searchDocuments", () => {
+  const documents = [
+    createDocument("Meeting notes"),
+    createDocument("Roadmap"),
+    createDocument(""),
+  ];
+
+  it("should match titles case-insensitively", () => {
+    const results = searchDocuments(documents, "NOTES");
+    expect(results.map((doc) => doc.title)).toEqual(["Meeting notes"]);
+  });
+
+  it("should match untitled documents by their display title", () => {
+    expect(searchDocuments(documents, "untitled")).toHaveLength(1);
+  });
+
+  it("should return everything for an empty query", () => {
+    expect(searchDocuments(documents, "  ")).toHaveLength(3);
+  });
+});
+
+describe("sortDocuments", () => {
+  const older = createDocumentAt("Older", "2026-01-01T00:00:00.000Z");
+  const newer = createDocumentAt("Newer", "2026-02-01T00:00:00.000Z");
+
+  it("should sort newest first by default", () => {
+    expect(sortDocuments([older, newer]).map((doc) => doc.title)).toEqual([
+      "Newer",
+      "Older",
+    ]);
+  });
+
+  it("should sort oldest first", () => {
+    expect(
+      sortDocuments([newer, older], "oldest").map((doc) => doc.title)
+    ).toEqual(["Older", "Newer"]);
+  });
+
+  it("should not mutate the input", () => {
+    const input = [older, newer];
+    sortDocuments(input);
+    expect(input).toEqual([older, newer]);
+  });
+});
+
+describe("duplicateDocument", () => {
+  it("should copy content under a new ID and title", () => {
+    const source = createDocument("Plan");
+    const copy = duplicateDocument(source);
+
+    expect(copy.id).not.toBe(source.id);
+    expect(copy.title).toBe("Plan (copy)");
+    expect(copy.rootBlockIds).toEqual(source.rootBlockIds);
+    expect(copy.blocks).not.toBe(source.blocks);
+  });
+});
+
+describe("upsertDocument", () => {
+  it("should replace an existing document or append a new one", () => {
+    const first = createDocument("First");
+    const second = createDocument("Second");
+    const renamed = { ...first, title: "Renamed" };
+
+    expect(upsertDocument([first], renamed)).toEqual([renamed]);
+    expect(upsertDocument([first], second)).toEqual([first, second]);
+  });
+});
+
+describe("formatRelativeTime", () => {
+  const now = new Date("2026-03-10T12:00:00.000Z").getTime();
+
+  it("should format recent edits as just now", () => {
+    expect(formatRelativeTime("2026-03-10T11:59:30.000Z", now)).toBe(
+      "just now"
+    );
+  });
+
+  it("should use the largest fitting unit", () => {
+    expect(formatRelativeTime("2026-03-10T11:55:00.000Z", now)).toBe(
+      "5 minutes ago"
+    );
+    expect(formatRelativeTime("2026-03-09T12:00:00.000Z", now)).toBe(
+      "yesterday"
+    );
+  });
+});
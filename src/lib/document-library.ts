@@ -0,0 +1,120 @@
+import type { BlockDocument } from "@/types/blocks";
+import { cloneDocument, generateId } from "./utils";
+
+// ============================================================================
+// DOCUMENT LIBRARY HELPERS
+// Pure helpers behind the document sidebar: search, sort and duplication.
+// ============================================================================
+
+export type DocumentSortOrder = "newest" | "oldest";
+
+export const UNTITLED_DOCUMENT_TITLE = "Untitled";
+
+/**
+ * Title shown for a document, falling back for empty titles.
+ */
+export function getDocumentDisplayTitle(document: BlockDocument): string {
+  return document.title.trim() || UNTITLED_DOCUMENT_TITLE;
+}
+
+/**
+ * Filter documents whose title contains the query (case-insensitive).
+ *
+ * @param documents - Documents to search
+ * @param query - Search text; an empty query matches everything
+ * @returns Matching documents in their original order
+ */
+export function searchDocuments(
+  documents: BlockDocument[],
+  query: string
+): BlockDocument[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return documents;
+  }
+  return documents.filter((document) =>
+    getDocumentDisplayTitle(document).toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Sort documents by when they were last edited.
+ *
+ * @param documents - Documents to sort (not mutated)
+ * @param order - "newest" (most recently edited first) or "oldest"
+ * @returns A new sorted array
+ */
+export function sortDocuments(
+  documents: BlockDocument[],
+  order: DocumentSortOrder = "newest"
+): BlockDocument[] {
+  const direction = order === "newest" ? -1 : 1;
+  return [...documents].sort(
+    (a, b) =>
+      direction *
+      (new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime())
+  );
+}
+
+/**
+ * Create an independent copy of a document with a new ID and title.
+ *
+ * @param document - Document to copy
+ * @returns The copy, timestamped now
+ */
+export function duplicateDocument(document: BlockDocument): BlockDocument {
+  const now = new Date().toISOString();
+  return {
+    ...cloneDocument(document),
+    id: generateId(),
+    title: `${getDocumentDisplayTitle(document)} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Insert or replace a document in a list, keyed by ID.
+ */
+export function upsertDocument(
+  documents: BlockDocument[],
+  document: BlockDocument
+): BlockDocument[] {
+  const index = documents.findIndex((existing) => existing.id === document.id);
+  if (index === -1) {
+    return [...documents, document];
+  }
+  const next = [...documents];
+  next[index] = document;
+  return next;
+}
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ["year", 365 * 24 * 60 * 60 * 1000],
+  ["month", 30 * 24 * 60 * 60 * 1000],
+  ["week", 7 * 24 * 60 * 60 * 1000],
+  ["day", 24 * 60 * 60 * 1000],
+  ["hour", 60 * 60 * 1000],
+  ["minute", 60 * 1000],
+];
+
+const relativeTimeFormat = new Intl.RelativeTimeFormat("en", {
+  numeric: "auto",
+});
+
+/**
+ * Format a timestamp relative to now (e.g. "5 minutes ago", "yesterday").
+ *
+ * @param isoDate - ISO 8601 timestamp
+ * @param now - Reference time in ms (defaults to Date.now())
+ * @returns Human-readable relative time
+ */
+export function formatRelativeTime(isoDate: string, now = Date.now()): string {
+  const elapsed = new Date(isoDate).getTime() - now;
+  for (const [unit, ms] of RELATIVE_TIME_UNITS) {
+    if (Math.abs(elapsed) >= ms) {
+      return relativeTimeFormat.format(Math.round(elapsed / ms), unit);
+    }
+  }
+  return "just now";
+}
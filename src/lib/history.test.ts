@@ -0,0 +1,172 @@
+/**
+ * Unit tests for the undo/redo history stack.
+ * Tests pushHistory() grouping, undoHistory(), redoHistory() and limits.
+ */
+import { describe, expect, it } from "bun:test";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  pushHistory,
+  redoHistory,
+  replacePresent,
+  revertGroup,
+  undoHistory,
+} from "./history";
+
+describe("createHistory", () => {
+  it("should start with nothing to undo or redo", () => {
+    const history = createHistory("a");
+
+    expect(history.present).toBe("a");
+    expect(canUndo(history)).toBe(false);
+    expect(canRedo(history)).toBe(false);
+  });
+});
+
+describe("pushHistory", () => {
+  it("should record each ungrouped change as its own step", () => {
+    let history = createHistory(0);
+    history = pushHistory(history, 1, { now: 0 });
+    history = pushHistory(history, 2, { now: 10 });
+
+    expect(history.present).toBe(2);
+    expect(history.past).toEqual([0, 1]);
+  });
+
+  it("should merge changes in the same group within the window", () => {
+    let history = createHistory("");
+    history = pushHistory(history, "h", { group: "block:1", now: 0 });
+    history = pushHistory(history, "he", { group: "block:1", now: 200 });
+    history = pushHistory(history, "hey", { group: "block:1", now: 400 });
+
+    expect(history.present).toBe("hey");
+    expect(history.past).toEqual([""]);
+  });
+
+  it("should start a new step when the group window elapses", () => {
+    let history = createHistory("");
+    history = pushHistory(history, "h", {
+      group: "block:1",
+      groupWindow: 500,
+      now: 0,
+    });
+    history = pushHistory(history, "hi", {
+      group: "block:1",
+      groupWindow: 500,
+      now: 1000,
+    });
+
+    expect(history.past).toEqual(["", "h"]);
+  });
+
+  it("should start a new step when the group changes", () => {
+    let history = createHistory("");
+    history = pushHistory(history, "a", { group: "block:1", now: 0 });
+    history = pushHistory(history, "ab", { group: "block:2", now: 10 });
+
+    expect(history.past).toEqual(["", "a"]);
+  });
+
+  it("should clear the redo stack", () => {
+    let history = createHistory(0);
+    history = pushHistory(history, 1, { now: 0 });
+    history = undoHistory(history);
+    expect(canRedo(history)).toBe(true);
+
+    history = pushHistory(history, 2, { now: 10 });
+    expect(canRedo(history)).toBe(false);
+    expect(history.past).toEqual([0]);
+  });
+
+  it("should drop the oldest steps beyond the limit", () => {
+    let history = createHistory(0);
+    for (let i = 1; i <= 5; i++) {
+      history = pushHistory(history, i, { now: i, limit: 3 });
+    }
+
+    expect(history.past).toEqual([2, 3, 4]);
+  });
+});
+
+describe("undoHistory / redoHistory", () => {
+  it("should step back and forward through changes", () => {
+    let history = createHistory("a");
+    history = pushHistory(history, "b", { now: 0 });
+    history = pushHistory(history, "c", { now: 10 });
+
+    history = undoHistory(history);
+    expect(history.present).toBe("b");
+    history = undoHistory(history);
+    expect(history.present).toBe("a");
+    expect(canUndo(history)).toBe(false);
+
+    history = redoHistory(history);
+    expect(history.present).toBe("b");
+    history = redoHistory(history);
+    expect(history.present).toBe("c");
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it("should return the same state when there is nothing to undo or redo", () => {
+    const history = createHistory("a");
+
+    expect(undoHistory(history)).toBe(history);
+    expect(redoHistory(history)).toBe(history);
+  });
+
+  it("should not merge a change made after undo into the undone group", () => {
+    let history = createHistory("");
+    history = pushHistory(history, "a", { group: "block:1", now: 0 });
+    history = undoHistory(history);
+    history = pushHistory(history, "b", { group: "block:1", now: 10 });
+
+    expect(history.past).toEqual([""]);
+    expect(history.present).toBe("b");
+  });
+});
+
+describe("replacePresent", () => {
+  it("should replace the present without adding an undo step", () => {
+    let history = createHistory("a");
+    history = pushHistory(history, "ab", { group: "block:1", now: 0 });
+    history = replacePresent(history, "abc");
+
+    expect(history.present).toBe("abc");
+    expect(history.past).toEqual(["a"]);
+  });
+
+  it("should end the current typing group", () => {
+    let history = createHistory("a");
+    history = pushHistory(history, "ab", { group: "block:1", now: 0 });
+    history = replacePresent(history, "abX");
+    history = pushHistory(history, "abXc", { group: "block:1", now: 10 });
+
+    expect(history.past).toEqual(["a", "abX"]);
+  });
+});
+
+describe("revertGroup", () => {
+  it("should drop the group's undo step without leaving a redo step", () => {
+    let history = createHistory("a");
+    history = pushHistory(history, "ab", { group: "ai:1", now: 0 });
+    history = pushHistory(history, "abc", {
+      group: "ai:1",
+      groupWindow: Number.POSITIVE_INFINITY,
+      now: 60_000,
+    });
+    history = revertGroup(history, "ai:1");
+
+    expect(history.present).toBe("a");
+    expect(history.past).toEqual([]);
+    expect(history.future).toEqual([]);
+  });
+
+  it("should do nothing once another change was recorded", () => {
+    let history = createHistory("a");
+    history = pushHistory(history, "ab", { group: "ai:1", now: 0 });
+    history = pushHistory(history, "abX", { group: "block:1", now: 10 });
+
+    expect(revertGroup(history, "ai:1")).toBe(history);
+  });
+});
@@ -0,0 +1,153 @@
+// ============================================================================
+// UNDO/REDO HISTORY
+// Pure, immutable undo stack used by useDocumentStore.
+// Consecutive changes sharing a group key (e.g. typing in the same block)
+// collapse into a single undo step while they arrive within the group window.
+// ============================================================================
+
+export interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  lastGroup: string | null;
+  lastChangeAt: number;
+}
+
+export interface PushHistoryOptions {
+  /** Changes with the same group key are merged into one undo step */
+  group?: string;
+  /** Maximum gap (ms) between grouped changes before a new step starts */
+  groupWindow?: number;
+  /** Timestamp of the change, injectable for tests */
+  now?: number;
+  /** Maximum number of undo steps retained */
+  limit?: number;
+}
+
+export const DEFAULT_GROUP_WINDOW = 1000;
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+/**
+ * Create a fresh history with no undo or redo steps.
+ */
+export function createHistory<T>(present: T): HistoryState<T> {
+  return {
+    past: [],
+    present,
+    future: [],
+    lastGroup: null,
+    lastChangeAt: 0,
+  };
+}
+
+/**
+ * Record a new present value.
+ * Clears the redo stack. When the change shares a group with the previous
+ * change and arrives within the group window, the previous undo step is
+ * reused so the whole burst undoes at once.
+ */
+export function pushHistory<T>(
+  state: HistoryState<T>,
+  next: T,
+  options: PushHistoryOptions = {}
+): HistoryState<T> {
+  const {
+    group,
+    groupWindow = DEFAULT_GROUP_WINDOW,
+    now = Date.now(),
+    limit = DEFAULT_HISTORY_LIMIT,
+  } = options;
+
+  const isGrouped =
+    group !== undefined &&
+    group === state.lastGroup &&
+    now - state.lastChangeAt <= groupWindow;
+
+  const past = isGrouped ? state.past : [...state.past, state.present];
+
+  return {
+    past: past.length > limit ? past.slice(past.length - limit) : past,
+    present: next,
+    future: [],
+    lastGroup: group ?? null,
+    lastChangeAt: now,
+  };
+}
+
+/**
+ * Step back to the previous value. No-op when there is nothing to undo.
+ */
+export function undoHistory<T>(state: HistoryState<T>): HistoryState<T> {
+  const previous = state.past.at(-1);
+  if (previous === undefined) {
+    return state;
+  }
+
+  return {
+    past: state.past.slice(0, -1),
+    present: previous,
+    future: [state.present, ...state.future],
+    lastGroup: null,
+    lastChangeAt: 0,
+  };
+}
+
+/**
+ * Step forward to the next undone value. No-op when there is nothing to redo.
+ */
+export function redoHistory<T>(state: HistoryState<T>): HistoryState<T> {
+  const [next, ...future] = state.future;
+  if (next === undefined) {
+    return state;
+  }
+
+  return {
+    past: [...state.past, state.present],
+    present: next,
+    future,
+    lastGroup: null,
+    lastChangeAt: 0,
+  };
+}
+
+/**
+ * Replace the present value without recording an undo step (e.g. for changes
+ * made by someone else). Ends the current typing group.
+ */
+export function replacePresent<T>(
+  state: HistoryState<T>,
+  present: T
+): HistoryState<T> {
+  return { ...state, present, lastGroup: null, lastChangeAt: 0 };
+}
+
+/**
+ * Take back the latest undo step if it belongs to `group`, as though its
+ * changes never happened (no redo step is left). Returns the state
+ * unchanged when another change has been recorded since.
+ */
+export function revertGroup<T>(
+  state: HistoryState<T>,
+  group: string
+): HistoryState<T> {
+  const previous = state.past.at(-1);
+  if (state.lastGroup !== group || previous === undefined) {
+    return state;
+  }
+
+  return {
+    past: state.past.slice(0, -1),
+    present: previous,
+    future: [],
+    lastGroup: null,
+    lastChangeAt: 0,
+  };
+}
+
+export function canUndo<T>(state: HistoryState<T>): boolean {
+  return state.past.length > 0;
+}
+
+export function canRedo<T>(state: HistoryState<T>): boolean {
+  return state.future.length > 0;
+}
@@ -8,26 +8,22 @@ import type {
   BlockDocument,
   CalloutBlock,
   CodeBlock,
+  ColumnStackBreakpoint,
   ColumnsBlock,
   DividerBlock,
   HeadingBlock,
   ImageBlock,
   ParagraphBlock,
   QuoteBlock,
+  TableBlock,
 } from "@/types/blocks";
+import { createBlockId, createTestDocument } from "../../test/fixtures";
 import { blockToHtml, documentToHtml } from "./html-renderer";
 
 // =============================================================================
 // Test Helpers
 // =============================================================================
 
-let blockIdCounter = 0;
-
-function createBlockId(): string {
-  blockIdCounter++;
-  return `test-block-${blockIdCounter}`;
-}
-
 function createParagraphBlock(
   content: string,
   align: "left" | "center" | "right" = "left"
@@ -126,36 +122,35 @@ function createCalloutBlock(
   };
 }
 
-function createColumnsBlock(
-  layout: "1-1" | "1-2" | "2-1" | "1-1-1",
-  columns: string[][]
-): ColumnsBlock {
+function createTableBlock(
+  rows: string[][],
+  hasHeaderRow = true,
+  columnAlign: ("left" | "center" | "right")[] = []
+): TableBlock {
   return {
-    type: "columns",
+    type: "table",
     props: {
       id: createBlockId(),
-      layout,
-      columns,
+      rows,
+      hasHeaderRow,
+      columnAlign,
     },
   };
 }
 
-function createDocument(blocks: Block[]): BlockDocument {
-  const blockMap: Record<string, Block> = {};
-  const rootBlockIds: string[] = [];
-
-  for (const block of blocks) {
-    blockMap[block.props.id] = block;
-    rootBlockIds.push(block.props.id);
-  }
-
+function createColumnsBlock(
+  widths: number[],
+  columns: string[][],
+  stackBelow: ColumnStackBreakpoint = "sm"
+): ColumnsBlock {
   return {
-    id: "test-doc",
-    title: "Test Document",
-    blocks: blockMap,
-    rootBlockIds,
-    createdAt: new Date().toISOString(),
-    updatedAt: new Date().toISOString(),
+    type: "columns",
+    props: {
+      id: createBlockId(),
+      columns,
+      widths,
+      stackBelow,
+    },
   };
 }
 
@@ -516,23 +511,184 @@ describe("blockToHtml - callout", () => {
 // blockToHtml() Tests - Columns
 // =============================================================================
 
+describe("blockToHtml - lists", () => {
+  it("should render a lone bulleted item as a single-item list", () => {
+    const block: Block = {
+      type: "bulleted-list",
+      props: { id: createBlockId(), content: "Item", indent: 0 },
+    };
+    const html = blockToHtml(block, noopGetBlock);
+
+    expect(html).toContain("<ul");
+    expect(html).toContain("list-disc");
+    expect(html).toContain("<li>Item</li>");
+  });
+
+  it("should render to-do items with disabled checkboxes", () => {
+    const block: Block = {
+      type: "todo",
+      props: { id: createBlockId(), content: "Task", indent: 0, checked: true },
+    };
+    const html = blockToHtml(block, noopGetBlock);
+
+    expect(html).toContain('type="checkbox"');
+    expect(html).toContain("disabled checked");
+    expect(html).toContain("line-through");
+  });
+});
+
+describe("documentToHtml - lists", () => {
+  it("should group consecutive list items into one list", () => {
+    const doc = createTestDocument([
+      {
+        type: "numbered-list",
+        props: { id: createBlockId(), content: "One", indent: 0 },
+      },
+      {
+        type: "numbered-list",
+        props: { id: createBlockId(), content: "Two", indent: 0 },
+      },
+    ]);
+    const html = documentToHtml(doc);
+
+    expect((html.match(/<ol/g) || []).length).toBe(1);
+    expect(html).toContain("<li>One</li><li>Two</li>");
+  });
+
+  it("should nest indented items inside the previous item", () => {
+    const doc = createTestDocument([
+      {
+        type: "bulleted-list",
+        props: { id: createBlockId(), content: "Parent", indent: 0 },
+      },
+      {
+        type: "bulleted-list",
+        props: { id: createBlockId(), content: "Child", indent: 1 },
+      },
+    ]);
+    const html = documentToHtml(doc);
+
+    expect(html).toContain("<li>Parent<ul");
+    expect(html).toContain("<li>Child</li></ul></li>");
+  });
+
+  it("should emit a start attribute for custom numbering", () => {
+    const doc = createTestDocument([
+      {
+        type: "numbered-list",
+        props: { id: createBlockId(), content: "Three", indent: 0, start: 3 },
+      },
+    ]);
+    const html = documentToHtml(doc);
+
+    expect(html).toContain('<ol start="3"');
+  });
+
+  it("should split lists around other blocks", () => {
+    const doc = createTestDocument([
+      {
+        type: "bulleted-list",
+        props: { id: createBlockId(), content: "A", indent: 0 },
+      },
+      createParagraphBlock("Break"),
+      {
+        type: "bulleted-list",
+        props: { id: createBlockId(), content: "B", indent: 0 },
+      },
+    ]);
+    const html = documentToHtml(doc);
+
+    expect((html.match(/<ul/g) || []).length).toBe(2);
+  });
+});
+
+describe("blockToHtml - table", () => {
+  it("should render semantic table markup", () => {
+    const block = createTableBlock([
+      ["Name", "Age"],
+      ["Alice", "30"],
+    ]);
+    const html = blockToHtml(block, noopGetBlock);
+
+    expect(html).toContain("<table");
+    expect(html).toContain("<thead>");
+    expect(html).toContain("<tbody>");
+    expect(html).toContain('<th scope="col"');
+    expect(html).toContain(">Name</th>");
+    expect(html).toContain(">Alice</td>");
+  });
+
+  it("should render all rows in tbody without a header row", () => {
+    const block = createTableBlock(
+      [
+        ["a", "b"],
+        ["c", "d"],
+      ],
+      false
+    );
+    const html = blockToHtml(block, noopGetBlock);
+
+    expect(html).not.toContain("<thead>");
+    expect(html).not.toContain("<th");
+    expect((html.match(/<tr>/g) || []).length).toBe(2);
+  });
+
+  it("should apply column alignment classes", () => {
+    const block = createTableBlock(
+      [
+        ["Item", "Price"],
+        ["Tea", "3"],
+      ],
+      true,
+      ["left", "right"]
+    );
+    const html = blockToHtml(block, noopGetBlock);
+
+    expect(html).toContain('text-right">Price</th>');
+    expect(html).toContain('text-right">3</td>');
+    expect(html).toContain('text-left">Tea</td>');
+  });
+
+  it("should default missing alignments to left", () => {
+    const block = createTableBlock([["only"]], false, []);
+    const html = blockToHtml(block, noopGetBlock);
+
+    expect(html).toContain("text-left");
+  });
+
+  it("should preserve rich text inside cells", () => {
+    const block = createTableBlock([["<strong>Bold</strong>"]], false);
+    const html = blockToHtml(block, noopGetBlock);
+
+    expect(html).toContain("<strong>Bold</strong>");
+  });
+});
+
 describe("blockToHtml - columns", () => {
   it("should render flex container", () => {
-    const block = createColumnsBlock("1-1", [[], []]);
+    const block = createColumnsBlock([1, 1], [[], []]);
     const html = blockToHtml(block, noopGetBlock);
 
     expect(html).toContain("flex");
-    expect(html).toContain("flex-wrap");
+    expect(html).toContain("flex-col gap-4 sm:flex-row sm:gap-0");
+  });
+
+  it("should stack at the block's breakpoint", () => {
+    const stacked = createColumnsBlock([1, 1], [[], []], "lg");
+    const sideBySide = createColumnsBlock([1, 1], [[], []], "never");
+
+    expect(blockToHtml(stacked, noopGetBlock)).toContain("lg:flex-row");
+    expect(blockToHtml(sideBySide, noopGetBlock)).not.toContain("flex-col");
   });
 
   it("should render children recursively", () => {
     const childBlock1 = createParagraphBlock("Column 1 content");
     const childBlock2 = createParagraphBlock("Column 2 content");
 
-    const columnsBlock = createColumnsBlock("1-1", [
-      [childBlock1.props.id],
-      [childBlock2.props.id],
-    ]);
+    const columnsBlock = createColumnsBlock(
+      [1, 1],
+      [[childBlock1.props.id], [childBlock2.props.id]]
+    );
 
     const getBlock = (id: string): Block | undefined => {
       if (id === childBlock1.props.id) {
@@ -550,15 +706,15 @@ describe("blockToHtml - columns", () => {
     expect(html).toContain("Column 2 content");
   });
 
-  it("should apply correct flex-basis for 1-1 layout", () => {
-    const block = createColumnsBlock("1-1", [[], []]);
+  it("should apply correct flex-basis for equal widths", () => {
+    const block = createColumnsBlock([1, 1], [[], []]);
     const html = blockToHtml(block, noopGetBlock);
 
     expect(html).toContain("flex-basis: 50%");
   });
 
-  it("should apply correct flex-basis for 1-2 layout", () => {
-    const block = createColumnsBlock("1-2", [[], []]);
+  it("should apply correct flex-basis for [1, 2] widths", () => {
+    const block = createColumnsBlock([1, 2], [[], []]);
     const html = blockToHtml(block, noopGetBlock);
 
     // Uses full precision percentages (1/3 and 2/3)
@@ -566,8 +722,8 @@ describe("blockToHtml - columns", () => {
     expect(html).toContain("flex-basis: 66.66666666666666%");
   });
 
-  it("should apply correct flex-basis for 2-1 layout", () => {
-    const block = createColumnsBlock("2-1", [[], []]);
+  it("should apply correct flex-basis for [2, 1] widths", () => {
+    const block = createColumnsBlock([2, 1], [[], []]);
     const html = blockToHtml(block, noopGetBlock);
 
     // Uses full precision percentages (2/3 and 1/3)
@@ -575,8 +731,8 @@ describe("blockToHtml - columns", () => {
     expect(html).toContain("flex-basis: 33.33333333333333%");
   });
 
-  it("should apply correct flex-basis for 1-1-1 layout", () => {
-    const block = createColumnsBlock("1-1-1", [[], [], []]);
+  it("should apply correct flex-basis for three equal widths", () => {
+    const block = createColumnsBlock([1, 1, 1], [[], [], []]);
     const html = blockToHtml(block, noopGetBlock);
 
     // All three columns should have 1/3 (full precision)
@@ -584,8 +740,19 @@ describe("blockToHtml - columns", () => {
     expect(matches?.length).toBe(3);
   });
 
+  it("should support up to six columns with custom ratios", () => {
+    const block = createColumnsBlock(
+      [3, 1, 1, 1, 1, 1],
+      [[], [], [], [], [], []]
+    );
+    const html = blockToHtml(block, noopGetBlock);
+
+    expect(html).toContain("flex-basis: 37.5%");
+    expect(html.match(/flex-basis: 12\.5%/g)?.length).toBe(5);
+  });
+
   it("should show empty column message when column has no children", () => {
-    const block = createColumnsBlock("1-1", [[], []]);
+    const block = createColumnsBlock([1, 1], [[], []]);
     const html = blockToHtml(block, noopGetBlock);
 
     expect(html).toContain("Empty column");
@@ -594,7 +761,7 @@ describe("blockToHtml - columns", () => {
   });
 
   it("should handle missing child blocks gracefully", () => {
-    const columnsBlock = createColumnsBlock("1-1", [["missing-block-id"], []]);
+    const columnsBlock = createColumnsBlock([1, 1], [["missing-block-id"], []]);
 
     const html = blockToHtml(columnsBlock, noopGetBlock);
 
@@ -606,10 +773,10 @@ describe("blockToHtml - columns", () => {
     const heading = createHeadingBlock("Column Header", "h2");
     const paragraph = createParagraphBlock("Column paragraph");
 
-    const columnsBlock = createColumnsBlock("1-1", [
-      [heading.props.id, paragraph.props.id],
-      [],
-    ]);
+    const columnsBlock = createColumnsBlock(
+      [1, 1],
+      [[heading.props.id, paragraph.props.id], []]
+    );
 
     const getBlock = (id: string): Block | undefined => {
       if (id === heading.props.id) {
@@ -640,7 +807,7 @@ describe("documentToHtml", () => {
     const paragraph = createParagraphBlock("Introduction paragraph");
     const divider = createDividerBlock();
 
-    const document = createDocument([heading, paragraph, divider]);
+    const document = createTestDocument([heading, paragraph, divider]);
     const html = documentToHtml(document);
 
     expect(html).toContain("<h1");
@@ -655,7 +822,7 @@ describe("documentToHtml", () => {
     const block2 = createParagraphBlock("Second");
     const block3 = createParagraphBlock("Third");
 
-    const document = createDocument([block1, block2, block3]);
+    const document = createTestDocument([block1, block2, block3]);
     const html = documentToHtml(document);
 
     const firstIndex = html.indexOf("First");
@@ -667,7 +834,7 @@ describe("documentToHtml", () => {
   });
 
   it("should return empty string for empty document", () => {
-    const document = createDocument([]);
+    const document = createTestDocument([]);
     const html = documentToHtml(document);
 
     expect(html).toBe("");
@@ -676,6 +843,7 @@ describe("documentToHtml", () => {
   it("should skip missing blocks in rootBlockIds", () => {
     const validBlock = createParagraphBlock("Valid block");
     const document: BlockDocument = {
+      schemaVersion: 1,
       id: "test-doc",
       title: "Test",
       blocks: {
@@ -694,12 +862,13 @@ describe("documentToHtml", () => {
 
   it("should handle document with columns containing children", () => {
     const childParagraph = createParagraphBlock("Child content");
-    const columnsBlock = createColumnsBlock("1-1", [
-      [childParagraph.props.id],
-      [],
-    ]);
+    const columnsBlock = createColumnsBlock(
+      [1, 1],
+      [[childParagraph.props.id], []]
+    );
 
     const document: BlockDocument = {
+      schemaVersion: 1,
       id: "test-doc",
       title: "Test",
       blocks: {
@@ -726,7 +895,7 @@ describe("documentToHtml", () => {
     const divider = createDividerBlock();
     const callout = createCalloutBlock("Callout content", "info", "💡");
 
-    const document = createDocument([
+    const document = createTestDocument([
       heading,
       paragraph,
       quote,
@@ -1,5 +1,13 @@
-import type { Block, BlockDocument } from "@/types/blocks";
-import { getColumnFlexBasis } from "./utils";
+import type { Block, BlockDocument, ColumnsBlock } from "@/types/blocks";
+import { customBlockToHtml } from "./block-definitions";
+import { escapeHtml } from "./clipboard-parser";
+import { getColumnFlexBasis, getColumnStackClasses } from "./columns";
+import {
+  getListGroupStart,
+  groupListItems,
+  type ListGroup,
+  splitListRuns,
+} from "./lists";
 
 /**
  * Convert a single block to an HTML string with Tailwind styling.
@@ -48,8 +56,27 @@ export function blockToHtml(
         block.props.emoji
       );
 
+    case "bulleted-list":
+    case "numbered-list":
+    case "todo":
+      // A lone list item renders as a single-item list; sequences of items
+      // are grouped by renderBlockSequence
+      return renderListGroups(groupListItems([block]));
+
+    case "table":
+      return renderTable(
+        block.props.rows,
+        block.props.hasHeaderRow,
+        block.props.columnAlign
+      );
+
     case "columns":
-      return renderColumns(block.props.layout, block.props.columns, getBlock);
+      return renderColumns(block.props, getBlock);
+
+    case "custom":
+      // Written by the app's block definition, so held to the same rules
+      // as pasted HTML
+      return customBlockToHtml(block);
 
     default: {
       // Exhaustive check - TypeScript will error if we miss a case
@@ -68,19 +95,29 @@ export function blockToHtml(
  */
 export function documentToHtml(document: BlockDocument): string {
   const getBlock = (id: string): Block | undefined => document.blocks[id];
+  return renderBlockSequence(document.rootBlockIds, getBlock);
+}
 
-  const blocksHtml = document.rootBlockIds
-    .map((blockId) => {
-      const block = getBlock(blockId);
-      if (!block) {
-        return "";
-      }
-      return blockToHtml(block, getBlock);
-    })
+/**
+ * Render an ordered list of sibling block IDs (root blocks or one column).
+ * Consecutive list items are grouped into nested <ul>/<ol> elements.
+ */
+function renderBlockSequence(
+  blockIds: string[],
+  getBlock: (id: string) => Block | undefined
+): string {
+  const blocks = blockIds
+    .map((blockId) => getBlock(blockId))
+    .filter((block): block is Block => block !== undefined);
+
+  return splitListRuns(blocks)
+    .map((segment) =>
+      segment.kind === "list"
+        ? renderListGroups(groupListItems(segment.items))
+        : blockToHtml(segment.block, getBlock)
+    )
     .filter(Boolean)
     .join("\n");
-
-  return blocksHtml;
 }
 
 // ============================================================================
@@ -189,51 +226,93 @@ function renderCallout(
 </aside>`;
 }
 
+function renderListGroups(groups: ListGroup[]): string {
+  return groups.map(renderListGroup).join("\n");
+}
+
+function renderListGroup(group: ListGroup): string {
+  const itemsHtml = group.items
+    .map((node) => {
+      const childrenHtml =
+        node.children.length > 0 ? renderListGroups(node.children) : "";
+
+      if (node.block.type === "todo") {
+        const checked = node.block.props.checked ? " checked" : "";
+        const textClass = node.block.props.checked
+          ? ' class="line-through text-gray-400"'
+          : "";
+        return `<li class="flex flex-wrap items-start gap-2"><input type="checkbox" disabled${checked} class="mt-1.5" /><span${textClass}>${node.block.props.content}</span>${childrenHtml}</li>`;
+      }
+
+      return `<li>${node.block.props.content}${childrenHtml}</li>`;
+    })
+    .join("");
+
+  switch (group.type) {
+    case "numbered-list": {
+      const start = getListGroupStart(group);
+      const startAttr = start === 1 ? "" : ` start="${start}"`;
+      return `<ol${startAttr} class="list-decimal pl-6 my-2 space-y-1">${itemsHtml}</ol>`;
+    }
+    case "todo":
+      return `<ul class="list-none pl-0 my-2 space-y-1">${itemsHtml}</ul>`;
+    default:
+      return `<ul class="list-disc pl-6 my-2 space-y-1">${itemsHtml}</ul>`;
+  }
+}
+
+function renderTable(
+  rows: string[][],
+  hasHeaderRow: boolean,
+  columnAlign: ("left" | "center" | "right")[]
+): string {
+  const renderRow = (cells: string[], cellTag: "th" | "td") => {
+    const cellsHtml = cells
+      .map((cell, index) => {
+        const alignClass = getAlignmentClass(columnAlign[index] ?? "left");
+        const cellClass =
+          cellTag === "th"
+            ? "border border-gray-300 bg-gray-50 px-3 py-2 font-semibold"
+            : "border border-gray-300 px-3 py-2";
+        const scope = cellTag === "th" ? ' scope="col"' : "";
+        return `<${cellTag}${scope} class="${cellClass} ${alignClass}">${cell}</${cellTag}>`;
+      })
+      .join("");
+    return `<tr>${cellsHtml}</tr>`;
+  };
+
+  const [firstRow, ...otherRows] = rows;
+  const headerRows = hasHeaderRow && firstRow ? [firstRow] : [];
+  const bodyRows = hasHeaderRow ? otherRows : rows;
+
+  const theadHtml =
+    headerRows.length > 0
+      ? `\n  <thead>${headerRows.map((row) => renderRow(row, "th")).join("")}</thead>`
+      : "";
+  const tbodyHtml = `\n  <tbody>${bodyRows.map((row) => renderRow(row, "td")).join("")}</tbody>`;
+
+  return `<table class="w-full border-collapse my-4 text-sm">${theadHtml}${tbodyHtml}
+</table>`;
+}
+
 function renderColumns(
-  layout: string,
-  columns: string[][],
+  props: ColumnsBlock["props"],
   getBlock: (id: string) => Block | undefined
 ): string {
-  const flexBasis = getColumnFlexBasis(layout);
+  const flexBasis = getColumnFlexBasis(props.widths, props.columns.length);
+  const { row } = getColumnStackClasses(props.stackBelow);
 
-  const columnsHtml = columns
+  const columnsHtml = props.columns
     .map((columnBlockIds, index) => {
-      const columnContent = columnBlockIds
-        .map((blockId) => {
-          const block = getBlock(blockId);
-          if (!block) {
-            return "";
-          }
-          return blockToHtml(block, getBlock);
-        })
-        .filter(Boolean)
-        .join("\n");
-
-      const basis = flexBasis[index] || "50%";
-      return `<div class="px-2" style="flex-basis: ${basis}; min-width: 0;">
+      const columnContent = renderBlockSequence(columnBlockIds, getBlock);
+
+      return `<div class="px-2" style="flex-basis: ${flexBasis[index]}; min-width: 0;">
   ${columnContent || '<p class="text-gray-400 italic">Empty column</p>'}
 </div>`;
     })
     .join("\n");
 
-  return `<div class="flex flex-wrap -mx-2 my-4">
+  return `<div class="flex ${row} -mx-2 my-4">
 ${columnsHtml}
 </div>`;
 }
-
-// ============================================================================
-// UTILITIES
-// ============================================================================
-
-/**
- * Escape HTML special characters to prevent XSS.
- * Used for user-provided content like src, alt, language.
- */
-function escapeHtml(str: string): string {
-  return str
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
-}
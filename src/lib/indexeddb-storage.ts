@@ -0,0 +1,364 @@
+import type { BlockDocument } from "@/types/blocks";
+import { parseStoredDocument, partitionStoredDocuments } from "./migrations";
+import {
+  createChangeNotifier,
+  type DocumentSnapshot,
+  type QuarantinedDocument,
+  type StorageAdapter,
+  stampDocument,
+} from "./persistence";
+import { parseStoredSnapshots } from "./snapshots";
+
+// ============================================================================
+// INDEXEDDB STORAGE ADAPTER
+// Uses IndexedDB for larger storage quota (~50MB+ vs localStorage's ~5MB)
+// Images are kept as local object URLs (not persisted across reloads)
+// ============================================================================
+
+const DB_VERSION = 3;
+const STORE_NAME = "documents";
+const QUARANTINE_STORE_NAME = "quarantine";
+const SNAPSHOT_STORE_NAME = "snapshots";
+const SNAPSHOT_DOCUMENT_INDEX = "documentId";
+
+/**
+ * Database upgrades, indexed by the version they upgrade to. Each runs once
+ * when a database older than its version is opened.
+ */
+const DB_UPGRADES: Record<number, (db: IDBDatabase) => void> = {
+  1: (db) => db.createObjectStore(STORE_NAME, { keyPath: "id" }),
+  2: (db) => db.createObjectStore(QUARANTINE_STORE_NAME, { keyPath: "id" }),
+  3: (db) =>
+    db
+      .createObjectStore(SNAPSHOT_STORE_NAME, { keyPath: "id" })
+      .createIndex(SNAPSHOT_DOCUMENT_INDEX, "documentId"),
+};
+
+/**
+ * Delete every snapshot of a document within an open transaction
+ */
+function deleteSnapshotsOf(store: IDBObjectStore, documentId: string): void {
+  const request = store
+    .index(SNAPSHOT_DOCUMENT_INDEX)
+    .openKeyCursor(IDBKeyRange.only(documentId));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    }
+  };
+}
+
+export interface IndexedDbStorageOptions {
+  /** Database name (default "block-editor") */
+  databaseName?: string;
+  /** Simulated network delay in ms for realistic UX testing (default 300) */
+  latency?: number;
+}
+
+export interface IndexedDbStorageAdapter extends StorageAdapter {
+  /** Clear all documents (useful for debugging quota issues) */
+  clearAllDocuments(): Promise<void>;
+}
+
+/**
+ * Create a storage adapter backed by the browser's IndexedDB.
+ *
+ * @param options - Database name and simulated latency
+ * @returns IndexedDB storage adapter
+ */
+export function createIndexedDbStorage(
+  options: IndexedDbStorageOptions = {}
+): IndexedDbStorageAdapter {
+  const { databaseName = "block-editor", latency = 300 } = options;
+  const notifier = createChangeNotifier();
+
+  const simulateDelay = (ms = latency) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+
+  /**
+   * Open IndexedDB connection
+   */
+  function openDB(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, DB_VERSION);
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result);
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+
+        // Apply every upgrade between the stored and current version
+        for (
+          let version = event.oldVersion + 1;
+          version <= DB_VERSION;
+          version++
+        ) {
+          DB_UPGRADES[version]?.(db);
+        }
+      };
+    });
+  }
+
+  /**
+   * Move documents that failed validation from the documents store into the
+   * quarantine store, keeping their raw data
+   */
+  async function quarantineDocuments(
+    entries: QuarantinedDocument[]
+  ): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    for (const entry of entries) {
+      console.warn(`Quarantined document ${entry.id}:`, entry.reason);
+    }
+
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(
+        [STORE_NAME, QUARANTINE_STORE_NAME],
+        "readwrite"
+      );
+      const documents = transaction.objectStore(STORE_NAME);
+      const quarantine = transaction.objectStore(QUARANTINE_STORE_NAME);
+      for (const entry of entries) {
+        quarantine.put(entry);
+        documents.delete(entry.id);
+      }
+
+      transaction.onerror = () => reject(transaction.error);
+      transaction.oncomplete = () => {
+        db.close();
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Read every record from an object store
+   */
+  async function getAll<T>(storeName: string): Promise<T[]> {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, "readonly");
+      const store = transaction.objectStore(storeName);
+      const request = store.getAll();
+
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => resolve(request.result || []);
+
+      transaction.oncomplete = () => db.close();
+    });
+  }
+
+  return {
+    async listDocuments(): Promise<BlockDocument[]> {
+      await simulateDelay();
+
+      try {
+        const stored = await getAll<unknown>(STORE_NAME);
+        const { documents, quarantined } = partitionStoredDocuments(stored);
+        await quarantineDocuments(quarantined);
+        return documents;
+      } catch (error) {
+        console.error("Failed to load documents:", error);
+        return [];
+      }
+    },
+
+    async loadDocument(id: string): Promise<BlockDocument | null> {
+      await simulateDelay();
+
+      try {
+        const db = await openDB();
+        const stored = await new Promise<unknown>((resolve, reject) => {
+          const transaction = db.transaction(STORE_NAME, "readonly");
+          const store = transaction.objectStore(STORE_NAME);
+          const request = store.get(id);
+
+          request.onerror = () => reject(request.error);
+          request.onsuccess = () => resolve(request.result);
+
+          transaction.oncomplete = () => db.close();
+        });
+        if (!stored) {
+          return null;
+        }
+
+        const result = parseStoredDocument(stored);
+        if (result.ok) {
+          return result.document;
+        }
+        await quarantineDocuments([result.quarantined]);
+        return null;
+      } catch (error) {
+        console.error("Failed to load document:", error);
+        return null;
+      }
+    },
+
+    async listQuarantinedDocuments(): Promise<QuarantinedDocument[]> {
+      try {
+        return await getAll<QuarantinedDocument>(QUARANTINE_STORE_NAME);
+      } catch (error) {
+        console.error("Failed to load quarantined documents:", error);
+        return [];
+      }
+    },
+
+    async saveDocument(document, saveOptions = {}): Promise<BlockDocument> {
+      await simulateDelay();
+
+      const updatedDoc = stampDocument(document);
+
+      try {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+          const transaction = db.transaction(STORE_NAME, "readwrite");
+          const store = transaction.objectStore(STORE_NAME);
+          const request = store.put(updatedDoc);
+
+          request.onerror = () => reject(request.error);
+          request.onsuccess = () => {
+            notifier.notify({
+              type: "saved",
+              document: updatedDoc,
+              origin: saveOptions.origin,
+            });
+            resolve(updatedDoc);
+          };
+
+          transaction.oncomplete = () => db.close();
+        });
+      } catch (error) {
+        console.error("Failed to save document:", error);
+        throw error;
+      }
+    },
+
+    async deleteDocument(id: string): Promise<void> {
+      await simulateDelay();
+
+      try {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+          const transaction = db.transaction(
+            [STORE_NAME, QUARANTINE_STORE_NAME, SNAPSHOT_STORE_NAME],
+            "readwrite"
+          );
+          transaction.objectStore(QUARANTINE_STORE_NAME).delete(id);
+          deleteSnapshotsOf(transaction.objectStore(SNAPSHOT_STORE_NAME), id);
+          const request = transaction.objectStore(STORE_NAME).delete(id);
+
+          request.onerror = () => reject(request.error);
+          request.onsuccess = () => {
+            notifier.notify({ type: "deleted", id });
+            resolve();
+          };
+
+          transaction.oncomplete = () => db.close();
+        });
+      } catch (error) {
+        console.error("Failed to delete document:", error);
+        throw error;
+      }
+    },
+
+    async clearAllDocuments(): Promise<void> {
+      try {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+          const transaction = db.transaction(STORE_NAME, "readwrite");
+          const store = transaction.objectStore(STORE_NAME);
+          const request = store.clear();
+
+          request.onerror = () => reject(request.error);
+          request.onsuccess = () => {
+            notifier.notify({ type: "cleared" });
+            resolve();
+          };
+
+          transaction.oncomplete = () => db.close();
+        });
+      } catch (error) {
+        console.error("Failed to clear documents:", error);
+        throw error;
+      }
+    },
+
+    async listSnapshots(documentId: string): Promise<DocumentSnapshot[]> {
+      try {
+        const db = await openDB();
+        const stored = await new Promise<unknown[]>((resolve, reject) => {
+          const transaction = db.transaction(SNAPSHOT_STORE_NAME, "readonly");
+          const index = transaction
+            .objectStore(SNAPSHOT_STORE_NAME)
+            .index(SNAPSHOT_DOCUMENT_INDEX);
+          const request = index.getAll(documentId);
+
+          request.onerror = () => reject(request.error);
+          request.onsuccess = () => resolve(request.result || []);
+
+          transaction.oncomplete = () => db.close();
+        });
+        return parseStoredSnapshots(stored);
+      } catch (error) {
+        console.error("Failed to load snapshots:", error);
+        return [];
+      }
+    },
+
+    async saveSnapshot(snapshot: DocumentSnapshot): Promise<DocumentSnapshot> {
+      try {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+          const transaction = db.transaction(SNAPSHOT_STORE_NAME, "readwrite");
+          const request = transaction
+            .objectStore(SNAPSHOT_STORE_NAME)
+            .put(snapshot);
+
+          request.onerror = () => reject(request.error);
+          request.onsuccess = () => resolve(snapshot);
+
+          transaction.oncomplete = () => db.close();
+        });
+      } catch (error) {
+        console.error("Failed to save snapshot:", error);
+        throw error;
+      }
+    },
+
+    async deleteSnapshot(id: string): Promise<void> {
+      try {
+        const db = await openDB();
+        return new Promise((resolve, reject) => {
+          const transaction = db.transaction(SNAPSHOT_STORE_NAME, "readwrite");
+          const request = transaction
+            .objectStore(SNAPSHOT_STORE_NAME)
+            .delete(id);
+
+          request.onerror = () => reject(request.error);
+          request.onsuccess = () => resolve();
+
+          transaction.oncomplete = () => db.close();
+        });
+      } catch (error) {
+        console.error("Failed to delete snapshot:", error);
+        throw error;
+      }
+    },
+
+    async uploadImage(file: File): Promise<string> {
+      await simulateDelay(latency + 200);
+
+      // A local object URL stands in for a real upload; use the REST
+      // adapter (or your own) to store images on a server
+      return URL.createObjectURL(file);
+    },
+
+    subscribe: notifier.subscribe,
+  };
+}
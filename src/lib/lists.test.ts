@@ -0,0 +1,187 @@
+/**
+ * Unit tests for list grouping helpers.
+ * Tests groupListItems(), splitListRuns(), computeListNumbers() and
+ * createNextListItem().
+ */
+import { describe, expect, it } from "bun:test";
+import type {
+  Block,
+  BulletedListBlock,
+  NumberedListBlock,
+  ParagraphBlock,
+} from "@/types/blocks";
+import { createBlockId } from "../../test/fixtures";
+import {
+  computeListNumbers,
+  createNextListItem,
+  groupListItems,
+  isListItemBlock,
+  splitListRuns,
+} from "./lists";
+
+function bullet(content: string, indent = 0): BulletedListBlock {
+  return {
+    type: "bulleted-list",
+    props: { id: createBlockId(), content, indent },
+  };
+}
+
+function numbered(
+  content: string,
+  indent = 0,
+  start?: number
+): NumberedListBlock {
+  return {
+    type: "numbered-list",
+    props: { id: createBlockId(), content, indent, start },
+  };
+}
+
+function paragraph(content: string): ParagraphBlock {
+  return {
+    type: "paragraph",
+    props: { id: createBlockId(), content, align: "left" },
+  };
+}
+
+describe("isListItemBlock", () => {
+  it("should recognise list item types only", () => {
+    expect(isListItemBlock(bullet("a"))).toBe(true);
+    expect(isListItemBlock(numbered("a"))).toBe(true);
+    expect(isListItemBlock(paragraph("a"))).toBe(false);
+  });
+});
+
+describe("createNextListItem", () => {
+  it("should continue the list at the same indent", () => {
+    const item = bullet("a", 2);
+
+    const next = createNextListItem(item);
+
+    expect(next).toMatchObject({
+      type: "bulleted-list",
+      props: { content: "", indent: 2 },
+    });
+    expect(next.props.id).not.toBe(item.props.id);
+  });
+
+  it("should start to-dos unchecked", () => {
+    const todo: Block = {
+      type: "todo",
+      props: { id: createBlockId(), content: "a", indent: 0, checked: true },
+    };
+
+    expect(isListItemBlock(todo) && createNextListItem(todo)).toMatchObject({
+      type: "todo",
+      props: { checked: false },
+    });
+  });
+});
+
+describe("groupListItems", () => {
+  it("should group consecutive items of the same type", () => {
+    const groups = groupListItems([bullet("a"), bullet("b")]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].type).toBe("bulleted-list");
+    expect(groups[0].items).toHaveLength(2);
+  });
+
+  it("should start a new group when the type changes", () => {
+    const groups = groupListItems([bullet("a"), numbered("b")]);
+
+    expect(groups.map((g) => g.type)).toEqual([
+      "bulleted-list",
+      "numbered-list",
+    ]);
+  });
+
+  it("should nest indented items under the previous item", () => {
+    const groups = groupListItems([
+      bullet("parent"),
+      bullet("child", 1),
+      bullet("grandchild", 2),
+      bullet("sibling"),
+    ]);
+
+    expect(groups[0].items).toHaveLength(2);
+    const parent = groups[0].items[0];
+    expect(parent.children[0].items[0].block.props.content).toBe("child");
+    expect(
+      parent.children[0].items[0].children[0].items[0].block.props.content
+    ).toBe("grandchild");
+    expect(groups[0].items[1].block.props.content).toBe("sibling");
+  });
+
+  it("should clamp indents that skip levels", () => {
+    const groups = groupListItems([bullet("first", 3), bullet("second", 3)]);
+
+    // First item cannot nest under anything, so both sit at the top level
+    expect(groups).toHaveLength(1);
+    expect(groups[0].items).toHaveLength(1);
+    expect(groups[0].items[0].children[0].items[0].block.props.content).toBe(
+      "second"
+    );
+  });
+});
+
+describe("splitListRuns", () => {
+  it("should separate list runs from standalone blocks", () => {
+    const blocks: Block[] = [
+      paragraph("intro"),
+      bullet("a"),
+      numbered("b"),
+      paragraph("outro"),
+    ];
+    const segments = splitListRuns(blocks);
+
+    expect(segments.map((s) => s.kind)).toEqual(["block", "list", "block"]);
+    const list = segments[1];
+    if (list.kind === "list") {
+      expect(list.items).toHaveLength(2);
+    }
+  });
+});
+
+describe("computeListNumbers", () => {
+  it("should number consecutive numbered items from 1", () => {
+    const first = numbered("a");
+    const second = numbered("b");
+    const numbers = computeListNumbers([first, second]);
+
+    expect(numbers[first.props.id]).toBe(1);
+    expect(numbers[second.props.id]).toBe(2);
+  });
+
+  it("should honour the start index of the first item", () => {
+    const first = numbered("a", 0, 5);
+    const second = numbered("b");
+    const numbers = computeListNumbers([first, second]);
+
+    expect(numbers[first.props.id]).toBe(5);
+    expect(numbers[second.props.id]).toBe(6);
+  });
+
+  it("should continue numbering across nested items", () => {
+    const first = numbered("a");
+    const nested = numbered("a.1", 1);
+    const second = numbered("b");
+    const numbers = computeListNumbers([first, nested, second]);
+
+    expect(numbers[nested.props.id]).toBe(1);
+    expect(numbers[second.props.id]).toBe(2);
+  });
+
+  it("should restart numbering after a non-list block", () => {
+    const first = numbered("a");
+    const after = numbered("b");
+    const numbers = computeListNumbers([first, paragraph("break"), after]);
+
+    expect(numbers[after.props.id]).toBe(1);
+  });
+
+  it("should not number bulleted items", () => {
+    const item = bullet("a");
+    expect(computeListNumbers([item])[item.props.id]).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import type { Block, ListItemBlock } from "@/types/blocks";
+import { createBlock } from "./utils";
+
+// ============================================================================
+// LIST GROUPING
+// List items are stored as flat blocks with an indent level. These helpers
+// rebuild the nested list structure for rendering and numbering.
+// ============================================================================
+
+export type ListItemType = ListItemBlock["type"];
+
+export interface ListNode {
+  block: ListItemBlock;
+  children: ListGroup[];
+}
+
+/** Consecutive sibling items of the same list type (one <ul>/<ol>) */
+export interface ListGroup {
+  type: ListItemType;
+  items: ListNode[];
+}
+
+/** A standalone block, or a run of consecutive list items */
+export type BlockSegment =
+  | { kind: "block"; block: Block }
+  | { kind: "list"; items: ListItemBlock[] };
+
+const LIST_ITEM_TYPES = new Set<string>([
+  "bulleted-list",
+  "numbered-list",
+  "todo",
+]);
+
+export function isListItemBlock(block: Block): block is ListItemBlock {
+  return LIST_ITEM_TYPES.has(block.type);
+}
+
+/**
+ * The item Enter starts after a list item: the same list type at the same
+ * indent (to-dos start unchecked)
+ */
+export function createNextListItem(item: ListItemBlock): ListItemBlock {
+  return createBlock(item.type, { indent: item.props.indent });
+}
+
+/**
+ * Build nested list groups from a run of consecutive list items.
+ * An item can nest at most one level deeper than the item before it,
+ * so stray indents (e.g. a first item at indent 2) are clamped.
+ */
+export function groupListItems(items: ListItemBlock[]): ListGroup[] {
+  const root: ListGroup[] = [];
+  // openNodes[level] = most recent item at that nesting level
+  const openNodes: ListNode[] = [];
+
+  for (const block of items) {
+    const level = Math.min(block.props.indent, openNodes.length);
+    const container = level === 0 ? root : openNodes[level - 1].children;
+
+    let group = container.at(-1);
+    if (!group || group.type !== block.type) {
+      group = { type: block.type, items: [] };
+      container.push(group);
+    }
+
+    const node: ListNode = { block, children: [] };
+    group.items.push(node);
+
+    openNodes.length = level;
+    openNodes.push(node);
+  }
+
+  return root;
+}
+
+/**
+ * The number shown for the first item of a numbered group.
+ */
+export function getListGroupStart(group: ListGroup): number {
+  const first = group.items[0]?.block;
+  return first?.type === "numbered-list" ? (first.props.start ?? 1) : 1;
+}
+
+/**
+ * Split an ordered sequence of blocks into list runs and standalone blocks.
+ * Each run holds the consecutive list items between non-list blocks.
+ */
+export function splitListRuns(blocks: Block[]): BlockSegment[] {
+  const segments: BlockSegment[] = [];
+
+  for (const block of blocks) {
+    if (!isListItemBlock(block)) {
+      segments.push({ kind: "block", block });
+      continue;
+    }
+
+    const last = segments.at(-1);
+    if (last?.kind === "list") {
+      last.items.push(block);
+    } else {
+      segments.push({ kind: "list", items: [block] });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Compute the displayed number of every numbered list item in a sequence
+ * of sibling blocks (the root list or a single column).
+ *
+ * @returns Map of block ID → item number
+ */
+export function computeListNumbers(blocks: Block[]): Record<string, number> {
+  const numbers: Record<string, number> = {};
+
+  const visit = (groups: ListGroup[]) => {
+    for (const group of groups) {
+      const start = getListGroupStart(group);
+      for (const [index, node] of group.items.entries()) {
+        if (group.type === "numbered-list") {
+          numbers[node.block.props.id] = start + index;
+        }
+        visit(node.children);
+      }
+    }
+  };
+
+  for (const segment of splitListRuns(blocks)) {
+    if (segment.kind === "list") {
+      visit(groupListItems(segment.items));
+    }
+  }
+
+  return numbers;
+}
@@ -0,0 +1,362 @@
+/**
+ * Unit tests for Markdown parsing functions.
+ * Tests parseMarkdownToBlocks(), markdownInlineToHtml() and looksLikeMarkdown().
+ */
+import { describe, expect, it } from "bun:test";
+import type {
+  Block,
+  CalloutBlock,
+  CodeBlock,
+  HeadingBlock,
+  ImageBlock,
+  NumberedListBlock,
+  QuoteBlock,
+  TableBlock,
+  TodoBlock,
+} from "@/types/blocks";
+import { createTestDocument } from "../../test/fixtures";
+import {
+  looksLikeMarkdown,
+  markdownInlineToHtml,
+  parseMarkdownToBlocks,
+} from "./markdown-parser";
+import { documentToMarkdown } from "./markdown-renderer";
+
+// =============================================================================
+// Type Guards
+// =============================================================================
+
+function isHeading(block: Block): block is HeadingBlock {
+  return block.type === "heading";
+}
+
+function isCode(block: Block): block is CodeBlock {
+  return block.type === "code";
+}
+
+function isQuote(block: Block): block is QuoteBlock {
+  return block.type === "quote";
+}
+
+function isCallout(block: Block): block is CalloutBlock {
+  return block.type === "callout";
+}
+
+function isImage(block: Block): block is ImageBlock {
+  return block.type === "image";
+}
+
+function isNumberedList(block: Block): block is NumberedListBlock {
+  return block.type === "numbered-list";
+}
+
+function isTodo(block: Block): block is TodoBlock {
+  return block.type === "todo";
+}
+
+function isTable(block: Block): block is TableBlock {
+  return block.type === "table";
+}
+
+function indentsOf(blocks: Block[]): number[] {
+  return blocks.map((block) =>
+    "indent" in block.props ? block.props.indent : -1
+  );
+}
+
+// =============================================================================
+// looksLikeMarkdown() Tests
+// =============================================================================
+
+describe("looksLikeMarkdown", () => {
+  it("should detect block-level syntax", () => {
+    expect(looksLikeMarkdown("# Title\n\nBody")).toBe(true);
+    expect(looksLikeMarkdown("Intro\n- one\n- two")).toBe(true);
+    expect(looksLikeMarkdown("```js\ncode\n```")).toBe(true);
+    expect(looksLikeMarkdown("| a | b |\n| - | - |")).toBe(true);
+  });
+
+  it("should detect inline syntax", () => {
+    expect(looksLikeMarkdown("See [docs](https://example.com)")).toBe(true);
+    expect(looksLikeMarkdown("This is **important**")).toBe(true);
+  });
+
+  it("should not flag ordinary prose", () => {
+    expect(looksLikeMarkdown("Hello world.\n\nA second paragraph.")).toBe(
+      false
+    );
+    expect(looksLikeMarkdown("5 * 3 = 15, and #1 priority")).toBe(false);
+  });
+});
+
+// =============================================================================
+// markdownInlineToHtml() Tests
+// =============================================================================
+
+describe("markdownInlineToHtml", () => {
+  it("should convert emphasis marks", () => {
+    expect(
+      markdownInlineToHtml("**bold** *italic* ~~gone~~ ==hi== _also_")
+    ).toBe(
+      "<strong>bold</strong> <em>italic</em> <s>gone</s> <mark>hi</mark> <em>also</em>"
+    );
+  });
+
+  it("should not treat underscores inside words as emphasis", () => {
+    expect(markdownInlineToHtml("snake_case_name")).toBe("snake_case_name");
+  });
+
+  it("should convert links and code spans", () => {
+    expect(
+      markdownInlineToHtml("[docs](https://example.com) and `a*b*c`")
+    ).toBe('<a href="https://example.com">docs</a> and <code>a*b*c</code>');
+  });
+
+  it("should escape raw HTML", () => {
+    expect(markdownInlineToHtml("<script>alert(1)</script>")).toBe(
+      "&lt;script&gt;alert(1)&lt;/script&gt;"
+    );
+  });
+
+  it("should honour backslash escapes", () => {
+    expect(markdownInlineToHtml("\\*not italic\\*")).toBe("*not italic*");
+  });
+
+  it("should honour backslash escapes in image alt text", () => {
+    const html = markdownInlineToHtml(
+      "See ![a\\*b\\* `c`](https://example.com/x.png)"
+    );
+    const image = new DOMParser()
+      .parseFromString(html, "text/html")
+      .querySelector("img");
+
+    expect(image?.getAttribute("alt")).toBe("a*b* c");
+    expect(html).not.toContain("\uE000");
+  });
+
+  it("should convert hard breaks and join soft breaks", () => {
+    expect(markdownInlineToHtml("one\\\ntwo\nthree")).toBe("one<br>two three");
+  });
+
+  it("should drop javascript: links", () => {
+    expect(markdownInlineToHtml("[x](javascript:alert(1))")).not.toContain(
+      "javascript:"
+    );
+  });
+});
+
+// =============================================================================
+// parseMarkdownToBlocks() Tests
+// =============================================================================
+
+describe("parseMarkdownToBlocks - basic blocks", () => {
+  it("should return empty array for empty input", () => {
+    expect(parseMarkdownToBlocks("  \n ")).toHaveLength(0);
+  });
+
+  it("should parse ATX and setext headings", () => {
+    const blocks = parseMarkdownToBlocks(
+      "# One\n\n#### Four\n\nTwo\n---\n\nUno\n==="
+    );
+    const levels = blocks.filter(isHeading).map((block) => block.props.level);
+
+    expect(levels).toEqual(["h1", "h3", "h2", "h1"]);
+  });
+
+  it("should join paragraph lines and separate paragraphs", () => {
+    const blocks = parseMarkdownToBlocks("first line\nsame paragraph\n\nnext");
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0].type).toBe("paragraph");
+    if (blocks[0].type === "paragraph") {
+      expect(blocks[0].props.content).toBe("first line same paragraph");
+    }
+  });
+
+  it("should parse fenced code with language", () => {
+    const blocks = parseMarkdownToBlocks(
+      "```TypeScript\nconst a = 1;\n\nconst b = 2;\n```"
+    );
+    const code = blocks.find(isCode);
+
+    expect(blocks).toHaveLength(1);
+    expect(code?.props.language).toBe("typescript");
+    expect(code?.props.code).toBe("const a = 1;\n\nconst b = 2;");
+  });
+
+  it("should default fences without a language to plaintext", () => {
+    const code = parseMarkdownToBlocks("~~~\n# not a heading\n~~~").find(
+      isCode
+    );
+    expect(code?.props.language).toBe("plaintext");
+    expect(code?.props.code).toBe("# not a heading");
+  });
+
+  it("should parse horizontal rules as dividers", () => {
+    const blocks = parseMarkdownToBlocks("a\n\n***\n\nb");
+    expect(blocks.map((block) => block.type)).toEqual([
+      "paragraph",
+      "divider",
+      "paragraph",
+    ]);
+  });
+
+  it("should parse a standalone image with caption", () => {
+    const image = parseMarkdownToBlocks(
+      "![A cat](https://example.com/cat.png)\n*Meow*"
+    ).find(isImage);
+
+    expect(image?.props.src).toBe("https://example.com/cat.png");
+    expect(image?.props.alt).toBe("A cat");
+    expect(image?.props.caption).toBe("Meow");
+  });
+
+  it("should read the caption from the image's title", () => {
+    const image = parseMarkdownToBlocks(
+      '![A \\[cat\\]](https://example.com/cat.png "Say \\"meow\\"")'
+    ).find(isImage);
+
+    expect(image?.props.alt).toBe("A [cat]");
+    expect(image?.props.caption).toBe('Say "meow"');
+  });
+});
+
+describe("parseMarkdownToBlocks - quotes and callouts", () => {
+  it("should parse a blockquote with attribution", () => {
+    const quote = parseMarkdownToBlocks(
+      "> Stay hungry\n> stay foolish\n>\n> — Steve Jobs"
+    ).find(isQuote);
+
+    expect(quote?.props.content).toBe("Stay hungry stay foolish");
+    expect(quote?.props.attribution).toBe("Steve Jobs");
+  });
+
+  it("should parse GitHub alerts as callouts", () => {
+    const callout = parseMarkdownToBlocks("> [!WARNING]\n> ⚠️ Be careful").find(
+      isCallout
+    );
+
+    expect(callout?.props.variant).toBe("warning");
+    expect(callout?.props.emoji).toBe("⚠️");
+    expect(callout?.props.content).toBe("Be careful");
+  });
+});
+
+describe("parseMarkdownToBlocks - lists", () => {
+  it("should create one block per list item", () => {
+    const blocks = parseMarkdownToBlocks("- one\n- two\n* three");
+    expect(blocks.map((block) => block.type)).toEqual([
+      "bulleted-list",
+      "bulleted-list",
+      "bulleted-list",
+    ]);
+  });
+
+  it("should map nested items to indent levels", () => {
+    const blocks = parseMarkdownToBlocks(
+      "1. parent\n   - child\n     - grandchild\n2. sibling"
+    );
+    expect(indentsOf(blocks)).toEqual([0, 1, 2, 0]);
+    expect(blocks[3].type).toBe("numbered-list");
+  });
+
+  it("should keep a custom start on the first numbered item only", () => {
+    const items = parseMarkdownToBlocks("3. a\n4. b").filter(isNumberedList);
+
+    expect(items[0].props.start).toBe(3);
+    expect(items[1].props.start).toBeUndefined();
+  });
+
+  it("should parse task list items as to-dos", () => {
+    const todos = parseMarkdownToBlocks("- [ ] open\n- [x] done").filter(
+      isTodo
+    );
+
+    expect(todos.map((todo) => todo.props.checked)).toEqual([false, true]);
+    expect(todos[0].props.content).toBe("open");
+  });
+
+  it("should append continuation lines to the item", () => {
+    const blocks = parseMarkdownToBlocks("- first\n  continued\n- second");
+
+    expect(blocks).toHaveLength(2);
+    if (blocks[0].type === "bulleted-list") {
+      expect(blocks[0].props.content).toBe("first continued");
+    }
+  });
+});
+
+describe("parseMarkdownToBlocks - tables", () => {
+  it("should parse a GFM table with header and alignment", () => {
+    const table = parseMarkdownToBlocks(
+      "| Name | Qty |\n| :--- | ---: |\n| **Apple** | 3 |\n| Pear |"
+    ).find(isTable);
+
+    expect(table?.props.hasHeaderRow).toBe(true);
+    expect(table?.props.columnAlign).toEqual(["left", "right"]);
+    expect(table?.props.rows).toEqual([
+      ["Name", "Qty"],
+      ["<strong>Apple</strong>", "3"],
+      ["Pear", ""],
+    ]);
+  });
+
+  it("should treat an empty header row as no header", () => {
+    const table = parseMarkdownToBlocks(
+      "|  |  |\n| --- | --- |\n| a | b |"
+    ).find(isTable);
+
+    expect(table?.props.hasHeaderRow).toBe(false);
+    expect(table?.props.rows).toEqual([["a", "b"]]);
+  });
+
+  it("should unescape pipes inside cells", () => {
+    const table = parseMarkdownToBlocks("| a \\| b |\n| --- |").find(isTable);
+    expect(table?.props.rows[0][0]).toBe("a | b");
+  });
+});
+
+describe("parseMarkdownToBlocks - round trip", () => {
+  it("should re-import exported Markdown to the same block types", () => {
+    const source = [
+      "# Title",
+      "Some **bold** text",
+      "> [!TIP]\n> 💡 Hint",
+      "```ts\nconst x = 1;\n```",
+      "- [x] done\n  - nested",
+      "| a | b |\n| --- | :---: |\n| 1 | 2 |",
+    ].join("\n\n");
+
+    const blocks = parseMarkdownToBlocks(source);
+    const reparsed = parseMarkdownToBlocks(
+      documentToMarkdown(createTestDocument(blocks))
+    );
+    expect(reparsed.map((block) => block.type)).toEqual(
+      blocks.map((block) => block.type)
+    );
+  });
+
+  it("should re-import an image with its alt text and caption", () => {
+    const image: ImageBlock = {
+      type: "image",
+      props: {
+        id: "image",
+        src: "https://example.com/cat.png",
+        alt: "A [cat] *photo*",
+        caption: 'Fig. 1: the "cat", _asleep_ \\ *',
+        width: "large",
+      },
+    };
+    const [reparsed] = parseMarkdownToBlocks(
+      documentToMarkdown(createTestDocument([image]))
+    );
+    expect(reparsed).toMatchObject({
+      type: "image",
+      props: {
+        src: image.props.src,
+        alt: image.props.alt,
+        caption: image.props.caption,
+      },
+    });
+  });
+});
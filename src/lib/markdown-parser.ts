@@ -0,0 +1,619 @@
+import { createBlock } from "@/lib/utils";
+import {
+  type Block,
+  type CalloutBlock,
+  type ListItemBlock,
+  MAX_LIST_INDENT,
+} from "@/types/blocks";
+import { escapeHtml, isValidUrl, sanitizeHtml } from "./clipboard-parser";
+import { isListItemBlock } from "./lists";
+
+// ============================================================================
+// MARKDOWN DETECTION
+// ============================================================================
+
+// Line-level signals: headings, fences, lists, quotes, rules and table rows
+const MARKDOWN_LINE_SIGNAL_REGEX =
+  /^ {0,3}(?:#{1,6}\s|```|~~~|>|[-*+]\s|\d{1,9}[.)]\s|[-*_](?:\s*[-*_]){2,}\s*$|\|.*\|)/m;
+// Inline signals: links, images, strong emphasis and code spans
+const MARKDOWN_INLINE_SIGNAL_REGEX =
+  /!?\[[^\]\n]+\]\([^)\s]+\)|\*\*\S[^*\n]*\*\*|__\S[^_\n]*__|`[^`\n]+`/;
+
+/**
+ * Heuristically decide whether plain text is Markdown source.
+ * Used to pick between Markdown and plain paragraph parsing on paste.
+ *
+ * @param text - Plain text to inspect
+ * @returns True if the text contains Markdown block or inline syntax
+ */
+export function looksLikeMarkdown(text: string): boolean {
+  return (
+    MARKDOWN_LINE_SIGNAL_REGEX.test(text) ||
+    MARKDOWN_INLINE_SIGNAL_REGEX.test(text)
+  );
+}
+
+// ============================================================================
+// BLOCK PARSING
+// ============================================================================
+
+const LINE_ENDINGS_REGEX = /\r\n?/g;
+const FENCE_REGEX = /^(\s*)(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING_REGEX = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const SETEXT_UNDERLINE_REGEX = /^ {0,3}(=+|-+)\s*$/;
+const THEMATIC_BREAK_REGEX = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const BLOCKQUOTE_REGEX = /^ {0,3}> ?(.*)$/;
+const ALERT_REGEX = /^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]\s*$/i;
+const ATTRIBUTION_REGEX = /^(?:—|--)\s*(.+)$/;
+const EMOJI_PREFIX_REGEX = /^(\p{Extended_Pictographic}\uFE0F?)\s+/u;
+const IMAGE_LINE_REGEX =
+  /^ {0,3}!\[((?:\\.|[^\]\\])*)\]\(\s*([^\s)]+)(?:\s+"((?:\\.|[^"\\])*)")?\s*\)\s*$/;
+const IMAGE_CAPTION_REGEX = /^ {0,3}\*((?:\\.|[^*\s\\])(?:\\.|[^*\\])*)\*\s*$/;
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const ORDERED_MARKER_REGEX = /^\d/;
+const TASK_REGEX = /^\[([ xX])\]\s+(.*)$/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+const TABLE_CELL_DIVIDER_REGEX = /(?<!\\)\|/;
+const TABLE_ROW_EDGES_REGEX = /^\s*\|?|\|?\s*$/g;
+const TAB_REGEX = /\t/g;
+
+// GitHub alert types mapped to callout variants
+const alertVariants: Record<string, CalloutBlock["props"]["variant"]> = {
+  NOTE: "info",
+  IMPORTANT: "info",
+  TIP: "success",
+  WARNING: "warning",
+  CAUTION: "error",
+};
+
+interface ParserState {
+  lines: string[];
+  /** Index of the line currently being parsed */
+  index: number;
+  blocks: Block[];
+  /** Leading whitespace widths of the currently open list levels */
+  listIndents: number[];
+}
+
+/** Consumes lines starting at state.index; returns false if it doesn't apply */
+type BlockParser = (state: ParserState, line: string) => boolean;
+
+/**
+ * Parse Markdown (CommonMark + GitHub extensions) into Block structures.
+ * Inline formatting is converted to the same HTML the rich text editor uses.
+ *
+ * Mapping:
+ * - # … ###### → heading block (levels 4–6 become h3)
+ * - ``` / ~~~ fences → code block with language
+ * - > quote → quote block; > [!NOTE] alerts → callout block
+ * - --- / *** → divider block
+ * - ![alt](src) on its own line → image block
+ * - - / 1. / - [ ] items → bulleted-list/numbered-list/todo blocks
+ * - GFM pipe tables → table block
+ * - Everything else → paragraph block
+ *
+ * @param markdown - Markdown source to parse
+ * @returns Array of parsed blocks
+ */
+export function parseMarkdownToBlocks(markdown: string): Block[] {
+  if (!markdown.trim()) {
+    return [];
+  }
+
+  const state: ParserState = {
+    lines: markdown.replace(LINE_ENDINGS_REGEX, "\n").split("\n"),
+    index: 0,
+    blocks: [],
+    listIndents: [],
+  };
+
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index];
+    if (!line.trim()) {
+      state.index++;
+      continue;
+    }
+
+    const handled = BLOCK_PARSERS.some((parse) => parse(state, line));
+    if (!handled) {
+      parseParagraph(state);
+    }
+
+    // Any block other than a list item closes the open list
+    const last = state.blocks.at(-1);
+    if (!(last && isListItemBlock(last))) {
+      state.listIndents = [];
+    }
+  }
+
+  return state.blocks;
+}
+
+function parseFence(state: ParserState, line: string): boolean {
+  const match = line.match(FENCE_REGEX);
+  if (!match) {
+    return false;
+  }
+
+  const [, indent, fence, language] = match;
+  const codeLines: string[] = [];
+  state.index++;
+
+  while (state.index < state.lines.length) {
+    const codeLine = state.lines[state.index];
+    state.index++;
+    // A closing fence uses the same character and is at least as long
+    if (
+      codeLine.trim().startsWith(fence) &&
+      !codeLine.trim().slice(fence.length).trim()
+    ) {
+      break;
+    }
+    codeLines.push(
+      codeLine.startsWith(indent) ? codeLine.slice(indent.length) : codeLine
+    );
+  }
+
+  state.blocks.push(
+    createBlock("code", {
+      code: codeLines.join("\n"),
+      language: language.toLowerCase() || "plaintext",
+    })
+  );
+  return true;
+}
+
+function parseHeading(state: ParserState, line: string): boolean {
+  const match = line.match(HEADING_REGEX);
+  if (!match) {
+    return false;
+  }
+
+  const level = Math.min(match[1].length, 3);
+  state.blocks.push(
+    createBlock("heading", {
+      content: markdownInlineToHtml(match[2]),
+      level: `h${level}` as "h1" | "h2" | "h3",
+    })
+  );
+  state.index++;
+  return true;
+}
+
+function parseThematicBreak(state: ParserState, line: string): boolean {
+  if (!THEMATIC_BREAK_REGEX.test(line)) {
+    return false;
+  }
+
+  state.blocks.push(createBlock("divider", { style: "solid" }));
+  state.index++;
+  return true;
+}
+
+function parseBlockquote(state: ParserState, line: string): boolean {
+  if (!BLOCKQUOTE_REGEX.test(line)) {
+    return false;
+  }
+
+  const quoteLines: string[] = [];
+  while (state.index < state.lines.length) {
+    const match = state.lines[state.index].match(BLOCKQUOTE_REGEX);
+    if (!match) {
+      break;
+    }
+    quoteLines.push(match[1]);
+    state.index++;
+  }
+
+  const alert = quoteLines[0]?.trim().match(ALERT_REGEX);
+  if (alert) {
+    state.blocks.push(
+      createCallout(quoteLines.slice(1), alertVariants[alert[1].toUpperCase()])
+    );
+    return true;
+  }
+
+  // A trailing "— Name" paragraph is the quote's attribution
+  const paragraphs = splitParagraphs(quoteLines);
+  const attribution =
+    paragraphs.length > 1
+      ? paragraphs.at(-1)?.match(ATTRIBUTION_REGEX)
+      : undefined;
+  if (attribution) {
+    paragraphs.pop();
+  }
+
+  state.blocks.push(
+    createBlock("quote", {
+      content: paragraphsToHtml(paragraphs),
+      attribution: attribution
+        ? unescapeMarkdown(attribution[1].trim())
+        : undefined,
+    })
+  );
+  return true;
+}
+
+function createCallout(
+  lines: string[],
+  variant: CalloutBlock["props"]["variant"]
+): CalloutBlock {
+  const paragraphs = splitParagraphs(lines);
+  // A leading emoji becomes the callout icon
+  const emoji = paragraphs[0]?.match(EMOJI_PREFIX_REGEX);
+  if (emoji) {
+    paragraphs[0] = paragraphs[0].slice(emoji[0].length);
+  }
+
+  return createBlock("callout", {
+    content: paragraphsToHtml(paragraphs),
+    variant,
+    ...(emoji ? { emoji: emoji[1] } : {}),
+  });
+}
+
+function parseImage(state: ParserState, line: string): boolean {
+  const match = line.match(IMAGE_LINE_REGEX);
+  if (!(match && isValidUrl(match[2]))) {
+    return false;
+  }
+
+  const [, alt, src, title] = match;
+  state.index++;
+
+  // The caption is the image's title, or an emphasised line directly below
+  // the image (as older exports wrote it)
+  const captionMatch = state.lines[state.index]?.match(IMAGE_CAPTION_REGEX);
+  if (captionMatch) {
+    state.index++;
+  }
+  const caption = captionMatch?.[1] ?? title;
+
+  state.blocks.push(
+    createBlock("image", {
+      src,
+      alt: unescapeMarkdown(alt),
+      width: "large",
+      ...(caption ? { caption: unescapeMarkdown(caption) } : {}),
+    })
+  );
+  return true;
+}
+
+function parseTable(state: ParserState, line: string): boolean {
+  const separator = state.lines[state.index + 1];
+  if (!(separator && isTableStart(line, separator))) {
+    return false;
+  }
+
+  const header = splitTableRow(line);
+  const alignments = splitTableRow(separator).map(parseColumnAlign);
+  const bodyRows: string[][] = [];
+  state.index += 2;
+
+  while (state.index < state.lines.length) {
+    const rowLine = state.lines[state.index];
+    if (!(rowLine.trim() && rowLine.includes("|"))) {
+      break;
+    }
+    bodyRows.push(splitTableRow(rowLine));
+    state.index++;
+  }
+
+  // Our own export writes an empty header row for header-less tables
+  const hasHeaderRow = header.some((cell) => cell.trim());
+  const rows = hasHeaderRow ? [header, ...bodyRows] : bodyRows;
+  if (rows.length === 0) {
+    return true;
+  }
+
+  const columnCount = Math.max(header.length, ...rows.map((row) => row.length));
+  state.blocks.push(
+    createBlock("table", {
+      rows: rows.map((row) =>
+        Array.from({ length: columnCount }, (_, index) =>
+          markdownInlineToHtml(row[index] ?? "")
+        )
+      ),
+      hasHeaderRow,
+      columnAlign: Array.from(
+        { length: columnCount },
+        (_, index) => alignments[index] ?? "left"
+      ),
+    })
+  );
+  return true;
+}
+
+function isTableStart(line: string, separator: string): boolean {
+  return (
+    line.includes("|") &&
+    separator.includes("|") &&
+    TABLE_SEPARATOR_REGEX.test(separator)
+  );
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .replace(TABLE_ROW_EDGES_REGEX, "")
+    .split(TABLE_CELL_DIVIDER_REGEX)
+    .map((cell) => cell.trim());
+}
+
+function parseColumnAlign(cell: string): "left" | "center" | "right" {
+  if (cell.startsWith(":") && cell.endsWith(":")) {
+    return "center";
+  }
+  return cell.endsWith(":") ? "right" : "left";
+}
+
+function parseListItem(state: ParserState, line: string): boolean {
+  const match = line.match(LIST_ITEM_REGEX);
+  if (!match) {
+    return false;
+  }
+
+  const [, leading, marker, text] = match;
+  const indent = resolveListIndent(state.listIndents, measureIndent(leading));
+  state.index++;
+
+  // Indented (or lazy) lines that don't start a new block continue the item
+  const itemLines = [text];
+  while (state.index < state.lines.length) {
+    const next = state.lines[state.index];
+    if (!next.trim() || startsBlock(state.lines, state.index)) {
+      break;
+    }
+    itemLines.push(next.trim());
+    state.index++;
+  }
+
+  const task = itemLines[0].match(TASK_REGEX);
+  if (task) {
+    itemLines[0] = task[2];
+  }
+  const content = markdownInlineToHtml(itemLines.join("\n"));
+
+  if (task) {
+    state.blocks.push(
+      createBlock("todo", { content, indent, checked: task[1] !== " " })
+    );
+  } else if (ORDERED_MARKER_REGEX.test(marker)) {
+    const number = Number.parseInt(marker, 10);
+    const isFirst = isFirstInListGroup(state.blocks, indent, "numbered-list");
+    state.blocks.push(
+      createBlock("numbered-list", {
+        content,
+        indent,
+        ...(isFirst && number !== 1 ? { start: number } : {}),
+      })
+    );
+  } else {
+    state.blocks.push(createBlock("bulleted-list", { content, indent }));
+  }
+  return true;
+}
+
+/**
+ * Map an item's leading whitespace to a nesting level, tracking the
+ * whitespace width of each open level so mixed 2/3/4-space indents work.
+ */
+function resolveListIndent(listIndents: number[], width: number): number {
+  while (listIndents.length > 0 && (listIndents.at(-1) ?? 0) > width) {
+    listIndents.pop();
+  }
+  if (listIndents.at(-1) !== width) {
+    listIndents.push(width);
+  }
+  return Math.min(listIndents.length - 1, MAX_LIST_INDENT);
+}
+
+function measureIndent(whitespace: string): number {
+  return whitespace.replace(TAB_REGEX, "    ").length;
+}
+
+/**
+ * Whether a new item would start a new list group, i.e. its previous
+ * sibling at the same level is missing or of a different list type.
+ */
+function isFirstInListGroup(
+  blocks: Block[],
+  indent: number,
+  type: ListItemBlock["type"]
+): boolean {
+  for (let index = blocks.length - 1; index >= 0; index--) {
+    const block = blocks[index];
+    if (!isListItemBlock(block) || block.props.indent < indent) {
+      return true;
+    }
+    if (block.props.indent === indent) {
+      return block.type !== type;
+    }
+  }
+  return true;
+}
+
+function parseParagraph(state: ParserState): void {
+  const paragraphLines = [state.lines[state.index].trim()];
+  state.index++;
+
+  while (state.index < state.lines.length) {
+    const line = state.lines[state.index];
+    if (!line.trim()) {
+      break;
+    }
+
+    // "Title\n=====" and "Title\n-----" are headings
+    const setext = line.match(SETEXT_UNDERLINE_REGEX);
+    if (setext) {
+      state.index++;
+      state.blocks.push(
+        createBlock("heading", {
+          content: markdownInlineToHtml(paragraphLines.join("\n")),
+          level: setext[1].startsWith("=") ? "h1" : "h2",
+        })
+      );
+      return;
+    }
+
+    if (startsBlock(state.lines, state.index)) {
+      break;
+    }
+    paragraphLines.push(line.trim());
+    state.index++;
+  }
+
+  state.blocks.push(
+    createBlock("paragraph", {
+      content: markdownInlineToHtml(paragraphLines.join("\n")),
+    })
+  );
+}
+
+/**
+ * Whether the line at index starts a block that interrupts a paragraph.
+ */
+function startsBlock(lines: string[], index: number): boolean {
+  const line = lines[index];
+  const next = lines[index + 1];
+  return (
+    FENCE_REGEX.test(line) ||
+    HEADING_REGEX.test(line) ||
+    THEMATIC_BREAK_REGEX.test(line) ||
+    BLOCKQUOTE_REGEX.test(line) ||
+    LIST_ITEM_REGEX.test(line) ||
+    IMAGE_LINE_REGEX.test(line) ||
+    (next !== undefined && isTableStart(line, next))
+  );
+}
+
+const BLOCK_PARSERS: BlockParser[] = [
+  parseFence,
+  parseHeading,
+  parseThematicBreak,
+  parseTable,
+  parseBlockquote,
+  parseImage,
+  parseListItem,
+];
+
+function splitParagraphs(lines: string[]): string[] {
+  const paragraphs: string[][] = [[]];
+  for (const line of lines) {
+    if (line.trim()) {
+      paragraphs.at(-1)?.push(line.trim());
+    } else if (paragraphs.at(-1)?.length) {
+      paragraphs.push([]);
+    }
+  }
+  return paragraphs
+    .filter((paragraph) => paragraph.length > 0)
+    .map((paragraph) => paragraph.join("\n"));
+}
+
+function paragraphsToHtml(paragraphs: string[]): string {
+  const html = paragraphs.map(markdownInlineToHtml);
+  return html.length === 1
+    ? html[0]
+    : html.map((paragraph) => `<p>${paragraph}</p>`).join("");
+}
+
+// ============================================================================
+// INLINE MARKDOWN → HTML
+// ============================================================================
+
+const PLACEHOLDER_REGEX = /\uE000(\d+)\uE001/g;
+const HTML_TAG_REGEX = /<[^>]*>/g;
+const CODE_SPAN_REGEX = /(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g;
+const HARD_BREAK_REGEX = /(?:\\| {2,})\n/g;
+const SOFT_BREAK_REGEX = /\n/g;
+const ESCAPED_CHAR_REGEX = /\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g;
+// Inline HTML the Markdown export emits (underline and table cell breaks)
+const ALLOWED_INLINE_TAG_REGEX = /&lt;(\/?u|br ?\/?)&gt;/g;
+const AUTOLINK_REGEX = /&lt;(https?:\/\/[^\s<>]+?)&gt;/g;
+const IMAGE_REGEX =
+  /!\[([^\]]*)\]\(\s*([^\s)]+)(?:\s+&quot;[^\n]*?&quot;)?\s*\)/g;
+const LINK_REGEX =
+  /\[([^\]]+)\]\(\s*([^\s)]+)(?:\s+&quot;[^\n]*?&quot;)?\s*\)/g;
+const STRONG_REGEX = /(\*\*|__)(?=\S)([\s\S]*?\S)\1/g;
+const EM_STAR_REGEX = /\*(?=\S)([\s\S]*?\S)\*/g;
+const EM_UNDERSCORE_REGEX = /(^|\W)_(?=\S)([\s\S]*?\S)_(?!\w)/g;
+const STRIKE_REGEX = /~~(?=\S)([\s\S]*?\S)~~/g;
+const HIGHLIGHT_REGEX = /==(?=\S)([\s\S]*?\S)==/g;
+
+/**
+ * Convert inline Markdown (emphasis, links, code spans, line breaks) to
+ * sanitized HTML suitable for a rich text block.
+ *
+ * @param markdown - Inline Markdown (e.g. "**Hi** [there](https://x.y)")
+ * @returns HTML string
+ */
+export function markdownInlineToHtml(markdown: string): string {
+  // Code spans, escapes and finished tags are set aside so later patterns
+  // can't match inside them
+  const stashed: string[] = [];
+  const stash = (html: string) => {
+    stashed.push(html);
+    return `\uE000${stashed.length - 1}\uE001`;
+  };
+  const restore = (text: string) =>
+    text.replace(
+      PLACEHOLDER_REGEX,
+      (_match, index: string) => stashed[Number(index)]
+    );
+
+  const html = escapeHtml(
+    markdown
+      .trim()
+      .replace(CODE_SPAN_REGEX, (_match, _ticks, code: string) =>
+        stash(`<code>${escapeHtml(stripCodeSpanPadding(code))}</code>`)
+      )
+      .replace(HARD_BREAK_REGEX, () => stash("<br>"))
+      .replace(SOFT_BREAK_REGEX, " ")
+      .replace(ESCAPED_CHAR_REGEX, (_match, char: string) =>
+        stash(escapeHtml(char))
+      )
+  )
+    .replace(ALLOWED_INLINE_TAG_REGEX, (_match, tag: string) =>
+      stash(`<${tag}>`)
+    )
+    .replace(AUTOLINK_REGEX, (_match, url: string) =>
+      stash(`<a href="${url}">${url}</a>`)
+    )
+    // Alt text is plain text: escapes are put back and code spans lose
+    // their tags
+    .replace(IMAGE_REGEX, (_match, alt: string, src: string) =>
+      stash(
+        `<img src="${src}" alt="${restore(alt).replace(HTML_TAG_REGEX, "")}">`
+      )
+    )
+    .replace(
+      LINK_REGEX,
+      (_match, label: string, href: string) =>
+        `${stash(`<a href="${href}">`)}${label}${stash("</a>")}`
+    )
+    .replace(STRONG_REGEX, "<strong>$2</strong>")
+    .replace(EM_STAR_REGEX, "<em>$1</em>")
+    .replace(EM_UNDERSCORE_REGEX, "$1<em>$2</em>")
+    .replace(STRIKE_REGEX, "<s>$1</s>")
+    .replace(HIGHLIGHT_REGEX, "<mark>$1</mark>");
+
+  return sanitizeHtml(restore(html));
+}
+
+/**
+ * Code spans may pad their content with one space on each side so it can
+ * start or end with a backtick.
+ */
+function stripCodeSpanPadding(code: string): string {
+  return code.length > 2 && code.startsWith(" ") && code.endsWith(" ")
+    ? code.slice(1, -1)
+    : code;
+}
+
+/**
+ * Remove Markdown backslash escapes from plain-text values (alt, captions).
+ */
+function unescapeMarkdown(text: string): string {
+  return text.replace(ESCAPED_CHAR_REGEX, "$1");
+}
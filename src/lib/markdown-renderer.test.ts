@@ -0,0 +1,339 @@
+/**
+ * Unit tests for Markdown rendering functions.
+ * Tests blockToMarkdown(), documentToMarkdown() and inlineHtmlToMarkdown().
+ */
+import { describe, expect, it } from "bun:test";
+import type {
+  Block,
+  BulletedListBlock,
+  ColumnsBlock,
+  NumberedListBlock,
+  ParagraphBlock,
+  TableBlock,
+  TodoBlock,
+} from "@/types/blocks";
+import { createBlockId, createTestDocument } from "../../test/fixtures";
+import {
+  blockToMarkdown,
+  documentToMarkdown,
+  inlineHtmlToMarkdown,
+} from "./markdown-renderer";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+function createParagraphBlock(content: string): ParagraphBlock {
+  return {
+    type: "paragraph",
+    props: { id: createBlockId(), content, align: "left" },
+  };
+}
+
+function createBulletBlock(content: string, indent = 0): BulletedListBlock {
+  return {
+    type: "bulleted-list",
+    props: { id: createBlockId(), content, indent },
+  };
+}
+
+function createNumberedBlock(
+  content: string,
+  indent = 0,
+  start?: number
+): NumberedListBlock {
+  return {
+    type: "numbered-list",
+    props: { id: createBlockId(), content, indent, start },
+  };
+}
+
+function createTodoBlock(content: string, checked = false): TodoBlock {
+  return {
+    type: "todo",
+    props: { id: createBlockId(), content, indent: 0, checked },
+  };
+}
+
+function createTableBlock(
+  rows: string[][],
+  hasHeaderRow = true,
+  columnAlign: ("left" | "center" | "right")[] = []
+): TableBlock {
+  return {
+    type: "table",
+    props: { id: createBlockId(), rows, hasHeaderRow, columnAlign },
+  };
+}
+
+const noopGetBlock = (): Block | undefined => undefined;
+
+// =============================================================================
+// inlineHtmlToMarkdown() Tests
+// =============================================================================
+
+describe("inlineHtmlToMarkdown", () => {
+  it("should convert inline marks", () => {
+    expect(
+      inlineHtmlToMarkdown(
+        "<strong>bold</strong> <em>italic</em> <s>gone</s> <mark>hi</mark>"
+      )
+    ).toBe("**bold** *italic* ~~gone~~ ==hi==");
+  });
+
+  it("should keep whitespace outside emphasis markers", () => {
+    expect(inlineHtmlToMarkdown("a<strong> bold </strong>b")).toBe(
+      "a **bold** b"
+    );
+  });
+
+  it("should convert links and inline code", () => {
+    expect(
+      inlineHtmlToMarkdown(
+        '<a href="https://example.com/a b">link</a> and <code>x`y</code>'
+      )
+    ).toBe("[link](https://example.com/a%20b) and `` x`y ``");
+  });
+
+  it("should keep underline as inline HTML", () => {
+    expect(inlineHtmlToMarkdown("<u>under</u>")).toBe("<u>under</u>");
+  });
+
+  it("should separate paragraphs with blank lines", () => {
+    expect(inlineHtmlToMarkdown("<p>one</p><p>two</p>")).toBe("one\n\ntwo");
+  });
+
+  it("should convert <br> to a hard line break", () => {
+    expect(inlineHtmlToMarkdown("one<br>two")).toBe("one\\\ntwo");
+  });
+
+  it("should escape Markdown special characters", () => {
+    expect(inlineHtmlToMarkdown("2 * 3 = [six] _ok_")).toBe(
+      "2 \\* 3 = \\[six\\] \\_ok\\_"
+    );
+  });
+
+  it("should return empty string for empty content", () => {
+    expect(inlineHtmlToMarkdown("  ")).toBe("");
+  });
+});
+
+// =============================================================================
+// blockToMarkdown() Tests
+// =============================================================================
+
+describe("blockToMarkdown - text blocks", () => {
+  it("should render a paragraph", () => {
+    const block = createParagraphBlock("<strong>Hello</strong> world");
+    expect(blockToMarkdown(block, noopGetBlock)).toBe("**Hello** world");
+  });
+
+  it("should escape paragraph text that looks like block syntax", () => {
+    expect(
+      blockToMarkdown(createParagraphBlock("# not a heading"), noopGetBlock)
+    ).toBe("\\# not a heading");
+    expect(
+      blockToMarkdown(createParagraphBlock("1. not a list"), noopGetBlock)
+    ).toBe("1\\. not a list");
+  });
+
+  it("should render headings with the matching number of hashes", () => {
+    const block: Block = {
+      type: "heading",
+      props: {
+        id: createBlockId(),
+        content: "Title",
+        level: "h3",
+        align: "left",
+      },
+    };
+    expect(blockToMarkdown(block, noopGetBlock)).toBe("### Title");
+  });
+
+  it("should render a quote with attribution", () => {
+    const block: Block = {
+      type: "quote",
+      props: {
+        id: createBlockId(),
+        content: "Stay hungry",
+        attribution: "Jobs",
+      },
+    };
+    expect(blockToMarkdown(block, noopGetBlock)).toBe(
+      "> Stay hungry\n>\n> — Jobs"
+    );
+  });
+
+  it("should render a callout as an alert blockquote", () => {
+    const block: Block = {
+      type: "callout",
+      props: {
+        id: createBlockId(),
+        content: "Careful",
+        variant: "warning",
+        emoji: "⚠️",
+      },
+    };
+    expect(blockToMarkdown(block, noopGetBlock)).toBe(
+      "> [!WARNING]\n> ⚠️ Careful"
+    );
+  });
+});
+
+describe("blockToMarkdown - media and code", () => {
+  it("should render a fenced code block with language", () => {
+    const block: Block = {
+      type: "code",
+      props: {
+        id: createBlockId(),
+        code: "const a = 1;",
+        language: "typescript",
+      },
+    };
+    expect(blockToMarkdown(block, noopGetBlock)).toBe(
+      "```typescript\nconst a = 1;\n```"
+    );
+  });
+
+  it("should lengthen the fence when the code contains backticks", () => {
+    const block: Block = {
+      type: "code",
+      props: { id: createBlockId(), code: "```", language: "plaintext" },
+    };
+    expect(blockToMarkdown(block, noopGetBlock)).toBe("````\n```\n````");
+  });
+
+  it("should render an image with caption", () => {
+    const block: Block = {
+      type: "image",
+      props: {
+        id: createBlockId(),
+        src: "https://example.com/cat.png",
+        alt: "A cat",
+        caption: "Meow",
+        width: "large",
+      },
+    };
+    expect(blockToMarkdown(block, noopGetBlock)).toBe(
+      '![A cat](https://example.com/cat.png "Meow")'
+    );
+  });
+
+  it("should render a divider as a thematic break", () => {
+    const block: Block = {
+      type: "divider",
+      props: { id: createBlockId(), style: "solid" },
+    };
+    expect(blockToMarkdown(block, noopGetBlock)).toBe("---");
+  });
+});
+
+describe("blockToMarkdown - table", () => {
+  it("should render a GFM table with header and alignment", () => {
+    const block = createTableBlock(
+      [
+        ["Name", "Qty"],
+        ["Apple", "3"],
+      ],
+      true,
+      ["left", "right"]
+    );
+    expect(blockToMarkdown(block, noopGetBlock)).toBe(
+      "| Name | Qty |\n| --- | ---: |\n| Apple | 3 |"
+    );
+  });
+
+  it("should add an empty header row when the table has none", () => {
+    const block = createTableBlock([["a", "b"]], false);
+    expect(blockToMarkdown(block, noopGetBlock)).toBe(
+      "|  |  |\n| --- | --- |\n| a | b |"
+    );
+  });
+
+  it("should escape pipes and line breaks inside cells", () => {
+    const block = createTableBlock([["a|b", "one<br>two"]], true);
+    expect(blockToMarkdown(block, noopGetBlock)).toContain(
+      "| a\\|b | one<br>two |"
+    );
+  });
+});
+
+// =============================================================================
+// documentToMarkdown() Tests
+// =============================================================================
+
+describe("documentToMarkdown - lists", () => {
+  it("should render consecutive bullets as one list", () => {
+    const doc = createTestDocument([
+      createBulletBlock("one"),
+      createBulletBlock("two"),
+    ]);
+    expect(documentToMarkdown(doc)).toBe("- one\n- two");
+  });
+
+  it("should number items from the start index", () => {
+    const doc = createTestDocument([
+      createNumberedBlock("first", 0, 3),
+      createNumberedBlock("second"),
+    ]);
+    expect(documentToMarkdown(doc)).toBe("3. first\n4. second");
+  });
+
+  it("should indent nested items by the parent marker width", () => {
+    const doc = createTestDocument([
+      createNumberedBlock("parent"),
+      createBulletBlock("child", 1),
+    ]);
+    expect(documentToMarkdown(doc)).toBe("1. parent\n   - child");
+  });
+
+  it("should render to-do items as task list items", () => {
+    const doc = createTestDocument([
+      createTodoBlock("open"),
+      createTodoBlock("done", true),
+    ]);
+    expect(documentToMarkdown(doc)).toBe("- [ ] open\n- [x] done");
+  });
+});
+
+describe("documentToMarkdown", () => {
+  it("should separate blocks with blank lines", () => {
+    const doc = createTestDocument([
+      createParagraphBlock("first"),
+      createBulletBlock("item"),
+      createParagraphBlock("last"),
+    ]);
+    expect(documentToMarkdown(doc)).toBe("first\n\n- item\n\nlast");
+  });
+
+  it("should skip empty blocks", () => {
+    const doc = createTestDocument([
+      createParagraphBlock("first"),
+      createParagraphBlock(""),
+      createParagraphBlock("last"),
+    ]);
+    expect(documentToMarkdown(doc)).toBe("first\n\nlast");
+  });
+
+  it("should flatten columns in order", () => {
+    const left = createParagraphBlock("left");
+    const right = createParagraphBlock("right");
+    const columns: ColumnsBlock = {
+      type: "columns",
+      props: {
+        id: createBlockId(),
+        columns: [[left.props.id], [right.props.id]],
+        widths: [1, 1],
+        stackBelow: "sm",
+      },
+    };
+    const doc = createTestDocument([columns, left, right], {
+      rootBlockIds: [columns.props.id],
+    });
+    expect(documentToMarkdown(doc)).toBe("left\n\nright");
+  });
+
+  it("should return empty string for an empty document", () => {
+    expect(documentToMarkdown(createTestDocument([]))).toBe("");
+  });
+});
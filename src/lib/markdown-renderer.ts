@@ -0,0 +1,404 @@
+import type { Block, BlockDocument, CalloutBlock } from "@/types/blocks";
+import { customBlockToMarkdown } from "./block-definitions";
+import {
+  getListGroupStart,
+  groupListItems,
+  type ListGroup,
+  splitListRuns,
+} from "./lists";
+
+/**
+ * Convert a single block to a Markdown string.
+ * Rich text content (TipTap HTML) is converted to inline Markdown.
+ *
+ * @param block - The block to render
+ * @param getBlock - Callback to retrieve child blocks by ID (for columns)
+ * @returns Markdown representation of the block
+ */
+export function blockToMarkdown(
+  block: Block,
+  getBlock: (id: string) => Block | undefined
+): string {
+  switch (block.type) {
+    case "paragraph":
+      return escapeLineStarts(inlineHtmlToMarkdown(block.props.content));
+
+    case "heading": {
+      const hashes = "#".repeat(Number(block.props.level.slice(1)));
+      const text = inlineHtmlToMarkdown(block.props.content).replace(
+        LINE_BREAKS_REGEX,
+        " "
+      );
+      return `${hashes} ${text}`;
+    }
+
+    case "quote":
+      return renderQuote(block.props.content, block.props.attribution);
+
+    case "image":
+      return renderImage(block.props.src, block.props.alt, block.props.caption);
+
+    case "code":
+      return renderCode(block.props.code, block.props.language);
+
+    case "divider":
+      return "---";
+
+    case "callout":
+      return renderCallout(
+        block.props.content,
+        block.props.variant,
+        block.props.emoji
+      );
+
+    case "bulleted-list":
+    case "numbered-list":
+    case "todo":
+      return renderListGroups(groupListItems([block]), "");
+
+    case "table":
+      return renderTable(
+        block.props.rows,
+        block.props.hasHeaderRow,
+        block.props.columnAlign
+      );
+
+    case "columns":
+      // Markdown has no column layout, so columns are flattened in order
+      return block.props.columns
+        .map((columnBlockIds) => renderBlockSequence(columnBlockIds, getBlock))
+        .filter(Boolean)
+        .join("\n\n");
+
+    case "custom":
+      return customBlockToMarkdown(block);
+
+    default: {
+      // Exhaustive check - TypeScript will error if we miss a case
+      block satisfies never;
+      return "";
+    }
+  }
+}
+
+/**
+ * Convert an entire document to a Markdown string.
+ * Iterates through rootBlockIds to maintain block order.
+ *
+ * @param document - The document to render
+ * @returns Markdown representation of the entire document
+ */
+export function documentToMarkdown(document: BlockDocument): string {
+  const getBlock = (id: string): Block | undefined => document.blocks[id];
+  return renderBlockSequence(document.rootBlockIds, getBlock);
+}
+
+/**
+ * Render sibling blocks separated by blank lines.
+ * Consecutive list items are rendered as one (possibly nested) list.
+ */
+function renderBlockSequence(
+  blockIds: string[],
+  getBlock: (id: string) => Block | undefined
+): string {
+  const blocks = blockIds
+    .map((blockId) => getBlock(blockId))
+    .filter((block): block is Block => block !== undefined);
+
+  return splitListRuns(blocks)
+    .map((segment) =>
+      segment.kind === "list"
+        ? renderListGroups(groupListItems(segment.items), "")
+        : blockToMarkdown(segment.block, getBlock)
+    )
+    .filter((markdown) => markdown.trim().length > 0)
+    .join("\n\n");
+}
+
+// ============================================================================
+// INDIVIDUAL BLOCK RENDERERS
+// ============================================================================
+
+// Line breaks, including CommonMark hard breaks (backslash + newline)
+const LINE_BREAKS_REGEX = /\\?\n+/g;
+const BACKTICK_RUN_REGEX = /`+/g;
+
+// GitHub-style alert types used for callout admonitions
+const calloutAlertTypes: Record<CalloutBlock["props"]["variant"], string> = {
+  info: "NOTE",
+  warning: "WARNING",
+  success: "TIP",
+  error: "CAUTION",
+};
+
+function prefixLines(text: string, prefix: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `${prefix}${line}` : prefix.trimEnd()))
+    .join("\n");
+}
+
+function renderQuote(content: string, attribution?: string): string {
+  const lines = [inlineHtmlToMarkdown(content)];
+  if (attribution) {
+    lines.push("", `— ${escapeMarkdown(attribution)}`);
+  }
+  return prefixLines(lines.join("\n"), "> ");
+}
+
+function renderCallout(
+  content: string,
+  variant: CalloutBlock["props"]["variant"],
+  emoji?: string
+): string {
+  const text = inlineHtmlToMarkdown(content);
+  const body = emoji ? `${emoji} ${text}` : text;
+  return prefixLines(`[!${calloutAlertTypes[variant]}]\n${body}`, "> ");
+}
+
+// The caption goes in the image's title, which the parser reads back
+function renderImage(src: string, alt: string, caption?: string): string {
+  const title = caption
+    ? ` "${caption.replace(LINK_TITLE_SPECIAL_CHARS_REGEX, "\\$1")}"`
+    : "";
+  return `![${escapeMarkdown(alt)}](${formatUrl(src)}${title})`;
+}
+
+function renderCode(code: string, language: string): string {
+  // The fence must be longer than any backtick run inside the code
+  const longestRun = Math.max(
+    0,
+    ...(code.match(BACKTICK_RUN_REGEX) ?? []).map((run) => run.length)
+  );
+  const fence = "`".repeat(Math.max(3, longestRun + 1));
+  const info = language === "plaintext" ? "" : language;
+  return `${fence}${info}\n${code}\n${fence}`;
+}
+
+function renderListGroups(groups: ListGroup[], indent: string): string {
+  return groups.map((group) => renderListGroup(group, indent)).join("\n");
+}
+
+function renderListGroup(group: ListGroup, indent: string): string {
+  const start = getListGroupStart(group);
+
+  return group.items
+    .map((node, index) => {
+      let marker = "- ";
+      let checkbox = "";
+      if (node.block.type === "numbered-list") {
+        marker = `${start + index}. `;
+      } else if (node.block.type === "todo") {
+        checkbox = node.block.props.checked ? "[x] " : "[ ] ";
+      }
+
+      // Continuation lines and children align with the item's content
+      const childIndent = indent + " ".repeat(marker.length);
+      const [firstLine, ...otherLines] = inlineHtmlToMarkdown(
+        node.block.props.content
+      ).split("\n");
+      const continuation = otherLines.map((line) =>
+        line ? `${childIndent}${line}` : ""
+      );
+
+      const itemMarkdown = [
+        `${indent}${marker}${checkbox}${firstLine}`,
+        ...continuation,
+      ].join("\n");
+
+      return node.children.length > 0
+        ? `${itemMarkdown}\n${renderListGroups(node.children, childIndent)}`
+        : itemMarkdown;
+    })
+    .join("\n");
+}
+
+function renderTable(
+  rows: string[][],
+  hasHeaderRow: boolean,
+  columnAlign: ("left" | "center" | "right")[]
+): string {
+  const columnCount = Math.max(1, ...rows.map((row) => row.length));
+  const formatRow = (cells: string[]) => {
+    const padded = Array.from({ length: columnCount }, (_, index) =>
+      formatTableCell(cells[index] ?? "")
+    );
+    return `| ${padded.join(" | ")} |`;
+  };
+
+  const separatorCells = Array.from({ length: columnCount }, (_, index) => {
+    const align = columnAlign[index] ?? "left";
+    if (align === "center") {
+      return ":---:";
+    }
+    if (align === "right") {
+      return "---:";
+    }
+    return "---";
+  });
+
+  // GFM tables always need a header row; use an empty one when absent
+  const [firstRow, ...otherRows] = rows;
+  const headerRow = hasHeaderRow && firstRow ? firstRow : [];
+  const bodyRows = hasHeaderRow ? otherRows : rows;
+
+  return [
+    formatRow(headerRow),
+    `| ${separatorCells.join(" | ")} |`,
+    ...bodyRows.map(formatRow),
+  ].join("\n");
+}
+
+function formatTableCell(html: string): string {
+  return inlineHtmlToMarkdown(html)
+    .replace(LINE_BREAKS_REGEX, "<br>")
+    .replace(PIPE_REGEX, "\\|");
+}
+
+// ============================================================================
+// INLINE HTML → MARKDOWN
+// Converts TipTap's inline HTML (marks, links, line breaks) to Markdown.
+// ============================================================================
+
+const PIPE_REGEX = /\|/g;
+const MARKDOWN_SPECIAL_CHARS_REGEX = /([\\`*_[\]<>])/g;
+const SURROUNDING_WHITESPACE_REGEX = /^(\s*)([\s\S]*?)(\s*)$/;
+const EXCESS_LINE_BREAKS_REGEX = /\n{3,}/g;
+const LINE_START_MARKER_REGEX = /^(\s*)(#{1,6}|[-+]|\d+[.)])(?=\s)/gm;
+const DIGITS_PREFIX_REGEX = /^\d+/;
+const URL_UNSAFE_CHARS_REGEX = /[ ()]/g;
+const LINK_TITLE_SPECIAL_CHARS_REGEX = /(["\\])/g;
+
+/**
+ * Convert an HTML fragment from a rich text block to Markdown.
+ * Paragraphs are separated by blank lines; unknown elements keep their text.
+ *
+ * @param html - Inline HTML (e.g. "<p><strong>Hi</strong> there</p>")
+ * @returns Markdown string
+ */
+export function inlineHtmlToMarkdown(html: string): string {
+  if (!html.trim()) {
+    return "";
+  }
+
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(html, "text/html");
+
+  return convertChildren(doc.body)
+    .replace(EXCESS_LINE_BREAKS_REGEX, "\n\n")
+    .trim();
+}
+
+function convertChildren(element: Element): string {
+  return Array.from(element.childNodes).map(convertNode).join("");
+}
+
+function convertNode(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return escapeMarkdown(node.textContent ?? "");
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) {
+    return "";
+  }
+
+  const element = node as Element;
+  const inner = convertChildren(element);
+
+  switch (element.tagName.toLowerCase()) {
+    case "strong":
+    case "b":
+      return wrapInline(inner, "**");
+    case "em":
+    case "i":
+      return wrapInline(inner, "*");
+    case "s":
+    case "strike":
+    case "del":
+      return wrapInline(inner, "~~");
+    case "mark":
+      return wrapInline(inner, "==");
+    case "u":
+      // Markdown has no underline syntax; inline HTML is the portable option
+      return inner.trim() ? `<u>${inner}</u>` : inner;
+    case "code":
+      return renderCodeSpan(element.textContent ?? "");
+    case "a": {
+      const href = element.getAttribute("href");
+      return href && inner.trim() ? `[${inner}](${formatUrl(href)})` : inner;
+    }
+    case "img": {
+      const src = element.getAttribute("src");
+      const alt = element.getAttribute("alt") ?? "";
+      return src ? `![${escapeMarkdown(alt)}](${formatUrl(src)})` : "";
+    }
+    case "br":
+      // CommonMark hard line break
+      return "\\\n";
+    case "p":
+    case "div":
+      return `\n\n${inner}\n\n`;
+    default:
+      return inner;
+  }
+}
+
+/**
+ * Wrap text in an emphasis marker, keeping surrounding whitespace outside
+ * the markers (Markdown ignores "** bold **").
+ */
+function wrapInline(text: string, marker: string): string {
+  const [, leading = "", body = "", trailing = ""] =
+    text.match(SURROUNDING_WHITESPACE_REGEX) ?? [];
+  if (!body) {
+    return text;
+  }
+  return `${leading}${marker}${body}${marker}${trailing}`;
+}
+
+function renderCodeSpan(code: string): string {
+  const longestRun = Math.max(
+    0,
+    ...(code.match(BACKTICK_RUN_REGEX) ?? []).map((run) => run.length)
+  );
+  const ticks = "`".repeat(longestRun + 1);
+  const padding = longestRun > 0 ? " " : "";
+  return `${ticks}${padding}${code}${padding}${ticks}`;
+}
+
+// ============================================================================
+// UTILITIES
+// ============================================================================
+
+/**
+ * Escape characters that Markdown would interpret as formatting.
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(MARKDOWN_SPECIAL_CHARS_REGEX, "\\$1");
+}
+
+/**
+ * Escape text at the start of lines that would otherwise turn a paragraph
+ * into a heading or list item (e.g. "# not a heading").
+ */
+function escapeLineStarts(markdown: string): string {
+  return markdown.replace(
+    LINE_START_MARKER_REGEX,
+    (_match, leading: string, marker: string) => {
+      // Ordered list markers are escaped at the delimiter ("1\. ")
+      const digits = marker.match(DIGITS_PREFIX_REGEX)?.[0];
+      return digits
+        ? `${leading}${digits}\\${marker.slice(digits.length)}`
+        : `${leading}\\${marker}`;
+    }
+  );
+}
+
+/**
+ * Percent-encode characters that would terminate a Markdown link target.
+ */
+function formatUrl(url: string): string {
+  return url.replace(
+    URL_UNSAFE_CHARS_REGEX,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
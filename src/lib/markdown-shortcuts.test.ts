@@ -0,0 +1,130 @@
+/**
+ * Unit tests for Markdown block shortcuts.
+ * Tests trigger matching and that the editor removes the marker and tags
+ * the transaction only at the start of the first paragraph.
+ */
+import { afterEach, describe, expect, it } from "bun:test";
+import { Editor } from "@tiptap/react";
+import StarterKit from "@tiptap/starter-kit";
+import {
+  getMarkdownShortcut,
+  type MarkdownShortcut,
+  MarkdownShortcuts,
+  matchMarkdownShortcut,
+} from "./markdown-shortcuts";
+
+let editor: Editor | undefined;
+
+afterEach(() => {
+  editor?.destroy();
+  editor = undefined;
+});
+
+/**
+ * An editor with the shortcuts, recording the shortcuts its updates were
+ * made by
+ */
+function createEditor(content: string, isEnabled = () => true) {
+  const conversions: MarkdownShortcut[] = [];
+  editor = new Editor({
+    // As in RichTextEditor: blocks, not the editor, provide headings
+    extensions: [
+      StarterKit.configure({ heading: false, codeBlock: false }),
+      MarkdownShortcuts.configure({ isEnabled }),
+    ],
+    content,
+    onUpdate: ({ transaction }) => {
+      const conversion = getMarkdownShortcut(transaction);
+      if (conversion) {
+        conversions.push(conversion);
+      }
+    },
+  });
+  return { editor, conversions };
+}
+
+/** Type text at a position, running input rules like a keystroke would */
+function type(target: Editor, position: number, text: string) {
+  const { view } = target;
+  const handled = view.someProp("handleTextInput", (handler) =>
+    handler(view, position, position, text, () => view.state.tr)
+  );
+  if (!handled) {
+    view.dispatch(view.state.tr.insertText(text, position));
+  }
+}
+
+describe("matchMarkdownShortcut", () => {
+  it("should match complete triggers only", () => {
+    expect(matchMarkdownShortcut("## ")).toEqual({
+      type: "heading",
+      props: { level: "h2" },
+    });
+    expect(matchMarkdownShortcut("```")).toEqual({ type: "code" });
+    expect(matchMarkdownShortcut("[] ")).toEqual({ type: "todo" });
+    expect(matchMarkdownShortcut("---")).toEqual({ type: "divider" });
+    expect(matchMarkdownShortcut("##")).toBeUndefined();
+    expect(matchMarkdownShortcut("a # ")).toBeUndefined();
+    expect(matchMarkdownShortcut("constructor")).toBeUndefined();
+  });
+});
+
+describe("MarkdownShortcuts", () => {
+  it("should remove the marker and ask for the conversion", () => {
+    const { editor: target, conversions } = createEditor("<p>#Title</p>");
+
+    type(target, 2, " ");
+
+    expect(target.getHTML()).toBe("<p>Title</p>");
+    expect(conversions).toEqual([{ type: "heading", props: { level: "h1" } }]);
+  });
+
+  it("should take a quote marker before StarterKit's blockquote rule", () => {
+    const { editor: target, conversions } = createEditor("<p>></p>");
+
+    type(target, 2, " ");
+
+    expect(target.getHTML()).toBe("<p></p>");
+    expect(conversions).toEqual([{ type: "quote" }]);
+  });
+
+  it("should take list and divider markers before StarterKit's rules", () => {
+    for (const [marker, shortcut] of [
+      ["-", { type: "bulleted-list" }],
+      ["1.", { type: "numbered-list" }],
+      ["--", { type: "divider" }],
+    ] as const) {
+      const typed = marker === "--" ? "-" : " ";
+      const { editor: target, conversions } = createEditor(`<p>${marker}</p>`);
+
+      type(target, 1 + marker.length, typed);
+
+      expect(target.getHTML()).toBe("<p></p>");
+      expect(conversions).toEqual([shortcut]);
+      target.destroy();
+    }
+  });
+
+  it("should ignore markers after the first paragraph", () => {
+    const { editor: target, conversions } = createEditor(
+      "<p>First</p><p>#</p>"
+    );
+
+    type(target, 9, " ");
+
+    expect(target.getHTML()).toBe("<p>First</p><p># </p>");
+    expect(conversions).toEqual([]);
+  });
+
+  it("should leave typing alone while disabled", () => {
+    const { editor: target, conversions } = createEditor(
+      "<p>#</p>",
+      () => false
+    );
+
+    type(target, 2, " ");
+
+    expect(target.getHTML()).toBe("<p># </p>");
+    expect(conversions).toEqual([]);
+  });
+});
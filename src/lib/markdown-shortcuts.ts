@@ -0,0 +1,96 @@
+import type { Transaction } from "@tiptap/pm/state";
+import { Extension, InputRule } from "@tiptap/react";
+import type { BlockConversion } from "./block-conversion";
+
+// ============================================================================
+// MARKDOWN SHORTCUTS
+// Typing a Markdown block marker at the very start of a text block turns the
+// block into that type, like "# " for a heading; "---" puts a divider above
+// it. The editor only removes the marker; the shortcut rides on the
+// transaction (see getMarkdownShortcut) so the block is changed after its
+// new content has been saved.
+// ============================================================================
+
+/** A conversion, or a divider inserted above the block */
+export type MarkdownShortcut = BlockConversion | { type: "divider" };
+
+/** Markers and what they do; triggers include the space */
+export const MARKDOWN_SHORTCUTS: Record<string, MarkdownShortcut> = {
+  "# ": { type: "heading", props: { level: "h1" } },
+  "## ": { type: "heading", props: { level: "h2" } },
+  "### ": { type: "heading", props: { level: "h3" } },
+  "> ": { type: "quote" },
+  "```": { type: "code" },
+  "---": { type: "divider" },
+  "- ": { type: "bulleted-list" },
+  "* ": { type: "bulleted-list" },
+  "1. ": { type: "numbered-list" },
+  "[] ": { type: "todo" },
+  "[ ] ": { type: "todo" },
+};
+
+const SHORTCUT_META = "markdownShortcut";
+
+/**
+ * The conversion for text typed at the start of a block, if it is exactly a
+ * shortcut trigger
+ */
+export function matchMarkdownShortcut(
+  text: string
+): MarkdownShortcut | undefined {
+  return Object.hasOwn(MARKDOWN_SHORTCUTS, text)
+    ? MARKDOWN_SHORTCUTS[text]
+    : undefined;
+}
+
+/**
+ * The shortcut a transaction was made by, if any
+ */
+export function getMarkdownShortcut(
+  transaction: Transaction
+): MarkdownShortcut | undefined {
+  return transaction.getMeta(SHORTCUT_META);
+}
+
+interface MarkdownShortcutsOptions {
+  /** Checked on each trigger; editors outside text blocks turn it off */
+  isEnabled: () => boolean;
+}
+
+/**
+ * Input rules removing a typed shortcut marker from the start of the first
+ * paragraph and tagging the transaction with its conversion
+ */
+export const MarkdownShortcuts = Extension.create<MarkdownShortcutsOptions>({
+  name: "markdownShortcuts",
+  // Ahead of StarterKit's rules, which would nest a blockquote, list or
+  // horizontal rule inside the block's text
+  priority: 1000,
+
+  addOptions() {
+    return { isEnabled: () => true };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: (text) =>
+          matchMarkdownShortcut(text) ? { index: 0, text } : null,
+        handler: ({ state, range, match }) => {
+          const shortcut = matchMarkdownShortcut(match[0]);
+          const $start = state.doc.resolve(range.from);
+          if (
+            !(shortcut && this.options.isEnabled()) ||
+            $start.depth !== 1 ||
+            $start.index(0) !== 0
+          ) {
+            return null;
+          }
+          state.tr
+            .delete(range.from, range.to)
+            .setMeta(SHORTCUT_META, shortcut);
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for the in-memory storage adapter.
+ * Tests CRUD operations, isolation of stored copies and change notifications.
+ */
+import { describe, expect, it } from "bun:test";
+import { type BlockDocument, CURRENT_SCHEMA_VERSION } from "@/types/blocks";
+import { createMemoryStorage } from "./memory-storage";
+import type { DocumentChange } from "./persistence";
+import { createSnapshot } from "./snapshots";
+import { createDocument } from "./utils";
+
+describe("createMemoryStorage", () => {
+  it("should list seeded documents", async () => {
+    const doc = createDocument("Seeded");
+    const storage = createMemoryStorage([doc]);
+
+    const documents = await storage.listDocuments();
+    expect(documents.map((d) => d.title)).toEqual(["Seeded"]);
+  });
+
+  it("should save and load a document", async () => {
+    const storage = createMemoryStorage();
+    const doc = createDocument("Draft");
+
+    const saved = await storage.saveDocument(doc);
+    const loaded = await storage.loadDocument(doc.id);
+
+    expect(loaded).toEqual(saved);
+    expect(loaded?.title).toBe("Draft");
+  });
+
+  it("should return null for missing documents", async () => {
+    const storage = createMemoryStorage();
+    expect(await storage.loadDocument("missing")).toBeNull();
+  });
+
+  it("should store copies so callers can't mutate stored state", async () => {
+    const storage = createMemoryStorage();
+    const doc = createDocument("Original");
+    await storage.saveDocument(doc);
+
+    doc.title = "Mutated";
+    const loaded = await storage.loadDocument(doc.id);
+    if (loaded) {
+      loaded.title = "Also mutated";
+    }
+
+    expect((await storage.loadDocument(doc.id))?.title).toBe("Original");
+  });
+
+  it("should delete documents", async () => {
+    const doc = createDocument("Doomed");
+    const storage = createMemoryStorage([doc]);
+
+    await storage.deleteDocument(doc.id);
+    expect(await storage.listDocuments()).toHaveLength(0);
+  });
+
+  it("should notify subscribers with the save origin", async () => {
+    const storage = createMemoryStorage();
+    const changes: DocumentChange[] = [];
+    const unsubscribe = storage.subscribe((change) => changes.push(change));
+
+    const doc = createDocument();
+    await storage.saveDocument(doc, { origin: "editor-1" });
+    await storage.deleteDocument(doc.id);
+    unsubscribe();
+    await storage.saveDocument(doc);
+
+    expect(changes.map((change) => change.type)).toEqual(["saved", "deleted"]);
+    const [saved] = changes;
+    expect(saved.type === "saved" && saved.origin).toBe("editor-1");
+  });
+
+  it("should quarantine documents that fail validation", async () => {
+    const valid = createDocument("Valid");
+    const broken = {
+      ...createDocument("Broken"),
+      blocks: null,
+    } as unknown as BlockDocument;
+    const storage = createMemoryStorage([valid, broken]);
+
+    const documents = await storage.listDocuments();
+    expect(documents.map((d) => d.id)).toEqual([valid.id]);
+    expect(await storage.loadDocument(broken.id)).toBeNull();
+
+    const [quarantined] = await storage.listQuarantinedDocuments();
+    expect(quarantined.id).toBe(broken.id);
+    expect(quarantined.data).toEqual(broken);
+  });
+
+  it("should migrate unversioned documents on load", async () => {
+    const { schemaVersion: _schemaVersion, ...legacy } = createDocument("Old");
+    const storage = createMemoryStorage([legacy as BlockDocument]);
+
+    const loaded = await storage.loadDocument(legacy.id);
+    expect(loaded?.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it("should store snapshots per document and delete them with it", async () => {
+    const doc = createDocument("Versioned");
+    const other = createDocument("Other");
+    const storage = createMemoryStorage([doc, other]);
+
+    await storage.saveSnapshot(createSnapshot(doc, "First"));
+    await storage.saveSnapshot(createSnapshot(other));
+
+    const snapshots = await storage.listSnapshots(doc.id);
+    expect(snapshots.map((s) => s.name)).toEqual(["First"]);
+
+    await storage.deleteDocument(doc.id);
+    expect(await storage.listSnapshots(doc.id)).toEqual([]);
+    expect(await storage.listSnapshots(other.id)).toHaveLength(1);
+  });
+});
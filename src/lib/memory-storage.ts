@@ -0,0 +1,122 @@
+import type { BlockDocument } from "@/types/blocks";
+import { parseStoredDocument } from "./migrations";
+import {
+  createChangeNotifier,
+  type DocumentSnapshot,
+  type QuarantinedDocument,
+  type StorageAdapter,
+  stampDocument,
+} from "./persistence";
+import { parseStoredSnapshots } from "./snapshots";
+import { cloneDocument } from "./utils";
+
+// ============================================================================
+// IN-MEMORY STORAGE ADAPTER
+// Keeps documents in a Map for tests and throwaway sessions. Documents are
+// cloned on the way in and out so callers can't mutate stored state, and are
+// migrated and validated on load like any other adapter's.
+// ============================================================================
+
+export interface MemoryStorageAdapter extends StorageAdapter {
+  /** URLs returned by uploadImage, in upload order */
+  readonly uploadedImages: string[];
+}
+
+/**
+ * Create a storage adapter that keeps everything in memory.
+ *
+ * @param initialDocuments - Documents to seed the store with
+ * @returns In-memory storage adapter
+ */
+export function createMemoryStorage(
+  initialDocuments: BlockDocument[] = []
+): MemoryStorageAdapter {
+  const documents = new Map(
+    initialDocuments.map((doc) => [doc.id, cloneDocument(doc)])
+  );
+  const quarantined = new Map<string, QuarantinedDocument>();
+  const snapshots = new Map<string, DocumentSnapshot>();
+  const uploadedImages: string[] = [];
+  const notifier = createChangeNotifier();
+
+  // Migrate and validate a stored document, moving it to quarantine if it
+  // fails. The stored value is left untouched so nothing is lost.
+  const readDocument = (id: string, data: unknown): BlockDocument | null => {
+    const result = parseStoredDocument(structuredClone(data));
+    if (result.ok) {
+      return result.document;
+    }
+    documents.delete(id);
+    quarantined.set(id, result.quarantined);
+    return null;
+  };
+
+  return {
+    uploadedImages,
+
+    listDocuments() {
+      const loaded = [...documents].flatMap(([id, data]) => {
+        const doc = readDocument(id, data);
+        return doc ? [doc] : [];
+      });
+      return Promise.resolve(loaded);
+    },
+
+    loadDocument(id) {
+      const data = documents.get(id);
+      return Promise.resolve(data ? readDocument(id, data) : null);
+    },
+
+    listQuarantinedDocuments() {
+      return Promise.resolve(structuredClone([...quarantined.values()]));
+    },
+
+    saveDocument(document, options = {}) {
+      const updatedDoc = stampDocument(cloneDocument(document));
+      documents.set(updatedDoc.id, updatedDoc);
+      notifier.notify({
+        type: "saved",
+        document: cloneDocument(updatedDoc),
+        origin: options.origin,
+      });
+      return Promise.resolve(cloneDocument(updatedDoc));
+    },
+
+    deleteDocument(id) {
+      documents.delete(id);
+      quarantined.delete(id);
+      for (const snapshot of snapshots.values()) {
+        if (snapshot.documentId === id) {
+          snapshots.delete(snapshot.id);
+        }
+      }
+      notifier.notify({ type: "deleted", id });
+      return Promise.resolve();
+    },
+
+    listSnapshots(documentId) {
+      const stored = [...snapshots.values()].filter(
+        (snapshot) => snapshot.documentId === documentId
+      );
+      return Promise.resolve(parseStoredSnapshots(structuredClone(stored)));
+    },
+
+    saveSnapshot(snapshot) {
+      snapshots.set(snapshot.id, structuredClone(snapshot));
+      return Promise.resolve(structuredClone(snapshot));
+    },
+
+    deleteSnapshot(id) {
+      snapshots.delete(id);
+      return Promise.resolve();
+    },
+
+    uploadImage(file) {
+      const url = URL.createObjectURL(file);
+      uploadedImages.push(url);
+      return Promise.resolve(url);
+    },
+
+    subscribe: notifier.subscribe,
+  };
+}
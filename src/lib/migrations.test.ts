@@ -0,0 +1,151 @@
+/**
+ * Unit tests for document migrations.
+ * Tests version upgrades, the migration registry and quarantine of
+ * documents that can't be migrated or validated.
+ */
+import { describe, expect, it } from "bun:test";
+import { CURRENT_SCHEMA_VERSION } from "@/types/blocks";
+import {
+  type DocumentMigration,
+  getSchemaVersion,
+  migrateDocument,
+  parseStoredDocument,
+  partitionStoredDocuments,
+} from "./migrations";
+import { createDocument } from "./utils";
+
+/** A document as saved before schemaVersion existed */
+function createUnversionedDocument(title = "Legacy") {
+  const { schemaVersion: _schemaVersion, ...legacy } = createDocument(title);
+  return legacy;
+}
+
+describe("getSchemaVersion", () => {
+  it("should treat unversioned documents as version 0", () => {
+    expect(getSchemaVersion(createUnversionedDocument())).toBe(0);
+  });
+
+  it("should read the stored version", () => {
+    expect(getSchemaVersion({ schemaVersion: 3 })).toBe(3);
+  });
+});
+
+describe("migrateDocument", () => {
+  it("should upgrade unversioned documents to the current version", () => {
+    const migrated = migrateDocument(createUnversionedDocument());
+    expect(migrated.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it("should leave current documents unchanged", () => {
+    const doc = createDocument("Current");
+    expect(migrateDocument(doc)).toEqual(doc);
+  });
+
+  it("should apply each migration step in order", () => {
+    const steps: number[] = [];
+    const migrations: DocumentMigration[] = [
+      {
+        from: 0,
+        description: "record step",
+        migrate: (doc) => {
+          steps.push(0);
+          return { ...doc, touched: true };
+        },
+      },
+      {
+        from: 1,
+        description: "record step",
+        migrate: (doc) => {
+          steps.push(1);
+          return doc;
+        },
+      },
+    ];
+
+    const migrated = migrateDocument({ id: "a" }, migrations);
+    expect(steps).toEqual([0, 1]);
+    expect(migrated).toMatchObject({ id: "a", touched: true });
+  });
+
+  it("should throw when a migration is missing", () => {
+    expect(() => migrateDocument({ id: "a" }, [])).toThrow(
+      "No migration registered from schema version 0"
+    );
+  });
+
+  it("should turn named column layouts into width ratios", () => {
+    const columns = {
+      type: "columns",
+      props: { id: "c", layout: "1-2", columns: [[], []] },
+    };
+    const migrated = migrateDocument({
+      ...createDocument(),
+      schemaVersion: 1,
+      blocks: { c: columns },
+    });
+
+    expect(migrated.blocks).toEqual({
+      c: {
+        type: "columns",
+        props: { id: "c", columns: [[], []], widths: [1, 2] },
+      },
+    });
+    expect(parseStoredDocument(migrated).ok).toBe(true);
+  });
+
+  it("should throw for documents newer than this app", () => {
+    expect(() =>
+      migrateDocument({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 })
+    ).toThrow("newer than this app supports");
+  });
+});
+
+describe("parseStoredDocument", () => {
+  it("should return migrated, valid documents", () => {
+    const result = parseStoredDocument(createUnversionedDocument("Old"));
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.document.title).toBe("Old");
+    expect(result.ok && result.document.schemaVersion).toBe(
+      CURRENT_SCHEMA_VERSION
+    );
+  });
+
+  it("should quarantine documents that fail validation", () => {
+    const broken = { ...createDocument("Broken"), rootBlockIds: "oops" };
+    const result = parseStoredDocument(broken);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.quarantined.id).toBe(broken.id);
+      expect(result.quarantined.data).toBe(broken);
+      expect(result.quarantined.reason).toContain("rootBlockIds");
+    }
+  });
+
+  it("should quarantine documents from a newer version", () => {
+    const future = {
+      ...createDocument(),
+      schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+    };
+    const result = parseStoredDocument(future);
+    expect(!result.ok && result.quarantined.reason).toContain("newer");
+  });
+
+  it("should quarantine non-object data", () => {
+    const result = parseStoredDocument("not a document");
+    expect(!result.ok && result.quarantined.id).toBe("unknown");
+  });
+});
+
+describe("partitionStoredDocuments", () => {
+  it("should separate valid and quarantined documents", () => {
+    const valid = createDocument("Valid");
+    const { documents, quarantined } = partitionStoredDocuments([
+      valid,
+      { id: "bad", title: 42 },
+    ]);
+
+    expect(documents.map((doc) => doc.id)).toEqual([valid.id]);
+    expect(quarantined.map((entry) => entry.id)).toEqual(["bad"]);
+  });
+});
@@ -0,0 +1,196 @@
+import { z } from "zod";
+import {
+  type BlockDocument,
+  BlockDocumentSchema,
+  CURRENT_SCHEMA_VERSION,
+} from "@/types/blocks";
+import { LEGACY_COLUMN_LAYOUTS } from "./columns";
+import type { QuarantinedDocument } from "./persistence";
+
+// ============================================================================
+// DOCUMENT MIGRATIONS
+// Stored documents carry a schemaVersion. On load they are upgraded one
+// version at a time by the migrations below, then validated against
+// BlockDocumentSchema. Documents that can't be migrated or don't validate are
+// quarantined (kept aside untouched) instead of being handed to the editor.
+// ============================================================================
+
+/** Raw document data as read from storage, before migration */
+export type StoredDocumentData = Record<string, unknown>;
+
+export interface DocumentMigration {
+  /** Version this migration upgrades from; it produces `from + 1` */
+  from: number;
+  /** What changed, for logs and the changelog */
+  description: string;
+  migrate: (document: StoredDocumentData) => StoredDocumentData;
+}
+
+/**
+ * Registered migrations, one per version step. When bumping
+ * CURRENT_SCHEMA_VERSION, append a migration from the previous version.
+ */
+export const documentMigrations: DocumentMigration[] = [
+  {
+    from: 0,
+    description:
+      "Documents saved before versioning; the format is otherwise unchanged",
+    migrate: (document) => document,
+  },
+  {
+    from: 1,
+    description:
+      "Columns blocks store width ratios (`widths`) instead of a named `layout`",
+    migrate: migrateColumnLayouts,
+  },
+];
+
+/**
+ * Replace each columns block's `layout` ("1-2", ...) with its width ratios.
+ */
+function migrateColumnLayouts(
+  document: StoredDocumentData
+): StoredDocumentData {
+  const blocks = document.blocks;
+  if (typeof blocks !== "object" || blocks === null) {
+    return document;
+  }
+  const migrated = Object.fromEntries(
+    Object.entries(blocks).map(([id, block]) => {
+      const props = block?.props;
+      if (block?.type !== "columns" || typeof props !== "object" || !props) {
+        return [id, block];
+      }
+      const { layout, ...rest } = props as Record<string, unknown>;
+      const widths =
+        typeof layout === "string" ? LEGACY_COLUMN_LAYOUTS[layout] : undefined;
+      return [id, { ...block, props: widths ? { ...rest, widths } : rest }];
+    })
+  );
+  return { ...document, blocks: migrated };
+}
+
+/**
+ * Read a stored document's schema version. Documents saved before versioning
+ * have no schemaVersion and count as version 0.
+ *
+ * @param data - Raw stored document
+ * @returns Schema version
+ */
+export function getSchemaVersion(data: StoredDocumentData): number {
+  return typeof data.schemaVersion === "number" ? data.schemaVersion : 0;
+}
+
+/**
+ * Upgrade raw document data to CURRENT_SCHEMA_VERSION.
+ * Throws if the document is newer than this app or a migration is missing.
+ *
+ * @param data - Raw stored document
+ * @param migrations - Migration registry (defaults to documentMigrations)
+ * @returns Migrated document data, stamped with the current version
+ */
+export function migrateDocument(
+  data: StoredDocumentData,
+  migrations: DocumentMigration[] = documentMigrations
+): StoredDocumentData {
+  let version = getSchemaVersion(data);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Invalid schema version ${String(data.schemaVersion)}`);
+  }
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `Schema version ${version} is newer than this app supports (${CURRENT_SCHEMA_VERSION})`
+    );
+  }
+
+  let migrated = data;
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const from = version;
+    const migration = migrations.find((m) => m.from === from);
+    if (!migration) {
+      throw new Error(`No migration registered from schema version ${from}`);
+    }
+    migrated = { ...migration.migrate(migrated), schemaVersion: from + 1 };
+    version = from + 1;
+  }
+  return migrated;
+}
+
+export type StoredDocumentResult =
+  | { ok: true; document: BlockDocument }
+  | { ok: false; quarantined: QuarantinedDocument };
+
+/**
+ * Migrate and validate a document read from storage.
+ *
+ * @param data - Raw stored document
+ * @param migrations - Migration registry (defaults to documentMigrations)
+ * @returns The valid document, or a quarantine record explaining why not
+ */
+export function parseStoredDocument(
+  data: unknown,
+  migrations: DocumentMigration[] = documentMigrations
+): StoredDocumentResult {
+  const quarantine = (reason: string): StoredDocumentResult => ({
+    ok: false,
+    quarantined: {
+      id: getStoredDocumentId(data),
+      reason,
+      data,
+      quarantinedAt: new Date().toISOString(),
+    },
+  });
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return quarantine("Stored document is not an object");
+  }
+
+  let migrated: StoredDocumentData;
+  try {
+    migrated = migrateDocument(data as StoredDocumentData, migrations);
+  } catch (error) {
+    return quarantine(error instanceof Error ? error.message : String(error));
+  }
+
+  const result = BlockDocumentSchema.safeParse(migrated);
+  if (!result.success) {
+    return quarantine(z.prettifyError(result.error));
+  }
+  return { ok: true, document: result.data };
+}
+
+/**
+ * Split raw stored documents into valid documents and quarantined ones.
+ *
+ * @param data - Raw stored documents
+ * @returns Valid (migrated) documents and quarantine records
+ */
+export function partitionStoredDocuments(data: unknown[]): {
+  documents: BlockDocument[];
+  quarantined: QuarantinedDocument[];
+} {
+  const documents: BlockDocument[] = [];
+  const quarantined: QuarantinedDocument[] = [];
+  for (const item of data) {
+    const result = parseStoredDocument(item);
+    if (result.ok) {
+      documents.push(result.document);
+    } else {
+      quarantined.push(result.quarantined);
+    }
+  }
+  return { documents, quarantined };
+}
+
+/**
+ * Best-effort ID of a stored document, even when it fails validation.
+ */
+function getStoredDocumentId(data: unknown): string {
+  if (typeof data === "object" && data !== null && "id" in data) {
+    const { id } = data as { id: unknown };
+    if (typeof id === "string" && id) {
+      return id;
+    }
+  }
+  return "unknown";
+}
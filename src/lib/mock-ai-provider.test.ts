@@ -0,0 +1,61 @@
+/**
+ * Unit tests for the mock AI provider.
+ * Checks that the canned responses pass validation and stream intact.
+ */
+import { describe, expect, it } from "bun:test";
+import { parseAIResponse } from "./ai-validation";
+import { createMockAIProvider } from "./mock-ai-provider";
+
+const PROMPTS = [
+  "Add an intro",
+  "Feature list",
+  "Two-column layout",
+  "Three column layout",
+  "Code example",
+  "Image gallery",
+  "Something else",
+];
+
+describe("createMockAIProvider", () => {
+  const provider = createMockAIProvider({ delay: 0, chunkDelay: 0 });
+
+  it("should return valid blocks for every canned prompt", async () => {
+    for (const prompt of PROMPTS) {
+      const output = await provider.generateBlocks({
+        systemPrompt: "",
+        prompt,
+      });
+      const { blocks, errors } = parseAIResponse(output);
+      expect(errors).toEqual([]);
+      expect(blocks.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("should stream the same output in chunks", async () => {
+    const request = { systemPrompt: "", prompt: "Add an intro" };
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamBlocks(request)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.length).toBeGreaterThan(1);
+    const streamed = parseAIResponse(chunks.join(""));
+    expect(streamed.errors).toEqual([]);
+    expect(streamed.blocks.map((block) => block.type)).toEqual([
+      "heading",
+      "paragraph",
+    ]);
+  });
+
+  it("should stop when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      provider.generateBlocks({
+        systemPrompt: "",
+        prompt: "Add an intro",
+        signal: controller.signal,
+      })
+    ).rejects.toThrow();
+  });
+});
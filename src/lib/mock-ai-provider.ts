@@ -0,0 +1,335 @@
+import { createBlock } from "@/lib/utils";
+import type { AIProvider } from "./ai-provider";
+
+// ============================================================================
+// MOCK AI PROVIDER
+// Canned responses picked by keywords in the prompt, returned as JSON text
+// the way a model would write it (text transforms return plain text). Used
+// by default in the demo, in tests and by the mock OpenAI-compatible server
+// (scripts/mock-ai-server.ts).
+// ============================================================================
+
+// Output is streamed in chunks of this many characters
+const STREAM_CHUNK_SIZE = 24;
+
+// Canned suggestions, each left out when the context shows the document
+// already has what it asks for
+const MOCK_SUGGESTIONS: { prompt: string; covered: RegExp }[] = [
+  { prompt: "Add an introduction section", covered: /intro|welcome/i },
+  { prompt: "Create a two-column layout", covered: /\bcolumns\b/ },
+  { prompt: "Add a code example", covered: /\bcode\b/ },
+  { prompt: "Insert an image gallery", covered: /\bimage\b/ },
+  { prompt: "Add feature highlights", covered: /feature/i },
+];
+
+// Canned text transforms, picked by keywords in the instruction
+const SENTENCE_END_REGEX = /(?<=[.!?])\s+/;
+const WHITESPACE_REGEX = /\s+/g;
+const SENTENCE_START_REGEX = /(^|[.!?]\s+)([a-z])/g;
+const ENDS_WITH_PUNCTUATION_REGEX = /[.!?:]$/;
+const TRANSLATE_LANGUAGE_REGEX = /translate .*?into (\w+)/i;
+const MOCK_SHORT_WORDS = 8;
+const MOCK_ELABORATION =
+  "It also covers the details that matter most, with examples you can follow step by step.";
+const MOCK_CONTINUATION =
+  "From here, the next step is to put these ideas into practice.";
+const MOCK_TONE_OPENERS: Record<string, string> = {
+  professional: "Please note:",
+  casual: "So,",
+  friendly: "Hi there!",
+  confident: "Clearly,",
+};
+
+const mockResponses: Record<string, () => unknown[]> = {
+  intro: () => [
+    createBlock("heading", {
+      content: "Welcome to Your New Document",
+      level: "h1",
+    }),
+    createBlock("paragraph", {
+      content:
+        "This is your space to <strong>create</strong>, <em>collaborate</em>, and <u>communicate</u>. Start typing to begin your journey.",
+    }),
+  ],
+
+  features: () => [
+    createBlock("heading", { content: "Key Features", level: "h2" }),
+    createBlock("callout", {
+      content:
+        "<strong>Block-based editing</strong> — Drag, drop, and rearrange content with ease.",
+      variant: "info",
+      emoji: "🧱",
+    }),
+    createBlock("callout", {
+      content:
+        "<strong>Rich formatting</strong> — Bold, italic, underline, and more.",
+      variant: "success",
+      emoji: "✨",
+    }),
+    createBlock("callout", {
+      content:
+        "<strong>Multi-column layouts</strong> — Create sophisticated page designs.",
+      variant: "warning",
+      emoji: "📐",
+    }),
+  ],
+
+  // Layouts nest column blocks the way the catalog prompt asks for;
+  // validation flattens them into ID references
+  "two-column": () => [
+    createBlock("heading", { content: "Two-Column Layout", level: "h2" }),
+    {
+      type: "columns",
+      props: {
+        widths: [1, 1],
+        columns: [
+          [
+            {
+              type: "paragraph",
+              props: {
+                content:
+                  "<strong>Left Column</strong><br/>This content appears on the left side of the layout. You can add any blocks here.",
+              },
+            },
+          ],
+          [
+            {
+              type: "paragraph",
+              props: {
+                content:
+                  "<strong>Right Column</strong><br/>This content appears on the right side. Drag the handle between columns to resize them.",
+              },
+            },
+          ],
+        ],
+      },
+    },
+  ],
+
+  "three-column": () => [
+    createBlock("heading", { content: "Three-Column Layout", level: "h2" }),
+    {
+      type: "columns",
+      props: {
+        widths: [1, 1, 1],
+        columns: [
+          [
+            {
+              type: "callout",
+              props: {
+                content: "First column with important info",
+                variant: "info",
+                emoji: "1️⃣",
+              },
+            },
+          ],
+          [
+            {
+              type: "callout",
+              props: {
+                content: "Second column with more details",
+                variant: "success",
+                emoji: "2️⃣",
+              },
+            },
+          ],
+          [
+            {
+              type: "callout",
+              props: {
+                content: "Third column wrapping it up",
+                variant: "warning",
+                emoji: "3️⃣",
+              },
+            },
+          ],
+        ],
+      },
+    },
+  ],
+
+  "code-example": () => [
+    createBlock("heading", { content: "Code Example", level: "h2" }),
+    createBlock("paragraph", { content: "Here's a simple React component:" }),
+    createBlock("code", {
+      language: "typescript",
+      code: `import { useState } from 'react';
+
+function Counter() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <button onClick={() => setCount(c => c + 1)}>
+      Count: {count}
+    </button>
+  );
+}`,
+    }),
+  ],
+
+  "image-gallery": () => [
+    createBlock("heading", { content: "Image Showcase", level: "h2" }),
+    createBlock("image", {
+      src: "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=1200",
+      alt: "Mountain landscape",
+      caption: "A beautiful mountain landscape at sunset",
+      width: "large",
+    }),
+    createBlock("paragraph", {
+      content:
+        "<em>Images can have captions and different width settings.</em>",
+      align: "center",
+    }),
+  ],
+};
+
+/**
+ * Pick the mock response for a prompt
+ */
+function getMockResponse(prompt: string): unknown[] {
+  const normalizedPrompt = prompt.toLowerCase();
+
+  // Check for keyword matches in mock responses
+  if (
+    normalizedPrompt.includes("intro") ||
+    normalizedPrompt.includes("welcome")
+  ) {
+    return mockResponses.intro();
+  }
+  if (normalizedPrompt.includes("feature")) {
+    return mockResponses.features();
+  }
+  if (normalizedPrompt.includes("two") && normalizedPrompt.includes("column")) {
+    return mockResponses["two-column"]();
+  }
+  if (
+    normalizedPrompt.includes("three") &&
+    normalizedPrompt.includes("column")
+  ) {
+    return mockResponses["three-column"]();
+  }
+  if (normalizedPrompt.includes("code")) {
+    return mockResponses["code-example"]();
+  }
+  if (
+    normalizedPrompt.includes("image") ||
+    normalizedPrompt.includes("photo")
+  ) {
+    return mockResponses["image-gallery"]();
+  }
+
+  // Default: create a paragraph with the prompt as content
+  return [createBlock("paragraph", { content: `<p>${prompt}</p>` })];
+}
+
+/**
+ * Apply a canned transform to text, picked by keywords in the instruction
+ */
+function getMockTransform(instruction: string, text: string): string {
+  const normalized = instruction.toLowerCase();
+
+  if (normalized.includes("continue")) {
+    return MOCK_CONTINUATION;
+  }
+  const language = instruction.match(TRANSLATE_LANGUAGE_REGEX)?.[1];
+  if (language) {
+    return `[${language}] ${text}`;
+  }
+  if (normalized.includes("shorter")) {
+    const [first] = text.split(SENTENCE_END_REGEX);
+    const words = first.split(" ");
+    return words.length > MOCK_SHORT_WORDS
+      ? `${words.slice(0, MOCK_SHORT_WORDS).join(" ")}…`
+      : first;
+  }
+  if (normalized.includes("longer")) {
+    return `${text} ${MOCK_ELABORATION}`;
+  }
+  if (normalized.includes("grammar")) {
+    const fixed = text
+      .replace(WHITESPACE_REGEX, " ")
+      .trim()
+      .replace(
+        SENTENCE_START_REGEX,
+        (_match, before: string, letter: string) =>
+          `${before}${letter.toUpperCase()}`
+      );
+    return ENDS_WITH_PUNCTUATION_REGEX.test(fixed) ? fixed : `${fixed}.`;
+  }
+  const tone = Object.keys(MOCK_TONE_OPENERS).find((name) =>
+    normalized.includes(name)
+  );
+  if (tone) {
+    return `${MOCK_TONE_OPENERS[tone]} ${text}`;
+  }
+  // Default: a light rewrite
+  return `In other words, ${text.charAt(0).toLowerCase()}${text.slice(1)}`;
+}
+
+/**
+ * Resolve after a delay, or reject if the signal aborts first.
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+export interface MockAIProviderOptions {
+  /** Simulated response time in ms (default 800) */
+  delay?: number;
+  /** Pause between streamed chunks in ms (default 30) */
+  chunkDelay?: number;
+}
+
+/**
+ * Create a provider that answers with canned responses.
+ *
+ * @param options - Simulated latency
+ * @returns Mock AI provider
+ */
+export function createMockAIProvider(
+  options: MockAIProviderOptions = {}
+): AIProvider {
+  const delay = options.delay ?? 800;
+  const chunkDelay = options.chunkDelay ?? 30;
+
+  return {
+    async generateBlocks({ prompt, signal }) {
+      await wait(delay, signal);
+      return JSON.stringify(getMockResponse(prompt));
+    },
+
+    async *streamBlocks({ prompt, signal }) {
+      await wait(delay, signal);
+      const response = JSON.stringify(getMockResponse(prompt));
+      for (let i = 0; i < response.length; i += STREAM_CHUNK_SIZE) {
+        if (i > 0) {
+          await wait(chunkDelay, signal);
+        }
+        yield response.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    },
+
+    async suggest(context, signal) {
+      await wait(Math.min(delay, 200), signal);
+      return MOCK_SUGGESTIONS.filter(
+        ({ covered }) => !covered.test(context)
+      ).map(({ prompt }) => prompt);
+    },
+
+    async transformText({ instruction, text, signal }) {
+      await wait(delay, signal);
+      return getMockTransform(instruction, text);
+    },
+  };
+}
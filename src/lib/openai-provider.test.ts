@@ -0,0 +1,210 @@
+/**
+ * Unit tests for the OpenAI-compatible AI provider.
+ * Uses a mock fetch to verify requests, responses, streaming and errors.
+ */
+import { describe, expect, it, mock } from "bun:test";
+import {
+  buildTransformPrompt,
+  SUGGESTIONS_SYSTEM_PROMPT,
+  TRANSFORM_SYSTEM_PROMPT,
+} from "./ai-provider";
+import { createOpenAIProvider } from "./openai-provider";
+
+interface RecordedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+function createMockFetch(respond: () => Response) {
+  const requests: RecordedRequest[] = [];
+  const fetchMock = mock(
+    (input: string | URL | Request, init?: RequestInit) => {
+      requests.push({
+        url: String(input),
+        headers: (init?.headers ?? {}) as Record<string, string>,
+        body: JSON.parse(String(init?.body)),
+      });
+      return Promise.resolve(respond());
+    }
+  );
+  return { fetch: fetchMock as unknown as typeof fetch, requests };
+}
+
+function completionResponse(content: string): Response {
+  return Response.json({
+    choices: [{ index: 0, message: { role: "assistant", content } }],
+  });
+}
+
+function deltaEvent(content: string): string {
+  return `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`;
+}
+
+/** A streamed response whose network chunks split events mid-line */
+function streamResponse(
+  deltas: string[],
+  ending = "data: [DONE]\n\n"
+): Response {
+  const events = deltas.map((content) => `${deltaEvent(content)}\n\n`);
+  const payload = `${events.join("")}${ending}`;
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < payload.length; i += 7) {
+        controller.enqueue(encoder.encode(payload.slice(i, i + 7)));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: { "Content-Type": "text/event-stream" },
+  });
+}
+
+const request = { systemPrompt: "You make blocks", prompt: "Add an intro" };
+
+describe("createOpenAIProvider", () => {
+  it("should post a chat completion with the system prompt", async () => {
+    const { fetch, requests } = createMockFetch(() => completionResponse("[]"));
+    const provider = createOpenAIProvider({
+      baseUrl: "http://localhost:8787/v1/",
+      model: "local-model",
+      apiKey: "secret",
+      fetch,
+    });
+
+    const output = await provider.generateBlocks(request);
+
+    expect(output).toBe("[]");
+    expect(requests[0].url).toBe("http://localhost:8787/v1/chat/completions");
+    expect(requests[0].headers.Authorization).toBe("Bearer secret");
+    expect(requests[0].body).toMatchObject({
+      model: "local-model",
+      stream: false,
+      messages: [
+        { role: "system", content: "You make blocks" },
+        { role: "user", content: "Add an intro" },
+      ],
+    });
+  });
+
+  it("should omit the Authorization header without an API key", async () => {
+    const { fetch, requests } = createMockFetch(() => completionResponse("[]"));
+    const provider = createOpenAIProvider({
+      baseUrl: "http://localhost/v1",
+      model: "m",
+      fetch,
+    });
+
+    await provider.generateBlocks(request);
+    expect(requests[0].headers).not.toHaveProperty("Authorization");
+  });
+
+  it("should throw on HTTP errors", async () => {
+    const { fetch } = createMockFetch(
+      () => new Response(null, { status: 500, statusText: "Server Error" })
+    );
+    const provider = createOpenAIProvider({
+      baseUrl: "http://localhost/v1",
+      model: "m",
+      fetch,
+    });
+
+    await expect(provider.generateBlocks(request)).rejects.toThrow(
+      "500 Server Error"
+    );
+  });
+
+  it("should throw when the completion has no content", async () => {
+    const { fetch } = createMockFetch(() => Response.json({ choices: [] }));
+    const provider = createOpenAIProvider({
+      baseUrl: "http://localhost/v1",
+      model: "m",
+      fetch,
+    });
+
+    await expect(provider.generateBlocks(request)).rejects.toThrow(
+      "no message content"
+    );
+  });
+
+  it("should stream content deltas", async () => {
+    const deltas = ['[{"type":', '"divider"', "}]"];
+    const { fetch, requests } = createMockFetch(() => streamResponse(deltas));
+    const provider = createOpenAIProvider({
+      baseUrl: "http://localhost/v1",
+      model: "m",
+      fetch,
+    });
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamBlocks(request)) {
+      chunks.push(chunk);
+    }
+
+    expect(requests[0].body.stream).toBe(true);
+    expect(chunks).toEqual(deltas);
+  });
+
+  it("should keep a last event without a line break", async () => {
+    const { fetch } = createMockFetch(() =>
+      streamResponse(['[{"type":"divider"}'], deltaEvent("]"))
+    );
+    const provider = createOpenAIProvider({
+      baseUrl: "http://localhost/v1",
+      model: "m",
+      fetch,
+    });
+
+    const chunks: string[] = [];
+    for await (const chunk of provider.streamBlocks(request)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(['[{"type":"divider"}', "]"]);
+  });
+
+  it("should parse suggestions", async () => {
+    const { fetch, requests } = createMockFetch(() =>
+      completionResponse('```json\n["Add a table", 3, "Add a quote"]\n```')
+    );
+    const provider = createOpenAIProvider({
+      baseUrl: "http://localhost/v1",
+      model: "m",
+      fetch,
+    });
+
+    const suggestions = await provider.suggest("# Notes");
+
+    expect(suggestions).toEqual(["Add a table", "Add a quote"]);
+    expect(requests[0].body.messages).toEqual([
+      { role: "system", content: SUGGESTIONS_SYSTEM_PROMPT },
+      { role: "user", content: "# Notes" },
+    ]);
+  });
+
+  it("should send text transforms with their context", async () => {
+    const { fetch, requests } = createMockFetch(() =>
+      completionResponse("A shorter intro.")
+    );
+    const provider = createOpenAIProvider({
+      baseUrl: "http://localhost/v1",
+      model: "m",
+      fetch,
+    });
+    const request = {
+      instruction: "Make the text shorter.",
+      text: "A long **intro**.",
+      context: "# Notes",
+    };
+
+    const text = await provider.transformText(request);
+
+    expect(text).toBe("A shorter intro.");
+    expect(requests[0].body.messages).toEqual([
+      { role: "system", content: TRANSFORM_SYSTEM_PROMPT },
+      { role: "user", content: buildTransformPrompt(request) },
+    ]);
+  });
+});
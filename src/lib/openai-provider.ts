@@ -0,0 +1,169 @@
+import {
+  type AIGenerateRequest,
+  type AIProvider,
+  buildTransformPrompt,
+  SUGGESTIONS_SYSTEM_PROMPT,
+  TRANSFORM_SYSTEM_PROMPT,
+} from "./ai-provider";
+import { extractJson } from "./ai-validation";
+
+// ============================================================================
+// OPENAI-COMPATIBLE PROVIDER
+// Calls POST {baseUrl}/chat/completions with the block catalog as the system
+// message. Works with OpenAI and with self-hosted or local servers that
+// implement the same API (vLLM, Ollama, LM Studio, scripts/mock-ai-server.ts).
+// Streaming uses server-sent events ("data: {...}" lines, ended by
+// "data: [DONE]").
+// ============================================================================
+
+const TRAILING_SLASHES_REGEX = /\/+$/;
+const LINE_BREAK_REGEX = /\r?\n/;
+const SSE_DATA_PREFIX = "data:";
+
+export interface OpenAIProviderOptions {
+  /** API root including the version, e.g. "https://api.openai.com/v1" */
+  baseUrl: string;
+  model: string;
+  /** Sent as a Bearer token when set */
+  apiKey?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
+  temperature?: number;
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+/**
+ * Yield the content deltas of a streamed chat completion.
+ */
+async function* readChatStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+      const lines = buffer.split(LINE_BREAK_REGEX);
+      // The last line may be incomplete, unless the stream has ended
+      buffer = done ? "" : (lines.pop() ?? "");
+
+      for (const line of lines) {
+        if (!line.startsWith(SSE_DATA_PREFIX)) {
+          continue;
+        }
+        const data = line.slice(SSE_DATA_PREFIX.length).trim();
+        if (data === "[DONE]") {
+          return;
+        }
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) {
+          yield content;
+        }
+      }
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Create a provider for an OpenAI-compatible chat completions API.
+ *
+ * @param options - Base URL, model, credentials and fetch implementation
+ * @returns OpenAI-compatible AI provider
+ */
+export function createOpenAIProvider(
+  options: OpenAIProviderOptions
+): AIProvider {
+  const url = `${options.baseUrl.replace(TRAILING_SLASHES_REGEX, "")}/chat/completions`;
+  const fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+
+  async function request(
+    { systemPrompt, prompt, signal }: AIGenerateRequest,
+    stream: boolean
+  ) {
+    const response = await fetchImpl(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(options.apiKey && { Authorization: `Bearer ${options.apiKey}` }),
+        ...options.headers,
+      },
+      body: JSON.stringify({
+        model: options.model,
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: prompt },
+        ],
+        temperature: options.temperature,
+        stream,
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `POST ${url} failed: ${response.status} ${response.statusText}`
+      );
+    }
+    return response;
+  }
+
+  async function complete(generateRequest: AIGenerateRequest) {
+    const response = await request(generateRequest, false);
+    const completion = (await response.json()) as ChatCompletion;
+    const content = completion.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error(`POST ${url} returned no message content`);
+    }
+    return content;
+  }
+
+  return {
+    generateBlocks: complete,
+
+    async *streamBlocks(generateRequest) {
+      const response = await request(generateRequest, true);
+      if (!response.body) {
+        throw new Error(`POST ${url} returned no response body`);
+      }
+      yield* readChatStream(response.body);
+    },
+
+    async suggest(context, signal) {
+      const content = await complete({
+        systemPrompt: SUGGESTIONS_SYSTEM_PROMPT,
+        prompt: context,
+        signal,
+      });
+      const suggestions = extractJson(content);
+      return Array.isArray(suggestions)
+        ? suggestions.filter((item): item is string => typeof item === "string")
+        : [];
+    },
+
+    transformText(transformRequest) {
+      return complete({
+        systemPrompt: TRANSFORM_SYSTEM_PROMPT,
+        prompt: buildTransformPrompt(transformRequest),
+        signal: transformRequest.signal,
+      });
+    },
+  };
+}
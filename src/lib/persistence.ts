@@ -1,173 +1,134 @@
-import type { BlockDocument } from "@/types/blocks";
+import { type BlockDocument, CURRENT_SCHEMA_VERSION } from "@/types/blocks";
 
 // ============================================================================
-// PERSISTENCE LAYER (IndexedDB)
-// Uses IndexedDB for larger storage quota (~50MB+ vs localStorage's ~5MB)
-// Replace with your actual backend/database for production
+// PERSISTENCE LAYER
+// Storage is pluggable: the editor talks to a StorageAdapter, and the app
+// picks an implementation (IndexedDB, in-memory, REST) via StorageProvider.
 // ============================================================================
 
-const DB_NAME = "block-editor";
-const DB_VERSION = 1;
-const STORE_NAME = "documents";
+export interface SaveDocumentOptions {
+  /**
+   * Passed to change listeners so a caller can recognise (and ignore)
+   * notifications about its own saves.
+   */
+  origin?: string;
+}
 
-// Simulated network delay for realistic UX testing
-const simulateDelay = (ms = 300) =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+export type DocumentChange =
+  | { type: "saved"; document: BlockDocument; origin?: string }
+  | { type: "deleted"; id: string }
+  | { type: "cleared" };
 
 /**
- * Open IndexedDB connection
+ * A stored document that couldn't be migrated or failed validation. It is
+ * set aside with its raw data intact so it can be inspected or recovered,
+ * instead of being opened in the editor.
  */
-function openDB(): Promise<IDBDatabase> {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result);
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-
-      // Create documents store if it doesn't exist
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: "id" });
-      }
-    };
-  });
+export interface QuarantinedDocument {
+  /** Stored document ID ("unknown" if the data has none) */
+  id: string;
+  /** Why the document was quarantined */
+  reason: string;
+  /** Raw stored data, exactly as loaded */
+  data: unknown;
+  quarantinedAt: string;
 }
 
 /**
- * Load all documents from storage
+ * A saved copy of a document at a point in time. Snapshots without a name
+ * were taken automatically while editing.
  */
-export async function loadDocuments(): Promise<BlockDocument[]> {
-  await simulateDelay();
-
-  try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, "readonly");
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.getAll();
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result || []);
-
-      transaction.oncomplete = () => db.close();
-    });
-  } catch (error) {
-    console.error("Failed to load documents:", error);
-    return [];
-  }
+export interface DocumentSnapshot {
+  id: string;
+  documentId: string;
+  /** User-given name for a named version */
+  name?: string;
+  createdAt: string;
+  document: BlockDocument;
 }
 
-/**
- * Load a single document by ID
- */
-export async function loadDocument(id: string): Promise<BlockDocument | null> {
-  await simulateDelay();
-
-  try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, "readonly");
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.get(id);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(request.result || null);
-
-      transaction.oncomplete = () => db.close();
-    });
-  } catch (error) {
-    console.error("Failed to load document:", error);
-    return null;
-  }
-}
+export type DocumentChangeListener = (change: DocumentChange) => void;
 
 /**
- * Save a document (create or update)
+ * Backend used to persist documents and uploaded images.
+ * Implementations: createIndexedDbStorage, createMemoryStorage,
+ * createRestStorage.
  */
-export async function saveDocument(
-  document: BlockDocument
-): Promise<BlockDocument> {
-  await simulateDelay();
-
-  const updatedDoc = {
-    ...document,
-    updatedAt: new Date().toISOString(),
-  };
-
-  try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, "readwrite");
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(updatedDoc);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve(updatedDoc);
-
-      transaction.oncomplete = () => db.close();
-    });
-  } catch (error) {
-    console.error("Failed to save document:", error);
-    throw error;
-  }
+export interface StorageAdapter {
+  /**
+   * Load all documents, migrated to the current schema. Documents that fail
+   * validation are quarantined and left out.
+   */
+  listDocuments(): Promise<BlockDocument[]>;
+  /**
+   * Load a single document by ID, migrated to the current schema, or null if
+   * it doesn't exist or had to be quarantined
+   */
+  loadDocument(id: string): Promise<BlockDocument | null>;
+  /** Documents quarantined while loading */
+  listQuarantinedDocuments(): Promise<QuarantinedDocument[]>;
+  /** Save a document (create or update); resolves with the stored copy */
+  saveDocument(
+    document: BlockDocument,
+    options?: SaveDocumentOptions
+  ): Promise<BlockDocument>;
+  /** Delete a document and its snapshots by ID */
+  deleteDocument(id: string): Promise<void>;
+  /** Snapshots of a document's version history, newest first */
+  listSnapshots(documentId: string): Promise<DocumentSnapshot[]>;
+  /** Store a snapshot; resolves with the stored copy */
+  saveSnapshot(snapshot: DocumentSnapshot): Promise<DocumentSnapshot>;
+  /** Delete a snapshot by ID */
+  deleteSnapshot(id: string): Promise<void>;
+  /** Upload an image and return its URL */
+  uploadImage(file: File): Promise<string>;
+  /**
+   * Subscribe to saves and deletions made through this adapter, so the
+   * document library and open editors can react to changes made elsewhere.
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: DocumentChangeListener): () => void;
 }
 
-/**
- * Delete a document by ID
- */
-export async function deleteDocument(id: string): Promise<void> {
-  await simulateDelay();
-
-  try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, "readwrite");
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.delete(id);
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
+// ============================================================================
+// CHANGE NOTIFICATIONS
+// Shared by adapters to implement StorageAdapter.subscribe
+// ============================================================================
 
-      transaction.oncomplete = () => db.close();
-    });
-  } catch (error) {
-    console.error("Failed to delete document:", error);
-    throw error;
-  }
+export interface DocumentChangeNotifier {
+  subscribe: StorageAdapter["subscribe"];
+  notify: (change: DocumentChange) => void;
 }
 
 /**
- * Clear all documents (useful for debugging quota issues)
+ * Create a listener registry for an adapter's change notifications.
  */
-export async function clearAllDocuments(): Promise<void> {
-  try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, "readwrite");
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.clear();
-
-      request.onerror = () => reject(request.error);
-      request.onsuccess = () => resolve();
-
-      transaction.oncomplete = () => db.close();
-    });
-  } catch (error) {
-    console.error("Failed to clear documents:", error);
-    throw error;
-  }
+export function createChangeNotifier(): DocumentChangeNotifier {
+  const listeners = new Set<DocumentChangeListener>();
+
+  return {
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    notify(change) {
+      for (const listener of listeners) {
+        listener(change);
+      }
+    },
+  };
 }
 
 /**
- * Upload an image and return its URL
- * STUB: In production, upload to S3, Cloudflare R2, etc.
+ * Update a document's updatedAt timestamp and schema version before it is
+ * stored.
  */
-export async function uploadImage(file: File): Promise<string> {
-  await simulateDelay(500);
-
-  // Create a local object URL for demo purposes
-  // In production, upload to your storage service
-  return URL.createObjectURL(file);
+export function stampDocument(document: BlockDocument): BlockDocument {
+  return {
+    ...document,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    updatedAt: new Date().toISOString(),
+  };
 }
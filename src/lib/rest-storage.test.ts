@@ -0,0 +1,162 @@
+/**
+ * Unit tests for the REST storage adapter.
+ * Uses a mock fetch to verify request URLs, methods and error handling.
+ */
+import { describe, expect, it, mock } from "bun:test";
+import type { BlockDocument } from "@/types/blocks";
+import { createRestStorage } from "./rest-storage";
+import { createDocument } from "./utils";
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body?: BodyInit | null;
+}
+
+function createMockFetch(
+  respond: (request: RecordedRequest) => Response = () =>
+    new Response(null, { status: 204 })
+) {
+  const requests: RecordedRequest[] = [];
+  const fetchMock = mock(
+    (input: string | URL | Request, init?: RequestInit) => {
+      const request: RecordedRequest = {
+        url: String(input),
+        method: init?.method ?? "GET",
+        headers: (init?.headers ?? {}) as Record<string, string>,
+        body: init?.body,
+      };
+      requests.push(request);
+      return Promise.resolve(respond(request));
+    }
+  );
+  return { fetch: fetchMock as unknown as typeof fetch, requests };
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("createRestStorage", () => {
+  it("should list documents from the base URL", async () => {
+    const doc = createDocument("Remote");
+    const { fetch, requests } = createMockFetch(() => jsonResponse([doc]));
+    const storage = createRestStorage({
+      baseUrl: "https://api.example.com/v1/",
+      fetch,
+    });
+
+    const documents = await storage.listDocuments();
+
+    expect(requests[0].url).toBe("https://api.example.com/v1/documents");
+    expect(documents).toEqual([doc]);
+  });
+
+  it("should return null when a document is not found", async () => {
+    const { fetch, requests } = createMockFetch(
+      () => new Response(null, { status: 404 })
+    );
+    const storage = createRestStorage({ baseUrl: "/api", fetch });
+
+    expect(await storage.loadDocument("a b")).toBeNull();
+    expect(requests[0].url).toBe("/api/documents/a%20b");
+  });
+
+  it("should PUT documents as JSON and notify subscribers", async () => {
+    const { fetch, requests } = createMockFetch(
+      (request) => new Response(request.body as string, { status: 200 })
+    );
+    const storage = createRestStorage({
+      baseUrl: "/api",
+      headers: { Authorization: "Bearer token" },
+      fetch,
+    });
+    const origins: (string | undefined)[] = [];
+    storage.subscribe((change) => {
+      if (change.type === "saved") {
+        origins.push(change.origin);
+      }
+    });
+
+    const doc = createDocument("Saved");
+    const saved = await storage.saveDocument(doc, { origin: "editor" });
+
+    expect(requests[0].method).toBe("PUT");
+    expect(requests[0].url).toBe(`/api/documents/${doc.id}`);
+    expect(requests[0].headers.Authorization).toBe("Bearer token");
+    expect(
+      (JSON.parse(requests[0].body as string) as BlockDocument).title
+    ).toBe("Saved");
+    expect(saved.title).toBe("Saved");
+    expect(origins).toEqual(["editor"]);
+  });
+
+  it("should keep the sent copy when the saved one is invalid", async () => {
+    const { fetch } = createMockFetch(() =>
+      jsonResponse({ id: "doc", blocks: "nope" })
+    );
+    const storage = createRestStorage({ baseUrl: "/api", fetch });
+    const doc = createDocument("Sent");
+    const snapshot = {
+      id: "snap",
+      documentId: doc.id,
+      createdAt: new Date(0).toISOString(),
+      document: doc,
+    };
+
+    expect((await storage.saveDocument(doc)).title).toBe("Sent");
+    expect(await storage.saveSnapshot(snapshot)).toBe(snapshot);
+  });
+
+  it("should throw on server errors", async () => {
+    const { fetch } = createMockFetch(
+      () => new Response("boom", { status: 500, statusText: "Server Error" })
+    );
+    const storage = createRestStorage({ baseUrl: "/api", fetch });
+
+    await expect(storage.saveDocument(createDocument())).rejects.toThrow(
+      "500 Server Error"
+    );
+  });
+
+  it("should upload images and return the server URL", async () => {
+    const { fetch, requests } = createMockFetch(() =>
+      jsonResponse({ url: "https://cdn.example.com/cat.png" })
+    );
+    const storage = createRestStorage({ baseUrl: "/api", fetch });
+
+    const url = await storage.uploadImage(
+      new File(["data"], "cat.png", { type: "image/png" })
+    );
+
+    expect(requests[0].method).toBe("POST");
+    expect(requests[0].url).toBe("/api/images");
+    expect(requests[0].body).toBeInstanceOf(FormData);
+    expect(url).toBe("https://cdn.example.com/cat.png");
+  });
+
+  it("should reject list responses that aren't arrays", async () => {
+    const { fetch } = createMockFetch(() => jsonResponse({ documents: [] }));
+    const storage = createRestStorage({ baseUrl: "/api", fetch });
+
+    await expect(storage.listDocuments()).rejects.toThrow(
+      "GET /api/documents failed: expected a JSON array"
+    );
+    await expect(storage.listSnapshots("doc")).rejects.toThrow(
+      "expected a JSON array"
+    );
+  });
+
+  it("should reject upload responses without a URL", async () => {
+    const { fetch } = createMockFetch(() => jsonResponse({ path: "cat.png" }));
+    const storage = createRestStorage({ baseUrl: "/api", fetch });
+
+    await expect(
+      storage.uploadImage(new File(["data"], "cat.png", { type: "image/png" }))
+    ).rejects.toThrow("Image upload failed: response has no URL");
+  });
+});
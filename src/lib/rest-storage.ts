@@ -0,0 +1,222 @@
+import { parseStoredDocument, partitionStoredDocuments } from "./migrations";
+import {
+  createChangeNotifier,
+  type QuarantinedDocument,
+  type StorageAdapter,
+  stampDocument,
+} from "./persistence";
+import { parseStoredSnapshots } from "./snapshots";
+
+// ============================================================================
+// REST STORAGE ADAPTER
+// Talks to a JSON API under a configurable base URL:
+//   GET    {baseUrl}/documents        → BlockDocument[]
+//   GET    {baseUrl}/documents/:id    → BlockDocument (404 → not found)
+//   PUT    {baseUrl}/documents/:id    → BlockDocument (body: document)
+//   DELETE {baseUrl}/documents/:id    (also deletes its snapshots)
+//   GET    {baseUrl}/documents/:id/snapshots → DocumentSnapshot[]
+//   PUT    {baseUrl}/snapshots/:id    → DocumentSnapshot (body: snapshot)
+//   DELETE {baseUrl}/snapshots/:id
+//   POST   {baseUrl}/images           → { url } (body: multipart "file")
+// Documents that fail validation are quarantined client-side for the session;
+// the server's copy is never modified.
+// ============================================================================
+
+const TRAILING_SLASHES_REGEX = /\/+$/;
+
+export interface RestStorageOptions {
+  /** API root, e.g. "https://api.example.com/v1" */
+  baseUrl: string;
+  /** Extra headers sent with every request (e.g. Authorization) */
+  headers?: Record<string, string>;
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Create a storage adapter backed by a REST API.
+ *
+ * @param options - Base URL, headers and fetch implementation
+ * @returns REST storage adapter
+ */
+export function createRestStorage(options: RestStorageOptions): StorageAdapter {
+  const baseUrl = options.baseUrl.replace(TRAILING_SLASHES_REGEX, "");
+  const fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  const notifier = createChangeNotifier();
+  const quarantined = new Map<string, QuarantinedDocument>();
+
+  const quarantine = (entry: QuarantinedDocument) => {
+    console.warn(`Quarantined document ${entry.id}:`, entry.reason);
+    quarantined.set(entry.id, entry);
+  };
+
+  const documentUrl = (id: string) =>
+    `${baseUrl}/documents/${encodeURIComponent(id)}`;
+  const snapshotUrl = (id: string) =>
+    `${baseUrl}/snapshots/${encodeURIComponent(id)}`;
+
+  async function request(url: string, init: RequestInit = {}) {
+    const response = await fetchImpl(url, {
+      ...init,
+      headers: { ...options.headers, ...init.headers },
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(
+        `${init.method ?? "GET"} ${url} failed: ${response.status} ${response.statusText}`
+      );
+    }
+    return response;
+  }
+
+  // Response bodies are checked before use so a misbehaving server fails
+  // with a clear error rather than somewhere downstream
+  async function readList(response: Response, url: string) {
+    const data: unknown = await response.json();
+    if (!Array.isArray(data)) {
+      throw new Error(`GET ${url} failed: expected a JSON array`);
+    }
+    return data as unknown[];
+  }
+
+  // A saved copy that fails its check is ignored in favour of the one sent
+  async function readSaved<T>(
+    response: Response,
+    url: string,
+    sent: T,
+    check: (data: unknown) => T | undefined
+  ): Promise<T> {
+    const text = await response.text();
+    if (!text) {
+      return sent;
+    }
+    let saved: T | undefined;
+    try {
+      saved = check(JSON.parse(text));
+    } catch {
+      saved = undefined;
+    }
+    if (saved === undefined) {
+      console.warn(`PUT ${url} returned an invalid copy; keeping the one sent`);
+      return sent;
+    }
+    return saved;
+  }
+
+  return {
+    async listDocuments() {
+      const url = `${baseUrl}/documents`;
+      const response = await request(url);
+      if (!response.ok) {
+        return [];
+      }
+      const stored = await readList(response, url);
+      const { documents, quarantined: invalid } =
+        partitionStoredDocuments(stored);
+      for (const entry of invalid) {
+        quarantine(entry);
+      }
+      return documents;
+    },
+
+    async loadDocument(id) {
+      const response = await request(documentUrl(id));
+      if (!response.ok) {
+        return null;
+      }
+      const result = parseStoredDocument(await response.json());
+      if (result.ok) {
+        return result.document;
+      }
+      quarantine(result.quarantined);
+      return null;
+    },
+
+    listQuarantinedDocuments() {
+      return Promise.resolve([...quarantined.values()]);
+    },
+
+    async saveDocument(document, saveOptions = {}) {
+      const updatedDoc = stampDocument(document);
+      const response = await request(documentUrl(updatedDoc.id), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(updatedDoc),
+      });
+      if (!response.ok) {
+        throw new Error(`Saving document ${updatedDoc.id} failed: not found`);
+      }
+
+      // Prefer the server's copy (it may set its own timestamps)
+      const savedDoc = await readSaved(
+        response,
+        documentUrl(updatedDoc.id),
+        updatedDoc,
+        (data) => {
+          const result = parseStoredDocument(data);
+          return result.ok ? result.document : undefined;
+        }
+      );
+      notifier.notify({
+        type: "saved",
+        document: savedDoc,
+        origin: saveOptions.origin,
+      });
+      return savedDoc;
+    },
+
+    async deleteDocument(id) {
+      // Deleting a missing document is not an error
+      await request(documentUrl(id), { method: "DELETE" });
+      quarantined.delete(id);
+      notifier.notify({ type: "deleted", id });
+    },
+
+    async listSnapshots(documentId) {
+      const url = `${documentUrl(documentId)}/snapshots`;
+      const response = await request(url);
+      return response.ok
+        ? parseStoredSnapshots(await readList(response, url))
+        : [];
+    },
+
+    async saveSnapshot(snapshot) {
+      const response = await request(snapshotUrl(snapshot.id), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(snapshot),
+      });
+      if (!response.ok) {
+        throw new Error(`Saving snapshot ${snapshot.id} failed: not found`);
+      }
+      return readSaved(response, snapshotUrl(snapshot.id), snapshot, (data) =>
+        typeof data === "object" && data !== null
+          ? parseStoredSnapshots([data])[0]
+          : undefined
+      );
+    },
+
+    async deleteSnapshot(id) {
+      await request(snapshotUrl(id), { method: "DELETE" });
+    },
+
+    async uploadImage(file) {
+      const body = new FormData();
+      body.append("file", file);
+      const response = await request(`${baseUrl}/images`, {
+        method: "POST",
+        body,
+      });
+      if (!response.ok) {
+        throw new Error("Image upload failed: endpoint not found");
+      }
+      const data: unknown = await response.json();
+      const url = (data as { url?: unknown } | null)?.url;
+      if (typeof url !== "string" || !url) {
+        throw new Error("Image upload failed: response has no URL");
+      }
+      return url;
+    },
+
+    subscribe: notifier.subscribe,
+  };
+}
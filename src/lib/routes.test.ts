@@ -0,0 +1,50 @@
+/**
+ * Unit tests for URL routing helpers.
+ * Tests parseRoute() and getRoutePath().
+ */
+import { describe, expect, it } from "bun:test";
+import { getRoutePath, parseRoute } from "./routes";
+
+describe("parseRoute", () => {
+  it("should parse the root path as the library", () => {
+    expect(parseRoute("/")).toEqual({ name: "library" });
+  });
+
+  it("should parse document paths", () => {
+    expect(parseRoute("/documents/abc-123")).toEqual({
+      name: "document",
+      documentId: "abc-123",
+    });
+    expect(parseRoute("/documents/abc-123/")).toEqual({
+      name: "document",
+      documentId: "abc-123",
+    });
+  });
+
+  it("should decode encoded document IDs", () => {
+    expect(parseRoute("/documents/a%20b")).toEqual({
+      name: "document",
+      documentId: "a b",
+    });
+  });
+
+  it("should fall back to the library for unknown or malformed paths", () => {
+    expect(parseRoute("/settings")).toEqual({ name: "library" });
+    expect(parseRoute("/documents/")).toEqual({ name: "library" });
+    expect(parseRoute("/documents/%E0%A4%A")).toEqual({ name: "library" });
+  });
+});
+
+describe("getRoutePath", () => {
+  it("should build library and document paths", () => {
+    expect(getRoutePath({ name: "library" })).toBe("/");
+    expect(getRoutePath({ name: "document", documentId: "abc" })).toBe(
+      "/documents/abc"
+    );
+  });
+
+  it("should round-trip document IDs through parseRoute", () => {
+    const route = { name: "document", documentId: "a/b c" } as const;
+    expect(parseRoute(getRoutePath(route))).toEqual(route);
+  });
+});
@@ -0,0 +1,50 @@
+// ============================================================================
+// URL ROUTING
+// Maps browser paths to app views so every document has a shareable URL:
+//   /                 → document library
+//   /documents/:id    → editor for a single document
+// ============================================================================
+
+export type Route =
+  | { name: "library" }
+  | { name: "document"; documentId: string };
+
+const DOCUMENT_PATH_REGEX = /^\/documents\/([^/]+)\/?$/;
+
+/**
+ * Parse a URL pathname into a route. Unknown paths fall back to the library.
+ *
+ * @param pathname - window.location.pathname
+ * @returns The matching route
+ */
+export function parseRoute(pathname: string): Route {
+  const match = pathname.match(DOCUMENT_PATH_REGEX);
+  if (match) {
+    try {
+      return { name: "document", documentId: decodeURIComponent(match[1]) };
+    } catch {
+      // Malformed percent-encoding
+      return { name: "library" };
+    }
+  }
+  return { name: "library" };
+}
+
+/**
+ * Build the URL pathname for a route.
+ *
+ * @param route - Route to link to
+ * @returns Pathname such as "/documents/abc-123"
+ */
+export function getRoutePath(route: Route): string {
+  switch (route.name) {
+    case "library":
+      return "/";
+    case "document":
+      return `/documents/${encodeURIComponent(route.documentId)}`;
+    default: {
+      route satisfies never;
+      return "/";
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for the inline slash menu.
+ * Tests when "/" opens a menu, the query typed after it, what closes it, and
+ * splitting the text at the slash when a command is picked.
+ */
+import { afterEach, describe, expect, it } from "bun:test";
+import { Editor } from "@tiptap/react";
+import StarterKit from "@tiptap/starter-kit";
+import { getSlashQuery, SlashCommands, type SlashMenu } from "./slash-menu";
+
+let editor: Editor | undefined;
+
+afterEach(() => {
+  editor?.destroy();
+  editor = undefined;
+});
+
+/**
+ * An editor with slash commands, recording each menu it reports (undefined
+ * once closed)
+ */
+function createEditor(content: string, isEnabled = () => true) {
+  const menus: (SlashMenu | undefined)[] = [];
+  editor = new Editor({
+    extensions: [
+      StarterKit.configure({ heading: false, codeBlock: false }),
+      SlashCommands.configure({
+        isEnabled,
+        onChange: (menu) => menus.push(menu),
+      }),
+    ],
+    content,
+  });
+  return { editor, menus };
+}
+
+/** Type text at the caret, running text input handlers like a keystroke */
+function type(target: Editor, text: string) {
+  const { view } = target;
+  for (const char of text) {
+    const { from, to } = view.state.selection;
+    const handled = view.someProp("handleTextInput", (handler) =>
+      handler(view, from, to, char, () => view.state.tr)
+    );
+    if (!handled) {
+      view.dispatch(view.state.tr.insertText(char, from, to));
+    }
+  }
+}
+
+describe("SlashCommands", () => {
+  it("should open at the start of the text and follow the query", () => {
+    const { editor: target, menus } = createEditor("<p></p>");
+    target.commands.setTextSelection(1);
+
+    type(target, "/hea");
+
+    expect(getSlashQuery(target.state)).toMatchObject({
+      from: 1,
+      query: "hea",
+    });
+    expect(menus.map((menu) => menu?.query)).toEqual(["", "h", "he", "hea"]);
+  });
+
+  it("should open after a space only", () => {
+    const { editor: target } = createEditor("<p>and</p>");
+    target.commands.setTextSelection(4);
+
+    type(target, "/or");
+    expect(getSlashQuery(target.state)).toBeUndefined();
+
+    type(target, " /");
+    expect(getSlashQuery(target.state)?.query).toBe("");
+  });
+
+  it("should stay closed when disabled", () => {
+    const { editor: target, menus } = createEditor("<p></p>", () => false);
+    target.commands.setTextSelection(1);
+
+    type(target, "/");
+
+    expect(getSlashQuery(target.state)).toBeUndefined();
+    expect(menus).toEqual([]);
+  });
+
+  it("should close on a leading space, a deleted slash or a moved caret", () => {
+    const { editor: target, menus } = createEditor("<p>Text</p>");
+    target.commands.setTextSelection(1);
+
+    type(target, "/ ");
+    expect(getSlashQuery(target.state)).toBeUndefined();
+    expect(menus.at(-1)).toBeUndefined();
+
+    target.commands.setTextSelection(1);
+    type(target, "/");
+    target.commands.deleteRange({ from: 1, to: 2 });
+    expect(getSlashQuery(target.state)).toBeUndefined();
+
+    type(target, "/");
+    target.commands.setTextSelection(1);
+    expect(getSlashQuery(target.state)).toBeUndefined();
+  });
+
+  it("should stay open through focus changes", () => {
+    const { editor: target } = createEditor("<p></p>");
+    target.commands.setTextSelection(1);
+    type(target, "/");
+
+    target.view.dispatch(target.state.tr.setMeta("focus", true));
+
+    expect(getSlashQuery(target.state)?.from).toBe(1);
+  });
+
+  it("should leave the text as typed when dismissed", () => {
+    const { editor: target, menus } = createEditor("<p></p>");
+    target.commands.setTextSelection(1);
+    type(target, "/x");
+
+    menus.at(-1)?.dismiss();
+
+    expect(getSlashQuery(target.state)).toBeUndefined();
+    expect(target.getHTML()).toBe("<p>/x</p>");
+  });
+
+  it("should split the text at the slash", () => {
+    const { editor: target, menus } = createEditor(
+      "<p>Before after</p><p>Next</p>"
+    );
+    target.commands.setTextSelection(8);
+    type(target, "/co");
+
+    const split = menus.at(-1)?.split();
+
+    expect(split).toEqual({
+      isEmpty: false,
+      tail: "<p>after</p><p>Next</p>",
+    });
+    expect(target.getHTML()).toBe("<p>Before </p>");
+    expect(getSlashQuery(target.state)).toBeUndefined();
+  });
+
+  it("should report an empty block with nothing after the query", () => {
+    const { editor: target, menus } = createEditor("<p></p>");
+    target.commands.setTextSelection(1);
+    type(target, "/img");
+
+    expect(menus.at(-1)?.split()).toEqual({ isEmpty: true, tail: "" });
+    expect(target.getHTML()).toBe("<p></p>");
+  });
+});
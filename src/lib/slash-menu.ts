@@ -0,0 +1,223 @@
+import {
+  type EditorState,
+  Plugin,
+  PluginKey,
+  type Transaction,
+} from "@tiptap/pm/state";
+import type { EditorView } from "@tiptap/pm/view";
+import { Extension, getHTMLFromFragment } from "@tiptap/react";
+
+// ============================================================================
+// SLASH MENU
+// "/" typed at the start of a block's text or after a space opens the
+// command palette at the caret. What is typed after the slash filters the
+// palette; the slash and query stay in the text until a command is picked,
+// and are left as typed if the menu is dismissed. Moving the caret without
+// typing, deleting the slash or starting the query with a space closes the
+// menu.
+// ============================================================================
+
+// Longer queries are ordinary text that happened to follow a slash
+const MAX_QUERY_LENGTH = 32;
+
+const WHITESPACE_REGEX = /\s/;
+
+/** An open slash menu, as reported to the block */
+export interface SlashMenu {
+  /** Text typed after the slash */
+  query: string;
+  /** Viewport position just below the caret, to anchor the palette */
+  position: { top: number; left: number };
+  /** Closes the menu, leaving the slash and query in the text */
+  dismiss: () => void;
+  /**
+   * Removes the slash and query and cuts the text after them out of the
+   * editor, which keeps the text before
+   */
+  split: () => SlashMenuSplit;
+}
+
+/** What a split leaves in the editor and cuts out of it */
+export interface SlashMenuSplit {
+  /** Nothing but whitespace is left before the slash */
+  isEmpty: boolean;
+  /** The text after the query as HTML, or "" if there was none */
+  tail: string;
+}
+
+/** Where the slash is; null while the menu is closed */
+type SlashMenuState = { from: number } | null;
+
+type SlashMenuMeta = { open: number } | "close";
+
+const slashMenuKey = new PluginKey<SlashMenuState>("slashMenu");
+
+/**
+ * The open menu's slash position and query, if a menu is open
+ */
+export function getSlashQuery(
+  state: EditorState
+): { from: number; to: number; query: string } | undefined {
+  const menu = slashMenuKey.getState(state);
+  if (!menu) {
+    return;
+  }
+  const to = state.selection.head;
+  return {
+    from: menu.from,
+    to,
+    query: state.doc.textBetween(menu.from + 1, to),
+  };
+}
+
+/**
+ * Whether the caret is still in a query typed right after the slash at
+ * `from`
+ */
+function isInQuery(state: EditorState, from: number): boolean {
+  const { selection, doc } = state;
+  if (
+    !selection.empty ||
+    selection.head <= from ||
+    !doc.resolve(from).sameParent(selection.$head) ||
+    doc.textBetween(from, from + 1) !== "/"
+  ) {
+    return false;
+  }
+  const query = doc.textBetween(from + 1, selection.head);
+  return (
+    query.length <= MAX_QUERY_LENGTH && !WHITESPACE_REGEX.test(query.charAt(0))
+  );
+}
+
+function applyMeta(
+  tr: Transaction,
+  value: SlashMenuState,
+  state: EditorState
+): SlashMenuState {
+  const meta: SlashMenuMeta | undefined = tr.getMeta(slashMenuKey);
+  if (meta === "close") {
+    return null;
+  }
+  if (meta) {
+    return { from: meta.open };
+  }
+  if (!value) {
+    return null;
+  }
+  // Moving the caret without typing (arrows, clicks) leaves the query;
+  // focus changes (clicking a palette command) don't
+  if (!tr.docChanged) {
+    return tr.selectionSet ? null : value;
+  }
+  const from = tr.mapping.map(value.from);
+  return isInQuery(state, from) ? { from } : null;
+}
+
+/**
+ * The menu as handed to the block, with its actions bound to the editor
+ */
+function createSlashMenu(view: EditorView): SlashMenu | undefined {
+  const slash = getSlashQuery(view.state);
+  if (!slash) {
+    return;
+  }
+  const coords = view.coordsAtPos(slash.to);
+  return {
+    query: slash.query,
+    position: { top: coords.bottom + 4, left: coords.left },
+    dismiss: () => {
+      if (slashMenuKey.getState(view.state)) {
+        view.dispatch(view.state.tr.setMeta(slashMenuKey, "close"));
+      }
+    },
+    split: () => {
+      const current = getSlashQuery(view.state) ?? slash;
+      const { doc, schema } = view.state;
+      const { content } = doc.slice(current.to, doc.content.size);
+      const tail =
+        content.textBetween(0, content.size).trim() === ""
+          ? ""
+          : getHTMLFromFragment(content, schema);
+      const isEmpty = doc.textBetween(0, current.from, "\n").trim() === "";
+      view.dispatch(
+        view.state.tr
+          .delete(current.from, doc.content.size)
+          .setMeta(slashMenuKey, "close")
+      );
+      return { isEmpty, tail };
+    },
+  };
+}
+
+interface SlashMenuOptions {
+  /** Checked when "/" is typed; editors outside text blocks turn it off */
+  isEnabled: () => boolean;
+  /** Called as the menu opens, its query changes, and it closes */
+  onChange: (menu: SlashMenu | undefined) => void;
+}
+
+/**
+ * Opens a slash menu on "/" typed at the start of the text or after
+ * whitespace, and reports it to the block until it closes
+ */
+export const SlashCommands = Extension.create<SlashMenuOptions>({
+  name: "slashCommands",
+
+  addOptions() {
+    return { isEnabled: () => false, onChange: () => undefined };
+  },
+
+  addProseMirrorPlugins() {
+    const { options } = this;
+    return [
+      new Plugin<SlashMenuState>({
+        key: slashMenuKey,
+        state: {
+          init: () => null,
+          apply: (tr, value, _oldState, newState) =>
+            applyMeta(tr, value, newState),
+        },
+        props: {
+          handleTextInput: (view, from, to, text) => {
+            const before = view.state.doc.textBetween(
+              view.state.doc.resolve(from).start(),
+              from
+            );
+            if (
+              text !== "/" ||
+              !options.isEnabled() ||
+              (before !== "" && !WHITESPACE_REGEX.test(before.slice(-1)))
+            ) {
+              return false;
+            }
+            view.dispatch(
+              view.state.tr
+                .insertText(text, from, to)
+                .setMeta(slashMenuKey, { open: from })
+            );
+            return true;
+          },
+        },
+        view: (editorView) => ({
+          update: (view, prevState) => {
+            const previous = getSlashQuery(prevState);
+            const next = getSlashQuery(view.state);
+            if (
+              previous?.from !== next?.from ||
+              previous?.query !== next?.query
+            ) {
+              options.onChange(createSlashMenu(view));
+            }
+          },
+          // A block converted or removed with its menu open takes it along
+          destroy: () => {
+            if (getSlashQuery(editorView.state)) {
+              options.onChange(undefined);
+            }
+          },
+        }),
+      }),
+    ];
+  },
+});
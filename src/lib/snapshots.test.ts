@@ -0,0 +1,173 @@
+/**
+ * Unit tests for version history snapshots.
+ * Tests auto-snapshot scheduling, pruning, stored snapshot migration and
+ * block-level diffs.
+ */
+import { describe, expect, it } from "bun:test";
+import { type BlockDocument, CURRENT_SCHEMA_VERSION } from "@/types/blocks";
+import type { DocumentSnapshot } from "./persistence";
+import {
+  AUTO_SNAPSHOT_INTERVAL_MS,
+  createSnapshot,
+  diffDocuments,
+  getBlockSummary,
+  getSnapshotsToPrune,
+  parseStoredSnapshots,
+  shouldTakeAutoSnapshot,
+} from "./snapshots";
+import { cloneDocument, createBlock, createDocument } from "./utils";
+
+function createDocumentWith(...contents: string[]): BlockDocument {
+  const doc = createDocument("Doc");
+  for (const content of contents) {
+    const block = createBlock("paragraph", { content });
+    doc.blocks[block.props.id] = block;
+    doc.rootBlockIds.push(block.props.id);
+  }
+  return doc;
+}
+
+function snapshotAt(
+  document: BlockDocument,
+  createdAt: number,
+  name?: string
+): DocumentSnapshot {
+  return {
+    ...createSnapshot(document, name),
+    createdAt: new Date(createdAt).toISOString(),
+  };
+}
+
+describe("createSnapshot", () => {
+  it("should copy the document", () => {
+    const doc = createDocumentWith("Hello");
+    const snapshot = createSnapshot(doc, "  Draft 1  ");
+
+    doc.title = "Changed";
+    expect(snapshot.documentId).toBe(doc.id);
+    expect(snapshot.name).toBe("Draft 1");
+    expect(snapshot.document.title).toBe("Doc");
+  });
+
+  it("should leave blank names unset", () => {
+    expect(createSnapshot(createDocument(), "   ").name).toBeUndefined();
+  });
+});
+
+describe("shouldTakeAutoSnapshot", () => {
+  const now = Date.now();
+
+  it("should snapshot when there are no snapshots yet", () => {
+    expect(shouldTakeAutoSnapshot(createDocumentWith("a"), [], now)).toBe(true);
+  });
+
+  it("should wait for the interval since the last automatic snapshot", () => {
+    const doc = createDocumentWith("a");
+    const recent = snapshotAt(createDocumentWith("b"), now - 1000);
+    const old = snapshotAt(
+      createDocumentWith("b"),
+      now - AUTO_SNAPSHOT_INTERVAL_MS
+    );
+
+    expect(shouldTakeAutoSnapshot(doc, [recent], now)).toBe(false);
+    expect(shouldTakeAutoSnapshot(doc, [old], now)).toBe(true);
+  });
+
+  it("should ignore named snapshots when timing", () => {
+    const doc = createDocumentWith("a");
+    const named = snapshotAt(createDocumentWith("b"), now - 1000, "Named");
+    expect(shouldTakeAutoSnapshot(doc, [named], now)).toBe(true);
+  });
+
+  it("should skip unchanged content", () => {
+    const doc = createDocumentWith("a");
+    const old = snapshotAt(doc, now - AUTO_SNAPSHOT_INTERVAL_MS * 2);
+    const touched = {
+      ...cloneDocument(doc),
+      updatedAt: "2030-01-01T00:00:00Z",
+    };
+    expect(shouldTakeAutoSnapshot(touched, [old], now)).toBe(false);
+  });
+});
+
+describe("getSnapshotsToPrune", () => {
+  it("should keep named snapshots and the newest automatic ones", () => {
+    const doc = createDocument();
+    const snapshots = [
+      snapshotAt(doc, 4),
+      snapshotAt(doc, 3, "Keep me"),
+      snapshotAt(doc, 2),
+      snapshotAt(doc, 1),
+    ];
+
+    const pruned = getSnapshotsToPrune(snapshots, 1);
+    expect(pruned).toEqual([snapshots[2], snapshots[3]]);
+  });
+});
+
+describe("parseStoredSnapshots", () => {
+  it("should migrate documents and sort newest first", () => {
+    const { schemaVersion: _schemaVersion, ...legacy } = createDocument();
+    const older = snapshotAt(legacy as BlockDocument, 1000);
+    const newer = snapshotAt(createDocument(), 2000);
+
+    const parsed = parseStoredSnapshots([older, newer]);
+    expect(parsed.map((s) => s.id)).toEqual([newer.id, older.id]);
+    expect(parsed[1].document.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it("should drop snapshots with invalid documents", () => {
+    const broken = { ...createSnapshot(createDocument()), document: {} };
+    expect(parseStoredSnapshots([broken])).toEqual([]);
+  });
+});
+
+describe("diffDocuments", () => {
+  it("should report added, removed and changed blocks", () => {
+    const before = createDocumentWith("Keep", "Edit me", "Remove me");
+    const after = cloneDocument(before);
+    const [keepId, editId, removeId] = before.rootBlockIds;
+
+    const edited = after.blocks[editId];
+    if (edited.type === "paragraph") {
+      edited.props.content = "Edited";
+    }
+    delete after.blocks[removeId];
+    after.rootBlockIds = after.rootBlockIds.filter((id) => id !== removeId);
+    const added = createBlock("heading", { content: "New" });
+    after.blocks[added.props.id] = added;
+    after.rootBlockIds.push(added.props.id);
+
+    const diff = diffDocuments(before, after);
+    expect(diff.titleChanged).toBe(false);
+    expect(diff.changes.map((c) => [c.type, c.blockId])).toEqual([
+      ["changed", editId],
+      ["added", added.props.id],
+      ["removed", removeId],
+    ]);
+    expect(diff.changes.some((c) => c.blockId === keepId)).toBe(false);
+    expect(diff.changes[0].previous).toEqual(before.blocks[editId]);
+  });
+
+  it("should detect title changes", () => {
+    const before = createDocument("Old");
+    const after = { ...cloneDocument(before), title: "New" };
+    expect(diffDocuments(before, after)).toEqual({
+      titleChanged: true,
+      changes: [],
+    });
+  });
+});
+
+describe("getBlockSummary", () => {
+  it("should strip HTML from text blocks", () => {
+    const block = createBlock("paragraph", {
+      content: "<p>Hello <strong>world</strong></p>",
+    });
+    expect(getBlockSummary(block)).toBe("Hello world");
+  });
+
+  it("should describe blocks without text", () => {
+    expect(getBlockSummary(createBlock("divider"))).toBe("Divider");
+  });
+});
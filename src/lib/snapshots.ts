@@ -0,0 +1,236 @@
+import type { Block, BlockDocument } from "@/types/blocks";
+import { getCustomBlockSummary } from "./block-definitions";
+import { parseStoredDocument } from "./migrations";
+import type { DocumentSnapshot } from "./persistence";
+import { cloneDocument, generateId } from "./utils";
+
+// ============================================================================
+// VERSION HISTORY
+// Snapshots are full copies of a document stored apart from the document
+// itself. Unnamed snapshots are taken periodically while editing and pruned;
+// named ones are kept until deleted.
+// ============================================================================
+
+/** Minimum time between automatic snapshots */
+export const AUTO_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Automatic snapshots kept per document (named snapshots don't count) */
+export const MAX_AUTO_SNAPSHOTS = 50;
+
+const HTML_TAG_REGEX = /<[^>]*>/g;
+const WHITESPACE_REGEX = /\s+/g;
+
+/**
+ * Create a snapshot of a document.
+ *
+ * @param document - Document to copy
+ * @param name - Name for a named version (omit for automatic snapshots)
+ * @returns New snapshot
+ */
+export function createSnapshot(
+  document: BlockDocument,
+  name?: string
+): DocumentSnapshot {
+  return {
+    id: generateId(),
+    documentId: document.id,
+    name: name?.trim() || undefined,
+    createdAt: new Date().toISOString(),
+    document: cloneDocument(document),
+  };
+}
+
+/**
+ * Whether two documents have the same title and content, ignoring
+ * timestamps.
+ */
+export function hasSameContent(a: BlockDocument, b: BlockDocument): boolean {
+  return (
+    a.title === b.title &&
+    JSON.stringify(a.rootBlockIds) === JSON.stringify(b.rootBlockIds) &&
+    JSON.stringify(a.blocks) === JSON.stringify(b.blocks)
+  );
+}
+
+/**
+ * Decide whether an automatic snapshot is due.
+ *
+ * @param document - Current document
+ * @param snapshots - Existing snapshots, newest first
+ * @param now - Current time in ms
+ * @returns True if the last automatic snapshot is older than the interval
+ *   and the content has changed since the latest snapshot
+ */
+export function shouldTakeAutoSnapshot(
+  document: BlockDocument,
+  snapshots: DocumentSnapshot[],
+  now = Date.now()
+): boolean {
+  const [latest] = snapshots;
+  if (latest && hasSameContent(latest.document, document)) {
+    return false;
+  }
+  const lastAuto = snapshots.find((snapshot) => !snapshot.name);
+  return (
+    !lastAuto ||
+    now - new Date(lastAuto.createdAt).getTime() >= AUTO_SNAPSHOT_INTERVAL_MS
+  );
+}
+
+/**
+ * Automatic snapshots beyond the retention limit.
+ *
+ * @param snapshots - Snapshots, newest first
+ * @param max - Automatic snapshots to keep
+ * @returns Snapshots to delete
+ */
+export function getSnapshotsToPrune(
+  snapshots: DocumentSnapshot[],
+  max = MAX_AUTO_SNAPSHOTS
+): DocumentSnapshot[] {
+  return snapshots.filter((snapshot) => !snapshot.name).slice(max);
+}
+
+/**
+ * Sort snapshots newest first.
+ */
+export function sortSnapshots(
+  snapshots: DocumentSnapshot[]
+): DocumentSnapshot[] {
+  return [...snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Migrate the documents inside stored snapshots, dropping snapshots whose
+ * document no longer validates.
+ *
+ * @param data - Snapshots as read from storage
+ * @returns Valid snapshots, newest first
+ */
+export function parseStoredSnapshots(data: unknown[]): DocumentSnapshot[] {
+  const snapshots: DocumentSnapshot[] = [];
+  for (const item of data as DocumentSnapshot[]) {
+    const result = parseStoredDocument(item.document);
+    if (result.ok) {
+      snapshots.push({ ...item, document: result.document });
+    } else {
+      console.warn(`Skipped snapshot ${item.id}:`, result.quarantined.reason);
+    }
+  }
+  return sortSnapshots(snapshots);
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+export type BlockChangeType = "added" | "removed" | "changed";
+
+export interface BlockChange {
+  type: BlockChangeType;
+  blockId: string;
+  /** The block as it is now (as it was, for removed blocks) */
+  block: Block;
+  /** The block as it was, for changed blocks */
+  previous?: Block;
+}
+
+export interface DocumentDiff {
+  titleChanged: boolean;
+  changes: BlockChange[];
+}
+
+/**
+ * Block IDs in reading order: root blocks, with column children after their
+ * columns block. Blocks not reachable from the root come last.
+ */
+function getBlockIdsInOrder(document: BlockDocument): string[] {
+  const ordered = new Set<string>();
+  const visit = (blockId: string) => {
+    const block = document.blocks[blockId];
+    if (!block || ordered.has(blockId)) {
+      return;
+    }
+    ordered.add(blockId);
+    if (block.type === "columns") {
+      for (const column of block.props.columns) {
+        column.forEach(visit);
+      }
+    }
+  };
+  document.rootBlockIds.forEach(visit);
+  for (const blockId of Object.keys(document.blocks)) {
+    ordered.add(blockId);
+  }
+  return [...ordered];
+}
+
+/**
+ * Compare two versions of a document block by block.
+ *
+ * @param from - Earlier version (e.g. a snapshot)
+ * @param to - Later version (e.g. the current document)
+ * @returns Title change flag and added, removed and changed blocks, in
+ *   reading order (removed blocks last)
+ */
+export function diffDocuments(
+  from: BlockDocument,
+  to: BlockDocument
+): DocumentDiff {
+  const changes: BlockChange[] = [];
+
+  for (const blockId of getBlockIdsInOrder(to)) {
+    const block = to.blocks[blockId];
+    const previous = from.blocks[blockId];
+    if (!previous) {
+      changes.push({ type: "added", blockId, block });
+    } else if (JSON.stringify(previous) !== JSON.stringify(block)) {
+      changes.push({ type: "changed", blockId, block, previous });
+    }
+  }
+
+  for (const blockId of getBlockIdsInOrder(from)) {
+    if (!to.blocks[blockId]) {
+      changes.push({ type: "removed", blockId, block: from.blocks[blockId] });
+    }
+  }
+
+  return { titleChanged: from.title !== to.title, changes };
+}
+
+/**
+ * Short plain-text description of a block for change lists.
+ *
+ * @param block - Block to describe
+ * @returns Text content, or a description for blocks without text
+ */
+export function getBlockSummary(block: Block): string {
+  const toText = (html: string) =>
+    html.replace(HTML_TAG_REGEX, " ").replace(WHITESPACE_REGEX, " ").trim();
+
+  switch (block.type) {
+    case "paragraph":
+    case "heading":
+    case "callout":
+    case "quote":
+    case "bulleted-list":
+    case "numbered-list":
+    case "todo":
+      return toText(block.props.content) || "Empty";
+    case "code":
+      return block.props.code.split("\n")[0] || "Empty code block";
+    case "image":
+      return block.props.alt || block.props.caption || block.props.src;
+    case "table":
+      return toText(block.props.rows[0]?.join(" | ") ?? "") || "Table";
+    case "divider":
+      return "Divider";
+    case "columns":
+      return `${block.props.columns.length} columns`;
+    case "custom":
+      return getCustomBlockSummary(block);
+    default:
+      block satisfies never;
+      return "";
+  }
+}
@@ -1,7 +1,12 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { v4 as uuidv4 } from "uuid";
-import type { Block, BlockDocument, BlockType } from "@/types/blocks";
+import {
+  type Block,
+  type BlockDocument,
+  type BlockType,
+  CURRENT_SCHEMA_VERSION,
+} from "@/types/blocks";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -26,7 +31,19 @@ export function createBlock<T extends BlockType>(
     callout: { content: "", variant: "info", emoji: "💡" },
     code: { code: "", language: "typescript" },
     quote: { content: "" },
-    columns: { layout: "1-1", columns: [[], []] },
+    "bulleted-list": { content: "", indent: 0 },
+    "numbered-list": { content: "", indent: 0 },
+    todo: { content: "", indent: 0, checked: false },
+    table: {
+      rows: [
+        ["", ""],
+        ["", ""],
+      ],
+      hasHeaderRow: true,
+      columnAlign: ["left", "left"],
+    },
+    columns: { columns: [[], []], widths: [1, 1], stackBelow: "sm" },
+    custom: { blockType: "", data: {} },
   };
 
   return {
@@ -45,6 +62,7 @@ export function createDocument(title = "Untitled"): BlockDocument {
   const firstBlock = createBlock("paragraph", { content: "" });
 
   return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
     id: generateId(),
     title,
     blocks: {
@@ -60,21 +78,3 @@ export function createDocument(title = "Untitled"): BlockDocument {
 export function cloneDocument(doc: BlockDocument): BlockDocument {
   return JSON.parse(JSON.stringify(doc));
 }
-
-// Get column layout ratios
-export function getColumnWidths(layout: string): number[] {
-  const layouts: Record<string, number[]> = {
-    "1-1": [1, 1],
-    "1-2": [1, 2],
-    "2-1": [2, 1],
-    "1-1-1": [1, 1, 1],
-  };
-  return layouts[layout] || [1, 1];
-}
-
-// Calculate flex-basis percentages from ratios
-export function getColumnFlexBasis(layout: string): string[] {
-  const widths = getColumnWidths(layout);
-  const total = widths.reduce((a, b) => a + b, 0);
-  return widths.map((w) => `${(w / total) * 100}%`);
-}
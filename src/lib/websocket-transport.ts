@@ -0,0 +1,100 @@
+import type {
+  CollaborationMessage,
+  CollaborationMessageListener,
+  CollaborationTransport,
+} from "./collaboration";
+
+// ============================================================================
+// WEBSOCKET TRANSPORT
+// Connects to a relay server that forwards each message to the other clients
+// in the same room ({url}?room=...). See scripts/collab-server.ts for a local
+// server. Messages sent while disconnected are queued; the socket reconnects
+// with exponential backoff.
+// ============================================================================
+
+const MAX_RECONNECT_DELAY = 10_000;
+
+export interface WebSocketTransportOptions {
+  /** Relay server URL, e.g. "ws://localhost:1234" */
+  url: string;
+  /** Room name (e.g. the document ID) */
+  room: string;
+  /** WebSocket implementation (defaults to the global WebSocket) */
+  WebSocket?: typeof WebSocket;
+}
+
+/**
+ * Create a transport that relays messages through a WebSocket server.
+ *
+ * @param options - Server URL, room and WebSocket implementation
+ * @returns Collaboration transport
+ */
+export function createWebSocketTransport(
+  options: WebSocketTransportOptions
+): CollaborationTransport {
+  const WebSocketImpl = options.WebSocket ?? globalThis.WebSocket;
+  const url = new URL(options.url);
+  url.searchParams.set("room", options.room);
+
+  const listeners = new Set<CollaborationMessageListener>();
+  const queue: string[] = [];
+  let socket: WebSocket | null = null;
+  let reconnectDelay = 500;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let isClosed = false;
+
+  function connect() {
+    socket = new WebSocketImpl(url.toString());
+
+    socket.onopen = () => {
+      reconnectDelay = 500;
+      for (const data of queue.splice(0)) {
+        socket?.send(data);
+      }
+    };
+
+    socket.onmessage = (event: MessageEvent<string>) => {
+      let message: CollaborationMessage;
+      try {
+        message = JSON.parse(event.data) as CollaborationMessage;
+      } catch {
+        return;
+      }
+      for (const listener of listeners) {
+        listener(message);
+      }
+    };
+
+    socket.onclose = () => {
+      if (!isClosed) {
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      }
+    };
+  }
+
+  connect();
+
+  return {
+    send(message) {
+      const data = JSON.stringify(message);
+      if (socket?.readyState === WebSocketImpl.OPEN) {
+        socket.send(data);
+      } else {
+        queue.push(data);
+      }
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close() {
+      isClosed = true;
+      clearTimeout(reconnectTimer);
+      listeners.clear();
+      socket?.close();
+    },
+  };
+}
@@ -1,6 +1,11 @@
 import React from "react";
 import ReactDOM from "react-dom/client";
 import App from "./app";
+import { AIModelProvider } from "./components/ai-model-provider";
+import { StorageProvider } from "./components/storage-provider";
+import { createIndexedDbStorage } from "./lib/indexeddb-storage";
+import { createOpenAIProvider } from "./lib/openai-provider";
+import { createRestStorage } from "./lib/rest-storage";
 import "./index.css";
 
 const rootElement = document.getElementById("root");
@@ -8,8 +13,32 @@ if (!rootElement) {
   throw new Error("Root element not found");
 }
 
+// Persist through a REST API when VITE_STORAGE_URL is set, else IndexedDB
+const storageUrl = import.meta.env.VITE_STORAGE_URL;
+const storage = storageUrl
+  ? createRestStorage({ baseUrl: storageUrl })
+  : createIndexedDbStorage();
+
+// Call an OpenAI-compatible API when VITE_AI_URL is set. Otherwise no
+// provider is mounted: generation uses canned responses and suggestions come
+// from the document through the fallback rules.
+const aiUrl = import.meta.env.VITE_AI_URL;
+const app = aiUrl ? (
+  <AIModelProvider
+    provider={createOpenAIProvider({
+      baseUrl: aiUrl,
+      model: import.meta.env.VITE_AI_MODEL ?? "gpt-4o-mini",
+      apiKey: import.meta.env.VITE_AI_API_KEY,
+    })}
+  >
+    <App />
+  </AIModelProvider>
+) : (
+  <App />
+);
+
 ReactDOM.createRoot(rootElement).render(
   <React.StrictMode>
-    <App />
+    <StorageProvider storage={storage}>{app}</StorageProvider>
   </React.StrictMode>
 );
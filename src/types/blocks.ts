@@ -14,6 +14,17 @@ const BaseBlockPropsSchema = z.object({
 // Text content schema (used by text-based blocks)
 const RichTextSchema = z.string(); // HTML string from TipTap
 
+// Maximum nesting depth for list items (0 = top level)
+export const MAX_LIST_INDENT = 5;
+
+// Nesting level shared by list item blocks
+const ListIndentSchema = z
+  .number()
+  .int()
+  .min(0)
+  .max(MAX_LIST_INDENT)
+  .default(0);
+
 // ============================================================================
 // INDIVIDUAL BLOCK SCHEMAS
 // ============================================================================
@@ -77,12 +88,71 @@ export const QuoteBlockSchema = z.object({
   }),
 });
 
+// List item schemas - one block per item, nesting expressed via indent.
+// Consecutive list items are grouped into <ul>/<ol> when rendered.
+export const BulletedListBlockSchema = z.object({
+  type: z.literal("bulleted-list"),
+  props: BaseBlockPropsSchema.extend({
+    content: RichTextSchema,
+    indent: ListIndentSchema,
+  }),
+});
+
+export const NumberedListBlockSchema = z.object({
+  type: z.literal("numbered-list"),
+  props: BaseBlockPropsSchema.extend({
+    content: RichTextSchema,
+    indent: ListIndentSchema,
+    start: z.number().int().min(0).optional(), // Only read on the first item of a list
+  }),
+});
+
+export const TodoBlockSchema = z.object({
+  type: z.literal("todo"),
+  props: BaseBlockPropsSchema.extend({
+    content: RichTextSchema,
+    indent: ListIndentSchema,
+    checked: z.boolean().default(false),
+  }),
+});
+
+// Table schema - rows of rich-text cells, first row optionally a header
+export const TableBlockSchema = z.object({
+  type: z.literal("table"),
+  props: BaseBlockPropsSchema.extend({
+    rows: z.array(z.array(RichTextSchema)), // rows[rowIndex][columnIndex]
+    hasHeaderRow: z.boolean().default(true),
+    columnAlign: z.array(z.enum(["left", "center", "right"])).default([]),
+  }),
+});
+
 // Column layout schema - contains child block IDs
+export const MIN_COLUMNS = 2;
+export const MAX_COLUMNS = 6;
+
+// Viewport breakpoint below which columns stack vertically (Tailwind sizes)
+export const ColumnStackBreakpointSchema = z.enum(["never", "sm", "md", "lg"]);
+export type ColumnStackBreakpoint = z.infer<typeof ColumnStackBreakpointSchema>;
+
 export const ColumnsBlockSchema = z.object({
   type: z.literal("columns"),
   props: BaseBlockPropsSchema.extend({
-    layout: z.enum(["1-1", "1-2", "2-1", "1-1-1"]).default("1-1"),
-    columns: z.array(z.array(z.string())), // Array of arrays of block IDs
+    // Array of arrays of block IDs
+    columns: z.array(z.array(z.string())).min(MIN_COLUMNS).max(MAX_COLUMNS),
+    // Relative width of each column, e.g. [2, 1]; missing entries count as 1
+    widths: z.array(z.number().positive()).default([]),
+    stackBelow: ColumnStackBreakpointSchema.default("sm"),
+  }),
+});
+
+// Block of a type registered by the host app (see src/lib/block-definitions.ts).
+// The data is checked against the registered schema when the block is read,
+// so documents still load without the definition.
+export const CustomBlockSchema = z.object({
+  type: z.literal("custom"),
+  props: BaseBlockPropsSchema.extend({
+    blockType: z.string().min(1),
+    data: z.record(z.string(), z.unknown()).default({}),
   }),
 });
 
@@ -98,7 +168,12 @@ export const BlockSchema = z.discriminatedUnion("type", [
   CalloutBlockSchema,
   CodeBlockSchema,
   QuoteBlockSchema,
+  BulletedListBlockSchema,
+  NumberedListBlockSchema,
+  TodoBlockSchema,
+  TableBlockSchema,
   ColumnsBlockSchema,
+  CustomBlockSchema,
 ]);
 
 export type Block = z.infer<typeof BlockSchema>;
@@ -111,13 +186,27 @@ export type DividerBlock = z.infer<typeof DividerBlockSchema>;
 export type CalloutBlock = z.infer<typeof CalloutBlockSchema>;
 export type CodeBlock = z.infer<typeof CodeBlockSchema>;
 export type QuoteBlock = z.infer<typeof QuoteBlockSchema>;
+export type BulletedListBlock = z.infer<typeof BulletedListBlockSchema>;
+export type NumberedListBlock = z.infer<typeof NumberedListBlockSchema>;
+export type TodoBlock = z.infer<typeof TodoBlockSchema>;
+export type ListItemBlock = BulletedListBlock | NumberedListBlock | TodoBlock;
+export type TableBlock = z.infer<typeof TableBlockSchema>;
 export type ColumnsBlock = z.infer<typeof ColumnsBlockSchema>;
+export type CustomBlock = z.infer<typeof CustomBlockSchema>;
 
 // ============================================================================
 // DOCUMENT SCHEMA
 // ============================================================================
 
+/**
+ * Version of the stored document format. Bump it whenever a change to the
+ * schemas would break documents saved earlier, and register a migration in
+ * src/lib/migrations.ts that upgrades them.
+ */
+export const CURRENT_SCHEMA_VERSION = 2;
+
 export const BlockDocumentSchema = z.object({
+  schemaVersion: z.number().int().positive(),
   id: z.string(),
   title: z.string(),
   blocks: z.record(z.string(), BlockSchema), // Map of blockId -> Block
@@ -197,13 +286,64 @@ export const BLOCK_CATALOG = {
       content: "",
     },
   },
+  "bulleted-list": {
+    name: "Bulleted List",
+    description: "A bulleted list item, nested via indent",
+    icon: "list",
+    defaultProps: {
+      content: "",
+      indent: 0,
+    },
+  },
+  "numbered-list": {
+    name: "Numbered List",
+    description: "A numbered list item, nested via indent",
+    icon: "list-ordered",
+    defaultProps: {
+      content: "",
+      indent: 0,
+    },
+  },
+  todo: {
+    name: "To-do",
+    description: "A checkbox to-do item, nested via indent",
+    icon: "list-todo",
+    defaultProps: {
+      content: "",
+      indent: 0,
+      checked: false,
+    },
+  },
+  table: {
+    name: "Table",
+    description: "A table with an optional header row",
+    icon: "table",
+    defaultProps: {
+      rows: [
+        ["", ""],
+        ["", ""],
+      ] as string[][],
+      hasHeaderRow: true,
+      columnAlign: ["left", "left"] as ("left" | "center" | "right")[],
+    },
+  },
   columns: {
     name: "Columns",
     description: "A multi-column layout container",
     icon: "columns",
     defaultProps: {
-      layout: "1-1" as const,
       columns: [[], []] as string[][],
+      widths: [1, 1] as number[],
+      stackBelow: "sm" as const,
+    },
+  },
+  custom: {
+    name: "Custom Block",
+    description: "A block of a type registered by the app",
+    icon: "puzzle",
+    defaultProps: {
+      blockType: "",
+      data: {} as Record<string, unknown>,
     },
   },
 } as const;
@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of a REST storage API; IndexedDB is used when unset */
+  readonly VITE_STORAGE_URL?: string;
+  /** WebSocket relay for collaboration; tabs sync via BroadcastChannel when unset */
+  readonly VITE_COLLAB_URL?: string;
+  /** OpenAI-compatible API root (e.g. http://localhost:8787/v1); mock responses when unset */
+  readonly VITE_AI_URL?: string;
+  /** Model name sent to VITE_AI_URL (default gpt-4o-mini) */
+  readonly VITE_AI_MODEL?: string;
+  /** Bearer token for VITE_AI_URL; exposed to the browser, so only for local or proxied endpoints */
+  readonly VITE_AI_API_KEY?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,55 @@
+/**
+ * Shared fixtures for unit tests
+ * Block IDs, documents built from blocks and a stub AI provider
+ */
+
+import type { AIProvider } from "@/lib/ai-provider";
+import { createDocument } from "@/lib/utils";
+import type { Block, BlockDocument } from "@/types/blocks";
+
+let blockIdCounter = 0;
+
+/**
+ * A unique, readable block ID (e.g. "block-3")
+ */
+export function createBlockId(): string {
+  blockIdCounter++;
+  return `block-${blockIdCounter}`;
+}
+
+interface TestDocumentOptions {
+  title?: string;
+  /** Blocks at the root, in order (defaults to all of them) */
+  rootBlockIds?: string[];
+}
+
+/**
+ * A document holding the given blocks.
+ */
+export function createTestDocument(
+  blocks: Block[],
+  { title, rootBlockIds }: TestDocumentOptions = {}
+): BlockDocument {
+  return {
+    ...createDocument(title),
+    blocks: Object.fromEntries(blocks.map((block) => [block.props.id, block])),
+    rootBlockIds: rootBlockIds ?? blocks.map((block) => block.props.id),
+  };
+}
+
+/**
+ * An AI provider that answers with nothing, with the given methods replaced.
+ */
+export function createTestProvider(
+  overrides: Partial<AIProvider> = {}
+): AIProvider {
+  return {
+    generateBlocks: () => Promise.resolve("[]"),
+    async *streamBlocks() {
+      yield await Promise.resolve("[]");
+    },
+    suggest: () => Promise.resolve([]),
+    transformText: () => Promise.resolve(""),
+    ...overrides,
+  };
+}